@@ -7,8 +7,24 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { scanTodos, processScanResults, loadPreviousState, findNewTodos, saveState } from './core/scanner';
-import { formatOutput, writeOutput, generateReportFilename, OutputFormat } from './formatters/outputFormatter';
+import * as readline from 'readline';
+import { scanTodos, processScanResults, trackNewTodos, applyPreviousIdentities } from './core/scanner';
+import { formatOutput, writeOutput, generateReportFilename, getFormatExtension, OutputFormat } from './formatters/outputFormatter';
+import { loadAuthorMap, OwnershipOptions } from './utils/ownership';
+import { DEFAULT_SCAN_CACHE_FILE } from './core/scanCache';
+import { loadAnalyzerConfig, AnalyzerConfig } from './core/config';
+import { appendHistory, createHistoryEntry, DEFAULT_HISTORY_FILE } from './core/scanHistory';
+import { DEFAULT_VISION_CACHE_DIR, VisionConfig, VisionProviderName } from './vision';
+import {
+  createCleanupSnapshot, saveCleanupSnapshot, loadCompletionWeights,
+  DEFAULT_CLEANUP_SNAPSHOT_FILE, DEFAULT_FEEDBACK_FILE, DEFAULT_WEIGHTS_FILE
+} from './core/completionCalibration';
+import type { CompletionReport } from './core/completionDetector';
+import type { CleanupChange } from './core/completionCleanup';
+import type { AuthProfile } from '@project-suite/shared';
+import type { VerificationResult } from './core/ProductionVerifier';
+import type { DeploymentReport } from './core/DeploymentWorkflow';
+import type { GeneratedApiChecks } from './core/apiChecks';
 
 const program = new Command();
 
@@ -47,8 +63,7 @@ function ensureProjectDirExists(rootPath: string): void {
 function getDefaultOutputPath(rootPath: string, format: string): string {
   const scansDir = getProjectScansDir(rootPath);
   const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  const extension = format === 'json' ? 'json' : format === 'csv' ? 'csv' : 'md';
-  return path.join(scansDir, `scan-${timestamp}.${extension}`);
+  return path.join(scansDir, `scan-${timestamp}.${getFormatExtension(format as OutputFormat)}`);
 }
 
 /**
@@ -71,6 +86,22 @@ function addDateToFilename(filePath: string): string {
   return path.join(dir, newBasename);
 }
 
+/**
+ * Load .project-analyzer.json (or --config), exiting with every validation error if it is invalid
+ */
+function loadConfigOrExit(rootPath: string, configPath?: string): AnalyzerConfig | null {
+  try {
+    const config = loadAnalyzerConfig(rootPath, configPath);
+    if (config) {
+      console.log(`⚙️  Config: ${config.source}`);
+    }
+    return config;
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+}
+
 program
   .name('project-analyzer')
   .description('Analyze repositories to identify TODOs, specifications, and implementation gaps')
@@ -81,7 +112,7 @@ program
   .command('scan [path]')
   .description('Scan a repository for TODO items')
   .option('-o, --output <path>', 'Output file path')
-  .option('-f, --format <format>', 'Output format (json, markdown, github, csv, summary)', 'markdown')
+  .option('-f, --format <format>', 'Output format (json, markdown, github, csv, summary, sarif, codeclimate)', 'markdown')
   .option('-g, --group-by <grouping>', 'Group results by (file, priority, type, none)', 'file')
   .option('--include <patterns...>', 'Include file patterns (glob)')
   .option('--exclude <patterns...>', 'Exclude file patterns (glob)')
@@ -91,6 +122,15 @@ program
   .option('--compact', 'Compact JSON output')
   .option('--state-file <path>', 'Path to state file for tracking processed TODOs')
   .option('--only-new', 'Only show new TODOs not in state file')
+  .option('--blame', 'Attach git blame author and age to each TODO')
+  .option('--author-map <path>', 'JSON file mapping author emails/names to GitHub usernames')
+  .option('--codeowners', 'Use CODEOWNERS for TODOs whose author cannot be mapped')
+  .option('--since <ref>', 'Only scan files changed relative to a git ref (e.g. main, HEAD~5)')
+  .option('--no-cache', 'Re-read every file instead of reusing the scan cache')
+  .option('--concurrency <n>', 'Number of files read in parallel', (value) => parseInt(value, 10))
+  .option('--config <path>', 'Analyzer config file (default: .project-analyzer.json in the scanned directory)')
+  .option('--no-history', 'Don\'t record this scan in the trend history')
+  .option('--gaps', 'Also report stubs: not-implemented throws, placeholder returns, empty functions, commented-out exports')
   .action(async (pathArg, options) => {
     const rootPath = path.resolve(pathArg || process.cwd());
 
@@ -104,18 +144,38 @@ program
         process.exit(1);
       }
 
+      const config = loadConfigOrExit(rootPath, options.config);
+
       // Ensure project analyzer directory exists
       ensureProjectDirExists(rootPath);
 
+      // Ownership: blame is needed to map authors, CODEOWNERS works without it
+      let ownership: OwnershipOptions | undefined;
+      if (options.blame || options.authorMap || options.codeowners) {
+        ownership = {
+          blame: Boolean(options.blame || options.authorMap),
+          authorMap: options.authorMap ? loadAuthorMap(path.resolve(options.authorMap)) : undefined,
+          codeOwners: Boolean(options.codeowners)
+        };
+      }
+
       // Perform scan
       const result = await scanTodos({
         rootPath,
+        config,
         includePatterns: options.include,
         excludePatterns: options.exclude,
         useGitignore: options.gitignore !== false,
         includeCompleted: options.includeCompleted,
         excludeArchives: options.excludeArchives,
-        groupByFile: options.groupBy === 'file'
+        groupByFile: options.groupBy === 'file',
+        ownership,
+        cachePath: options.cache !== false
+          ? path.join(getProjectAnalyzerDir(rootPath), DEFAULT_SCAN_CACHE_FILE)
+          : undefined,
+        since: options.since,
+        concurrency: options.concurrency,
+        detectGaps: options.gaps
       });
 
       // Process results to add IDs and hashes
@@ -124,25 +184,40 @@ program
       // Handle state file and new TODOs filtering
       const statePath = options.stateFile || path.join(getProjectAnalyzerDir(rootPath), 'state.json');
 
-      if (options.stateFile || options.onlyNew) {
-        const previousHashes = loadPreviousState(statePath);
+      // Keep identities of TODOs that moved, were edited or renamed since the last scan
+      processedResult.todos = applyPreviousIdentities(processedResult.todos, statePath, rootPath);
+      const scannedTodos = processedResult.todos;
 
-        if (options.onlyNew) {
-          const newTodos = findNewTodos(processedResult.todos, previousHashes);
-          processedResult.todos = newTodos;
-          processedResult.summary.totalTodos = newTodos.length;
-          console.log(`🆕 Found ${newTodos.length} new TODO(s)`);
-        }
+      // Always save state to track processed TODOs (except for partial --since scans)
+      const { getHeadCommit, getCommitAuthor } = await import('./utils/gitIntegration');
+      const gitCommit = getHeadCommit(rootPath) || undefined;
+      const newTodos = trackNewTodos(scannedTodos, statePath, { save: !options.since, metadata: { gitCommit } });
+
+      if (options.onlyNew) {
+        processedResult.todos = newTodos;
+        processedResult.summary.totalTodos = newTodos.length;
+        processedResult.summary.onlyNew = true;
+        console.log(`🆕 Found ${newTodos.length} new TODO(s)`);
       }
 
-      // Always save state to track processed TODOs
-      saveState(statePath, processedResult.todos);
+      // Record the full scan in the trend history
+      if (!options.since && options.history !== false) {
+        appendHistory(
+          path.join(getProjectAnalyzerDir(rootPath), DEFAULT_HISTORY_FILE),
+          createHistoryEntry(scannedTodos, {
+            scanDate: processedResult.scanDate,
+            gitCommit,
+            commitAuthor: gitCommit ? getCommitAuthor(rootPath) || undefined : undefined
+          })
+        );
+      }
 
       // Format output
       const formatted = formatOutput(processedResult, {
         format: options.format as OutputFormat,
         groupBy: options.groupBy,
-        compact: options.compact
+        compact: options.compact,
+        patterns: config ? [...config.patternSet.code, ...config.patternSet.markdown] : undefined
       });
 
       // Determine output path
@@ -156,12 +231,20 @@ program
       // Write output
       writeOutput(formatted, outputPath);
       console.log(`✅ Output written to: ${outputPath}`);
-      console.log(`💾 State saved to: ${statePath}`);
+      if (options.since) {
+        console.log(`ℹ️  State not updated (partial scan since ${options.since})`);
+      } else {
+        console.log(`💾 State saved to: ${statePath}`);
+      }
 
       // Print summary to console
       console.log('\n📊 Scan Complete:');
       console.log(`   Total TODOs: ${processedResult.summary.totalTodos}`);
       console.log(`   Files scanned: ${processedResult.summary.filesScanned}`);
+      if (processedResult.summary.cache) {
+        const { hits, misses, hitRate } = processedResult.summary.cache;
+        console.log(`   Cache: ${hits} hits, ${misses} misses (${(hitRate * 100).toFixed(1)}% hit rate)`);
+      }
       console.log(`   Duration: ${processedResult.summary.scanDuration}ms`);
 
     } catch (error) {
@@ -208,15 +291,108 @@ program
     }
   });
 
+/**
+ * Ask whether to apply one cleanup change (y/n, a = all remaining, q = none of the remaining)
+ */
+function createCleanupReviewer(): { confirm: (change: CleanupChange) => Promise<boolean>; close: () => void } {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  let answerAll: boolean | null = null;
+
+  const confirm = async (change: CleanupChange): Promise<boolean> => {
+    if (answerAll !== null) return answerAll;
+
+    console.log(`\n📄 ${change.file}:${change.line} [${change.todo.type}] (${change.confidence.toFixed(0)}% confident)`);
+    change.before.forEach(line => console.log(`  - ${line}`));
+    change.after.forEach(line => console.log(`  + ${line}`));
+
+    const answer = await new Promise<string>(resolve => rl.question('Apply? [y]es / [n]o / [a]ll / [q]uit: ', resolve));
+    switch (answer.trim().toLowerCase()) {
+      case 'y':
+      case 'yes':
+        return true;
+      case 'a':
+        answerAll = true;
+        return true;
+      case 'q':
+        answerAll = false;
+        return false;
+      default:
+        return false;
+    }
+  };
+
+  return { confirm, close: () => rl.close() };
+}
+
+interface ApplyCleanupOptions {
+  minConfidence: string;
+  markdown: string;
+  patch?: string;
+  branch?: string;
+  interactive?: boolean;
+}
+
+/**
+ * Retire likely-completed TODOs: in place, as a patch, or on a new branch
+ */
+async function applyCleanup(report: CompletionReport, rootPath: string, options: ApplyCleanupOptions): Promise<void> {
+  const { planCleanup, writeCleanupInPlace, formatCleanupPatch, commitCleanupToBranch } = await import('./core/completionCleanup');
+  const { formatCleanupSummary } = await import('./formatters/completionFormatter');
+
+  if (options.markdown !== 'check' && options.markdown !== 'move') {
+    throw new Error(`--markdown must be "check" or "move", got "${options.markdown}"`);
+  }
+  if (options.patch && options.branch) {
+    throw new Error('Use either --patch or --branch, not both');
+  }
+
+  const reviewer = options.interactive ? createCleanupReviewer() : null;
+  let plan;
+  try {
+    plan = await planCleanup(report, rootPath, {
+      minConfidence: parseInt(options.minConfidence, 10),
+      markdownMode: options.markdown,
+      confirm: reviewer?.confirm
+    });
+  } finally {
+    reviewer?.close();
+  }
+
+  console.log('\n' + formatCleanupSummary(plan));
+
+  if (plan.files.length === 0) {
+    console.log('ℹ️  Nothing to change');
+    return;
+  }
+
+  if (options.patch) {
+    const patchPath = path.resolve(options.patch);
+    writeOutput(formatCleanupPatch(plan), patchPath);
+    console.log(`💡 Apply with: git apply ${patchPath}`);
+  } else if (options.branch) {
+    const commit = commitCleanupToBranch(plan, rootPath, options.branch);
+    console.log(`✅ Committed ${commit.slice(0, 7)} to branch ${options.branch} (working tree unchanged)`);
+  } else {
+    writeCleanupInPlace(plan, rootPath);
+    console.log(`✅ Updated ${plan.files.length} files`);
+  }
+}
+
 // Cleanup command - analyze completion status
 program
   .command('cleanup [path]')
   .description('Analyze TODOs for completion and generate cleanup report')
   .option('-o, --output <path>', 'Output file path')
   .option('-f, --format <format>', 'Output format (json, markdown, summary)', 'markdown')
-  .option('--min-confidence <number>', 'Minimum confidence level (0-100)', '70')
+  .option('--min-confidence <number>', 'Minimum confidence for --apply (0-100)', '90')
   .option('--exclude-archives', 'Exclude TODOs from archive directories')
   .option('--use-git', 'Use git history for enhanced detection', false)
+  .option('--apply', 'Retire TODOs at or above --min-confidence (edits files in place)')
+  .option('--patch <path>', 'With --apply, write a unified diff instead of editing files')
+  .option('--branch <name>', 'With --apply, commit the changes to a new git branch instead of editing files')
+  .option('-i, --interactive', 'With --apply, confirm each change')
+  .option('--markdown <mode>', 'With --apply, tick markdown checkboxes (check) or move them to a Done section (move)', 'check')
+  .option('--config <path>', 'Analyzer config file (default: .project-analyzer.json in the scanned directory)')
   .action(async (pathArg, options) => {
     const rootPath = path.resolve(pathArg || process.cwd());
 
@@ -228,14 +404,28 @@ program
       const { formatCompletionReportAsMarkdown, formatCompletionSummary, formatCompletionReportAsJSON, formatCleanupCandidates } = await import('./formatters/completionFormatter');
 
       // Perform scan
-      const result = await scanTodos({
+      const result = processScanResults(await scanTodos({
         rootPath,
+        config: loadConfigOrExit(rootPath, options.config),
         excludeArchives: options.excludeArchives
-      });
+      }));
+
+      // Use weights fitted by `calibrate`, when there are any
+      const analyzerDir = getProjectAnalyzerDir(rootPath);
+      const weights = loadCompletionWeights(path.join(analyzerDir, DEFAULT_WEIGHTS_FILE)) || undefined;
+      if (weights) {
+        console.log('⚖️  Using calibrated weights');
+      }
 
       // Analyze completions
       console.log('🔍 Analyzing completion indicators...');
-      const completionReport = analyzeCompletions(result.todos, rootPath);
+      if (options.useGit) {
+        console.log('📚 Loading git history...');
+      }
+      const completionReport = analyzeCompletions(result.todos, rootPath, { useGit: options.useGit, weights });
+
+      // Remember the signals so `feedback` can label these suggestions
+      saveCleanupSnapshot(path.join(analyzerDir, DEFAULT_CLEANUP_SNAPSHOT_FILE), createCleanupSnapshot(completionReport));
 
       // Get top cleanup candidates
       const topCandidates = getTopCleanupCandidates(completionReport, 10);
@@ -273,12 +463,171 @@ program
       console.log(`   Active tasks: ${stats.activeCount}`);
       console.log(`   Potential cleanup: ${stats.likelyCompleted + stats.probablyCompleted} TODOs`);
 
+      if (options.apply) {
+        await applyCleanup(completionReport, rootPath, options);
+      }
+
     } catch (error) {
       console.error('❌ Error during cleanup analysis:', error);
       process.exit(1);
     }
   });
 
+// Feedback command - label cleanup suggestions for calibration
+program
+  .command('feedback [path]')
+  .description('Record whether suggestions from the last cleanup run were really completed')
+  .option('--correct <ids...>', 'TODOs that are done (file:line or hash)')
+  .option('--incorrect <ids...>', 'TODOs that are still open (file:line or hash)')
+  .option('--file <path>', 'JSON file of [{ "id": "...", "verdict": "correct" | "incorrect" }]')
+  .action(async (pathArg, options) => {
+    const rootPath = path.resolve(pathArg || process.cwd());
+
+    try {
+      const { loadCleanupSnapshot, parseFeedbackFile, resolveVerdicts, appendFeedback, loadFeedback } = await import('./core/completionCalibration');
+
+      const analyzerDir = getProjectAnalyzerDir(rootPath);
+      const snapshot = loadCleanupSnapshot(path.join(analyzerDir, DEFAULT_CLEANUP_SNAPSHOT_FILE));
+      if (!snapshot) {
+        console.error('❌ No cleanup results to give feedback on. Run `cleanup` first.');
+        process.exit(1);
+      }
+
+      const verdicts = [
+        ...(options.correct || []).map((id: string) => ({ id, verdict: 'correct' as const })),
+        ...(options.incorrect || []).map((id: string) => ({ id, verdict: 'incorrect' as const }))
+      ];
+      if (options.file) {
+        verdicts.push(...parseFeedbackFile(JSON.parse(fs.readFileSync(options.file, 'utf-8')), options.file));
+      }
+      if (verdicts.length === 0) {
+        console.error('❌ Nothing to record. Use --correct, --incorrect or --file.');
+        process.exit(1);
+      }
+
+      const feedbackPath = path.join(analyzerDir, DEFAULT_FEEDBACK_FILE);
+      const entries = resolveVerdicts(snapshot, verdicts);
+      appendFeedback(feedbackPath, entries);
+
+      const correct = entries.filter(entry => entry.verdict === 'correct').length;
+      console.log(`📝 Recorded ${entries.length} verdicts (${correct} correct, ${entries.length - correct} incorrect)`);
+      console.log(`   Labeled TODOs: ${loadFeedback(feedbackPath).length}`);
+
+    } catch (error) {
+      console.error('❌ Error recording feedback:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Calibrate command - fit completion weights to feedback
+program
+  .command('calibrate [path]')
+  .description('Fit completion confidence weights to recorded feedback')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (markdown, json)', 'markdown')
+  .option('--min-precision <number>', 'Precision the suggested --min-confidence must reach (0-1)', '0.9')
+  .option('--no-save', 'Report only; do not save the fitted weights')
+  .action(async (pathArg, options) => {
+    const rootPath = path.resolve(pathArg || process.cwd());
+
+    try {
+      const { loadFeedback, calibrateWeights, saveCompletionWeights } = await import('./core/completionCalibration');
+      const { formatCalibrationReport } = await import('./formatters/completionFormatter');
+
+      const analyzerDir = getProjectAnalyzerDir(rootPath);
+      const feedback = loadFeedback(path.join(analyzerDir, DEFAULT_FEEDBACK_FILE));
+      if (feedback.length === 0) {
+        console.log('ℹ️  No feedback recorded yet. Run `cleanup`, then `feedback --correct/--incorrect`.');
+        return;
+      }
+      if (feedback.length < 20) {
+        console.log(`⚠️  Only ${feedback.length} labeled TODOs; the fit will be rough until there are at least 20.`);
+      }
+
+      const result = calibrateWeights(feedback, undefined, { minPrecision: parseFloat(options.minPrecision) });
+      const formatted = formatCalibrationReport(result, options.format);
+
+      if (options.output) {
+        const outputPath = addDateToFilename(options.output);
+        writeOutput(formatted, outputPath);
+        console.log(`✅ Output written to: ${outputPath}`);
+      } else {
+        console.log(formatted);
+      }
+
+      if (options.save) {
+        const weightsPath = path.join(analyzerDir, DEFAULT_WEIGHTS_FILE);
+        saveCompletionWeights(weightsPath, result);
+        console.log(`💾 Calibrated weights saved to ${weightsPath}; cleanup will use them from now on`);
+      }
+
+    } catch (error) {
+      console.error('❌ Error during calibration:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+interface TraceabilityCommandOptions {
+  format: string;
+  output?: string;
+  planningPaths?: string[];
+  registry?: string;
+}
+
+/**
+ * `features --trace`: requirement -> files -> tests matrix from annotations
+ */
+async function reportTraceability(rootPath: string, options: TraceabilityCommandOptions): Promise<void> {
+  console.log(`🔗 Tracing requirements: ${rootPath}`);
+
+  try {
+    const { analyzeTraceability } = await import('./core/traceability');
+    const {
+      formatTraceabilityAsMarkdown,
+      formatTraceabilityAsCSV,
+      formatTraceabilityAsJSON,
+      formatTraceabilitySummary
+    } = await import('./formatters/traceabilityFormatter');
+
+    const matrix = await analyzeTraceability({
+      rootPath,
+      planningPaths: options.planningPaths,
+      registryPath: options.registry ? path.resolve(options.registry) : undefined
+    });
+
+    let formatted: string;
+    switch (options.format) {
+      case 'json':
+        formatted = formatTraceabilityAsJSON(matrix);
+        break;
+      case 'csv':
+        formatted = formatTraceabilityAsCSV(matrix);
+        break;
+      case 'summary':
+        formatted = formatTraceabilitySummary(matrix);
+        break;
+      default:
+        formatted = formatTraceabilityAsMarkdown(matrix);
+    }
+
+    if (options.output) {
+      const outputPath = addDateToFilename(options.output);
+      writeOutput(formatted, outputPath);
+      console.log(`✅ Output written to: ${outputPath}`);
+    } else {
+      console.log('\n' + formatted);
+    }
+
+    if (options.format !== 'summary') {
+      console.log(formatTraceabilitySummary(matrix));
+    }
+
+  } catch (error) {
+    console.error('❌ Error during traceability analysis:', error);
+    process.exit(1);
+  }
+}
+
 // Feature analysis command
 program
   .command('features [path]')
@@ -288,9 +637,16 @@ program
   .option('--min-confidence <number>', 'Minimum confidence level (0-100)', '0')
   .option('--planning-paths <paths...>', 'Directories to search for planning documents', ['docs', 'memory-bank'])
   .option('--include-checked', 'Include features already marked as checked', false)
+  .option('--trace', 'Report traceability from @implements/@feature annotations instead of keyword detection')
+  .option('--registry <path>', 'With --trace, feature registry CSV to trace alongside plan items')
   .action(async (pathArg, options) => {
     const rootPath = path.resolve(pathArg || process.cwd());
 
+    if (options.trace) {
+      await reportTraceability(rootPath, options);
+      return;
+    }
+
     console.log(`🔍 Analyzing feature implementation: ${rootPath}`);
 
     try {
@@ -350,11 +706,34 @@ program
     }
   });
 
+interface VisionCommandOptions {
+  vision?: VisionProviderName;
+  model?: string;
+  fixtures?: string;
+  recordFixtures?: string;
+  visionCache: boolean;
+}
+
+/**
+ * Vision provider config from the shared vision options
+ */
+function buildVisionConfig(options: VisionCommandOptions): VisionConfig {
+  return {
+    provider: options.vision,
+    model: options.model,
+    fixturesDir: options.fixtures ? path.resolve(options.fixtures) : undefined,
+    recordDir: options.recordFixtures ? path.resolve(options.recordFixtures) : undefined,
+    cacheDir: options.visionCache
+      ? path.join(getProjectAnalyzerDir(process.cwd()), DEFAULT_VISION_CACHE_DIR)
+      : undefined
+  };
+}
+
 // Analyze designs command
 program
   .command('analyze-designs')
   .description('Extract features from design files, moodboards, wireframes, and screenshots')
-  .option('--designs <files...>', 'Design file paths (PNG, JPG, etc.)')
+  .option('--designs <files...>', 'Design file paths (PNG, JPG, etc., or Figma/Sketch JSON exports)')
   .option('--moodboards <files...>', 'Moodboard image paths')
   .option('--wireframes <files...>', 'Wireframe image paths')
   .option('--screenshots <files...>', 'Screenshot image paths')
@@ -364,6 +743,13 @@ program
   .option('--project-name <name>', 'Project name for context')
   .option('--platform <platform>', 'Target platform (web, mobile, desktop)', 'web')
   .option('--domain <domain>', 'Industry/domain')
+  .option('--vision <provider>', 'Vision provider (anthropic, fixtures)')
+  .option('--model <model>', 'Vision model (default: ANTHROPIC_MODEL or the provider default)')
+  .option('--fixtures <dir>', 'Replay recorded vision responses from this directory (no API calls)')
+  .option('--record-fixtures <dir>', 'Save every vision response as a fixture in this directory')
+  .option('--no-vision-cache', 'Always call the vision API instead of reusing cached responses')
+  .option('--extract-colors', 'Extract the color palette from the images', false)
+  .option('--extract-typography', 'Infer typography with the vision provider', false)
   .action(async (options) => {
     console.log('🎨 Analyzing design files...');
 
@@ -385,7 +771,10 @@ program
         moodboards: options.moodboards,
         wireframes: options.wireframes,
         screenshots: options.screenshots,
-        includeLowConfidence: options.includeLowConfidence
+        includeLowConfidence: options.includeLowConfidence,
+        extractColors: options.extractColors,
+        extractTypography: options.extractTypography,
+        vision: buildVisionConfig(options)
       };
 
       // Build context
@@ -403,6 +792,13 @@ program
       console.log(`✅ Found ${result.features.length} features`);
       console.log(`   Average confidence: ${result.summary.averageConfidence}%`);
 
+      if (result.warnings) {
+        console.log(`⚠️  ${result.warnings.length} warning(s):`);
+        for (const warning of result.warnings) {
+          console.log(`   ${warning}`);
+        }
+      }
+
       // Export based on format
       const { formatFeaturesAsCSV, formatFeaturesAsJSON, formatFeaturesAsMarkdown, writeFeaturesToFile } = await import('./formatters/featureFormatter');
 
@@ -434,6 +830,89 @@ program
     }
   });
 
+// Design tokens command
+program
+  .command('design-tokens <images...>')
+  .description('Extract the color palette and typography from design images, optionally comparing them with the implementation')
+  .option('--typography', 'Infer typography with the vision provider', false)
+  .option('--code [path]', 'Compare with the tokens in the stylesheets and Tailwind config under this directory (default: current directory)')
+  .option('--url <url>', 'Compare with the computed styles of a live page')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (markdown, json, summary)', 'markdown')
+  .option('--vision <provider>', 'Vision provider (anthropic, fixtures)')
+  .option('--model <model>', 'Vision model (default: ANTHROPIC_MODEL or the provider default)')
+  .option('--fixtures <dir>', 'Replay recorded vision responses from this directory (no API calls)')
+  .option('--record-fixtures <dir>', 'Save every vision response as a fixture in this directory')
+  .option('--no-vision-cache', 'Always call the vision API instead of reusing cached responses')
+  .action(async (images: string[], options) => {
+    console.log(`🎨 Extracting design tokens from ${images.length} image(s)...`);
+
+    try {
+      if (options.code && options.url) {
+        console.error('❌ Error: --code and --url cannot be combined');
+        process.exit(1);
+      }
+
+      const { DesignAnalyzer } = await import('./core/DesignAnalyzer');
+      const { compareDesignTokens, paletteToTokens } = await import('./core/designTokens');
+      const {
+        formatDesignTokensAsMarkdown,
+        formatDriftReportAsMarkdown,
+        formatDesignTokensAsJSON,
+        formatDriftSummary
+      } = await import('./formatters/designTokenFormatter');
+
+      const analyzer = new DesignAnalyzer({
+        designFiles: images.map(image => path.resolve(image)),
+        extractTypography: options.typography,
+        vision: buildVisionConfig(options)
+      });
+      const tokens = await analyzer.extractDesignTokens();
+
+      for (const warning of tokens.warnings) {
+        console.log(`⚠️  ${warning}`);
+      }
+      console.log(`✅ Found ${tokens.palette.length} colors`);
+
+      let formatted: string;
+      if (options.code || options.url) {
+        const { extractCodeTokens, extractPageTokens } = await import('./core/codeTokens');
+        const implementation = options.url
+          ? await extractPageTokens(options.url)
+          : await extractCodeTokens(path.resolve(options.code === true ? '.' : options.code));
+        console.log(`🔍 Found ${implementation.colors.length} colors and ${implementation.typography.fontFamilies.length} font families in ${implementation.source}`);
+
+        const design = paletteToTokens(images.join(', '), tokens.palette, tokens.typography || {
+          fontFamilies: [], headingSizes: [], bodySizes: [], lineHeights: [], fontWeights: []
+        });
+        const report = compareDesignTokens(design, implementation);
+
+        formatted = options.format === 'json'
+          ? formatDesignTokensAsJSON(report)
+          : options.format === 'summary' ? formatDriftSummary(report) : formatDriftReportAsMarkdown(report);
+        if (options.format !== 'summary') {
+          console.log(formatDriftSummary(report));
+        }
+      } else {
+        formatted = options.format === 'json'
+          ? formatDesignTokensAsJSON(tokens)
+          : formatDesignTokensAsMarkdown(tokens);
+      }
+
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        writeOutput(formatted, outputPath);
+        console.log(`📄 Output written to: ${outputPath}`);
+      } else {
+        console.log('\n' + formatted);
+      }
+
+    } catch (error) {
+      console.error('❌ Error extracting design tokens:', error);
+      process.exit(1);
+    }
+  });
+
 // Analyze website command
 program
   .command('analyze-website <url>')
@@ -441,6 +920,15 @@ program
   .option('-o, --output <path>', 'Output CSV file path', 'features.csv')
   .option('-f, --format <format>', 'Output format (csv, json, markdown)', 'csv')
   .option('--crawl-depth <depth>', 'Crawl depth for linked pages', '0')
+  .option('--max-pages <n>', 'Maximum number of pages to crawl', '50')
+  .option('--concurrency <n>', 'Pages analyzed in parallel (one browser each)', '2')
+  .option('--include <patterns...>', 'Only crawl URLs matching these globs (e.g. "/docs/**")')
+  .option('--exclude <patterns...>', 'Never crawl URLs matching these globs')
+  .option('--ignore-robots', 'Follow links that robots.txt disallows', false)
+  .option('--no-sitemap', 'Do not seed the crawl from sitemap.xml')
+  .option('--site-map <path>', 'Where to write the crawled site map (JSON, default: site-map.json next to the output)')
+  .option('--auth <profile>', 'Sign in with a saved auth profile before crawling (see "auth")')
+  .option('--auth-dir <path>', 'Auth profile directory (default: $PROJECT_SUITE_AUTH_DIR or .project-suite/auth)')
   .option('--capture-screenshots', 'Capture screenshots of analyzed pages', false)
   .option('--analyze-interactions', 'Analyze interactive elements', true)
   .option('--analyze-apis', 'Analyze API calls via network monitoring', false)
@@ -455,14 +943,28 @@ program
       // Create analyzer
       const analyzer = new ProjectAnalyzer(process.cwd());
 
+      let authProfile;
+      if (options.auth) {
+        const { AuthProfileStore } = await import('@project-suite/shared');
+        authProfile = new AuthProfileStore(options.authDir).load(options.auth);
+        console.log(`🔐 Signing in with auth profile "${authProfile.name}"`);
+      }
+
       // Build analysis options
       const analysisOptions = {
         urls: [url],
         crawlDepth: parseInt(options.crawlDepth),
+        maxPages: parseInt(options.maxPages, 10),
+        concurrency: parseInt(options.concurrency, 10),
+        includePatterns: options.include,
+        excludePatterns: options.exclude,
+        respectRobots: !options.ignoreRobots,
+        useSitemap: options.sitemap,
         captureScreenshots: options.captureScreenshots,
         analyzeInteractions: options.analyzeInteractions,
         analyzeAPIs: options.analyzeApis,
-        includeLowConfidence: options.includeLowConfidence
+        includeLowConfidence: options.includeLowConfidence,
+        authProfile
       };
 
       // Build context
@@ -487,6 +989,13 @@ program
       await writeFeaturesToFile(result, outputPath, options.format as any);
 
       console.log(`📄 Output written to: ${outputPath}`);
+
+      if (result.siteMap) {
+        const siteMapPath = path.resolve(options.siteMap || path.join(path.dirname(outputPath), 'site-map.json'));
+        writeOutput(JSON.stringify(result.siteMap, null, 2), siteMapPath);
+        console.log(`🕸️  Crawled ${result.siteMap.pages.length} page(s), skipped ${result.siteMap.skipped.length}; site map written to: ${siteMapPath}`);
+      }
+
       console.log('\n📊 Summary by Category:');
       for (const [category, count] of Object.entries(result.summary.byCategory)) {
         console.log(`   ${category}: ${count}`);
@@ -503,6 +1012,555 @@ program
     }
   });
 
+/**
+ * Save an auth profile and report where it went
+ */
+async function saveAuthProfile(profile: AuthProfile, dir?: string): Promise<void> {
+  const { AuthProfileStore } = await import('@project-suite/shared');
+  const store = new AuthProfileStore(dir);
+  const filePath = store.save(profile);
+  console.log(`✅ Saved auth profile "${profile.name}" (${profile.type}) to ${filePath}`);
+  if (!store.encrypts) {
+    console.log('⚠️  Stored unencrypted; set PROJECT_SUITE_AUTH_KEY to encrypt profiles, or use env:NAME for secrets');
+  }
+}
+
+// Auth profile commands
+const auth = program
+  .command('auth')
+  .description('Manage saved logins for analyze-website and production verification');
+
+auth
+  .command('add-form <name>')
+  .description('Save a form login (username/password, optional TOTP for MFA)')
+  .requiredOption('--login-url <url>', 'Page with the login form')
+  .requiredOption('--username <username>', 'Username, or env:NAME to read it at login time')
+  .requiredOption('--password <password>', 'Password, or env:NAME to read it at login time')
+  .option('--username-selector <selector>', 'Username field')
+  .option('--password-selector <selector>', 'Password field')
+  .option('--submit-selector <selector>', 'Submit button')
+  .option('--totp-secret <secret>', 'Base32 TOTP secret or otpauth:// URI (or env:NAME)')
+  .option('--totp-selector <selector>', 'One-time code field', 'input[autocomplete="one-time-code"], input[name="otp"], input[name="code"]')
+  .option('--totp-submit <selector>', 'Button that submits the code (default: the submit selector)')
+  .option('--success-selector <selector>', 'Element that only appears once signed in')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (name, options) => {
+    try {
+      const { DEFAULT_LOGIN_SELECTORS } = await import('@project-suite/shared');
+      const customSelectors = options.usernameSelector || options.passwordSelector || options.submitSelector;
+
+      await saveAuthProfile({
+        name,
+        type: 'form',
+        baseUrl: new URL(options.loginUrl).origin,
+        form: {
+          loginUrl: options.loginUrl,
+          username: options.username,
+          password: options.password,
+          selectors: customSelectors ? {
+            username: options.usernameSelector || DEFAULT_LOGIN_SELECTORS.username,
+            password: options.passwordSelector || DEFAULT_LOGIN_SELECTORS.password,
+            submit: options.submitSelector || DEFAULT_LOGIN_SELECTORS.submit
+          } : undefined,
+          totp: options.totpSecret ? {
+            secret: options.totpSecret,
+            selector: options.totpSelector,
+            submit: options.totpSubmit
+          } : undefined,
+          successSelector: options.successSelector
+        },
+        createdAt: new Date().toISOString()
+      }, options.dir);
+    } catch (error) {
+      console.error('❌ Error saving auth profile:', error);
+      process.exit(1);
+    }
+  });
+
+auth
+  .command('import-cookies <name> <file>')
+  .description('Save cookies exported from a browser (Playwright/extension JSON or Netscape cookies.txt)')
+  .option('--base-url <url>', 'Site the cookies sign in to')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (name, file, options) => {
+    try {
+      const { parseCookieFile } = await import('@project-suite/shared');
+      const cookies = parseCookieFile(fs.readFileSync(file, 'utf-8'));
+      if (cookies.length === 0) {
+        throw new Error(`No cookies found in ${file}`);
+      }
+
+      await saveAuthProfile({
+        name,
+        type: 'cookies',
+        baseUrl: options.baseUrl,
+        cookies,
+        createdAt: new Date().toISOString()
+      }, options.dir);
+      console.log(`   ${cookies.length} cookie(s) for ${[...new Set(cookies.map(cookie => cookie.domain))].join(', ')}`);
+    } catch (error) {
+      console.error('❌ Error importing cookies:', error);
+      process.exit(1);
+    }
+  });
+
+auth
+  .command('import-state <name> <file>')
+  .description('Save a Playwright storageState file (cookies and localStorage)')
+  .option('--base-url <url>', 'Site the session signs in to')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (name, file, options) => {
+    try {
+      const storageState = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (!Array.isArray(storageState.cookies) || !Array.isArray(storageState.origins)) {
+        throw new Error(`${file} is not a Playwright storageState file (expected "cookies" and "origins")`);
+      }
+
+      await saveAuthProfile({
+        name,
+        type: 'storage-state',
+        baseUrl: options.baseUrl,
+        storageState,
+        createdAt: new Date().toISOString()
+      }, options.dir);
+    } catch (error) {
+      console.error('❌ Error importing storage state:', error);
+      process.exit(1);
+    }
+  });
+
+auth
+  .command('list')
+  .description('List saved auth profiles')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (options) => {
+    try {
+      const { AuthProfileStore } = await import('@project-suite/shared');
+      const store = new AuthProfileStore(options.dir);
+      const names = store.list();
+      if (names.length === 0) {
+        console.log(`No auth profiles in ${store.directory}`);
+        return;
+      }
+
+      console.log(`🔐 Auth profiles in ${store.directory}:`);
+      for (const name of names) {
+        try {
+          const profile = store.load(name);
+          const mfa = profile.form?.totp ? ', TOTP' : '';
+          console.log(`   ${name} (${profile.type}${mfa})${profile.baseUrl ? ` ${profile.baseUrl}` : ''}`);
+        } catch (error) {
+          console.log(`   ${name} (${error instanceof Error ? error.message : error})`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error listing auth profiles:', error);
+      process.exit(1);
+    }
+  });
+
+auth
+  .command('remove <name>')
+  .description('Delete a saved auth profile')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (name, options) => {
+    try {
+      const { AuthProfileStore } = await import('@project-suite/shared');
+      if (!new AuthProfileStore(options.dir).remove(name)) {
+        throw new Error(`Auth profile "${name}" not found`);
+      }
+      console.log(`🗑️  Removed auth profile "${name}"`);
+    } catch (error) {
+      console.error('❌ Error removing auth profile:', error);
+      process.exit(1);
+    }
+  });
+
+auth
+  .command('test <name> <url>')
+  .description('Sign in with a profile, open a URL and show where the browser ends up')
+  .option('--save-state <path>', 'Write the signed-in session as a Playwright storageState file')
+  .option('--dir <path>', 'Auth profile directory')
+  .action(async (name, url, options) => {
+    try {
+      const { AuthProfileStore, launchAuthenticatedDriver } = await import('@project-suite/shared');
+      const profile = new AuthProfileStore(options.dir).load(name);
+
+      console.log(`🔐 Signing in with "${name}"...`);
+      const driver = await launchAuthenticatedDriver(profile, { headless: true });
+      try {
+        await driver.navigate({ url });
+        const content = await driver.getContent();
+        console.log(`✅ ${content.url} — "${content.title}"`);
+
+        const loginUrl = profile.form?.loginUrl;
+        if (loginUrl && new URL(content.url).pathname === new URL(loginUrl).pathname) {
+          console.log('⚠️  Ended up on the login page; the session may not be valid');
+        }
+
+        if (options.saveState) {
+          writeOutput(JSON.stringify(await driver.getStorageState(), null, 2), path.resolve(options.saveState));
+        }
+      } finally {
+        await driver.close();
+      }
+    } catch (error) {
+      console.error('❌ Error testing auth profile:', error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * One-line tier summary for verify output
+ */
+function formatTierCounts(result: Pick<VerificationResult, 'tier1' | 'tier2' | 'tier3'>): string {
+  return ([['T1', result.tier1], ['T2', result.tier2], ['T3', result.tier3]] as const)
+    .map(([label, tier]) => `${label} ${tier.status === 'skipped' ? 'skipped' : `${tier.passed}/${tier.total}`}`)
+    .join(' · ');
+}
+
+// Verify command
+program
+  .command('verify <spec>')
+  .description('Run the Tier 1/2/3 checks in a verification spec (YAML or JSON) against an environment')
+  .option('-e, --env <name>', 'Environment from the spec to verify (default: production, or the only one)')
+  .option('--compare <environments>', 'Compare two environments, candidate first (e.g. staging,production)')
+  .option('-o, --output <path>', 'Write the markdown report to this file')
+  .option('--junit <path>', 'Write a JUnit XML report (a testcase per check)')
+  .option('--json <path>', 'Write a JSON report with timings, screenshots and network evidence')
+  .option('--test-status [dir]', 'Record the run for the dashboard tests view (default: .test-status)')
+  .option('--screenshots <dir>', 'Capture a full-page screenshot of each feature (and of failed checks) into this directory')
+  .option('--timeout <ms>', 'Navigation timeout per check')
+  .option('--auth-dir <path>', 'Auth profile directory (default: $PROJECT_SUITE_AUTH_DIR or .project-suite/auth)')
+  .action(async (specPath, options) => {
+    try {
+      const { loadVerificationSpec, buildVerificationTargets, defaultEnvironment } = await import('./core/verificationSpec');
+      const { ProductionVerifier } = await import('./core/ProductionVerifier');
+      const { formatVerificationJUnit, formatVerificationJSON, deploymentResults } = await import('./formatters/verificationFormatter');
+      const { recordTestRun, verificationTestRun, DEFAULT_TEST_STATUS_DIR } = await import('./core/testStatus');
+      const { AuthProfileStore } = await import('@project-suite/shared');
+
+      const spec = loadVerificationSpec(specPath);
+      const verifier = new ProductionVerifier(new AuthProfileStore(options.authDir));
+      const specFile = path.relative(process.cwd(), path.resolve(specPath));
+
+      // JUnit, JSON and .test-status output, per environment for the status feed
+      const writeReports = (results: VerificationResult[], environments: Record<string, string>, deployment?: DeploymentReport) => {
+        if (options.junit) {
+          writeOutput(formatVerificationJUnit(results), path.resolve(options.junit));
+        }
+        if (options.json) {
+          writeOutput(formatVerificationJSON(results, deployment), path.resolve(options.json));
+        }
+        if (options.testStatus) {
+          const statusDir = path.resolve(options.testStatus === true ? DEFAULT_TEST_STATUS_DIR : options.testStatus);
+          for (const [environment, name] of Object.entries(environments)) {
+            const run = verificationTestRun(results.filter(result => result.environment === environment), `verification-${name}`, specFile);
+            recordTestRun(statusDir, run);
+            console.log(`🧪 Recorded ${run.totalTests} check(s) as "${run.package}" in ${statusDir}`);
+          }
+        }
+      };
+
+      const verificationOptions = {
+        ...spec.options,
+        ...(options.screenshots ? { captureScreenshots: true, screenshotDir: options.screenshots } : {}),
+        ...(options.timeout ? { timeout: parseInt(options.timeout, 10) } : {})
+      };
+
+      if (options.compare) {
+        const environments = String(options.compare).split(',').map(name => name.trim()).filter(Boolean);
+        if (environments.length !== 2) {
+          throw new Error('--compare takes two environments, candidate first (e.g. staging,production)');
+        }
+        const [candidate, baseline] = environments;
+        const targets = buildVerificationTargets(spec, baseline, candidate);
+
+        console.log(`🔍 Comparing ${candidate} against ${baseline} for ${targets.length} feature(s)...`);
+        const { DeploymentWorkflow } = await import('./core/DeploymentWorkflow');
+        const workflow = new DeploymentWorkflow(verifier, spec.thresholds);
+        const report = await workflow.compareEnvironments(targets, verificationOptions);
+
+        for (const comparison of report.comparisons) {
+          if (comparison.error) {
+            console.log(`❌ ${comparison.featureName}: comparison failed (${comparison.error})`);
+            continue;
+          }
+          const icon = comparison.deploymentReady ? '✅' : comparison.riskLevel === 'high' ? '❌' : '⚠️ ';
+          console.log(`${icon} ${comparison.featureName}: ${candidate} ${formatTierCounts(comparison.stagingResult)} | ${baseline} ${formatTierCounts(comparison.productionResult)} (${comparison.riskLevel} risk)`);
+          for (const difference of comparison.differences) {
+            if (difference.risk && difference.impact === 'negative') {
+              console.log(`     ${difference.risk === 'high' ? '✗' : '!'} ${difference.description}`);
+            }
+          }
+        }
+
+        if (options.output) {
+          writeOutput(workflow.formatReport(report), path.resolve(options.output));
+        }
+        writeReports(deploymentResults(report), { staging: candidate, production: baseline }, report);
+
+        console.log(`\n📊 Deployment readiness: ${report.overallReadiness.toUpperCase().replace('_', ' ')}`);
+        report.recommendations.forEach(recommendation => console.log(`   - ${recommendation}`));
+        if (report.overallReadiness === 'not_ready') {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const environment = options.env;
+      const targets = buildVerificationTargets(spec, environment);
+      console.log(`🔍 Verifying ${targets.length} feature(s)${environment ? ` on ${environment}` : ''}...`);
+
+      const results = await verifier.verifyMultiple(targets, verificationOptions);
+      for (const result of results) {
+        const icon = result.overall === 'pass' ? '✅' : result.overall === 'fail' ? '❌' : '⚠️ ';
+        console.log(`${icon} ${result.featureName}: ${result.error || formatTierCounts(result)}`);
+        for (const check of [...result.tier1.checks, ...result.tier2.checks, ...result.tier3.checks]) {
+          if (!check.passed) {
+            console.log(`     ✗ ${check.name}: ${check.message}`);
+          }
+        }
+      }
+
+      if (options.output) {
+        writeOutput(verifier.generateReport(results), path.resolve(options.output));
+      }
+      writeReports(results, { production: environment || defaultEnvironment(spec) || 'default' });
+
+      const failed = results.filter(result => result.overall !== 'pass').length;
+      console.log(`\n📊 ${results.length - failed}/${results.length} feature(s) passed`);
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Directory for monitor history and status, one per environment by default
+ */
+function getMonitorDir(dir: string | undefined, environment: string): string {
+  return path.resolve(dir || path.join(getProjectAnalyzerDir(process.cwd()), 'monitor', environment));
+}
+
+// Monitor commands
+const monitor = program
+  .command('monitor')
+  .description('Re-run a verification spec on a schedule and track uptime, pass rates and flaky checks');
+
+monitor
+  .command('run <spec>')
+  .description('Run the spec now and then on an interval or cron schedule, until stopped')
+  .option('-e, --env <name>', 'Environment from the spec to monitor (default: production, or the only one)')
+  .option('--every <interval>', 'Run interval, e.g. 30s, 5m, 1h', '5m')
+  .option('--cron <expression>', 'Run on a cron schedule instead (minute hour day month weekday, local time)')
+  .option('--once', 'Run once, record the result and exit (for an external scheduler)')
+  .option('--dir <path>', 'History and status directory (default: .project-analyzer/monitor/<env>)')
+  .option('--retain <days>', 'Days of history to keep', (value) => parseInt(value, 10), 30)
+  .option('--flaky-window <runs>', 'Latest runs of a check looked at for flakiness', (value) => parseInt(value, 10), 10)
+  .option('--flaky-flips <count>', 'Pass/fail flips within the window that make a check flaky', (value) => parseInt(value, 10), 3)
+  .option('--exec <command>', 'Shell command to run on a status change (change JSON on stdin)')
+  .option('--webhook <url>', 'URL to POST the change JSON to on a status change')
+  .option('--timeout <ms>', 'Navigation timeout per check')
+  .option('--auth-dir <path>', 'Auth profile directory (default: $PROJECT_SUITE_AUTH_DIR or .project-suite/auth)')
+  .action(async (specPath, options) => {
+    try {
+      const { loadVerificationSpec, buildVerificationTargets, defaultEnvironment } = await import('./core/verificationSpec');
+      const { ProductionVerifier } = await import('./core/ProductionVerifier');
+      const { VerificationMonitor } = await import('./core/verificationMonitor');
+      const { cronSchedule, intervalSchedule, parseInterval } = await import('./utils/schedule');
+      const { AuthProfileStore } = await import('@project-suite/shared');
+
+      const schedule = options.cron
+        ? cronSchedule(options.cron)
+        : intervalSchedule(parseInterval(options.every), `every ${options.every}`);
+      const spec = loadVerificationSpec(specPath);
+      const environment = options.env || defaultEnvironment(spec) || 'default';
+      const verifier = new ProductionVerifier(new AuthProfileStore(options.authDir));
+      const verificationOptions = {
+        ...spec.options,
+        ...(options.timeout ? { timeout: parseInt(options.timeout, 10) } : {})
+      };
+
+      const monitorRunner = new VerificationMonitor({
+        // Reload the spec every run, so edits apply without a restart
+        verify: () => {
+          const targets = buildVerificationTargets(loadVerificationSpec(specPath), options.env);
+          return verifier.verifyMultiple(targets, verificationOptions);
+        },
+        environment,
+        schedule,
+        directory: getMonitorDir(options.dir, environment),
+        retainDays: options.retain,
+        onChangeCommand: options.exec,
+        webhookUrl: options.webhook,
+        cwd: process.cwd(),
+        flakiness: { flakyWindow: options.flakyWindow, flakyFlips: options.flakyFlips }
+      });
+
+      monitorRunner.on('run', (run, status) => {
+        const time = new Date(run.timestamp).toLocaleTimeString();
+        const passing = status.features.filter((feature: any) => feature.status === 'pass').length;
+        const icon = passing === status.features.length ? '✅' : '❌';
+        console.log(`${icon} [${time}] ${passing}/${status.features.length} feature(s) passing · uptime ${status.uptime}% · pass rate ${status.passRate}%`);
+      });
+      monitorRunner.on('flaky', (feature, check) => {
+        console.log(`   🎲 ${feature.featureName}: "${check.name}" is flaky (${check.flips} flips in its last runs); not alerting on it`);
+      });
+      monitorRunner.on('statusChange', (change) => {
+        console.log(`   🔔 ${change.featureName}: ${change.previous} → ${change.current}`);
+        for (const check of change.failingChecks) {
+          console.log(`      ✗ ${check.name}: ${check.message}`);
+        }
+        if (change.error) {
+          console.log(`      ✗ ${change.error}`);
+        }
+      });
+      monitorRunner.on('error', (error) => console.error('❌ Error during monitor run:', error));
+      monitorRunner.on('hookError', (error) => console.warn(`⚠️  ${error.message}`));
+
+      console.log(`📡 Monitoring ${spec.features.length} feature(s) on ${environment}${options.once ? '' : `, ${schedule.description}`}`);
+      console.log(`💾 History: ${monitorRunner.historyPath}`);
+      console.log(`📄 Status: ${monitorRunner.statusPath}`);
+
+      if (options.once) {
+        await monitorRunner.runOnce();
+        return;
+      }
+
+      await monitorRunner.start();
+      console.log('   Press Ctrl+C to stop.');
+
+      const shutdown = async () => {
+        await monitorRunner.stop();
+        console.log('\n👋 Stopped monitoring.');
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+monitor
+  .command('status')
+  .description('Show uptime, pass rates and flaky checks from the monitor history')
+  .option('-e, --env <name>', 'Environment whose runs to show', 'production')
+  .option('--dir <path>', 'History and status directory (default: .project-analyzer/monitor/<env>)')
+  .option('--since <date>', 'Only count runs from this date on (ISO date)')
+  .option('--flaky-window <runs>', 'Latest runs of a check looked at for flakiness', (value) => parseInt(value, 10), 10)
+  .option('--flaky-flips <count>', 'Pass/fail flips within the window that make a check flaky', (value) => parseInt(value, 10), 3)
+  .option('--json', 'Print the status as JSON (the format status.json uses)')
+  .option('-o, --output <path>', 'Write the status JSON to this file')
+  .action(async (options) => {
+    try {
+      const { computeMonitorStatus, loadMonitorHistory, MONITOR_HISTORY_FILE } = await import('./core/verificationMonitor');
+      const historyPath = path.join(getMonitorDir(options.dir, options.env), MONITOR_HISTORY_FILE);
+
+      let runs = loadMonitorHistory(historyPath).filter(run => run.environment === options.env);
+      if (options.since) {
+        const since = new Date(options.since);
+        if (Number.isNaN(since.getTime())) {
+          throw new Error(`Invalid date for --since: ${options.since}`);
+        }
+        runs = runs.filter(run => new Date(run.timestamp) >= since);
+      }
+      if (runs.length === 0) {
+        throw new Error(`No monitor runs on ${options.env} in ${historyPath}`);
+      }
+
+      const status = computeMonitorStatus(runs, { flakyWindow: options.flakyWindow, flakyFlips: options.flakyFlips });
+      if (options.output) {
+        writeOutput(JSON.stringify(status, null, 2), path.resolve(options.output));
+      }
+      if (options.json) {
+        console.log(JSON.stringify(status, null, 2));
+        return;
+      }
+
+      console.log(`📡 ${status.runs} run(s) on ${status.environment} from ${status.firstRun} to ${status.lastRun}\n`);
+      for (const feature of status.features) {
+        const icon = feature.status === 'pass' ? '✅' : '❌';
+        console.log(`${icon} ${feature.featureName}: uptime ${feature.uptime}% · pass rate ${feature.passRate}% · ${feature.status} since ${feature.since}`);
+        for (const check of feature.checks) {
+          if (check.flaky || check.passRate < 100) {
+            console.log(`   ${check.flaky ? '🎲' : '  '} ${check.name}: ${check.passRate}% (${check.passed}/${check.runs})${check.flaky ? ' - flaky' : ''}`);
+          }
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Generate API checks command
+program
+  .command('generate-api-checks')
+  .description('Generate Tier 3 API checks from an OpenAPI document or from the API calls a page makes')
+  .option('--openapi <file>', 'OpenAPI 3 or Swagger 2 document (YAML or JSON)')
+  .option('--from-site <url>', 'Open a page and turn the API calls it makes into checks')
+  .option('--feature <id>', 'Feature id for the generated checks', 'api')
+  .option('--methods <list>', 'Comma-separated methods to generate checks for', 'GET')
+  .option('--max-latency <ms>', 'Latency budget for every check')
+  .option('--auth <profile>', 'Sign in with an auth profile before opening the page')
+  .option('--auth-dir <path>', 'Auth profile directory (default: $PROJECT_SUITE_AUTH_DIR or .project-suite/auth)')
+  .option('-o, --output <path>', 'Write the verification spec to this file instead of stdout')
+  .action(async (options) => {
+    try {
+      if (!options.openapi === !options.fromSite) {
+        throw new Error('Pass either --openapi <file> or --from-site <url>');
+      }
+      const { checksFromOpenAPI, checksFromNetwork, generatedChecksSpec, parseCheckMethods } = await import('./core/apiChecks');
+      const yaml = await import('js-yaml');
+
+      const generatorOptions = {
+        methods: parseCheckMethods(String(options.methods)),
+        ...(options.maxLatency ? { maxLatency: parseInt(options.maxLatency, 10) } : {})
+      };
+
+      let generated: GeneratedApiChecks;
+      if (options.openapi) {
+        const content = fs.readFileSync(path.resolve(options.openapi), 'utf-8');
+        const doc = /\.ya?ml$/i.test(options.openapi) ? yaml.load(content) : JSON.parse(content);
+        generated = checksFromOpenAPI(doc, generatorOptions);
+      } else {
+        const { AuthProfileStore, NetworkMonitor, launchAuthenticatedDriver } = await import('@project-suite/shared');
+        const profile = options.auth ? new AuthProfileStore(options.authDir).load(options.auth) : undefined;
+
+        console.error(`🔍 Watching API calls on ${options.fromSite}...`);
+        const driver = await launchAuthenticatedDriver(profile, { headless: true });
+        try {
+          const monitor = new NetworkMonitor(driver, { apiOnly: true, captureBodies: true, maxBodySize: 100000 });
+          const summary = await monitor.navigateAndMonitor(options.fromSite);
+          generated = checksFromNetwork(summary.endpoints, options.fromSite, generatorOptions);
+        } finally {
+          await driver.close();
+        }
+      }
+
+      const spec = yaml.dump(generatedChecksSpec(generated, options.feature), { lineWidth: 120, noRefs: true });
+      if (options.output) {
+        writeOutput(spec, path.resolve(options.output));
+      } else {
+        process.stdout.write(spec);
+      }
+
+      console.error(`✅ Generated ${generated.checks.length} check(s)`);
+      for (const reason of generated.skipped) {
+        console.error(`   ⏭️  Skipped ${reason}`);
+      }
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 // Analyze all (designs + website) command
 program
   .command('analyze-all')
@@ -585,12 +1643,131 @@ program
     }
   });
 
-// Watch command (placeholder for future implementation)
+// Watch command
 program
   .command('watch [path]')
-  .description('Watch repository for TODO changes (coming soon)')
-  .action(() => {
-    console.log('⏰ Watch mode coming in Phase 2!');
+  .description('Watch repository and rescan changed files for TODO changes')
+  .option('-o, --output <path>', 'Latest scan output path (default: .project-analyzer/scans/latest.json)')
+  .option('-f, --format <format>', 'Output format (json, markdown, github, csv, summary, sarif, codeclimate)', 'json')
+  .option('--include <patterns...>', 'Include file patterns (glob)')
+  .option('--exclude <patterns...>', 'Exclude file patterns (glob)')
+  .option('--no-gitignore', 'Don\'t use .gitignore')
+  .option('--exclude-archives', 'Exclude TODOs from archive directories')
+  .option('--state-file <path>', 'Path to state file')
+  .option('--debounce <ms>', 'Wait this long after the last change before rescanning', (value) => parseInt(value, 10), 300)
+  .option('--exec <command>', 'Shell command to run on change (diff JSON on stdin)')
+  .option('--webhook <url>', 'URL to POST the diff JSON to on change')
+  .option('--config <path>', 'Analyzer config file (default: .project-analyzer.json in the scanned directory)')
+  .action(async (pathArg, options) => {
+    const rootPath = path.resolve(pathArg || process.cwd());
+
+    if (!fs.existsSync(rootPath)) {
+      console.error(`❌ Error: Path does not exist: ${rootPath}`);
+      process.exit(1);
+    }
+
+    try {
+      ensureProjectDirExists(rootPath);
+      const { TodoWatcher } = await import('./core/todoWatcher');
+
+      const statePath = options.stateFile || path.join(getProjectAnalyzerDir(rootPath), 'state.json');
+      const outputPath = options.output
+        ? path.resolve(options.output)
+        : path.join(getProjectScansDir(rootPath), `latest.${getFormatExtension(options.format as OutputFormat)}`);
+
+      const watcher = new TodoWatcher({
+        rootPath,
+        statePath,
+        outputPath,
+        outputFormat: options.format as OutputFormat,
+        debounceMs: options.debounce,
+        onChangeCommand: options.exec,
+        webhookUrl: options.webhook,
+        scanOptions: {
+          config: loadConfigOrExit(rootPath, options.config),
+          includePatterns: options.include,
+          excludePatterns: options.exclude,
+          useGitignore: options.gitignore !== false,
+          excludeArchives: options.excludeArchives,
+          cachePath: path.join(getProjectAnalyzerDir(rootPath), DEFAULT_SCAN_CACHE_FILE)
+        }
+      });
+
+      watcher.on('change', (diff) => {
+        const time = new Date(diff.timestamp).toLocaleTimeString();
+        console.log(`\n🔄 [${time}] ${diff.files.length} file(s) changed`);
+        for (const todo of diff.added) {
+          console.log(`   ➕ [${todo.type}] ${todo.content} (${todo.file}:${todo.line})`);
+        }
+        for (const todo of diff.removed) {
+          console.log(`   ➖ [${todo.type}] ${todo.content} (${todo.file}:${todo.line})`);
+        }
+        for (const { previous, current } of diff.changed) {
+          console.log(`   ✏️  [${current.type}] ${previous.content} → ${current.content} (${current.file}:${current.line})`);
+        }
+      });
+      watcher.on('error', (error) => console.error('❌ Error during rescan:', error));
+      watcher.on('hookError', (error) => console.warn(`⚠️  ${error.message}`));
+
+      console.log(`👀 Watching repository: ${rootPath}`);
+      const initial = await watcher.start();
+      console.log(`📊 ${initial.summary.totalTodos} TODOs in ${initial.summary.filesScanned} files (${watcher.getWatchedDirectoryCount()} directories watched)`);
+      console.log(`💾 State: ${statePath}`);
+      console.log(`📄 Output: ${outputPath}`);
+      console.log('   Press Ctrl+C to stop.');
+
+      const shutdown = async () => {
+        await watcher.stop();
+        console.log('\n👋 Stopped watching.');
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+    } catch (error) {
+      console.error('❌ Error starting watch mode:', error);
+      process.exit(1);
+    }
+  });
+
+// Trends command
+program
+  .command('trends [path]')
+  .description('Report TODO trends from the scan history')
+  .option('-o, --output <path>', 'Output file path')
+  .option('-f, --format <format>', 'Output format (markdown, json, csv)', 'markdown')
+  .option('--weeks <n>', 'Weeks of introduction/resolution activity to show', (value) => parseInt(value, 10), 12)
+  .option('--top <n>', 'Number of oldest TODOs and contributors to list', (value) => parseInt(value, 10), 10)
+  .action(async (pathArg, options) => {
+    const rootPath = path.resolve(pathArg || process.cwd());
+
+    try {
+      const { loadHistory, computeTrends } = await import('./core/scanHistory');
+      const { formatTrends } = await import('./formatters/trendsFormatter');
+
+      const historyPath = path.join(getProjectAnalyzerDir(rootPath), DEFAULT_HISTORY_FILE);
+      const history = loadHistory(historyPath);
+
+      if (history.length === 0) {
+        console.log(`ℹ️  No scan history in ${historyPath} yet. Run \`scan\` to start recording.`);
+        return;
+      }
+
+      const report = computeTrends(history, { weeks: options.weeks, top: options.top });
+      const formatted = formatTrends(report, options.format);
+
+      if (options.output) {
+        const outputPath = addDateToFilename(options.output);
+        writeOutput(formatted, outputPath);
+        console.log(`✅ Output written to: ${outputPath}`);
+      } else {
+        console.log(formatted);
+      }
+
+    } catch (error) {
+      console.error('❌ Error computing trends:', error);
+      process.exit(1);
+    }
   });
 
 // Generate report command
@@ -599,6 +1776,7 @@ program
   .description('Generate a comprehensive report')
   .option('-o, --output-dir <dir>', 'Output directory for reports', './reports')
   .option('--exclude-archives', 'Exclude TODOs from archive directories')
+  .option('--config <path>', 'Analyzer config file (default: .project-analyzer.json in the scanned directory)')
   .action(async (pathArg, options) => {
     const rootPath = path.resolve(pathArg || process.cwd());
     const outputDir = path.resolve(options.outputDir);
@@ -614,6 +1792,7 @@ program
       // Perform scan
       const result = await scanTodos({
         rootPath,
+        config: loadConfigOrExit(rootPath, options.config),
         excludeArchives: options.excludeArchives
       });
       const processedResult = processScanResults(result);
@@ -6,7 +6,19 @@
  * Generates deployment reports and pre-deployment checklists.
  */
 
-import { ProductionVerifier, VerificationTarget, VerificationResult, VerificationOptions } from './ProductionVerifier';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ProductionVerifier,
+  VerificationTarget,
+  VerificationResult,
+  VerificationOptions,
+  PageTimings,
+  TierResult,
+  toStagingTarget
+} from './ProductionVerifier';
+import { decodeImage } from '../utils/imageDecoder';
+import { diffImages, encodePng } from '../utils/imageDiff';
 
 export interface DeploymentComparison {
   featureId: string;
@@ -17,13 +29,138 @@ export interface DeploymentComparison {
   deploymentReady: boolean;
   riskLevel: 'low' | 'medium' | 'high';
   recommendations: string[];
+  /** Why the comparison could not run */
+  error?: string;
 }
 
 export interface Difference {
-  category: 'tier1' | 'tier2' | 'tier3';
-  type: 'new_pass' | 'new_fail' | 'status_change' | 'no_change';
+  category: 'tier1' | 'tier2' | 'tier3' | 'visual' | 'performance';
+  type: 'new_pass' | 'new_fail' | 'status_change' | 'no_change' | 'visual_change' | 'performance_change';
   description: string;
   impact: 'positive' | 'negative' | 'neutral';
+  /** Risk of a visual or performance change, from the thresholds */
+  risk?: 'low' | 'medium' | 'high';
+  /** What was measured: `pixels`, or a PageTimings key */
+  metric?: string;
+  staging?: number;
+  production?: number;
+  /** Pixel-diff image of a visual change */
+  diffImagePath?: string;
+}
+
+/**
+ * When visual and performance changes become medium or high risk
+ */
+export interface DeploymentThresholds {
+  /** Changed pixels, as % of the page */
+  visual: { medium: number; high: number };
+  /** Largest per-channel color difference (0-1) that still counts as the same pixel */
+  pixelTolerance: number;
+  /** Staging slower than production, as % of the production timing */
+  timing: { medium: number; high: number };
+  /** Timing changes smaller than this many ms are noise */
+  timingNoise: number;
+  /** More requests in staging, as % of the production count */
+  requests: { medium: number; high: number };
+}
+
+export type DeploymentThresholdOverrides = {
+  [K in keyof DeploymentThresholds]?: DeploymentThresholds[K] extends object ? Partial<DeploymentThresholds[K]> : DeploymentThresholds[K];
+};
+
+export const DEFAULT_DEPLOYMENT_THRESHOLDS: DeploymentThresholds = {
+  visual: { medium: 1, high: 5 },
+  pixelTolerance: 0.1,
+  timing: { medium: 20, high: 50 },
+  timingNoise: 100,
+  requests: { medium: 20, high: 50 }
+};
+
+/**
+ * Where comparison screenshots go when the caller gives no directory
+ */
+export const DEFAULT_COMPARISON_SCREENSHOT_DIR = path.join('.project-analyzer', 'screenshots');
+
+const TIMING_LABELS: Array<[Exclude<keyof PageTimings, 'requestCount'>, string]> = [
+  ['ttfb', 'TTFB'],
+  ['domContentLoaded', 'DOM content loaded'],
+  ['load', 'Load'],
+  ['lcp', 'LCP']
+];
+
+/**
+ * Fill in the thresholds an override leaves out
+ */
+export function resolveDeploymentThresholds(overrides: DeploymentThresholdOverrides = {}): DeploymentThresholds {
+  const defaults = DEFAULT_DEPLOYMENT_THRESHOLDS;
+  return {
+    visual: { ...defaults.visual, ...overrides.visual },
+    pixelTolerance: overrides.pixelTolerance ?? defaults.pixelTolerance,
+    timing: { ...defaults.timing, ...overrides.timing },
+    timingNoise: overrides.timingNoise ?? defaults.timingNoise,
+    requests: { ...defaults.requests, ...overrides.requests }
+  };
+}
+
+function riskOf(value: number, limits: { medium: number; high: number }): 'low' | 'medium' | 'high' {
+  return value >= limits.high ? 'high' : value >= limits.medium ? 'medium' : 'low';
+}
+
+function percentChange(staging: number, production: number): number {
+  return production === 0 ? (staging === 0 ? 0 : 100) : ((staging - production) / production) * 100;
+}
+
+/**
+ * Differences in page timings and request counts between environments
+ */
+export function comparePageTimings(
+  staging: PageTimings | undefined,
+  production: PageTimings | undefined,
+  thresholds: DeploymentThresholds = DEFAULT_DEPLOYMENT_THRESHOLDS
+): Difference[] {
+  if (!staging || !production) {
+    return [];
+  }
+
+  const differences: Difference[] = [];
+  for (const [metric, label] of TIMING_LABELS) {
+    const stagingValue = staging[metric];
+    const productionValue = production[metric];
+    if (stagingValue === undefined || productionValue === undefined) continue;
+
+    const delta = stagingValue - productionValue;
+    if (Math.abs(delta) < thresholds.timingNoise) continue;
+
+    const change = percentChange(stagingValue, productionValue);
+    const risk = delta > 0 ? riskOf(change, thresholds.timing) : 'low';
+    differences.push({
+      category: 'performance',
+      type: 'performance_change',
+      description: `${label} ${delta > 0 ? 'slower' : 'faster'} in staging: ${stagingValue}ms vs ${productionValue}ms (${change > 0 ? '+' : ''}${change.toFixed(0)}%)`,
+      impact: delta < 0 ? 'positive' : risk === 'low' ? 'neutral' : 'negative',
+      risk,
+      metric,
+      staging: stagingValue,
+      production: productionValue
+    });
+  }
+
+  if (staging.requestCount !== production.requestCount) {
+    const change = percentChange(staging.requestCount, production.requestCount);
+    const risk = change > 0 ? riskOf(change, thresholds.requests) : 'low';
+    differences.push({
+      category: 'performance',
+      type: 'performance_change',
+      description: `${staging.requestCount} requests in staging vs ${production.requestCount} in production (${change > 0 ? '+' : ''}${change.toFixed(0)}%)`,
+      impact: change < 0 ? 'positive' : risk === 'low' ? 'neutral' : 'negative',
+      risk,
+      metric: 'requestCount',
+      staging: staging.requestCount,
+      production: production.requestCount
+    });
+  }
+
+  return differences;
 }
 
 export interface DeploymentReport {
@@ -44,9 +181,11 @@ export interface DeploymentReport {
 
 export class DeploymentWorkflow {
   private verifier: ProductionVerifier;
+  private thresholds: DeploymentThresholds;
 
-  constructor() {
-    this.verifier = new ProductionVerifier();
+  constructor(verifier: ProductionVerifier = new ProductionVerifier(), thresholds: DeploymentThresholdOverrides = {}) {
+    this.verifier = verifier;
+    this.thresholds = resolveDeploymentThresholds(thresholds);
   }
 
   /**
@@ -58,15 +197,22 @@ export class DeploymentWorkflow {
   ): Promise<DeploymentReport> {
     const comparisons: DeploymentComparison[] = [];
 
+    // Both environments are screenshotted for the visual comparison
+    const comparisonOptions: VerificationOptions = {
+      ...options,
+      captureScreenshots: true,
+      screenshotDir: options.screenshotDir || DEFAULT_COMPARISON_SCREENSHOT_DIR
+    };
+
     for (const target of targets) {
+      let stagingResult: VerificationResult | undefined;
       try {
         // Verify staging
-        const stagingTarget = { ...target, productionUrl: target.stagingUrl || target.productionUrl };
-        const stagingResult = await this.verifier.verify(stagingTarget, options);
-        stagingResult.environment = 'staging';
+        const stagingTarget = target.stagingUrl ? toStagingTarget(target) : target;
+        stagingResult = await this.verifier.verify(stagingTarget, { ...comparisonOptions, environment: 'staging' });
 
         // Verify production
-        const productionResult = await this.verifier.verify(target, options);
+        const productionResult = await this.verifier.verify(target, { ...comparisonOptions, environment: 'production' });
 
         // Compare results
         const comparison = this.compareResults(stagingResult, productionResult);
@@ -74,6 +220,7 @@ export class DeploymentWorkflow {
 
       } catch (error) {
         console.error(`Failed to compare ${target.featureId}:`, error);
+        comparisons.push(this.failedComparison(target, error, stagingResult));
       }
     }
 
@@ -114,6 +261,10 @@ export class DeploymentWorkflow {
     );
     differences.push(...tier3Diff);
 
+    // Compare what the page looks like and how fast it loads
+    differences.push(...this.compareScreenshots(stagingResult, productionResult));
+    differences.push(...comparePageTimings(stagingResult.performance, productionResult.performance, this.thresholds));
+
     // Assess deployment readiness
     const { deploymentReady, riskLevel, recommendations } = this.assessDeploymentReadiness(
       differences,
@@ -133,6 +284,41 @@ export class DeploymentWorkflow {
     };
   }
 
+  /**
+   * A comparison that could not run: not ready, since nothing was verified
+   */
+  private failedComparison(
+    target: VerificationTarget,
+    error: unknown,
+    stagingResult?: VerificationResult
+  ): DeploymentComparison {
+    const message = error instanceof Error ? error.message : String(error);
+    const skipped: TierResult = { passed: 0, failed: 0, total: 0, checks: [], status: 'skipped' };
+    const failed = (environment: VerificationResult['environment']): VerificationResult => ({
+      featureId: target.featureId,
+      featureName: target.featureName,
+      environment,
+      tier1: skipped,
+      tier2: skipped,
+      tier3: skipped,
+      overall: 'fail',
+      timestamp: new Date().toISOString(),
+      error: message
+    });
+
+    return {
+      featureId: target.featureId,
+      featureName: target.featureName,
+      stagingResult: stagingResult || failed('staging'),
+      productionResult: failed('production'),
+      differences: [],
+      deploymentReady: false,
+      riskLevel: 'high',
+      recommendations: [`Comparison of ${target.featureName} failed - fix the verification and re-run before deploying`],
+      error: message
+    };
+  }
+
   /**
    * Compare tier results
    */
@@ -181,6 +367,48 @@ export class DeploymentWorkflow {
     return differences;
   }
 
+  /**
+   * Pixel-diff the environments' screenshots, writing the diff image next to them
+   */
+  private compareScreenshots(stagingResult: VerificationResult, productionResult: VerificationResult): Difference[] {
+    const stagingPath = stagingResult.screenshotPath;
+    const productionPath = productionResult.screenshotPath;
+    if (!stagingPath || !productionPath || !fs.existsSync(stagingPath) || !fs.existsSync(productionPath)) {
+      return [];
+    }
+
+    let result;
+    try {
+      result = diffImages(
+        decodeImage(fs.readFileSync(productionPath)),
+        decodeImage(fs.readFileSync(stagingPath)),
+        { tolerance: this.thresholds.pixelTolerance }
+      );
+    } catch (error) {
+      console.warn(`Could not compare screenshots of ${stagingResult.featureId}: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+    if (result.changedPixels === 0) {
+      return [];
+    }
+
+    const diffImagePath = path.join(path.dirname(stagingPath), `${stagingResult.featureId}-diff.png`);
+    fs.writeFileSync(diffImagePath, encodePng(result.width, result.height, result.diff));
+
+    const risk = riskOf(result.percentage, this.thresholds.visual);
+    return [{
+      category: 'visual',
+      type: 'visual_change',
+      description: `${result.percentage.toFixed(2)}% of pixels differ from production (diff: ${diffImagePath})`,
+      impact: risk === 'low' ? 'neutral' : 'negative',
+      risk,
+      metric: 'pixels',
+      staging: Number(result.percentage.toFixed(2)),
+      production: 0,
+      diffImagePath
+    }];
+  }
+
   /**
    * Assess deployment readiness
    */
@@ -198,7 +426,7 @@ export class DeploymentWorkflow {
     let riskLevel: 'low' | 'medium' | 'high' = 'low';
 
     // Check if staging is worse than production
-    const negativeDiffs = differences.filter(d => d.impact === 'negative');
+    const negativeDiffs = differences.filter(d => d.impact === 'negative' && !d.risk);
     if (negativeDiffs.length > 0) {
       riskLevel = negativeDiffs.length > 2 ? 'high' : 'medium';
       deploymentReady = false;
@@ -222,12 +450,29 @@ export class DeploymentWorkflow {
       recommendations.push('Regression detected - staging is worse than production');
     }
 
+    // Visual and performance changes carry the risk their thresholds give them
+    for (const category of ['visual', 'performance'] as const) {
+      const changes = differences.filter(d => d.category === category && d.impact === 'negative');
+      const risk = changes.some(d => d.risk === 'high') ? 'high' : changes.some(d => d.risk === 'medium') ? 'medium' : undefined;
+      if (!risk) continue;
+
+      if (risk === 'high') {
+        deploymentReady = false;
+        riskLevel = 'high';
+      } else if (riskLevel === 'low') {
+        riskLevel = 'medium';
+      }
+      recommendations.push(category === 'visual'
+        ? `Staging looks different from production - review the diff image${risk === 'high' ? ' before deploying' : ''}`
+        : `Staging is slower than production - ${risk === 'high' ? 'investigate before deploying' : 'review page load performance'}`);
+    }
+
     // Positive feedback
     if (deploymentReady && differences.some(d => d.impact === 'positive')) {
       recommendations.push('Deployment will improve feature functionality');
     }
 
-    if (deploymentReady && differences.length === 0) {
+    if (deploymentReady && differences.every(d => d.impact === 'neutral')) {
       recommendations.push('No changes detected - safe to deploy');
     }
 
@@ -326,6 +571,9 @@ export class DeploymentWorkflow {
       lines.push(`**Feature ID**: ${comparison.featureId}`);
       lines.push(`**Deployment Ready**: ${comparison.deploymentReady ? 'Yes' : 'No'}`);
       lines.push(`**Risk Level**: ${riskIcon} ${comparison.riskLevel.toUpperCase()}`);
+      if (comparison.error) {
+        lines.push(`**Error**: ${comparison.error}`);
+      }
       lines.push('');
 
       // Environment comparison table
@@ -352,6 +600,21 @@ export class DeploymentWorkflow {
       lines.push(`| ${productionRow} |`);
       lines.push('');
 
+      // Page load timings
+      const stagingTimings = comparison.stagingResult.performance;
+      const productionTimings = comparison.productionResult.performance;
+      if (stagingTimings && productionTimings) {
+        lines.push('| Page Load | Staging | Production |');
+        lines.push('| --- | --- | --- |');
+        for (const [metric, label] of TIMING_LABELS) {
+          const staging = stagingTimings[metric];
+          const production = productionTimings[metric];
+          lines.push(`| ${label} | ${staging === undefined ? '-' : `${staging}ms`} | ${production === undefined ? '-' : `${production}ms`} |`);
+        }
+        lines.push(`| Requests | ${stagingTimings.requestCount} | ${productionTimings.requestCount} |`);
+        lines.push('');
+      }
+
       // Differences
       if (comparison.differences.length > 0) {
         lines.push('**Changes:**');
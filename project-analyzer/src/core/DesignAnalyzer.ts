@@ -1,7 +1,8 @@
 /**
  * Design Analyzer
  * Analyzes design files, moodboards, wireframes, and screenshots to extract feature lists
- * Uses Claude's vision capabilities for image analysis
+ * Images are sent to a pluggable vision provider (see ../vision); Figma and
+ * Sketch JSON exports are parsed directly (see ./designDocuments)
  */
 
 import * as fs from 'fs/promises';
@@ -18,12 +19,40 @@ import {
   Typography,
   DetailedAnalysisResult
 } from '../types/features';
+import {
+  VisionProvider,
+  createVisionProvider,
+  getImageMediaType,
+  parseFeatureResponse,
+  parseTypographyResponse,
+  RawFeature
+} from '../vision';
+import { DesignTokenExtraction, extractPalette, mergeTypography, toColorScheme } from './designTokens';
+import { extractDocumentFeatures, isDesignDocument, parseDesignDocument } from './designDocuments';
+
+const TYPOGRAPHY_PROMPT = `Identify the typography used in this design.
+
+Respond with a single JSON object:
+{
+  "fontFamilies": ["Inter"],
+  "headingSizes": [32, 24],
+  "bodySizes": [16, 14],
+  "lineHeights": [1.5],
+  "fontWeights": ["400", "700"]
+}
+
+Sizes are in pixels at the image's scale. Name font families as precisely as you can; use a generic family (sans-serif, serif, monospace) when the typeface cannot be identified.`;
 
 export class DesignAnalyzer {
   private options: DesignAnalysisOptions;
   private context?: DesignContext;
+  private visionProvider?: VisionProvider;
+  private warnings: string[] = [];
 
-  constructor(options: DesignAnalysisOptions, context?: DesignContext) {
+  /**
+   * @param visionProvider - Provider to use instead of the one described by options.vision
+   */
+  constructor(options: DesignAnalysisOptions, context?: DesignContext, visionProvider?: VisionProvider) {
     this.options = {
       includeLowConfidence: false,
       autoCategorize: true,
@@ -32,6 +61,7 @@ export class DesignAnalyzer {
       ...options
     };
     this.context = context;
+    this.visionProvider = visionProvider;
   }
 
   /**
@@ -42,6 +72,12 @@ export class DesignAnalyzer {
     const features: ExtractedFeature[] = [];
     const analyzedSources: string[] = [];
     const warnings: string[] = [];
+    this.warnings = warnings;
+
+    if (this.getImageSources().length > 0) {
+      // Fail once up front (e.g. missing API key) rather than once per image
+      this.getVisionProvider();
+    }
 
     // Analyze design files
     if (this.options.designFiles && this.options.designFiles.length > 0) {
@@ -107,12 +143,13 @@ export class DesignAnalyzer {
     const summary = this.calculateSummary(uniqueFeatures);
 
     // Extract additional design information if requested
+    const analyzedImages = analyzedSources.filter(source => !isDesignDocument(source));
     const colorScheme = this.options.extractColors
-      ? await this.extractColorScheme(analyzedSources)
+      ? this.extractColorScheme(analyzedImages)
       : undefined;
 
     const typography = this.options.extractTypography
-      ? await this.extractTypography(analyzedSources)
+      ? await this.extractTypography(analyzedImages)
       : undefined;
 
     const duration = performance.now() - startTime;
@@ -136,10 +173,54 @@ export class DesignAnalyzer {
     return result;
   }
 
+  /**
+   * Extract the palette (and typography, with extractTypography) from every
+   * configured image without analyzing features
+   */
+  async extractDesignTokens(): Promise<DesignTokenExtraction> {
+    const sources = this.getImageSources();
+    this.warnings = [];
+
+    const palette = extractPalette(sources, {
+      onImageError: (imagePath, error) => this.warnings.push(`Failed to extract colors from ${imagePath}: ${error.message}`)
+    });
+    const typography = this.options.extractTypography
+      ? await this.extractTypography(sources)
+      : undefined;
+
+    return { palette, colorScheme: toColorScheme(palette), typography, sources, warnings: this.warnings };
+  }
+
+  /**
+   * All configured images, in source order (design document exports excluded)
+   */
+  private getImageSources(): string[] {
+    return [
+      ...(this.options.designFiles || []).filter(file => !isDesignDocument(file)),
+      ...(this.options.moodboards || []),
+      ...(this.options.wireframes || []),
+      ...(this.options.screenshots || [])
+    ];
+  }
+
+  /**
+   * The injected provider, or the one described by options.vision
+   */
+  private getVisionProvider(): VisionProvider {
+    if (!this.visionProvider) {
+      this.visionProvider = createVisionProvider(this.options.vision);
+    }
+    return this.visionProvider;
+  }
+
   /**
    * Analyze a design file (Figma export, Sketch, etc.)
    */
   private async analyzeDesignFile(filePath: string): Promise<ExtractedFeature[]> {
+    if (isDesignDocument(filePath)) {
+      return this.analyzeDesignDocument(filePath);
+    }
+
     const imageData = await this.loadImageAsBase64(filePath);
 
     const prompt = this.buildAnalysisPrompt(
@@ -148,10 +229,22 @@ export class DesignAnalyzer {
       'This is a design file showing UI components and layouts. Identify all distinct features, pages, and components.'
     );
 
-    const features = await this.analyzeImageWithClaude(imageData, prompt, 'design-file', filePath);
+    const features = await this.analyzeImage(imageData, prompt, 'design-file', filePath);
     return features;
   }
 
+  /**
+   * Read features from the structure of a Figma or Sketch JSON export
+   */
+  private async analyzeDesignDocument(filePath: string): Promise<ExtractedFeature[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const result = extractDocumentFeatures(parseDesignDocument(JSON.parse(content)), filePath);
+    for (const warning of result.warnings) {
+      this.warnings.push(`${filePath}: ${warning}`);
+    }
+    return result.features;
+  }
+
   /**
    * Analyze a moodboard
    */
@@ -164,7 +257,7 @@ export class DesignAnalyzer {
       'This is a moodboard showing design inspiration, visual style, and UI patterns. Identify the key features and design patterns suggested.'
     );
 
-    const features = await this.analyzeImageWithClaude(imageData, prompt, 'moodboard', filePath);
+    const features = await this.analyzeImage(imageData, prompt, 'moodboard', filePath);
     return features;
   }
 
@@ -180,7 +273,7 @@ export class DesignAnalyzer {
       'This is a wireframe showing the structure and layout of a page or feature. Identify all UI elements, components, and functionality.'
     );
 
-    const features = await this.analyzeImageWithClaude(imageData, prompt, 'wireframe', filePath);
+    const features = await this.analyzeImage(imageData, prompt, 'wireframe', filePath);
     return features;
   }
 
@@ -196,7 +289,7 @@ export class DesignAnalyzer {
       'This is a screenshot of an application. Identify all visible features, UI components, and functionality.'
     );
 
-    const features = await this.analyzeImageWithClaude(imageData, prompt, 'screenshot', filePath);
+    const features = await this.analyzeImage(imageData, prompt, 'screenshot', filePath);
     return features;
   }
 
@@ -248,37 +341,34 @@ Be thorough but avoid duplicates. Group related elements into coherent features.
   }
 
   /**
-   * Analyze image using Claude's vision API
-   * NOTE: This is a placeholder that would use Claude API with vision
-   * In a real implementation, this would make an API call to Claude
+   * Send an image to the vision provider and normalize the features it returns.
+   * Entries that do not match the prompt's contract become warnings.
    */
-  private async analyzeImageWithClaude(
+  private async analyzeImage(
     imageData: string,
     prompt: string,
     source: FeatureSource,
     sourcePath: string
   ): Promise<ExtractedFeature[]> {
-    // TODO: Implement actual Claude API call with vision
-    // For now, return a placeholder structure
-
-    console.log(`Analyzing ${sourcePath} with Claude vision...`);
-    console.log(`Prompt: ${prompt.substring(0, 100)}...`);
-
-    // Placeholder: In real implementation, this would be the Claude API response
-    // const response = await callClaudeVisionAPI(imageData, prompt);
-    // const parsedFeatures = JSON.parse(response);
-
-    // For now, return empty array with a note
-    // The actual implementation would parse Claude's JSON response
-    const features: ExtractedFeature[] = [];
+    const response = await this.getVisionProvider().analyze({
+      image: imageData,
+      mediaType: getImageMediaType(sourcePath),
+      prompt,
+      sourcePath
+    });
+
+    const parsed = parseFeatureResponse(response.text);
+    for (const warning of parsed.warnings) {
+      this.warnings.push(`${sourcePath}: ${warning}`);
+    }
 
-    return features.map((f: any) => this.normalizeFeature(f, source, sourcePath));
+    return parsed.features.map(f => this.normalizeFeature(f, source, sourcePath));
   }
 
   /**
-   * Normalize a feature from Claude's response
+   * Normalize a feature from the vision provider's response
    */
-  private normalizeFeature(rawFeature: any, source: FeatureSource, sourcePath: string): ExtractedFeature {
+  private normalizeFeature(rawFeature: RawFeature, source: FeatureSource, sourcePath: string): ExtractedFeature {
     const id = this.generateFeatureId(rawFeature.name, sourcePath);
 
     return {
@@ -290,7 +380,7 @@ Be thorough but avoid duplicates. Group related elements into coherent features.
       sourcePath,
       priority: rawFeature.priority || 'medium',
       status: 'identified',
-      confidence: rawFeature.confidence || 70,
+      confidence: rawFeature.confidence ?? 70,
       notes: rawFeature.notes,
       tags: this.extractTags(rawFeature.description),
       extractedAt: new Date().toISOString()
@@ -422,21 +512,41 @@ Be thorough but avoid duplicates. Group related elements into coherent features.
   }
 
   /**
-   * Extract color scheme from design files
-   * Placeholder for future implementation
+   * Extract a color scheme from the pixels of design files
    */
-  private async extractColorScheme(sources: string[]): Promise<ColorScheme | undefined> {
-    // TODO: Implement color extraction using image analysis
-    return undefined;
+  private extractColorScheme(sources: string[]): ColorScheme | undefined {
+    const palette = extractPalette(sources, {
+      onImageError: (imagePath, error) => this.warnings.push(`Failed to extract colors from ${imagePath}: ${error.message}`)
+    });
+    return palette.length > 0 ? toColorScheme(palette) : undefined;
   }
 
   /**
-   * Extract typography from design files
-   * Placeholder for future implementation
+   * Infer typography with the vision provider and merge it across sources
    */
   private async extractTypography(sources: string[]): Promise<Typography | undefined> {
-    // TODO: Implement typography extraction
-    return undefined;
+    const found: Typography[] = [];
+
+    for (const sourcePath of sources) {
+      try {
+        const response = await this.getVisionProvider().analyze({
+          image: await this.loadImageAsBase64(sourcePath),
+          mediaType: getImageMediaType(sourcePath),
+          prompt: TYPOGRAPHY_PROMPT,
+          sourcePath,
+          task: 'typography'
+        });
+        const parsed = parseTypographyResponse(response.text);
+        parsed.warnings.forEach(warning => this.warnings.push(`${sourcePath}: ${warning}`));
+        if (parsed.typography) {
+          found.push(parsed.typography);
+        }
+      } catch (error) {
+        this.warnings.push(`Failed to extract typography from ${sourcePath}: ${error}`);
+      }
+    }
+
+    return found.length > 0 ? mergeTypography(found) : undefined;
   }
 
   /**
@@ -8,13 +8,26 @@
  * Tier 3: API Verification - Endpoints return expected data
  */
 
-import { PlaywrightDriver, NetworkMonitor, ScreenshotCapture } from '@project-suite/shared';
+import {
+  PlaywrightDriver,
+  NetworkMonitor,
+  ScreenshotCapture,
+  AuthProfileStore,
+  cookieHeader,
+  launchAuthenticatedDriver
+} from '@project-suite/shared';
+import { JsonSchema } from '../utils/jsonSchema';
+import { evaluateApiResponse, substituteVariables } from './apiChecks';
 
 export interface VerificationTarget {
   featureId: string;
   featureName: string;
   productionUrl: string;
   stagingUrl?: string;
+  /** Auth profile to sign in with before checking */
+  auth?: string;
+  /** Auth profile for the staging URL (default: `auth`) */
+  stagingAuth?: string;
   tier1?: Tier1Check[];
   tier2?: Tier2Check[];
   tier3?: Tier3Check[];
@@ -36,11 +49,43 @@ export interface Tier2Check {
 }
 
 export interface Tier3Check {
+  /** Name shown in reports (default: `API: <endpoint>`) */
+  name?: string;
   endpoint: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** Request body; anything but a string is sent as JSON */
+  body?: any;
   expectedStatus?: number;
   expectedData?: any;
   headers?: Record<string, string>;
+  /** JSON Schema the response body must match */
+  schema?: JsonSchema;
+  /** Assertions on values selected from the response body */
+  assertions?: JsonPathAssertion[];
+  /** Response headers to check: `true` present, `false` absent, a string must be contained in the value */
+  expectedHeaders?: Record<string, string | boolean>;
+  /** Latency budget in ms */
+  maxLatency?: number;
+  /** Values later checks can use as `{{name}}`: name → JSONPath, or `header:<name>` */
+  capture?: Record<string, string>;
+}
+
+/**
+ * An assertion on every value a JSONPath selects; a path that selects
+ * nothing fails unless `exists: false`
+ */
+export interface JsonPathAssertion {
+  path: string;
+  exists?: boolean;
+  equals?: any;
+  /** Regular expression the value must match */
+  matches?: string;
+  /** Substring of a string, or item of an array */
+  contains?: any;
+  greaterThan?: number;
+  lessThan?: number;
+  /** Length of a string or array */
+  length?: number;
 }
 
 export interface VerificationResult {
@@ -52,7 +97,36 @@ export interface VerificationResult {
   tier3: TierResult;
   overall: 'pass' | 'fail' | 'partial';
   timestamp: string;
+  /** Total run time in ms */
+  duration?: number;
   screenshotPath?: string;
+  /** Requests the page made while the checks ran */
+  network?: NetworkEvidence;
+  /** How fast the feature's page loaded */
+  performance?: PageTimings;
+  /** Why the verification could not run */
+  error?: string;
+}
+
+export interface NetworkEvidence {
+  totalRequests: number;
+  apiCalls: Array<{ method: string; url: string; status: number; duration?: number }>;
+  /** Responses with status 400 or above */
+  failedResponses: Array<{ url: string; status: number }>;
+}
+
+/**
+ * Navigation timings of a feature's page, in ms from navigation start
+ */
+export interface PageTimings {
+  /** Time to first byte */
+  ttfb: number;
+  domContentLoaded: number;
+  load: number;
+  /** Largest contentful paint; missing when the browser reported none */
+  lcp?: number;
+  /** Requests made while the page loaded */
+  requestCount: number;
 }
 
 export interface TierResult {
@@ -61,13 +135,28 @@ export interface TierResult {
   total: number;
   checks: CheckResult[];
   status: 'pass' | 'fail' | 'partial' | 'skipped';
+  /** Time spent on the tier's checks in ms */
+  duration?: number;
 }
 
+/**
+ * The result tiers in run order, with their report labels
+ */
+export const VERIFICATION_TIERS = [
+  ['tier1', 'Tier 1 (URL)'],
+  ['tier2', 'Tier 2 (Functionality)'],
+  ['tier3', 'Tier 3 (API)']
+] as const;
+
 export interface CheckResult {
   name: string;
   passed: boolean;
   message: string;
   details?: any;
+  /** Time the check took in ms */
+  duration?: number;
+  /** Screenshot taken when a browser check failed */
+  screenshotPath?: string;
 }
 
 export interface VerificationOptions {
@@ -76,17 +165,68 @@ export interface VerificationOptions {
   timeout?: number;
   retries?: number;
   compareStaging?: boolean;
+  /** Environment the target belongs to, for results and screenshot names (default: production) */
+  environment?: 'production' | 'staging';
 }
 
+/**
+ * The staging variant of a target: checks on the production origin move to
+ * the staging origin, and the staging auth profile is used
+ */
+export function toStagingTarget(target: VerificationTarget): VerificationTarget {
+  if (!target.stagingUrl) {
+    throw new Error('Staging URL not provided');
+  }
+
+  const productionOrigin = new URL(target.productionUrl).origin;
+  const stagingOrigin = new URL(target.stagingUrl).origin;
+  const rebase = (url: string) => {
+    const parsed = new URL(url);
+    return parsed.origin === productionOrigin ? `${stagingOrigin}${parsed.pathname}${parsed.search}${parsed.hash}` : url;
+  };
+
+  return {
+    ...target,
+    productionUrl: target.stagingUrl,
+    auth: target.stagingAuth ?? target.auth,
+    tier1: target.tier1?.map(check => ({ ...check, url: rebase(check.url) })),
+    tier3: target.tier3?.map(check => ({ ...check, endpoint: rebase(check.endpoint) }))
+  };
+}
+
+/**
+ * Reads the navigation entry and the last LCP candidate (buffered, so
+ * paints before the observer started count)
+ */
+const PAGE_TIMINGS_SCRIPT = `new Promise(resolve => {
+  const navigation = performance.getEntriesByType('navigation')[0];
+  if (!navigation) return resolve(null);
+  let lcp;
+  try {
+    new PerformanceObserver(list => {
+      const entries = list.getEntries();
+      lcp = entries[entries.length - 1].startTime;
+    }).observe({ type: 'largest-contentful-paint', buffered: true });
+  } catch (error) {}
+  setTimeout(() => resolve({
+    ttfb: Math.round(navigation.responseStart),
+    domContentLoaded: Math.round(navigation.domContentLoadedEventEnd),
+    load: Math.round(navigation.loadEventEnd),
+    lcp: lcp === undefined ? undefined : Math.round(lcp)
+  }), 50);
+})`;
+
 export class ProductionVerifier {
   private driver: PlaywrightDriver;
   private networkMonitor!: NetworkMonitor;
+  private authStore: AuthProfileStore;
 
-  constructor() {
+  constructor(authStore: AuthProfileStore = new AuthProfileStore()) {
     this.driver = new PlaywrightDriver({
       headless: true,
       browser: 'chromium'
     });
+    this.authStore = authStore;
   }
 
   /**
@@ -98,45 +238,62 @@ export class ProductionVerifier {
   ): Promise<VerificationResult> {
     const timeout = options.timeout || 30000;
     const retries = options.retries || 2;
+    const environment = options.environment || 'production';
+    const started = performance.now();
 
     try {
-      await this.driver.launch();
+      // Each run gets a fresh browser, signed in when the target names a profile
+      const profile = target.auth ? this.authStore.load(target.auth) : undefined;
+      this.driver = await launchAuthenticatedDriver(profile, { headless: true, browser: 'chromium' });
       this.networkMonitor = new NetworkMonitor(this.driver);
       await this.networkMonitor.startMonitoring();
 
       // Navigate to production URL
       await this.driver.navigate({ url: target.productionUrl, waitUntil: 'networkidle' });
+      const timings = await this.collectPageTimings();
 
-      // Tier 1: URL Verification
-      const tier1 = await this.verifyTier1(target.tier1 || [], options);
-
-      // Tier 2: Functionality Verification
-      const tier2 = await this.verifyTier2(target.tier2 || [], options);
-
-      // Tier 3: API Verification
-      const tier3 = await this.verifyTier3(target.tier3 || [], options);
-
-      // Capture screenshot if requested
+      // Capture screenshot if requested, before the checks change the page,
+      // so environments can be compared pixel by pixel
       let screenshotPath: string | undefined;
       if (options.captureScreenshots) {
         const dir = options.screenshotDir || './screenshots';
-        screenshotPath = `${dir}/${target.featureId}-production.png`;
+        screenshotPath = `${dir}/${target.featureId}-${environment}.png`;
         await this.driver.screenshot({ path: screenshotPath, fullPage: true });
       }
 
+      // Tier 1: URL Verification
+      const tier1 = await this.runTier(target.featureId, 'tier1', target.tier1 || [], options,
+        check => this.verifyURL(check, options), check => `URL: ${check.url}`);
+
+      // Tier 2: Functionality Verification
+      const tier2 = await this.runTier(target.featureId, 'tier2', target.tier2 || [], options,
+        check => this.verifyFunctionality(check), check => `${check.type}: ${check.selector}`);
+
+      // Tier 3: API Verification; checks run in order, so values captured
+      // by one are available to the next
+      const variables: Record<string, unknown> = {};
+      const tier3 = await this.runTier(target.featureId, 'tier3', target.tier3 || [], options,
+        check => this.verifyAPIEndpoint(check, variables), check => check.name || `API: ${check.endpoint}`);
+
+      // Keep the page's network activity as evidence (closing the driver clears it)
+      const network = this.collectNetworkEvidence();
+
       // Calculate overall status
       const overall = this.calculateOverallStatus(tier1, tier2, tier3);
 
       const result: VerificationResult = {
         featureId: target.featureId,
         featureName: target.featureName,
-        environment: 'production',
+        environment,
         tier1,
         tier2,
         tier3,
         overall,
         timestamp: new Date().toISOString(),
-        screenshotPath
+        duration: Math.round(performance.now() - started),
+        screenshotPath,
+        network,
+        performance: timings
       };
 
       // Compare with staging if requested
@@ -175,152 +332,162 @@ export class ProductionVerifier {
   }
 
   /**
-   * Tier 1: URL Verification
+   * Run a tier's checks in order, timing each one and screenshotting
+   * failed browser checks when screenshots are on
    */
-  private async verifyTier1(
-    checks: Tier1Check[],
-    options: VerificationOptions
+  private async runTier<T>(
+    featureId: string,
+    tier: 'tier1' | 'tier2' | 'tier3',
+    checks: T[],
+    options: VerificationOptions,
+    runCheck: (check: T) => Promise<CheckResult>,
+    describe: (check: T) => string
   ): Promise<TierResult> {
     if (checks.length === 0) {
-      return this.createSkippedResult('Tier 1');
+      return this.createSkippedResult(tier);
     }
 
+    const tierStarted = performance.now();
     const results: CheckResult[] = [];
-    let passed = 0;
-    let failed = 0;
 
-    for (const check of checks) {
+    for (const [index, check] of checks.entries()) {
+      const started = performance.now();
+      let result: CheckResult;
       try {
-        // Navigate to URL
-        await this.driver.navigate({
-          url: check.url,
-          waitUntil: 'networkidle',
-          timeout: options.timeout || 30000
-        });
-
-        const page = this.driver.getPage();
-        if (!page) {
-          throw new Error('Page not available');
-        }
-
-        // Check page title
-        if (check.expectedTitle) {
-          const title = await page.title();
-          if (!title.includes(check.expectedTitle)) {
-            results.push({
-              name: `URL: ${check.url}`,
-              passed: false,
-              message: `Expected title to contain "${check.expectedTitle}", got "${title}"`
-            });
-            failed++;
-            continue;
-          }
-        }
-
-        // Check for expected element
-        if (check.expectedElement) {
-          const element = await page.$(check.expectedElement);
-          if (!element) {
-            results.push({
-              name: `URL: ${check.url}`,
-              passed: false,
-              message: `Expected element "${check.expectedElement}" not found`
-            });
-            failed++;
-            continue;
-          }
-        }
-
-        // All checks passed
-        results.push({
-          name: `URL: ${check.url}`,
-          passed: true,
-          message: 'URL loads successfully'
-        });
-        passed++;
-
+        result = await runCheck(check);
       } catch (error) {
-        results.push({
-          name: `URL: ${check.url}`,
+        result = {
+          name: describe(check),
           passed: false,
-          message: `Failed to load: ${error instanceof Error ? error.message : String(error)}`
-        });
-        failed++;
+          message: `Failed: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+      result.duration = Math.round(performance.now() - started);
+
+      // API checks don't touch the page, so a screenshot would show nothing useful
+      if (!result.passed && options.captureScreenshots && tier !== 'tier3') {
+        result.screenshotPath = await this.captureFailure(`${featureId}-${tier}-${index + 1}`, options);
       }
+      results.push(result);
     }
 
+    const passed = results.filter(result => result.passed).length;
+    const failed = results.length - passed;
     return {
       passed,
       failed,
       total: checks.length,
       checks: results,
-      status: failed === 0 ? 'pass' : (passed > 0 ? 'partial' : 'fail')
+      status: failed === 0 ? 'pass' : (passed > 0 ? 'partial' : 'fail'),
+      duration: Math.round(performance.now() - tierStarted)
     };
   }
 
   /**
-   * Tier 2: Functionality Verification
+   * Screenshot the page after a failed check; undefined if that fails too
    */
-  private async verifyTier2(
-    checks: Tier2Check[],
-    options: VerificationOptions
-  ): Promise<TierResult> {
-    if (checks.length === 0) {
-      return this.createSkippedResult('Tier 2');
+  private async captureFailure(name: string, options: VerificationOptions): Promise<string | undefined> {
+    const screenshotPath = `${options.screenshotDir || './screenshots'}/${name}-failure.png`;
+    try {
+      await this.driver.screenshot({ path: screenshotPath, fullPage: true });
+      return screenshotPath;
+    } catch {
+      return undefined;
     }
+  }
 
-    const results: CheckResult[] = [];
-    let passed = 0;
-    let failed = 0;
+  /**
+   * API calls and failed responses seen by the browser during the run
+   */
+  private collectNetworkEvidence(): NetworkEvidence {
+    return {
+      totalRequests: this.driver.getNetworkRequests().length,
+      apiCalls: this.networkMonitor.getSummary().endpoints.map(endpoint => ({
+        method: endpoint.method,
+        url: endpoint.url,
+        status: endpoint.statusCode,
+        duration: endpoint.responseTime
+      })),
+      failedResponses: this.driver.getNetworkResponses()
+        .filter(response => response.status >= 400)
+        .map(response => ({ url: response.url, status: response.status }))
+    };
+  }
 
-    for (const check of checks) {
-      try {
-        switch (check.type) {
-          case 'button':
-            const buttonResult = await this.verifyButton(check);
-            results.push(buttonResult);
-            if (buttonResult.passed) passed++;
-            else failed++;
-            break;
-
-          case 'form':
-            const formResult = await this.verifyForm(check);
-            results.push(formResult);
-            if (formResult.passed) passed++;
-            else failed++;
-            break;
-
-          case 'link':
-            const linkResult = await this.verifyLink(check);
-            results.push(linkResult);
-            if (linkResult.passed) passed++;
-            else failed++;
-            break;
-
-          case 'interaction':
-            const interactionResult = await this.verifyInteraction(check);
-            results.push(interactionResult);
-            if (interactionResult.passed) passed++;
-            else failed++;
-            break;
+  /**
+   * Navigation timings and request count of the page just loaded;
+   * undefined when the browser doesn't report them
+   */
+  private async collectPageTimings(): Promise<PageTimings | undefined> {
+    try {
+      const timings = await this.driver.evaluate<Omit<PageTimings, 'requestCount'> | null>(PAGE_TIMINGS_SCRIPT);
+      return timings ? { ...timings, requestCount: this.driver.getNetworkRequests().length } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Tier 1: URL Verification
+   */
+  private async verifyURL(check: Tier1Check, options: VerificationOptions): Promise<CheckResult> {
+    const name = `URL: ${check.url}`;
+    try {
+      const page = this.driver.getPage();
+      if (!page) {
+        throw new Error('Page not available');
+      }
+
+      // Navigate to URL
+      const response = await page.goto(check.url, {
+        waitUntil: 'networkidle',
+        timeout: options.timeout || 30000
+      });
+
+      // Check status code
+      const status = response?.status();
+      if (check.expectedStatus && status !== check.expectedStatus) {
+        return { name, passed: false, message: `Expected status ${check.expectedStatus}, got ${status ?? 'no response'}` };
+      }
+
+      // Check page title
+      if (check.expectedTitle) {
+        const title = await page.title();
+        if (!title.includes(check.expectedTitle)) {
+          return { name, passed: false, message: `Expected title to contain "${check.expectedTitle}", got "${title}"` };
         }
-      } catch (error) {
-        results.push({
-          name: `${check.type}: ${check.selector}`,
-          passed: false,
-          message: `Failed: ${error instanceof Error ? error.message : String(error)}`
-        });
-        failed++;
       }
+
+      // Check for expected element
+      if (check.expectedElement) {
+        const element = await page.$(check.expectedElement);
+        if (!element) {
+          return { name, passed: false, message: `Expected element "${check.expectedElement}" not found` };
+        }
+      }
+
+      // All checks passed
+      return { name, passed: true, message: 'URL loads successfully' };
+
+    } catch (error) {
+      return { name, passed: false, message: `Failed to load: ${error instanceof Error ? error.message : String(error)}` };
     }
+  }
 
-    return {
-      passed,
-      failed,
-      total: checks.length,
-      checks: results,
-      status: failed === 0 ? 'pass' : (passed > 0 ? 'partial' : 'fail')
-    };
+  /**
+   * Tier 2: Functionality Verification
+   */
+  private async verifyFunctionality(check: Tier2Check): Promise<CheckResult> {
+    switch (check.type) {
+      case 'button':
+        return this.verifyButton(check);
+      case 'form':
+        return this.verifyForm(check);
+      case 'link':
+        return this.verifyLink(check);
+      case 'interaction':
+        return this.verifyInteraction(check);
+    }
   }
 
   /**
@@ -544,88 +711,71 @@ export class ProductionVerifier {
   }
 
   /**
-   * Tier 3: API Verification
+   * Verify API endpoint
    */
-  private async verifyTier3(
-    checks: Tier3Check[],
-    options: VerificationOptions
-  ): Promise<TierResult> {
-    if (checks.length === 0) {
-      return this.createSkippedResult('Tier 3');
-    }
-
-    const results: CheckResult[] = [];
-    let passed = 0;
-    let failed = 0;
+  private async verifyAPIEndpoint(template: Tier3Check, variables: Record<string, unknown>): Promise<CheckResult> {
+    const name = template.name || `API: ${template.endpoint}`;
+    try {
+      const check: Tier3Check = {
+        ...template,
+        endpoint: substituteVariables(template.endpoint, variables, encodeURIComponent),
+        headers: substituteVariables(template.headers, variables),
+        body: substituteVariables(template.body, variables),
+        assertions: substituteVariables(template.assertions, variables)
+      };
+      const method = check.method || 'GET';
+      const headers: Record<string, string> = { ...check.headers };
+      const hasHeader = (header: string) => Object.keys(headers).some(key => key.toLowerCase() === header);
 
-    for (const check of checks) {
-      try {
-        const result = await this.verifyAPIEndpoint(check);
-        results.push(result);
-        if (result.passed) passed++;
-        else failed++;
-      } catch (error) {
-        results.push({
-          name: `API: ${check.endpoint}`,
-          passed: false,
-          message: `Failed: ${error instanceof Error ? error.message : String(error)}`
-        });
-        failed++;
+      // Send the browser session's cookies unless the check sets its own
+      const cookies = cookieHeader(check.endpoint, await this.driver.getCookies());
+      if (cookies && !hasHeader('cookie')) {
+        headers.Cookie = cookies;
       }
-    }
 
-    return {
-      passed,
-      failed,
-      total: checks.length,
-      checks: results,
-      status: failed === 0 ? 'pass' : (passed > 0 ? 'partial' : 'fail')
-    };
-  }
+      let body: string | undefined;
+      if (check.body !== undefined) {
+        body = typeof check.body === 'string' ? check.body : JSON.stringify(check.body);
+        if (typeof check.body !== 'string' && !hasHeader('content-type')) {
+          headers['Content-Type'] = 'application/json';
+        }
+      }
 
-  /**
-   * Verify API endpoint
-   */
-  private async verifyAPIEndpoint(check: Tier3Check): Promise<CheckResult> {
-    try {
-      const method = check.method || 'GET';
+      const started = performance.now();
       const response = await fetch(check.endpoint, {
         method,
-        headers: check.headers || {}
+        headers,
+        body
       });
+      const text = await response.text();
+      const duration = Math.round(performance.now() - started);
 
-      // Check status code
-      if (check.expectedStatus && response.status !== check.expectedStatus) {
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key.toLowerCase()] = value;
+      });
+
+      const outcome = evaluateApiResponse(check, { status: response.status, headers: responseHeaders, body: text, duration });
+      Object.assign(variables, outcome.captured);
+
+      if (outcome.failures.length > 0) {
         return {
-          name: `API: ${check.endpoint}`,
+          name,
           passed: false,
-          message: `Expected status ${check.expectedStatus}, got ${response.status}`
+          message: outcome.failures.join('; '),
+          details: outcome.details
         };
       }
 
-      // Check response data if expected
-      if (check.expectedData) {
-        const data = await response.json();
-        // Simple check - in production, you'd want deep equality
-        if (JSON.stringify(data) !== JSON.stringify(check.expectedData)) {
-          return {
-            name: `API: ${check.endpoint}`,
-            passed: false,
-            message: 'Response data does not match expected data',
-            details: { received: data, expected: check.expectedData }
-          };
-        }
-      }
-
       return {
-        name: `API: ${check.endpoint}`,
+        name,
         passed: true,
-        message: `API responded with status ${response.status}`
+        message: `API responded with status ${response.status} in ${duration}ms`
       };
 
     } catch (error) {
       return {
-        name: `API: ${check.endpoint}`,
+        name,
         passed: false,
         message: `Error: ${error instanceof Error ? error.message : String(error)}`
       };
@@ -639,22 +789,14 @@ export class ProductionVerifier {
     target: VerificationTarget,
     options: VerificationOptions
   ): Promise<VerificationResult> {
-    if (!target.stagingUrl) {
-      throw new Error('Staging URL not provided');
-    }
+    // Create new target for staging
+    const stagingTarget = toStagingTarget(target);
 
-    // Close current session
+    // Close the production session; verify() launches a new one
     await this.driver.close();
 
-    // Create new target for staging
-    const stagingTarget = { ...target, productionUrl: target.stagingUrl };
-
     // Verify staging
-    await this.driver.launch();
-    const result = await this.verify(stagingTarget, options);
-    result.environment = 'staging';
-
-    return result;
+    return this.verify(stagingTarget, { ...options, compareStaging: false, environment: 'staging' });
   }
 
   /**
@@ -703,7 +845,8 @@ export class ProductionVerifier {
       tier2: this.createSkippedResult('Tier 2'),
       tier3: this.createSkippedResult('Tier 3'),
       overall: 'fail',
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error)
     };
   }
 
@@ -741,6 +884,9 @@ export class ProductionVerifier {
       lines.push('');
       lines.push(`**Status**: ${result.overall}`);
       lines.push(`**Timestamp**: ${result.timestamp}`);
+      if (result.error) {
+        lines.push(`**Error**: ${result.error}`);
+      }
       lines.push('');
 
       // Tier results
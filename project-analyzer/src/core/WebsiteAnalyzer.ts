@@ -2,6 +2,7 @@
  * Website Analyzer
  * Analyzes live websites to extract feature lists
  * Uses shared web viewing libraries (PlaywrightDriver, FeatureExtractor, NetworkMonitor)
+ * Pages are visited through SiteCrawler, one browser per concurrent page
  */
 
 import * as path from 'path';
@@ -14,13 +15,23 @@ import {
 } from '../types/features';
 
 // Import shared libraries
-import { PlaywrightDriver, FeatureExtractor, NetworkMonitor, ScreenshotCapture } from '@project-suite/shared';
+import {
+  PlaywrightDriver,
+  FeatureExtractor,
+  NetworkMonitor,
+  ScreenshotCapture,
+  StorageState,
+  createAuthSession
+} from '@project-suite/shared';
 import { createHash } from 'crypto';
+import { SiteCrawler, SiteMap, VisitedPage } from './siteCrawler';
 
 export class WebsiteAnalyzer {
   private options: WebsiteAnalysisOptions;
   private context?: DesignContext;
-  private driver?: PlaywrightDriver;
+  private drivers: PlaywrightDriver[] = [];
+  private idleDrivers: PlaywrightDriver[] = [];
+  private session?: StorageState;
 
   constructor(options: WebsiteAnalysisOptions, context?: DesignContext) {
     this.options = {
@@ -43,29 +54,51 @@ export class WebsiteAnalyzer {
     const analyzedSources: string[] = [];
     const warnings: string[] = [];
 
-    // Initialize Playwright driver
-    this.driver = new PlaywrightDriver({
-      headless: true,
-      viewport: { width: 1920, height: 1080 }
+    const crawler = new SiteCrawler({
+      maxDepth: this.options.crawlDepth,
+      maxPages: this.options.maxPages,
+      concurrency: this.options.concurrency,
+      include: this.options.includePatterns,
+      exclude: this.options.excludePatterns,
+      respectRobots: this.options.respectRobots,
+      useSitemap: this.options.useSitemap
     });
 
-    try {
-      await this.driver.launch();
+    // Sign in once; every browser starts from the same session
+    if (this.options.authProfile) {
+      this.session = await createAuthSession(this.options.authProfile, { headless: true });
+    }
 
-      // Analyze each URL
-      for (const url of this.options.urls) {
+    // Features per page, collected in site map order once the crawl is done
+    const pageFeatures = new Map<string, ExtractedFeature[]>();
+    let siteMap: SiteMap;
+    try {
+      // Visit pages breadth-first, running the full extraction on each
+      siteMap = await crawler.crawl(this.options.urls, async (url) => {
+        const driver = await this.acquireDriver();
         try {
-          const urlFeatures = await this.analyzeURL(url);
-          features.push(...urlFeatures);
-          analyzedSources.push(url);
-        } catch (error) {
-          warnings.push(`Failed to analyze ${url}: ${error}`);
+          const page = await this.analyzeURL(url, driver);
+          pageFeatures.set(url, page.features);
+          return page;
+        } finally {
+          this.idleDrivers.push(driver);
         }
-      }
+      });
     } finally {
-      // Always close the driver
-      if (this.driver) {
-        await this.driver.close();
+      // Always close the drivers
+      await Promise.all(this.drivers.map(driver => driver.close()));
+      this.drivers = [];
+      this.idleDrivers = [];
+    }
+
+    for (const page of siteMap.pages) {
+      if (page.error) {
+        warnings.push(`Failed to analyze ${page.url}: ${page.error}`);
+      } else if (page.status && page.status >= 400) {
+        warnings.push(`${page.url} returned HTTP ${page.status}`);
+      } else {
+        analyzedSources.push(page.url);
+        features.push(...(pageFeatures.get(page.url) || []));
       }
     }
 
@@ -93,27 +126,55 @@ export class WebsiteAnalyzer {
         version: '1.0.0'
       },
       warnings: warnings.length > 0 ? warnings : undefined,
-      recommendations: this.generateRecommendations(uniqueFeatures)
+      recommendations: this.generateRecommendations(uniqueFeatures),
+      siteMap: this.options.crawlDepth ? siteMap : undefined
     };
 
     return result;
   }
 
   /**
-   * Analyze a single URL
+   * An idle browser, launching one while fewer than `concurrency` exist
+   */
+  private async acquireDriver(): Promise<PlaywrightDriver> {
+    const idle = this.idleDrivers.pop();
+    if (idle) {
+      return idle;
+    }
+
+    const driver = new PlaywrightDriver({
+      headless: true,
+      viewport: { width: 1920, height: 1080 },
+      storageState: this.session
+    });
+    this.drivers.push(driver);
+    await driver.launch();
+    return driver;
+  }
+
+  /**
+   * Analyze a single URL and collect its links for the crawler
    */
-  private async analyzeURL(url: string): Promise<ExtractedFeature[]> {
-    if (!this.driver) {
+  private async analyzeURL(url: string, driver: PlaywrightDriver): Promise<VisitedPage & { features: ExtractedFeature[] }> {
+    const page = driver.getPage();
+    if (!page) {
       throw new Error('Driver not initialized');
     }
 
     const features: ExtractedFeature[] = [];
 
     // Navigate to URL
-    await this.driver.navigate({ url, waitUntil: 'networkidle' });
+    const response = await page.goto(url, { waitUntil: 'networkidle' });
+    const status = response?.status();
+    const finalUrl = page.url();
+    const title = (await page.title()).trim() || undefined;
+
+    if (status && status >= 400) {
+      return { features, links: [], title, status, finalUrl };
+    }
 
     // Initialize feature extractor
-    const extractor = new FeatureExtractor(this.driver);
+    const extractor = new FeatureExtractor(driver);
 
     // Extract UI features
     const extractionResult = await extractor.extract({
@@ -126,28 +187,29 @@ export class WebsiteAnalyzer {
 
     // Analyze interactions if enabled
     if (this.options.analyzeInteractions) {
-      const interactions = await this.analyzeInteractiveElements(url);
+      const interactions = await this.analyzeInteractiveElements(url, driver);
       features.push(...interactions);
     }
 
     // Analyze API calls if enabled
     if (this.options.analyzeAPIs) {
-      const apiFeatures = await this.analyzeAPICalls(url);
+      const apiFeatures = await this.analyzeAPICalls(url, driver);
       features.push(...apiFeatures);
     }
 
     // Capture screenshot if enabled
     if (this.options.captureScreenshots) {
-      await this.capturePageScreenshot(url);
+      await this.capturePageScreenshot(url, driver);
     }
 
-    // Crawl linked pages if depth > 0
+    // Each crawled page is a feature of its own
     if (this.options.crawlDepth && this.options.crawlDepth > 0) {
-      const linkedFeatures = await this.crawlLinkedPages(url, this.options.crawlDepth);
-      features.push(...linkedFeatures);
+      features.push(this.createPageFeature(url, title));
     }
 
-    return features;
+    const links = await page.$$eval('a[href]', (anchors) => anchors.map(a => (a as any).href as string));
+
+    return { features, links, title, status, finalUrl };
   }
 
   /**
@@ -180,9 +242,7 @@ export class WebsiteAnalyzer {
   /**
    * Analyze interactive elements
    */
-  private async analyzeInteractiveElements(url: string): Promise<ExtractedFeature[]> {
-    if (!this.driver) return [];
-
+  private async analyzeInteractiveElements(url: string, driver: PlaywrightDriver): Promise<ExtractedFeature[]> {
     const features: ExtractedFeature[] = [];
 
     // Find all interactive elements
@@ -198,7 +258,7 @@ export class WebsiteAnalyzer {
     ];
 
     for (const selector of interactiveSelectors) {
-      const page = this.driver.getPage();
+      const page = driver.getPage();
       if (!page) continue;
 
       const elements = await page.$$(selector);
@@ -237,13 +297,11 @@ export class WebsiteAnalyzer {
   /**
    * Analyze API calls using NetworkMonitor
    */
-  private async analyzeAPICalls(url: string): Promise<ExtractedFeature[]> {
-    if (!this.driver) return [];
-
-    const page = this.driver.getPage();
+  private async analyzeAPICalls(url: string, driver: PlaywrightDriver): Promise<ExtractedFeature[]> {
+    const page = driver.getPage();
     if (!page) return [];
 
-    const monitor = new NetworkMonitor(this.driver);
+    const monitor = new NetworkMonitor(driver);
     await monitor.startMonitoring();
 
     // Trigger some interactions to capture API calls
@@ -284,57 +342,34 @@ export class WebsiteAnalyzer {
   /**
    * Capture page screenshot
    */
-  private async capturePageScreenshot(url: string): Promise<void> {
-    if (!this.driver) return;
-
+  private async capturePageScreenshot(url: string, driver: PlaywrightDriver): Promise<void> {
     const filename = this.sanitizeFilename(url);
-    await this.driver.screenshot({
+    await driver.screenshot({
       path: `screenshots/${filename}.png`,
       fullPage: true
     });
   }
 
   /**
-   * Crawl linked pages
+   * Page feature for a crawled URL
    */
-  private async crawlLinkedPages(baseUrl: string, depth: number): Promise<ExtractedFeature[]> {
-    // Simplified crawling - just identify linked pages as features
-    if (!this.driver || depth <= 0) return [];
-
-    const page = this.driver.getPage();
-    if (!page) return [];
+  private createPageFeature(url: string, title?: string): ExtractedFeature {
+    const name = title || new URL(url).pathname;
 
-    const links = await page.$$eval('a[href]', (anchors) =>
-      anchors.map(a => ({
-        href: (a as any).href,
-        text: a.textContent?.trim() || ''
-      }))
-    );
-
-    const features: ExtractedFeature[] = [];
-
-    for (const link of links) {
-      if (link.href.startsWith(baseUrl) && link.text) {
-        const id = this.generateFeatureId(link.text, link.href);
-
-        features.push({
-          id,
-          name: link.text,
-          description: `Page: ${link.text}`,
-          category: 'Page',
-          source: 'website',
-          sourcePath: baseUrl,
-          priority: 'low',
-          status: 'identified',
-          confidence: 70,
-          location: { url: link.href },
-          tags: ['page', 'linked'],
-          extractedAt: new Date().toISOString()
-        });
-      }
-    }
-
-    return features;
+    return {
+      id: this.generateFeatureId(name, url),
+      name,
+      description: `Page: ${name}`,
+      category: 'Page',
+      source: 'website',
+      sourcePath: url,
+      priority: 'medium',
+      status: 'identified',
+      confidence: 85,
+      location: { url },
+      tags: ['page', 'crawled'],
+      extractedAt: new Date().toISOString()
+    };
   }
 
   /**
@@ -0,0 +1,555 @@
+/**
+ * API contract checks (Tier 3)
+ *
+ * Evaluates a response against a Tier 3 check (status, latency budget,
+ * headers, JSON Schema, JSONPath assertions) and captures values that later
+ * checks reference as `{{name}}`. Also generates checks from an OpenAPI
+ * (or Swagger 2) document or from API calls seen by NetworkMonitor.
+ */
+
+import type { APIEndpoint } from '@project-suite/shared';
+import type { JsonPathAssertion, Tier3Check } from './ProductionVerifier';
+import { queryJsonPath } from '../utils/jsonPath';
+import { JsonSchema, resolveRef, validateJsonSchema } from '../utils/jsonSchema';
+
+export interface ApiResponse {
+  status: number;
+  /** Header names in lower case */
+  headers: Record<string, string>;
+  body: string;
+  /** Time until the body was read, in ms */
+  duration: number;
+}
+
+export interface ApiCheckOutcome {
+  failures: string[];
+  /** Values from `capture`, by variable name */
+  captured: Record<string, unknown>;
+  details: Record<string, unknown>;
+}
+
+export interface GeneratedApiChecks {
+  checks: Tier3Check[];
+  /** Operations no check could be generated for, with the reason */
+  skipped: string[];
+  /** Origin the API was found on, when the source names one */
+  baseUrl?: string;
+}
+
+export interface ApiCheckGeneratorOptions {
+  /** Methods to generate checks for (default: GET, so checks never change data) */
+  methods?: NonNullable<Tier3Check['method']>[];
+  /** Latency budget for every generated check, in ms */
+  maxLatency?: number;
+}
+
+const GENERATED_METHODS: NonNullable<Tier3Check['method']>[] = ['GET', 'POST', 'PUT', 'DELETE'];
+
+function isCheckMethod(method: string): method is NonNullable<Tier3Check['method']> {
+  return (GENERATED_METHODS as string[]).includes(method);
+}
+
+/**
+ * Parse a comma-separated list of methods such as `get,POST`
+ * @throws Error for a method Tier 3 checks don't support
+ */
+export function parseCheckMethods(list: string): NonNullable<Tier3Check['method']>[] {
+  return list.split(',').map(method => method.trim().toUpperCase()).filter(Boolean).map(method => {
+    if (!isCheckMethod(method)) {
+      throw new Error(`Unknown method "${method}" (expected ${GENERATED_METHODS.join(', ')})`);
+    }
+    return method;
+  });
+}
+const VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}|%7B%7B([\w.-]+)%7D%7D/gi;
+
+/**
+ * Names of the `{{variables}}` a value refers to
+ */
+export function variableReferences(value: unknown): string[] {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return [...text.matchAll(VARIABLE)].map(match => match[1] || match[2]);
+}
+
+/**
+ * Replace `{{name}}` with captured values in every string of a value. A
+ * string that is only a reference takes the value as it is (numbers stay
+ * numbers); references inside a longer string go through `encode`. The
+ * percent-encoded form is matched too, since URL resolution encodes braces.
+ * @throws Error when a variable has not been captured
+ */
+export function substituteVariables<T>(
+  value: T,
+  variables: Record<string, unknown>,
+  encode: (value: string) => string = value => value
+): T {
+  const lookup = (name: string): unknown => {
+    if (!(name in variables)) {
+      throw new Error(`Variable "${name}" has not been captured`);
+    }
+    return variables[name];
+  };
+
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([\w.-]+)\s*\}\}$/);
+    if (whole) {
+      return lookup(whole[1]) as T;
+    }
+    return value.replace(VARIABLE, (_match, name?: string, encoded?: string) => {
+      const resolved = lookup(name || encoded!);
+      return encode(typeof resolved === 'string' ? resolved : JSON.stringify(resolved));
+    }) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteVariables(item, variables, encode)) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteVariables(item, variables, encode)])
+    ) as T;
+  }
+  return value;
+}
+
+function show(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function assertionProblem(value: unknown, assertion: JsonPathAssertion): string | undefined {
+  if ('equals' in assertion && !sameValue(value, assertion.equals)) {
+    return `is ${show(value)}, expected ${show(assertion.equals)}`;
+  }
+  if (assertion.matches !== undefined && !(typeof value === 'string' && new RegExp(assertion.matches).test(value))) {
+    return `is ${show(value)}, expected to match /${assertion.matches}/`;
+  }
+  if ('contains' in assertion) {
+    const contained = typeof value === 'string'
+      ? typeof assertion.contains === 'string' && value.includes(assertion.contains)
+      : Array.isArray(value) && value.some(item => sameValue(item, assertion.contains));
+    if (!contained) {
+      return `is ${show(value)}, expected it to contain ${show(assertion.contains)}`;
+    }
+  }
+  if (assertion.greaterThan !== undefined && !(typeof value === 'number' && value > assertion.greaterThan)) {
+    return `is ${show(value)}, expected more than ${assertion.greaterThan}`;
+  }
+  if (assertion.lessThan !== undefined && !(typeof value === 'number' && value < assertion.lessThan)) {
+    return `is ${show(value)}, expected less than ${assertion.lessThan}`;
+  }
+  if (assertion.length !== undefined) {
+    const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+    if (length !== assertion.length) {
+      return length === undefined
+        ? `is ${show(value)}, which has no length`
+        : `has length ${length}, expected ${assertion.length}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check one JSONPath assertion against a response body
+ * @returns Why it failed, or undefined when it holds
+ */
+export function checkAssertion(data: unknown, assertion: JsonPathAssertion): string | undefined {
+  let matches: unknown[];
+  try {
+    matches = queryJsonPath(data, assertion.path);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  if (assertion.exists === false) {
+    return matches.length > 0 ? `${assertion.path} should not exist` : undefined;
+  }
+  if (matches.length === 0) {
+    return `${assertion.path} matched nothing`;
+  }
+  for (const value of matches) {
+    const problem = assertionProblem(value, assertion);
+    if (problem) {
+      return `${assertion.path} ${problem}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a response against a check
+ */
+export function evaluateApiResponse(check: Tier3Check, response: ApiResponse): ApiCheckOutcome {
+  const failures: string[] = [];
+  const captured: Record<string, unknown> = {};
+  const details: Record<string, unknown> = { status: response.status, duration: response.duration };
+
+  if (check.expectedStatus && response.status !== check.expectedStatus) {
+    failures.push(`Expected status ${check.expectedStatus}, got ${response.status}`);
+  }
+  if (check.maxLatency !== undefined && response.duration > check.maxLatency) {
+    failures.push(`Took ${response.duration}ms, budget is ${check.maxLatency}ms`);
+  }
+
+  for (const [name, expected] of Object.entries(check.expectedHeaders || {})) {
+    const actual = response.headers[name.toLowerCase()];
+    if (expected === false) {
+      if (actual !== undefined) failures.push(`Unexpected header "${name}"`);
+    } else if (actual === undefined) {
+      failures.push(`Missing header "${name}"`);
+    } else if (typeof expected === 'string' && !actual.includes(expected)) {
+      failures.push(`Header "${name}" is "${actual}", expected it to contain "${expected}"`);
+    }
+  }
+
+  const captures = Object.entries(check.capture || {});
+  const needsBody = check.schema !== undefined || check.expectedData !== undefined ||
+    (check.assertions?.length ?? 0) > 0 || captures.some(([, source]) => !source.startsWith('header:'));
+
+  let data: unknown;
+  let parsed = false;
+  if (needsBody) {
+    try {
+      data = JSON.parse(response.body);
+      parsed = true;
+    } catch {
+      failures.push('Response body is not JSON');
+    }
+  }
+
+  if (parsed) {
+    if (check.expectedData !== undefined && !sameValue(data, check.expectedData)) {
+      failures.push('Response data does not match expected data');
+      details.received = data;
+      details.expected = check.expectedData;
+    }
+
+    if (check.schema !== undefined) {
+      const errors = validateJsonSchema(data, check.schema);
+      if (errors.length > 0) {
+        const shown = errors.slice(0, 3).join('; ');
+        failures.push(`Response does not match schema: ${shown}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}`);
+        details.schemaErrors = errors;
+      }
+    }
+
+    for (const assertion of check.assertions || []) {
+      const problem = checkAssertion(data, assertion);
+      if (problem) failures.push(problem);
+    }
+  }
+
+  for (const [name, source] of captures) {
+    const value = source.startsWith('header:')
+      ? response.headers[source.slice('header:'.length).trim().toLowerCase()]
+      : parsed ? queryJsonPath(data, source)[0] : undefined;
+    if (value === undefined) {
+      failures.push(`Could not capture "${name}" from ${source}`);
+    } else {
+      captured[name] = value;
+    }
+  }
+
+  return { failures, captured, details };
+}
+
+/**
+ * A schema describing an observed value: objects require the keys they had,
+ * arrays merge their items' schemas
+ */
+export function inferSchema(value: unknown): JsonSchema {
+  if (value === null) return {};
+  if (Array.isArray(value)) {
+    const items = value.slice(0, 20).map(inferSchema);
+    return { type: 'array', items: items.length > 0 ? items.reduce(mergeSchemas) : {} };
+  }
+  if (typeof value === 'object') {
+    const properties = Object.fromEntries(Object.entries(value as object).map(([key, item]) => [key, inferSchema(item)]));
+    return { type: 'object', properties, required: Object.keys(properties) };
+  }
+  // An observed 3 may be 3.5 next time, so numbers are never narrowed to integers
+  return { type: typeof value };
+}
+
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  if (typeof a === 'boolean' || typeof b === 'boolean' || a.type !== b.type) return {};
+  if (a.type === 'array') {
+    return { type: 'array', items: mergeSchemas(a.items ?? {}, b.items ?? {}) };
+  }
+  if (a.type === 'object') {
+    const properties: Record<string, JsonSchema> = { ...a.properties };
+    for (const [key, schema] of Object.entries(b.properties || {})) {
+      properties[key] = key in properties ? mergeSchemas(properties[key], schema) : schema;
+    }
+    return { type: 'object', properties, required: (a.required || []).filter(key => b.required?.includes(key)) };
+  }
+  return a;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A document node as an object; anything else (missing, a list, a scalar) is empty
+ */
+function objectOf(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+function listOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Copy a schema with its local `$ref`s inlined, so generated checks stand on
+ * their own. A reference back into itself is cut off as `{}`.
+ */
+function inlineRefs(value: unknown, root: unknown, seen: string[] = []): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => inlineRefs(item, root, seen));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (typeof value.$ref === 'string') {
+    return seen.includes(value.$ref) ? {} : inlineRefs(resolveRef(root, value.$ref), root, [...seen, value.$ref]);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inlineRefs(item, root, seen)]));
+}
+
+function deref(value: unknown, root: unknown): unknown {
+  return isObject(value) && typeof value.$ref === 'string' ? resolveRef(root, value.$ref) : value;
+}
+
+function exampleOf(holder: unknown): unknown {
+  if (!isObject(holder)) return undefined;
+  if (holder.example !== undefined) return holder.example;
+  if (holder['x-example'] !== undefined) return holder['x-example'];
+  // A JSON Schema `examples` list, or OpenAPI examples by name
+  const [first] = Array.isArray(holder.examples) ? holder.examples : Object.values(objectOf(holder.examples));
+  return isObject(first) && first.value !== undefined ? first.value : first;
+}
+
+function parameterExample(parameter: JsonObject): unknown {
+  const schema = objectOf(parameter.schema);
+  return exampleOf(parameter) ?? exampleOf(schema) ?? schema.default ??
+    listOf(schema.enum)[0] ?? parameter.default ?? listOf(parameter.enum)[0];
+}
+
+function jsonMediaType(content: unknown): string | undefined {
+  return Object.keys(objectOf(content)).find(type => /^application\/([\w.-]+\+)?json\b/.test(type));
+}
+
+/**
+ * Where a document's API lives: the origin (when it names one) and the
+ * path prefix for its operations
+ */
+function serverOf(doc: JsonObject): { baseUrl?: string; prefix: string } {
+  if (doc.swagger) {
+    const scheme = listOf(doc.schemes)[0] || 'https';
+    const baseUrl = doc.host ? `${scheme}://${doc.host}` : undefined;
+    return { baseUrl, prefix: String(doc.basePath || '').replace(/\/$/, '') };
+  }
+
+  const server = objectOf(listOf(doc.servers)[0]);
+  if (!server.url) {
+    return { prefix: '' };
+  }
+  const variables = objectOf(server.variables);
+  const url = String(server.url).replace(/\{(\w+)\}/g, (match, name: string) => {
+    const fallback = objectOf(variables[name]).default;
+    return fallback === undefined || fallback === null ? match : String(fallback);
+  });
+  if (/^https?:\/\//.test(url)) {
+    const parsed = new URL(url);
+    return { baseUrl: parsed.origin, prefix: parsed.pathname.replace(/\/$/, '') };
+  }
+  return { prefix: url.replace(/\/$/, '') };
+}
+
+/**
+ * Generate Tier 3 checks from an OpenAPI 3 or Swagger 2 document: one per
+ * operation, expecting its first 2xx status and validating the JSON body
+ * against the response schema. Endpoints are relative (`/path`) so they
+ * resolve against the spec environment's base URL. Operations that need a
+ * path parameter, required query parameter or request body without an
+ * example are skipped.
+ * @throws Error when the document is not OpenAPI
+ */
+export function checksFromOpenAPI(doc: unknown, options: ApiCheckGeneratorOptions = {}): GeneratedApiChecks {
+  if (!isObject(doc) || (!doc.openapi && !doc.swagger)) {
+    throw new Error('Not an OpenAPI document: expected an "openapi" or "swagger" field');
+  }
+
+  const methods = options.methods || ['GET'];
+  const { baseUrl, prefix } = serverOf(doc);
+  const checks: Tier3Check[] = [];
+  const skipped: string[] = [];
+
+  for (const [path, rawItem] of Object.entries(objectOf(doc.paths))) {
+    const item = objectOf(deref(rawItem, doc));
+    for (const method of GENERATED_METHODS) {
+      const operation = item[method.toLowerCase()];
+      if (!isObject(operation) || !methods.includes(method)) continue;
+      const label = `${method} ${path}`;
+
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, JsonObject>();
+      for (const parameter of [...listOf(item.parameters), ...listOf(operation.parameters)].map(p => objectOf(deref(p, doc)))) {
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+
+      const problems: string[] = [];
+      const endpointPath = path.replace(/\{([^}]+)\}/g, (match, name: string) => {
+        const example = parameterExample(parameters.get(`path:${name}`) || {});
+        if (example === undefined) {
+          problems.push(`no example for path parameter "${name}"`);
+          return match;
+        }
+        return encodeURIComponent(String(example));
+      });
+
+      const query = new URLSearchParams();
+      for (const parameter of parameters.values()) {
+        if (parameter.in !== 'query' || !parameter.required) continue;
+        const example = parameterExample(parameter);
+        if (example === undefined) {
+          problems.push(`no example for required query parameter "${parameter.name}"`);
+        } else {
+          query.set(String(parameter.name), String(example));
+        }
+      }
+
+      let body: unknown;
+      const requestBody = deref(operation.requestBody, doc);
+      const bodyParameter = [...parameters.values()].find(parameter => parameter.in === 'body');
+      if (isObject(requestBody)) {
+        const content = objectOf(requestBody.content);
+        const media = objectOf(content[jsonMediaType(content) || '']);
+        body = exampleOf(media) ?? exampleOf(deref(media.schema, doc));
+        if (body === undefined && requestBody.required) {
+          problems.push('no example for the required request body');
+        }
+      } else if (bodyParameter) {
+        body = exampleOf(bodyParameter) ?? exampleOf(deref(bodyParameter.schema, doc));
+        if (body === undefined && bodyParameter.required) {
+          problems.push('no example for the required request body');
+        }
+      }
+
+      if (problems.length > 0) {
+        skipped.push(`${label}: ${problems.join(', ')}`);
+        continue;
+      }
+
+      const responses = objectOf(operation.responses);
+      const status = Object.keys(responses).filter(code => /^2\d\d$/.test(code)).sort()[0];
+      const response = objectOf(status ? deref(responses[status], doc) : undefined);
+      const produces = listOf(operation.produces || doc.produces || ['application/json']);
+      const mediaType = doc.swagger
+        ? (response.schema ? produces.find((type): type is string => typeof type === 'string' && /json/.test(type)) : undefined)
+        : jsonMediaType(response.content);
+      const schema = doc.swagger ? response.schema : objectOf(objectOf(response.content)[mediaType || '']).schema;
+
+      const queryString = query.toString();
+      checks.push({
+        name: typeof operation.operationId === 'string' && operation.operationId ? operation.operationId : label,
+        endpoint: `${prefix}${endpointPath}${queryString ? `?${queryString}` : ''}`,
+        method,
+        ...(body !== undefined ? { body } : {}),
+        ...(status ? { expectedStatus: Number(status) } : {}),
+        ...(mediaType ? { expectedHeaders: { 'content-type': mediaType } } : {}),
+        // Response schemas are JSON Schema (OpenAPI's dialect of it)
+        ...(schema && mediaType ? { schema: inlineRefs(schema, doc) as JsonSchema } : {}),
+        ...(options.maxLatency !== undefined ? { maxLatency: options.maxLatency } : {})
+      });
+    }
+  }
+
+  return { checks, skipped, baseUrl };
+}
+
+/**
+ * Generate Tier 3 checks from API calls seen in the browser: one per method
+ * and URL, expecting the observed status and a body shaped like the observed
+ * one. Calls to the page's origin get relative endpoints. Failed calls are
+ * skipped.
+ */
+export function checksFromNetwork(
+  endpoints: APIEndpoint[],
+  pageUrl: string,
+  options: ApiCheckGeneratorOptions = {}
+): GeneratedApiChecks {
+  const methods = options.methods || ['GET'];
+  const origin = new URL(pageUrl).origin;
+  const checks: Tier3Check[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  for (const endpoint of endpoints) {
+    const method = (endpoint.method || 'GET').toUpperCase();
+    const key = `${method} ${endpoint.url}`;
+    if (!isCheckMethod(method) || seen.has(key) || !methods.includes(method)) continue;
+    seen.add(key);
+
+    if (endpoint.statusCode < 200 || endpoint.statusCode >= 300) {
+      skipped.push(`${key}: responded ${endpoint.statusCode}`);
+      continue;
+    }
+
+    const url = new URL(endpoint.url);
+    const contentType = Object.entries(endpoint.responseHeaders || {})
+      .find(([name]) => name.toLowerCase() === 'content-type')?.[1]?.split(';')[0].trim();
+
+    let schema: JsonSchema | undefined;
+    if (contentType && /json/.test(contentType) && endpoint.responsePayload) {
+      try {
+        schema = inferSchema(JSON.parse(endpoint.responsePayload));
+      } catch {
+        // Truncated or not really JSON: check the status and headers only
+      }
+    }
+
+    let body: unknown;
+    if (method !== 'GET' && endpoint.requestPayload) {
+      try {
+        body = JSON.parse(endpoint.requestPayload);
+      } catch {
+        body = endpoint.requestPayload;
+      }
+    }
+
+    checks.push({
+      name: `${method} ${url.pathname}`,
+      endpoint: url.origin === origin ? `${url.pathname}${url.search}` : endpoint.url,
+      method,
+      ...(body !== undefined ? { body } : {}),
+      expectedStatus: endpoint.statusCode,
+      ...(contentType ? { expectedHeaders: { 'content-type': contentType } } : {}),
+      ...(schema ? { schema } : {}),
+      ...(options.maxLatency !== undefined ? { maxLatency: options.maxLatency } : {})
+    });
+  }
+
+  return { checks, skipped, baseUrl: origin };
+}
+
+/**
+ * A verification spec holding generated checks as one feature, ready for `verify`
+ */
+export function generatedChecksSpec(generated: GeneratedApiChecks, featureId: string, featureName?: string): Record<string, unknown> {
+  return {
+    ...(generated.baseUrl ? { environments: { production: { baseUrl: generated.baseUrl } } } : {}),
+    features: [{
+      id: featureId,
+      ...(featureName ? { name: featureName } : {}),
+      tier3: generated.checks
+    }]
+  };
+}
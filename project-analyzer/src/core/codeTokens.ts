@@ -0,0 +1,350 @@
+/**
+ * Implementation token extraction
+ *
+ * Reads the colors and typography a codebase actually uses, from stylesheets
+ * (CSS, SCSS, Sass, Less) and Tailwind config files, or from the computed
+ * styles of a live page. The result is a DesignTokenSet that can be compared
+ * against the tokens extracted from designs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import { PlaywrightDriver } from '@project-suite/shared';
+import { createPathFilter } from '../utils/fileTraversal';
+import { ColorToken, DesignTokenSet, parseHexColor, toHex } from './designTokens';
+import { Typography } from '../types/features';
+
+const STYLE_PATTERNS = ['**/*.{css,scss,sass,less}', '**/tailwind.config.{js,cjs,mjs,ts}'];
+
+const COLOR_PROPERTIES = /^(color|background(-color)?|border(-(top|right|bottom|left))?(-color)?|outline(-color)?|fill|stroke|text-decoration-color|box-shadow|caret-color|accent-color)$/;
+
+const NAMED_WEIGHTS: Record<string, string> = { normal: '400', bold: '700' };
+
+/** Root font size used to convert rem/em to px */
+const ROOT_FONT_SIZE = 16;
+
+/**
+ * Parse a CSS color literal (hex, rgb(), hsl()) into a hex string
+ */
+export function parseCssColor(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+  if (text.startsWith('#')) {
+    const rgb = parseHexColor(text);
+    return rgb ? toHex(rgb) : undefined;
+  }
+
+  const match = text.match(/^(rgba?|hsla?)\(\s*([^)]*)\)$/);
+  if (!match) return undefined;
+
+  const parts = match[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return undefined;
+
+  if (match[1].startsWith('rgb')) {
+    const channels = parts.slice(0, 3).map(p => p.endsWith('%') ? parseFloat(p) * 2.55 : parseFloat(p));
+    if (channels.some(c => !Number.isFinite(c))) return undefined;
+    return toHex(channels.map(c => Math.max(0, Math.min(255, c))) as [number, number, number]);
+  }
+
+  const hue = parseFloat(parts[0]);
+  const saturation = parseFloat(parts[1]) / 100;
+  const lightness = parseFloat(parts[2]) / 100;
+  if (![hue, saturation, lightness].every(Number.isFinite)) return undefined;
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return 255 * (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return toHex([channel(0), channel(8), channel(4)]);
+}
+
+/** Color literals inside a declaration value (`1px solid #ccc`, `rgb(0 0 0 / 50%)`) */
+function findColors(value: string): string[] {
+  const colors: string[] = [];
+  for (const match of value.matchAll(/#[0-9a-fA-F]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)/g)) {
+    const hex = parseCssColor(match[0]);
+    if (hex) colors.push(hex);
+  }
+  return colors;
+}
+
+/**
+ * Font size in px; unitless, var() and calc() sizes are skipped
+ */
+function parseFontSize(value: string): number | undefined {
+  const match = value.trim().match(/^(\d*\.?\d+)(px|rem|em|pt)$/);
+  if (!match) return undefined;
+  const size = parseFloat(match[1]);
+  const px = match[2] === 'px' ? size : match[2] === 'pt' ? size * 4 / 3 : size * ROOT_FONT_SIZE;
+  return Math.round(px * 100) / 100;
+}
+
+/**
+ * Accumulates tokens from several sources
+ */
+class TokenCollector {
+  private colors = new Map<string, ColorToken>();
+  private families = new Set<string>();
+  private sizes = new Set<number>();
+  private headingSizes = new Set<number>();
+  private lineHeights = new Set<number>();
+  private weights = new Set<string>();
+
+  addColor(hex: string, weight = 1, name?: string): void {
+    const existing = this.colors.get(hex);
+    if (existing) {
+      existing.weight += weight;
+      existing.name = existing.name || name;
+    } else {
+      this.colors.set(hex, { hex, name, weight });
+    }
+  }
+
+  addFontFamily(value: string): void {
+    const family = value.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    if (family && !/^(inherit|initial|unset|var\()/.test(family)) {
+      this.families.add(family);
+    }
+  }
+
+  addFontSize(value: string | number, heading = false): void {
+    const size = typeof value === 'number' ? value : parseFontSize(value);
+    if (size !== undefined && size > 0) {
+      (heading ? this.headingSizes : this.sizes).add(size);
+    }
+  }
+
+  addFontWeight(value: string): void {
+    const weight = NAMED_WEIGHTS[value.trim()] || value.trim();
+    if (/^\d{3}$/.test(weight)) this.weights.add(weight);
+  }
+
+  addLineHeight(value: string): void {
+    const height = parseFloat(value);
+    if (Number.isFinite(height) && /^\d*\.?\d+(px)?$/.test(value.trim())) {
+      this.lineHeights.add(height);
+    }
+  }
+
+  toTokenSet(source: string): DesignTokenSet {
+    const sorted = (values: Set<number>) => Array.from(values).sort((a, b) => a - b);
+    const typography: Typography = {
+      fontFamilies: Array.from(this.families),
+      headingSizes: sorted(this.headingSizes),
+      bodySizes: sorted(this.sizes).filter(size => !this.headingSizes.has(size)),
+      lineHeights: sorted(this.lineHeights),
+      fontWeights: Array.from(this.weights).sort()
+    };
+    return {
+      source,
+      colors: Array.from(this.colors.values()).sort((a, b) => b.weight - a.weight),
+      typography
+    };
+  }
+}
+
+/**
+ * Collect tokens from stylesheet content: custom properties and preprocessor
+ * variables name their colors; other declarations count as usage
+ */
+function collectStylesheet(content: string, collector: TokenCollector): void {
+  const source = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+
+  // Remember the selector each declaration belongs to, to tell headings apart
+  let selector = '';
+  for (const match of source.matchAll(/([^{};]+)\{|([$@]?-{0,2}[\w-]+)\s*:\s*([^;{}]+)/g)) {
+    if (match[1] !== undefined) {
+      selector = match[1].trim();
+      continue;
+    }
+
+    const property = match[2].toLowerCase();
+    const value = match[3].trim().replace(/\s*!important$/, '');
+    const variable = /^(--|\$|@)/.test(property);
+
+    if (variable || COLOR_PROPERTIES.test(property)) {
+      for (const hex of findColors(value)) {
+        collector.addColor(hex, 1, variable ? property : undefined);
+      }
+    }
+
+    if (property === 'font-family' || (variable && /font-?(family|sans|serif|mono|body|heading)/.test(property) && /[a-z]/i.test(value) && !/^\d/.test(value))) {
+      collector.addFontFamily(value);
+    } else if (property === 'font-size' || (variable && /(font-?size|text-(xs|sm|base|lg|\d*xl))/.test(property))) {
+      collector.addFontSize(value, /(^|[\s,])h[1-6]\b|heading|title/.test(selector) || /heading|h[1-6]|display/.test(property));
+    } else if (property === 'font-weight') {
+      collector.addFontWeight(value);
+    } else if (property === 'line-height') {
+      collector.addLineHeight(value);
+    } else if (property === 'font') {
+      // Shorthand: [weight] size[/line-height] family
+      const shorthand = value.match(/(?:(\d{3}|bold|normal)\s+)?(\d*\.?\d+(?:px|rem|em|pt))(?:\/(\S+))?\s+(.+)$/);
+      if (shorthand) {
+        if (shorthand[1]) collector.addFontWeight(shorthand[1]);
+        collector.addFontSize(shorthand[2]);
+        if (shorthand[3]) collector.addLineHeight(shorthand[3]);
+        collector.addFontFamily(shorthand[4]);
+      }
+    }
+  }
+}
+
+/**
+ * Collect tokens from a Tailwind config without executing it: walks the
+ * object literal text and records colors, font families and font sizes
+ * under `theme` and `theme.extend`
+ */
+function collectTailwindConfig(content: string, collector: TokenCollector): void {
+  const source = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const keys: string[] = [];
+  let pendingKey: string | undefined;
+
+  const tokenPattern = /(['"]?)([\w-]+)\1\s*:|\{|\}|\[|\]|(['"])((?:\\.|(?!\3).)*)\3/g;
+  let arrayDepth = 0;
+  let arrayKey: string[] | undefined;
+
+  for (const match of source.matchAll(tokenPattern)) {
+    const token = match[0];
+    if (match[2] !== undefined && token.trimEnd().endsWith(':')) {
+      pendingKey = match[2];
+    } else if (token === '{') {
+      keys.push(pendingKey ?? '');
+      pendingKey = undefined;
+    } else if (token === '}') {
+      keys.pop();
+      pendingKey = undefined;
+    } else if (token === '[') {
+      if (arrayDepth++ === 0) arrayKey = [...keys, pendingKey ?? ''];
+      pendingKey = undefined;
+    } else if (token === ']') {
+      if (--arrayDepth === 0) arrayKey = undefined;
+    } else if (match[4] !== undefined) {
+      const value = match[4];
+      const path = arrayKey || [...keys, pendingKey ?? ''];
+      pendingKey = undefined;
+
+      const section = path.findIndex(key => key === 'colors' || key === 'fontFamily' || key === 'fontSize');
+      if (section === -1) continue;
+      const name = path.slice(section + 1).filter(key => key && key !== 'DEFAULT').join('-');
+
+      if (path[section] === 'colors') {
+        const hex = parseCssColor(value);
+        if (hex) collector.addColor(hex, 1, name || undefined);
+      } else if (path[section] === 'fontFamily') {
+        // Only the first entry of each family stack
+        if (!arrayKey || value === firstArrayString(source, match.index!)) {
+          collector.addFontFamily(value);
+        }
+      } else if (path[section] === 'fontSize' && (!arrayKey || value === firstArrayString(source, match.index!))) {
+        collector.addFontSize(value, /^[2-9]xl$/.test(path[section + 1] || ''));
+      }
+    }
+  }
+}
+
+/** The first string in the array literal that contains position */
+function firstArrayString(source: string, position: number): string | undefined {
+  const open = source.lastIndexOf('[', position);
+  return source.slice(open).match(/(['"])((?:\\.|(?!\1).)*)\1/)?.[2];
+}
+
+/**
+ * Extract the tokens used by the stylesheets and Tailwind config under a directory
+ */
+export async function extractCodeTokens(rootPath: string, excludePatterns: string[] = []): Promise<DesignTokenSet> {
+  const filter = createPathFilter({ rootPath, excludePatterns });
+  const collector = new TokenCollector();
+
+  const files = await glob(STYLE_PATTERNS, {
+    cwd: rootPath,
+    absolute: true,
+    nodir: true,
+    ignore: ['**/node_modules/**', '**/.project-analyzer/**']
+  });
+
+  for (const file of files.sort()) {
+    if (filter.ignoresDirectory(path.dirname(file))) continue;
+
+    const content = fs.readFileSync(file, 'utf-8');
+    if (path.basename(file).startsWith('tailwind.config.')) {
+      collectTailwindConfig(content, collector);
+    } else {
+      collectStylesheet(content, collector);
+    }
+  }
+
+  return collector.toTokenSet(rootPath);
+}
+
+interface ComputedStyleSample {
+  colors: Array<{ value: string; weight: number }>;
+  fonts: Array<{ family: string; size: string; weight: string; lineHeight: string; heading: boolean }>;
+}
+
+/**
+ * Runs in the page: computed colors weighted by painted area or text length,
+ * and the font of every element with its own text
+ */
+const COMPUTED_STYLE_SCRIPT = `(() => {
+  const colors = [];
+  const fonts = [];
+  const elements = Array.from(document.querySelectorAll('body, body *')).slice(0, 3000);
+  for (const element of elements) {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+    const style = getComputedStyle(element);
+    if (style.visibility === 'hidden' || style.display === 'none') continue;
+
+    const text = Array.from(element.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE)
+      .map(node => node.textContent.trim())
+      .join('');
+
+    if (style.backgroundColor && !/rgba\\(.*,\\s*0\\)$|transparent/.test(style.backgroundColor)) {
+      colors.push({ value: style.backgroundColor, weight: Math.min(rect.width * rect.height, 2000000) / 10000 });
+    }
+    if (parseFloat(style.borderTopWidth) > 0) {
+      colors.push({ value: style.borderTopColor, weight: 1 });
+    }
+    if (text) {
+      colors.push({ value: style.color, weight: Math.min(text.length, 200) / 10 });
+      fonts.push({
+        family: style.fontFamily,
+        size: style.fontSize,
+        weight: style.fontWeight,
+        lineHeight: style.lineHeight,
+        heading: /^H[1-6]$/.test(element.tagName)
+      });
+    }
+  }
+  return { colors, fonts };
+})()`;
+
+/**
+ * Extract the tokens a live page renders with, from computed styles
+ */
+export async function extractPageTokens(url: string): Promise<DesignTokenSet> {
+  const driver = new PlaywrightDriver({ headless: true, viewport: { width: 1440, height: 900 } });
+  const collector = new TokenCollector();
+
+  try {
+    await driver.launch();
+    await driver.navigate({ url, waitUntil: 'networkidle' });
+    const sample = await driver.evaluate<ComputedStyleSample>(COMPUTED_STYLE_SCRIPT);
+
+    for (const color of sample.colors) {
+      const hex = parseCssColor(color.value);
+      if (hex) collector.addColor(hex, color.weight);
+    }
+    for (const font of sample.fonts) {
+      collector.addFontFamily(font.family);
+      collector.addFontSize(font.size, font.heading);
+      collector.addFontWeight(font.weight);
+      if (font.lineHeight !== 'normal') collector.addLineHeight(font.lineHeight);
+    }
+  } finally {
+    await driver.close();
+  }
+
+  return collector.toTokenSet(url);
+}
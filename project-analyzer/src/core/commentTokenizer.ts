@@ -0,0 +1,494 @@
+/**
+ * Comment tokenizer
+ *
+ * Finds the real comments in a source file so TODO detection does not fire
+ * inside string literals or on `#` in URLs. Each language family describes
+ * its comment and string syntax; the file is walked once, strings are
+ * skipped, and every comment is returned with its position and per-line
+ * text (markers and `*` decoration removed).
+ */
+
+export type CommentKind = 'line' | 'block' | 'docstring';
+
+export interface CommentLine {
+  /** Comment text on this line without markers or leading `*` decoration */
+  text: string;
+  /** Whitespace between the marker and the text, used to detect continuation lines */
+  indent: number;
+  line: number;
+  /** 1-based column where `text` starts */
+  column: number;
+  /** Source of the comment on this line, markers included */
+  raw: string;
+}
+
+export interface CommentSpan {
+  kind: CommentKind;
+  line: number;
+  column: number;
+  endLine: number;
+  lines: CommentLine[];
+}
+
+export interface StringSyntax {
+  open: string;
+  close: string;
+  /** Strings that may span lines; others end at a newline */
+  multiline?: boolean;
+}
+
+export interface CommentSyntax {
+  lineComments: string[];
+  blockComments: Array<[string, string]>;
+  strings: StringSyntax[];
+  /** Triple-quoted strings that start a line are comments (Python docstrings) */
+  docstrings?: string[];
+  /** Block comments whose markers must start a line (Ruby `=begin`/`=end`) */
+  lineBlockComments?: Array<[string, string]>;
+  /** Line comments must start a word, so `${#var}` and `url#anchor` are not comments */
+  lineCommentStartsWord?: boolean;
+  /** `/.../` after an operator, `(` or a keyword like `return` is a regex literal (JavaScript) */
+  regexLiterals?: boolean;
+  /** Markup: `<script>` and `<style>` blocks are tokenized with C-style syntax */
+  markup?: boolean;
+}
+
+const C_STRINGS: StringSyntax[] = [
+  { open: '"', close: '"' },
+  { open: '\'', close: '\'' },
+  { open: '`', close: '`', multiline: true }
+];
+
+const C_STYLE: CommentSyntax = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']],
+  strings: C_STRINGS
+};
+
+const JAVASCRIPT: CommentSyntax = { ...C_STYLE, regexLiterals: true };
+
+// Java and Kotlin text blocks, Swift and Scala multi-line strings
+const TRIPLE_QUOTED: CommentSyntax = {
+  ...C_STYLE,
+  strings: [{ open: '"""', close: '"""', multiline: true }, ...C_STRINGS]
+};
+
+// No '...' strings: lifetimes like 'a would swallow the rest of the line
+const RUST: CommentSyntax = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']],
+  strings: [{ open: '"', close: '"', multiline: true }]
+};
+
+const PHP: CommentSyntax = { ...C_STYLE, lineComments: ['//', '#'] };
+
+const CSS: CommentSyntax = {
+  lineComments: [],
+  blockComments: [['/*', '*/']],
+  strings: C_STRINGS.slice(0, 2)
+};
+
+const PYTHON: CommentSyntax = {
+  lineComments: ['#'],
+  blockComments: [],
+  strings: [
+    { open: '"""', close: '"""', multiline: true },
+    { open: '\'\'\'', close: '\'\'\'', multiline: true },
+    { open: '"', close: '"' },
+    { open: '\'', close: '\'' }
+  ],
+  docstrings: ['"""', '\'\'\'']
+};
+
+const HASH: CommentSyntax = {
+  lineComments: ['#'],
+  blockComments: [],
+  strings: C_STRINGS.slice(0, 2)
+};
+
+const RUBY: CommentSyntax = { ...HASH, lineBlockComments: [['=begin', '=end']] };
+
+const SHELL: CommentSyntax = { ...HASH, lineCommentStartsWord: true };
+
+const JULIA: CommentSyntax = {
+  lineComments: ['#'],
+  blockComments: [['#=', '=#']],
+  strings: [{ open: '"""', close: '"""', multiline: true }, { open: '"', close: '"' }]
+};
+
+const SQL: CommentSyntax = {
+  lineComments: ['--'],
+  blockComments: [['/*', '*/']],
+  strings: [{ open: '\'', close: '\'', multiline: true }, { open: '"', close: '"' }]
+};
+
+const LUA: CommentSyntax = {
+  lineComments: ['--'],
+  blockComments: [['--[[', ']]']],
+  strings: [{ open: '[[', close: ']]', multiline: true }, ...C_STRINGS.slice(0, 2)]
+};
+
+const VISUAL_BASIC: CommentSyntax = {
+  lineComments: ['\''],
+  blockComments: [],
+  strings: [{ open: '"', close: '"' }]
+};
+
+const MARKUP: CommentSyntax = {
+  lineComments: [],
+  blockComments: [['<!--', '-->'], ['<%#', '%>']],
+  strings: [],
+  markup: true
+};
+
+/**
+ * Comment syntax for every scanned source extension
+ */
+export const COMMENT_SYNTAX_BY_EXTENSION: Record<string, CommentSyntax> = {
+  js: JAVASCRIPT, jsx: JAVASCRIPT, ts: JAVASCRIPT, tsx: JAVASCRIPT, mjs: JAVASCRIPT, cjs: JAVASCRIPT,
+  java: TRIPLE_QUOTED, kt: TRIPLE_QUOTED, kts: TRIPLE_QUOTED,
+  cpp: C_STYLE, c: C_STYLE, h: C_STYLE, hpp: C_STYLE, cc: C_STYLE, cxx: C_STYLE,
+  cs: C_STYLE, go: C_STYLE, swift: TRIPLE_QUOTED, scala: TRIPLE_QUOTED, sc: TRIPLE_QUOTED, dart: C_STYLE,
+  json: C_STYLE, jsonc: C_STYLE,
+  rs: RUST,
+  php: PHP, phtml: PHP,
+  py: PYTHON, pyw: PYTHON, pyx: PYTHON,
+  rb: RUBY, r: HASH, perl: HASH, pl: HASH,
+  sh: SHELL, bash: SHELL, zsh: SHELL, fish: SHELL, yaml: SHELL, yml: SHELL,
+  julia: JULIA, jl: JULIA,
+  sql: SQL,
+  lua: LUA,
+  vb: VISUAL_BASIC,
+  xml: MARKUP, html: MARKUP, htm: MARKUP, vue: MARKUP, svelte: MARKUP, erb: MARKUP
+};
+
+/**
+ * Prose formats scanned as a whole rather than comment by comment
+ */
+export const PLAIN_TEXT_EXTENSIONS = ['md', 'mdx', 'markdown', 'txt', 'rst', 'rmd'];
+
+/**
+ * Get the comment syntax for a file, or null for prose and unknown files
+ */
+export function getCommentSyntax(filePath: string): CommentSyntax | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() || '';
+  return Object.prototype.hasOwnProperty.call(COMMENT_SYNTAX_BY_EXTENSION, ext)
+    ? COMMENT_SYNTAX_BY_EXTENSION[ext]
+    : null;
+}
+
+interface PendingSpan extends CommentSpan {
+  marker: string;
+  ownLine: boolean;
+}
+
+/** Keywords after which `/` starts a regex literal rather than a division */
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await'
+]);
+
+/**
+ * Offsets where each line starts, for offset -> line/column lookups
+ */
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function lineOfOffset(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+class Tokenizer {
+  private lineStarts: number[];
+  readonly spans: PendingSpan[] = [];
+  readonly commentRanges: Array<[number, number]> = [];
+  readonly stringRanges: Array<[number, number]> = [];
+
+  constructor(private content: string) {
+    this.lineStarts = getLineStarts(content);
+  }
+
+  /**
+   * Collect the comments between `start` and `end`
+   */
+  tokenize(start: number, end: number, syntax: CommentSyntax): void {
+    const { content } = this;
+    const starters = new Set<string>([
+      ...syntax.lineComments,
+      ...syntax.blockComments.map(([open]) => open),
+      ...(syntax.lineBlockComments || []).map(([open]) => open),
+      ...syntax.strings.map(s => s.open),
+      ...(syntax.docstrings || [])
+    ].map(token => token[0]));
+
+    let i = start;
+    while (i < end) {
+      if (!starters.has(content[i])) {
+        i++;
+        continue;
+      }
+
+      const block = syntax.blockComments.find(([open]) => content.startsWith(open, i));
+      if (block) {
+        const close = content.indexOf(block[1], i + block[0].length);
+        const stop = close === -1 || close + block[1].length > end ? end : close + block[1].length;
+        this.addSpan('block', i, stop, block[0], close === -1 ? '' : block[1]);
+        i = stop;
+        continue;
+      }
+
+      const lineBlock = syntax.lineBlockComments?.find(([open]) => content.startsWith(open, i));
+      if (lineBlock && (i === 0 || content[i - 1] === '\n')) {
+        const close = content.indexOf(`\n${lineBlock[1]}`, i);
+        const stop = close === -1 || close + lineBlock[1].length + 1 > end ? end : close + lineBlock[1].length + 1;
+        this.addSpan('block', i, stop, lineBlock[0], close === -1 ? '' : lineBlock[1]);
+        i = stop;
+        continue;
+      }
+
+      const docstring = syntax.docstrings?.find(quote => content.startsWith(quote, i));
+      if (docstring && this.startsLine(i)) {
+        const close = content.indexOf(docstring, i + docstring.length);
+        const stop = close === -1 || close + docstring.length > end ? end : close + docstring.length;
+        this.addSpan('docstring', i, stop, docstring, close === -1 ? '' : docstring);
+        i = stop;
+        continue;
+      }
+
+      const marker = syntax.lineComments.find(m => content.startsWith(m, i));
+      if (marker && (!syntax.lineCommentStartsWord || i === start || /\s/.test(content[i - 1]))) {
+        const newline = content.indexOf('\n', i);
+        const stop = newline === -1 || newline > end ? end : newline;
+        this.addSpan('line', i, stop, marker, '');
+        i = stop;
+        continue;
+      }
+
+      const str = syntax.strings.find(s => content.startsWith(s.open, i));
+      if (str) {
+        const stop = this.skipString(i + str.open.length, end, str);
+        this.stringRanges.push([i, stop]);
+        i = stop;
+        continue;
+      }
+
+      if (syntax.regexLiterals && content[i] === '/' && this.startsRegex(start, i)) {
+        const stop = this.skipRegex(i + 1, end);
+        if (stop !== -1) {
+          this.stringRanges.push([i, stop]);
+          i = stop;
+          continue;
+        }
+      }
+
+      i++;
+    }
+  }
+
+  /**
+   * Tokenize markup: `<!-- -->` everywhere, C-style inside script and style blocks
+   */
+  tokenizeMarkup(syntax: CommentSyntax): void {
+    const { content } = this;
+    const blockPattern = /<(script|style)\b[^>]*>/gi;
+    let position = 0;
+    let match;
+
+    while ((match = blockPattern.exec(content)) !== null) {
+      const bodyStart = match.index + match[0].length;
+      const closeTag = `</${match[1].toLowerCase()}`;
+      const closeIndex = content.toLowerCase().indexOf(closeTag, bodyStart);
+      const bodyEnd = closeIndex === -1 ? content.length : closeIndex;
+
+      this.tokenize(position, match.index, syntax);
+      this.tokenize(bodyStart, bodyEnd, match[1].toLowerCase() === 'style' ? CSS : JAVASCRIPT);
+
+      position = bodyEnd;
+      blockPattern.lastIndex = bodyEnd;
+    }
+
+    this.tokenize(position, content.length, syntax);
+  }
+
+  private startsLine(offset: number): boolean {
+    const lineStart = this.lineStarts[lineOfOffset(this.lineStarts, offset)];
+    return this.content.slice(lineStart, offset).trim() === '';
+  }
+
+  /**
+   * Whether a `/` starts a regex literal: it follows an operator, an opening
+   * bracket or a keyword, not a value (`a / b`, `f() / 2`)
+   */
+  private startsRegex(start: number, offset: number): boolean {
+    const { content } = this;
+    let j = offset - 1;
+    while (j >= start && /\s/.test(content[j])) j--;
+    if (j < start || '(,=:[!&|?{};+-*%>~^'.includes(content[j])) return true;
+
+    let k = j;
+    while (k >= start && /[\w$]/.test(content[k])) k--;
+    return REGEX_PRECEDING_KEYWORDS.has(content.slice(k + 1, j + 1)) && content[k] !== '.';
+  }
+
+  /**
+   * End of a regex literal (after its flags), or -1 if the line ends first
+   */
+  private skipRegex(from: number, end: number): number {
+    const { content } = this;
+    let inClass = false;
+    for (let j = from; j < end; j++) {
+      const char = content[j];
+      if (char === '\\') {
+        j++;
+      } else if (char === '\n') {
+        return -1;
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      } else if (char === '/' && !inClass) {
+        let stop = j + 1;
+        while (stop < end && /[a-z]/i.test(content[stop])) stop++;
+        return stop;
+      }
+    }
+    return -1;
+  }
+
+  private skipString(from: number, end: number, str: StringSyntax): number {
+    const { content } = this;
+    let j = from;
+    while (j < end) {
+      if (content[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (content.startsWith(str.close, j)) {
+        return j + str.close.length;
+      }
+      if (content[j] === '\n' && !str.multiline) {
+        return j;
+      }
+      j++;
+    }
+    return end;
+  }
+
+  /**
+   * Record a comment, merging runs of own-line line comments into one span
+   */
+  private addSpan(kind: CommentKind, start: number, end: number, open: string, close: string): void {
+    const { content, lineStarts } = this;
+    this.commentRanges.push([start, end]);
+    const firstLine = lineOfOffset(lineStarts, start);
+    const lastLine = lineOfOffset(lineStarts, Math.max(start, end - 1));
+    const lines: CommentLine[] = [];
+
+    for (let lineIndex = firstLine; lineIndex <= lastLine; lineIndex++) {
+      const segmentStart = Math.max(start, lineStarts[lineIndex]);
+      const nextLine = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : content.length;
+      const segmentEnd = Math.min(end, nextLine);
+      const segment = content.slice(segmentStart, segmentEnd);
+
+      let bodyStart = segmentStart + (lineIndex === firstLine ? open.length : 0);
+      let bodyEnd = segmentEnd;
+      if (lineIndex === lastLine && close && content.startsWith(close, segmentEnd - close.length)) {
+        bodyEnd = Math.max(bodyStart, segmentEnd - close.length);
+      }
+
+      let body = content.slice(bodyStart, bodyEnd);
+      let decoration: RegExpMatchArray | null = null;
+      if (kind === 'line') {
+        // `///`, `//!`, `##`, `#!`
+        decoration = body.match(new RegExp(`^[${open[0].replace(/[\]\\^-]/g, '\\$&')}!]*`));
+      } else if (open.includes('*')) {
+        decoration = body.match(/^\s*\*+(?!\/)/);
+      }
+      if (decoration) {
+        bodyStart += decoration[0].length;
+        body = body.slice(decoration[0].length);
+      }
+
+      const indent = body.length - body.trimStart().length;
+      lines.push({
+        text: body.trim(),
+        indent,
+        line: lineIndex + 1,
+        column: bodyStart + indent - lineStarts[lineIndex] + 1,
+        raw: segment.trim()
+      });
+    }
+
+    const ownLine = kind === 'line' && this.startsLine(start);
+    const previous = this.spans[this.spans.length - 1];
+    if (
+      ownLine && previous && previous.kind === 'line' && previous.ownLine &&
+      previous.marker === open && previous.endLine === firstLine
+    ) {
+      previous.lines.push(...lines);
+      previous.endLine = lastLine + 1;
+      return;
+    }
+
+    this.spans.push({
+      kind,
+      line: firstLine + 1,
+      column: start - lineStarts[firstLine] + 1,
+      endLine: lastLine + 1,
+      lines,
+      marker: open,
+      ownLine
+    });
+  }
+}
+
+/**
+ * Extract the comments of a file
+ * Consecutive own-line line comments are returned as a single span.
+ */
+export function tokenizeComments(content: string, syntax: CommentSyntax): CommentSpan[] {
+  const tokenizer = new Tokenizer(content);
+
+  if (syntax.markup) {
+    tokenizer.tokenizeMarkup(syntax);
+  } else {
+    tokenizer.tokenize(0, content.length, syntax);
+  }
+
+  return tokenizer.spans.map(({ marker, ownLine, ...span }) => span);
+}
+
+/**
+ * Offsets ([start, end)) of the comments and string literals of a file,
+ * for callers that need to look at code only
+ */
+export function findNonCodeRanges(content: string, syntax: CommentSyntax): {
+  comments: Array<[number, number]>;
+  strings: Array<[number, number]>;
+} {
+  const tokenizer = new Tokenizer(content);
+
+  if (syntax.markup) {
+    tokenizer.tokenizeMarkup(syntax);
+  } else {
+    tokenizer.tokenize(0, content.length, syntax);
+  }
+
+  return { comments: tokenizer.commentRanges, strings: tokenizer.stringRanges };
+}
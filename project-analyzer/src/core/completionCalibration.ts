@@ -0,0 +1,433 @@
+/**
+ * Feedback-driven calibration of completion confidence
+ *
+ * `cleanup` saves the signals behind every score to a snapshot. Verdicts on
+ * those suggestions (correct = the TODO really is done) are appended to a
+ * feedback log together with the signals, so they stay usable after the TODO
+ * is deleted. `calibrate` fits the indicator weights and git bonuses to the
+ * verdicts by coordinate descent on the Brier score, and reports precision
+ * and recall per `--min-confidence` threshold.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompletionReport } from './completionDetector';
+import {
+  CompletionSignals,
+  CompletionWeights,
+  DEFAULT_COMPLETION_WEIGHTS,
+  scoreCompletionSignals
+} from './completionPatterns';
+import { ProcessedTodo, generateTodoHash } from './scanner';
+
+export const DEFAULT_CLEANUP_SNAPSHOT_FILE = 'cleanup-latest.json';
+export const DEFAULT_FEEDBACK_FILE = 'completion-feedback.jsonl';
+export const DEFAULT_WEIGHTS_FILE = 'completion-weights.json';
+
+export const DEFAULT_THRESHOLDS = [20, 30, 40, 50, 60, 70, 80, 90, 95];
+
+/** Strength of the pull towards the default weights, so sparse labels do not swing them */
+const REGULARIZATION = 0.01;
+
+export type FeedbackVerdict = 'correct' | 'incorrect';
+
+export interface SuggestionRecord {
+  hash: string;
+  file: string;
+  line: number;
+  type: string;
+  content: string;
+  confidence: number;
+  signals: CompletionSignals;
+}
+
+export interface CleanupSnapshot {
+  generatedAt: string;
+  suggestions: SuggestionRecord[];
+}
+
+export interface FeedbackEntry extends SuggestionRecord {
+  verdict: FeedbackVerdict;
+  recordedAt: string;
+}
+
+/**
+ * A verdict as given on the command line or in a feedback file
+ * `id` is `file:line` from the cleanup report, or a TODO hash (prefix).
+ */
+export interface VerdictInput {
+  id: string;
+  verdict: FeedbackVerdict;
+}
+
+export interface ThresholdMetrics {
+  threshold: number;
+  flagged: number;
+  truePositives: number;
+  /** null when nothing is flagged */
+  precision: number | null;
+  recall: number;
+  f1: number;
+}
+
+export interface WeightChange {
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface CalibrationResult {
+  labels: number;
+  correct: number;
+  incorrect: number;
+  weights: CompletionWeights;
+  /** Brier score (mean squared error of confidence / 100), lower is better */
+  defaultLoss: number;
+  calibratedLoss: number;
+  before: ThresholdMetrics[];
+  after: ThresholdMetrics[];
+  suggested: ThresholdMetrics | null;
+  changes: WeightChange[];
+}
+
+export interface SavedWeights {
+  calibratedAt: string;
+  labels: number;
+  weights: CompletionWeights;
+}
+
+interface WeightParameter {
+  name: string;
+  get: (weights: CompletionWeights) => number;
+  set: (weights: CompletionWeights, value: number) => void;
+  candidates: number[];
+  /** Width of the candidate range, to scale the regularization */
+  range: number;
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = from; value <= to + 1e-9; value += step) {
+    values.push(Math.round(value * 100) / 100);
+  }
+  return values;
+}
+
+function cloneWeights(weights: CompletionWeights): CompletionWeights {
+  return { ...weights, indicators: { ...weights.indicators } };
+}
+
+/**
+ * Record the signals behind each analysis, for later feedback
+ */
+export function createCleanupSnapshot(report: CompletionReport): CleanupSnapshot {
+  return {
+    generatedAt: new Date().toISOString(),
+    suggestions: report.analyses
+      .filter(analysis => analysis.signals)
+      .map(analysis => ({
+        hash: (analysis.todo as ProcessedTodo).hash || generateTodoHash(analysis.todo),
+        file: analysis.todo.file,
+        line: analysis.todo.line,
+        type: analysis.todo.type,
+        content: analysis.todo.content,
+        confidence: Math.round(analysis.confidence * 10) / 10,
+        signals: analysis.signals!
+      }))
+  };
+}
+
+export function saveCleanupSnapshot(snapshotPath: string, snapshot: CleanupSnapshot): void {
+  fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+  fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+}
+
+export function loadCleanupSnapshot(snapshotPath: string): CleanupSnapshot | null {
+  if (!fs.existsSync(snapshotPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as CleanupSnapshot;
+}
+
+/**
+ * Validate the contents of a JSON feedback file
+ * Accepts `[{ "id": "src/a.ts:12", "verdict": "correct" }, ...]`.
+ * @throws Error listing every invalid entry
+ */
+export function parseFeedbackFile(raw: unknown, source?: string): VerdictInput[] {
+  const label = source ? `Invalid feedback file ${source}` : 'Invalid feedback file';
+  if (!Array.isArray(raw)) {
+    throw new Error(`${label}:\n  - expected an array of { "id", "verdict" } objects`);
+  }
+
+  const errors: string[] = [];
+  const verdicts: VerdictInput[] = [];
+  raw.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null || typeof entry.id !== 'string' || !entry.id) {
+      errors.push(`[${index}].id must be a non-empty string`);
+    } else if (entry.verdict !== 'correct' && entry.verdict !== 'incorrect') {
+      errors.push(`[${index}].verdict must be "correct" or "incorrect"`);
+    } else {
+      verdicts.push({ id: entry.id, verdict: entry.verdict });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`${label}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return verdicts;
+}
+
+/**
+ * Match verdicts to suggestions from the latest cleanup run
+ * @throws Error listing ids that match no suggestion, or more than one
+ */
+export function resolveVerdicts(snapshot: CleanupSnapshot, verdicts: VerdictInput[]): FeedbackEntry[] {
+  const errors: string[] = [];
+  const entries: FeedbackEntry[] = [];
+  const recordedAt = new Date().toISOString();
+
+  for (const { id, verdict } of verdicts) {
+    const matches = snapshot.suggestions.filter(suggestion =>
+      `${suggestion.file}:${suggestion.line}` === id || (id.length >= 6 && suggestion.hash.startsWith(id))
+    );
+
+    if (matches.length === 0) {
+      errors.push(`${id} does not match a TODO from the last cleanup run`);
+    } else if (matches.length > 1) {
+      errors.push(`${id} matches ${matches.length} TODOs; use a longer hash`);
+    } else {
+      entries.push({ ...matches[0], verdict, recordedAt });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Could not record feedback:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return entries;
+}
+
+/**
+ * Append verdicts to the feedback log (one JSON object per line)
+ */
+export function appendFeedback(feedbackPath: string, entries: FeedbackEntry[]): void {
+  fs.mkdirSync(path.dirname(feedbackPath), { recursive: true });
+  fs.appendFileSync(feedbackPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+}
+
+/**
+ * Load recorded verdicts; a later verdict for the same TODO replaces an earlier one
+ */
+export function loadFeedback(feedbackPath: string): FeedbackEntry[] {
+  if (!fs.existsSync(feedbackPath)) {
+    return [];
+  }
+
+  const latest = new Map<string, FeedbackEntry>();
+  for (const line of fs.readFileSync(feedbackPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as FeedbackEntry;
+      latest.set(entry.hash, entry);
+    } catch {
+      // Partially written line - ignore it
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+/**
+ * Precision and recall of "confidence >= threshold" against the verdicts
+ */
+export function evaluateThresholds(
+  feedback: FeedbackEntry[],
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS,
+  thresholds: number[] = DEFAULT_THRESHOLDS
+): ThresholdMetrics[] {
+  const scored = feedback.map(entry => ({
+    score: scoreCompletionSignals(entry.signals, weights),
+    correct: entry.verdict === 'correct'
+  }));
+  const positives = scored.filter(item => item.correct).length;
+
+  return thresholds.map(threshold => {
+    const flagged = scored.filter(item => item.score >= threshold);
+    const truePositives = flagged.filter(item => item.correct).length;
+    const precision = flagged.length > 0 ? truePositives / flagged.length : null;
+    const recall = positives > 0 ? truePositives / positives : 0;
+    const f1 = precision && recall ? (2 * precision * recall) / (precision + recall) : 0;
+    return { threshold, flagged: flagged.length, truePositives, precision, recall, f1 };
+  });
+}
+
+/**
+ * Lowest threshold meeting the precision target, or the best F1 when none does
+ */
+export function suggestThreshold(metrics: ThresholdMetrics[], minPrecision: number = 0.9): ThresholdMetrics | null {
+  const precise = metrics.filter(metric => metric.precision !== null && metric.precision >= minPrecision && metric.truePositives > 0);
+  if (precise.length > 0) {
+    return precise.reduce((best, metric) => (metric.threshold < best.threshold ? metric : best));
+  }
+
+  const scored = metrics.filter(metric => metric.f1 > 0);
+  return scored.length > 0 ? scored.reduce((best, metric) => (metric.f1 > best.f1 ? metric : best)) : null;
+}
+
+/**
+ * Weights that the labeled signals can say something about
+ */
+function getTunableParameters(feedback: FeedbackEntry[]): WeightParameter[] {
+  const parameters: WeightParameter[] = [];
+  const signals = feedback.map(entry => entry.signals);
+
+  const indicators = new Set<string>();
+  for (const signal of signals) {
+    if (signal.direct) indicators.add(signal.direct);
+    signal.context.forEach(description => indicators.add(description));
+  }
+  for (const description of Array.from(indicators).sort()) {
+    parameters.push({
+      name: `indicator: ${description}`,
+      get: weights => weights.indicators[description] ?? 0,
+      set: (weights, value) => { weights.indicators[description] = value; },
+      candidates: range(0, 100, 5),
+      range: 100
+    });
+  }
+
+  const source = (key: 'direct' | 'context' | 'oldDocument' | 'git', used: boolean) => {
+    if (!used) return;
+    parameters.push({
+      name: `source weight: ${key}`,
+      get: weights => weights[key],
+      set: (weights, value) => { weights[key] = value; },
+      candidates: range(0.1, 3, 0.1),
+      range: 3
+    });
+  };
+  const git = signals.map(signal => signal.git).filter((value): value is NonNullable<typeof value> => !!value);
+  source('direct', signals.some(signal => signal.direct));
+  source('context', signals.some(signal => signal.context.length > 0));
+  source('oldDocument', signals.some(signal => signal.oldDocument >= 50));
+  source('git', git.length > 0);
+
+  const bonus = (key: 'gitStaleFile' | 'gitCommitMention' | 'gitFeatureMatch' | 'gitCap', used: boolean, max: number) => {
+    if (!used) return;
+    parameters.push({
+      name: `git: ${key.replace(/^git/, '').replace(/^./, c => c.toLowerCase())}`,
+      get: weights => weights[key],
+      set: (weights, value) => { weights[key] = value; },
+      candidates: range(0, max, 5),
+      range: max
+    });
+  };
+  bonus('gitStaleFile', git.some(signal => (signal.daysSinceModified ?? 0) > 90), 50);
+  bonus('gitCommitMention', git.some(signal => signal.commitMentions.some(commits => commits > 0)), 50);
+  bonus('gitFeatureMatch', git.some(signal => signal.featureMatches > 0), 50);
+  bonus('gitCap', git.length > 0, 100);
+
+  return parameters;
+}
+
+function brierScore(feedback: FeedbackEntry[], weights: CompletionWeights): number {
+  if (feedback.length === 0) return 0;
+  const total = feedback.reduce((sum, entry) => {
+    const predicted = scoreCompletionSignals(entry.signals, weights) / 100;
+    const actual = entry.verdict === 'correct' ? 1 : 0;
+    return sum + (predicted - actual) ** 2;
+  }, 0);
+  return total / feedback.length;
+}
+
+/**
+ * Fit completion weights to recorded verdicts
+ * @throws Error when there are not both correct and incorrect verdicts
+ */
+export function calibrateWeights(
+  feedback: FeedbackEntry[],
+  base: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS,
+  options: { thresholds?: number[]; minPrecision?: number } = {}
+): CalibrationResult {
+  const correct = feedback.filter(entry => entry.verdict === 'correct').length;
+  const incorrect = feedback.length - correct;
+  if (correct === 0 || incorrect === 0) {
+    throw new Error(`Calibration needs both correct and incorrect verdicts (have ${correct} correct, ${incorrect} incorrect)`);
+  }
+
+  const parameters = getTunableParameters(feedback);
+  const weights = cloneWeights(base);
+  const loss = (candidate: CompletionWeights): number =>
+    brierScore(feedback, candidate) + REGULARIZATION * parameters.reduce(
+      (sum, parameter) => sum + ((parameter.get(candidate) - parameter.get(base)) / parameter.range) ** 2,
+      0
+    );
+
+  // Coordinate descent: move one weight at a time to its best candidate
+  let current = loss(weights);
+  for (let round = 0; round < 20; round++) {
+    let improved = false;
+
+    for (const parameter of parameters) {
+      const original = parameter.get(weights);
+      let bestValue = original;
+
+      for (const candidate of parameter.candidates) {
+        parameter.set(weights, candidate);
+        const candidateLoss = loss(weights);
+        if (candidateLoss < current - 1e-9) {
+          current = candidateLoss;
+          bestValue = candidate;
+          improved = true;
+        }
+      }
+
+      parameter.set(weights, bestValue);
+    }
+
+    if (!improved) break;
+  }
+
+  const after = evaluateThresholds(feedback, weights, options.thresholds);
+
+  return {
+    labels: feedback.length,
+    correct,
+    incorrect,
+    weights,
+    defaultLoss: brierScore(feedback, base),
+    calibratedLoss: brierScore(feedback, weights),
+    before: evaluateThresholds(feedback, base, options.thresholds),
+    after,
+    suggested: suggestThreshold(after, options.minPrecision),
+    changes: parameters
+      .map(parameter => ({ name: parameter.name, from: parameter.get(base), to: parameter.get(weights) }))
+      .filter(change => change.from !== change.to)
+  };
+}
+
+export function saveCompletionWeights(weightsPath: string, result: CalibrationResult): void {
+  const saved: SavedWeights = {
+    calibratedAt: new Date().toISOString(),
+    labels: result.labels,
+    weights: result.weights
+  };
+  fs.mkdirSync(path.dirname(weightsPath), { recursive: true });
+  fs.writeFileSync(weightsPath, JSON.stringify(saved, null, 2), 'utf-8');
+}
+
+/**
+ * Load calibrated weights; anything missing (e.g. a newer indicator) keeps its default
+ */
+export function loadCompletionWeights(weightsPath: string): CompletionWeights | null {
+  if (!fs.existsSync(weightsPath)) {
+    return null;
+  }
+
+  const saved = JSON.parse(fs.readFileSync(weightsPath, 'utf-8')) as Partial<SavedWeights>;
+  return {
+    ...DEFAULT_COMPLETION_WEIGHTS,
+    ...saved.weights,
+    indicators: { ...DEFAULT_COMPLETION_WEIGHTS.indicators, ...saved.weights?.indicators }
+  };
+}
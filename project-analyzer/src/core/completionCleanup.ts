@@ -0,0 +1,357 @@
+/**
+ * Apply cleanup: retire TODOs the completion analysis is confident are done
+ *
+ * Code TODOs are removed with their comment (or just the comment, when it
+ * trails code). Markdown checkboxes are ticked, or moved to a "Done"
+ * section. A plan is built first; it can then be written in place, rendered
+ * as a patch, or committed to a new branch without touching the working tree.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TodoItem } from './patterns';
+import { CompletionReport, CompletionAnalysis } from './completionDetector';
+import { CommentSpan, getCommentSyntax, tokenizeComments } from './commentTokenizer';
+import { runGit } from '../utils/gitIndex';
+import { createUnifiedDiff } from '../utils/unifiedDiff';
+
+export type CleanupAction = 'delete' | 'trim' | 'check' | 'move';
+
+export type MarkdownCleanupMode = 'check' | 'move';
+
+export interface CleanupChange {
+  todo: TodoItem;
+  confidence: number;
+  action: CleanupAction;
+  file: string;
+  line: number;
+  /** Source lines affected */
+  before: string[];
+  /** What replaces them (empty when the lines are removed) */
+  after: string[];
+}
+
+export interface FileCleanup {
+  file: string;
+  original: string;
+  updated: string;
+  changes: CleanupChange[];
+}
+
+export interface CleanupSkip {
+  todo: TodoItem;
+  confidence: number;
+  reason: string;
+}
+
+export interface CleanupPlan {
+  files: FileCleanup[];
+  skipped: CleanupSkip[];
+  /** Changes declined in interactive review */
+  declined: CleanupChange[];
+}
+
+export interface CleanupOptions {
+  /** Only retire TODOs at or above this confidence (default: 90) */
+  minConfidence?: number;
+  /** Tick markdown checkboxes in place, or move them to a Done section (default: check) */
+  markdownMode?: MarkdownCleanupMode;
+  /** Called for each change; return false to leave the TODO alone */
+  confirm?: (change: CleanupChange) => boolean | Promise<boolean>;
+}
+
+/**
+ * New content per source line: a string replaces the line, null removes it
+ */
+type LineEdits = Map<number, string | null>;
+
+interface PlannedEdit {
+  action: CleanupAction;
+  edits: LineEdits;
+  /** Markdown lines to add under the Done section */
+  moved?: string[];
+}
+
+const CHECKBOX = /^(\s*(?:[-*+]|\d+[.)])\s+)\[ \]/;
+const DONE_HEADING = /^#{1,6}\s+(done|completed)\s*$/i;
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+/**
+ * Plan the removal of a code TODO's comment lines
+ */
+function planCommentRemoval(todo: TodoItem, lines: string[], spans: CommentSpan[]): PlannedEdit | string {
+  const span = spans.find(candidate => candidate.line <= todo.line && todo.line <= candidate.endLine);
+  const first = span ? span.lines.findIndex(line => line.line === todo.line) : -1;
+  if (!span || first === -1) {
+    return `No comment found at line ${todo.line}`;
+  }
+
+  // The scanner joins continuation lines into rawText, one per line
+  const body = span.lines.slice(first, first + todo.rawText.split('\n').length);
+  const edits: LineEdits = new Map();
+
+  if (span.kind === 'line') {
+    for (const commentLine of body) {
+      const source = lines[commentLine.line - 1];
+      const code = source.slice(0, source.trimEnd().length - commentLine.raw.length);
+      edits.set(commentLine.line, code.trim() ? code.trimEnd() : null);
+    }
+  } else if (span.line === span.endLine) {
+    // Single-line block comment: cut it out of the line
+    const source = lines[span.line - 1];
+    const start = span.column - 1;
+    const before = source.slice(0, start).trimEnd();
+    const after = source.slice(start + span.lines[0].raw.length).trim();
+    if (!before.trim() && !after) {
+      edits.set(span.line, null);
+    } else {
+      edits.set(span.line, before.trim() ? [before, after].filter(Boolean).join(' ') : leadingWhitespace(source) + after);
+    }
+  } else {
+    const lastLine = span.lines[span.lines.length - 1];
+    const lastSource = lines[lastLine.line - 1];
+    const ownLines = !lines[span.line - 1].slice(0, span.column - 1).trim() &&
+      !lastSource.slice(lastSource.indexOf(lastLine.raw) + lastLine.raw.length).trim();
+    const remainingText = span.lines.filter(line => line.text && !body.includes(line));
+
+    if (ownLines && remainingText.length === 0) {
+      // Nothing else in the comment: remove it entirely
+      for (let line = span.line; line <= span.endLine; line++) {
+        edits.set(line, null);
+      }
+    } else {
+      for (const commentLine of body) {
+        const source = lines[commentLine.line - 1];
+        const start = commentLine.column - 1;
+        const rest = source.slice(0, start) + source.slice(start + commentLine.text.length);
+        edits.set(commentLine.line, /^\s*\*?\s*$/.test(rest) ? null : rest.trimEnd());
+      }
+    }
+  }
+
+  const removesAll = Array.from(edits.values()).every(edit => edit === null);
+  return { action: removesAll ? 'delete' : 'trim', edits };
+}
+
+/**
+ * Plan ticking (or moving) a markdown checkbox
+ */
+function planCheckbox(todo: TodoItem, lines: string[], mode: MarkdownCleanupMode): PlannedEdit | string {
+  const source = lines[todo.line - 1];
+  const checkbox = source.match(CHECKBOX);
+  if (!checkbox) {
+    return 'Not a checkbox or code comment; retire it by hand';
+  }
+
+  const checked = `${checkbox[1]}[x]${source.slice(checkbox[0].length)}`;
+  if (mode === 'check') {
+    return { action: 'check', edits: new Map([[todo.line, checked]]) };
+  }
+
+  // Move the item with its nested lines, dedented to the top level
+  const indent = leadingWhitespace(source).length;
+  const edits: LineEdits = new Map([[todo.line, null]]);
+  const moved = [checked.slice(indent)];
+  for (let line = todo.line + 1; line <= lines.length; line++) {
+    const next = lines[line - 1];
+    if (!next.trim() || leadingWhitespace(next).length <= indent) break;
+    edits.set(line, null);
+    moved.push(next.slice(indent));
+  }
+
+  return { action: 'move', edits, moved };
+}
+
+/**
+ * Rebuild file content from line edits and moved checklist items
+ */
+function applyEdits(lines: string[], edits: LineEdits, moved: string[]): string[] {
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    const edit = edits.has(index + 1) ? edits.get(index + 1) : line;
+    if (edit !== null && edit !== undefined) {
+      result.push(edit);
+    }
+  });
+
+  if (moved.length === 0) {
+    return result;
+  }
+
+  const heading = result.findIndex(line => DONE_HEADING.test(line));
+  if (heading === -1) {
+    while (result.length > 0 && !result[result.length - 1].trim()) result.pop();
+    result.push('', '## Done', '', ...moved, '');
+  } else {
+    const insertAt = heading + 1 < result.length && !result[heading + 1].trim() ? heading + 2 : heading + 1;
+    result.splice(insertAt, 0, ...moved);
+  }
+
+  return result;
+}
+
+/**
+ * Build the cleanup plan for a completion report
+ */
+export async function planCleanup(
+  report: CompletionReport,
+  rootPath: string,
+  options: CleanupOptions = {}
+): Promise<CleanupPlan> {
+  const { minConfidence = 90, markdownMode = 'check', confirm } = options;
+  const plan: CleanupPlan = { files: [], skipped: [], declined: [] };
+
+  const byFile = new Map<string, CompletionAnalysis[]>();
+  for (const analysis of report.analyses) {
+    if (analysis.confidence < minConfidence) continue;
+    const fileAnalyses = byFile.get(analysis.todo.file) || [];
+    fileAnalyses.push(analysis);
+    byFile.set(analysis.todo.file, fileAnalyses);
+  }
+
+  for (const [file, analyses] of byFile) {
+    let original: string;
+    try {
+      original = fs.readFileSync(path.join(rootPath, file), 'utf-8');
+    } catch {
+      for (const analysis of analyses) {
+        plan.skipped.push({ todo: analysis.todo, confidence: analysis.confidence, reason: 'File could not be read' });
+      }
+      continue;
+    }
+
+    const eol = original.includes('\r\n') ? '\r\n' : '\n';
+    const lines = original.split(/\r?\n/);
+    const syntax = getCommentSyntax(file);
+    const spans = syntax ? tokenizeComments(lines.join('\n'), syntax) : [];
+    const edits: LineEdits = new Map();
+    const moved: string[] = [];
+    const changes: CleanupChange[] = [];
+
+    for (const analysis of analyses.sort((a, b) => a.todo.line - b.todo.line)) {
+      const { todo, confidence } = analysis;
+      const planned = syntax
+        ? planCommentRemoval(todo, lines, spans)
+        : planCheckbox(todo, lines, markdownMode);
+
+      if (typeof planned === 'string') {
+        plan.skipped.push({ todo, confidence, reason: planned });
+        continue;
+      }
+      if (Array.from(planned.edits.keys()).some(line => edits.has(line))) {
+        plan.skipped.push({ todo, confidence, reason: 'Overlaps another change' });
+        continue;
+      }
+
+      const changedLines = Array.from(planned.edits.keys()).sort((a, b) => a - b);
+      const change: CleanupChange = {
+        todo,
+        confidence,
+        action: planned.action,
+        file,
+        line: todo.line,
+        before: changedLines.map(line => lines[line - 1]),
+        after: [
+          ...changedLines.map(line => planned.edits.get(line)).filter((line): line is string => typeof line === 'string'),
+          ...(planned.moved || [])
+        ]
+      };
+
+      if (confirm && !(await confirm(change))) {
+        plan.declined.push(change);
+        continue;
+      }
+
+      planned.edits.forEach((edit, line) => edits.set(line, edit));
+      moved.push(...(planned.moved || []));
+      changes.push(change);
+    }
+
+    if (changes.length > 0) {
+      plan.files.push({ file, original, updated: applyEdits(lines, edits, moved).join(eol), changes });
+    }
+  }
+
+  plan.files.sort((a, b) => a.file.localeCompare(b.file));
+  return plan;
+}
+
+/**
+ * Write the planned changes to the working tree
+ */
+export function writeCleanupInPlace(plan: CleanupPlan, rootPath: string): void {
+  for (const fileCleanup of plan.files) {
+    fs.writeFileSync(path.join(rootPath, fileCleanup.file), fileCleanup.updated, 'utf-8');
+  }
+}
+
+/**
+ * Render the planned changes as a unified diff (apply with `git apply` or `patch -p1`)
+ */
+export function formatCleanupPatch(plan: CleanupPlan): string {
+  return plan.files
+    .map(({ file, original, updated }) => {
+      const posixPath = file.split(path.sep).join('/');
+      return createUnifiedDiff(posixPath, posixPath, original, updated);
+    })
+    .join('');
+}
+
+/**
+ * Commit the planned changes on a new branch from HEAD, leaving the working tree untouched
+ * @returns the new commit hash
+ * @throws Error if the branch exists or a changed file has uncommitted edits
+ */
+export function commitCleanupToBranch(plan: CleanupPlan, rootPath: string, branch: string, message?: string): string {
+  const git = (args: string[], options: Parameters<typeof runGit>[2] = {}): string => {
+    const output = runGit(rootPath, args, options);
+    if (output === null) {
+      throw new Error(`git ${args[0]} failed`);
+    }
+    return output.trim();
+  };
+
+  if (branch.startsWith('-') || runGit(rootPath, ['check-ref-format', '--branch', branch]) === null) {
+    throw new Error(`Invalid branch name: ${branch}`);
+  }
+  if (runGit(rootPath, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]) !== null) {
+    throw new Error(`Branch already exists: ${branch}`);
+  }
+
+  const head = git(['rev-parse', 'HEAD']);
+  const repoRoot = git(['rev-parse', '--show-toplevel']);
+
+  // The branch is built from HEAD, so the files must not carry other edits
+  const files = plan.files.map(fileCleanup => fileCleanup.file);
+  const dirty = runGit(rootPath, ['diff', '--name-only', 'HEAD', '--', ...files]);
+  if (dirty === null || dirty.trim()) {
+    throw new Error(`Files have uncommitted changes: ${(dirty || '').trim().split('\n').join(', ')}`);
+  }
+
+  // Stage into a temporary index so the real index and working tree are untouched
+  const indexFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-index-')), 'index');
+  const env = { GIT_INDEX_FILE: indexFile };
+  try {
+    git(['read-tree', head], { env });
+    for (const fileCleanup of plan.files) {
+      const repoPath = path.relative(repoRoot, path.join(fs.realpathSync(rootPath), fileCleanup.file)).split(path.sep).join('/');
+      const mode = git(['ls-files', '--stage', '--', repoPath], { env }).split(' ')[0] || '100644';
+      const blob = git(['hash-object', '-w', '--stdin'], { input: fileCleanup.updated });
+      git(['update-index', '--cacheinfo', `${mode},${blob},${repoPath}`], { env });
+    }
+
+    const tree = git(['write-tree'], { env });
+    const count = plan.files.reduce((sum, fileCleanup) => sum + fileCleanup.changes.length, 0);
+    const commit = git(['commit-tree', tree, '-p', head, '-F', '-'], {
+      input: message || `Retire ${count} completed TODO${count === 1 ? '' : 's'}\n`
+    });
+    git(['branch', branch, commit]);
+    return commit;
+  } finally {
+    fs.rmSync(path.dirname(indexFile), { recursive: true, force: true });
+  }
+}
@@ -4,6 +4,7 @@
 
 import * as fs from 'fs';
 import { TodoItem } from './patterns';
+import { checkGitEvidence, createGitEvidenceIndex } from '../utils/gitIntegration';
 import {
   CompletionAnalysis as PatternCompletionAnalysis,
   checkDirectCompletion,
@@ -11,12 +12,23 @@ import {
   isInOldDocument,
   calculateCompletionConfidence,
   generateSuggestions,
-  isInArchivedPath
+  isInArchivedPath,
+  CompletionWeights,
+  DEFAULT_COMPLETION_WEIGHTS
 } from './completionPatterns';
 
 // Re-export for external use
 export type CompletionAnalysis = PatternCompletionAnalysis;
 
+export type GitEvidence = ReturnType<typeof checkGitEvidence>;
+
+export interface CompletionOptions {
+  /** Add evidence from git history (commits, file names, code mentions) */
+  useGit?: boolean;
+  /** Scoring weights, e.g. from `calibrate` (default: the hand-picked weights) */
+  weights?: CompletionWeights;
+}
+
 export interface CompletionReport {
   totalTodos: number;
   likelyCompleted: number;
@@ -44,19 +56,21 @@ export interface CompletionReport {
 export function analyzeTodoCompletion(
   todo: TodoItem,
   fileContent: string,
-  filePath: string
+  filePath: string,
+  gitEvidence?: GitEvidence,
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
 ): CompletionAnalysis {
   const reasons: string[] = [];
   const suggestions: string[] = [];
 
   // Step 1: Check the TODO text itself
-  const directCheck = checkDirectCompletion(todo.rawText);
+  const directCheck = checkDirectCompletion(todo.rawText, weights);
   if (directCheck.isCompleted) {
     reasons.push(directCheck.reason);
   }
 
   // Step 2: Analyze surrounding context
-  const contextCheck = analyzeContext(fileContent, todo.line);
+  const contextCheck = analyzeContext(fileContent, todo.line, 3, weights);
   if (contextCheck.hasCompletionIndicator) {
     reasons.push(...contextCheck.indicators);
   }
@@ -72,14 +86,21 @@ export function analyzeTodoCompletion(
     reasons.push('File is in archived directory');
   }
 
-  // Step 5: Calculate overall confidence
+  // Step 5: Git history evidence, when requested
+  if (gitEvidence?.hasEvidence) {
+    reasons.push(...gitEvidence.evidence.map(evidence => `Git: ${evidence}`));
+  }
+
+  // Step 6: Calculate overall confidence
   const confidence = calculateCompletionConfidence(
     directCheck,
     contextCheck,
-    oldDocCheck
+    oldDocCheck,
+    gitEvidence,
+    weights
   );
 
-  // Step 6: Generate suggestions
+  // Step 7: Generate suggestions
   const generatedSuggestions = generateSuggestions(confidence, reasons);
   suggestions.push(...generatedSuggestions);
 
@@ -88,7 +109,13 @@ export function analyzeTodoCompletion(
     isLikelyCompleted: confidence >= 70,
     confidence,
     reasons,
-    suggestions
+    suggestions,
+    signals: {
+      ...(directCheck.isCompleted ? { direct: directCheck.reason } : {}),
+      context: contextCheck.indicators,
+      oldDocument: oldDocCheck.isOld ? oldDocCheck.confidence : 0,
+      ...(gitEvidence ? { git: gitEvidence.signals } : {})
+    }
   };
 }
 
@@ -97,10 +124,16 @@ export function analyzeTodoCompletion(
  */
 export function analyzeCompletions(
   todos: TodoItem[],
-  rootPath: string
+  rootPath: string,
+  options: CompletionOptions = {}
 ): CompletionReport {
   const analyses: CompletionAnalysis[] = [];
 
+  // Load git history once for all TODOs
+  const gitIndex = options.useGit
+    ? createGitEvidenceIndex(rootPath, todos.map(todo => todo.content))
+    : null;
+
   // Group TODOs by file for efficient file reading
   const todosByFile = new Map<string, TodoItem[]>();
   for (const todo of todos) {
@@ -124,7 +157,10 @@ export function analyzeCompletions(
 
     // Analyze each TODO in the file
     for (const todo of fileTodos) {
-      const analysis = analyzeTodoCompletion(todo, fileContent, relativePath);
+      const gitEvidence = gitIndex
+        ? checkGitEvidence(rootPath, todo.content, relativePath, gitIndex, options.weights)
+        : undefined;
+      const analysis = analyzeTodoCompletion(todo, fileContent, relativePath, gitEvidence, options.weights);
       analyses.push(analysis);
     }
   }
@@ -17,6 +17,49 @@ export interface CompletionAnalysis {
   confidence: number;
   reasons: string[];
   suggestions: string[];
+  /** Raw inputs to the score, so it can be recomputed with other weights */
+  signals?: CompletionSignals;
+}
+
+/**
+ * Git history found for a TODO's keywords
+ */
+export interface GitSignals {
+  /** Days since the file was last committed, when it is tracked */
+  daysSinceModified?: number;
+  /** Commits (up to 3) mentioning each keyword */
+  commitMentions: number[];
+  /** Keywords that name files, appear in commit messages or in code */
+  featureMatches: number;
+}
+
+export interface CompletionSignals {
+  /** Indicator (description) matched in the TODO text itself */
+  direct?: string;
+  /** Indicators (descriptions) matched in the surrounding lines */
+  context: string[];
+  /** Old/archived document confidence, 0 when the document is not old */
+  oldDocument: number;
+  git?: GitSignals;
+}
+
+/**
+ * Everything the completion score depends on
+ */
+export interface CompletionWeights {
+  /** Confidence of each indicator, keyed by description */
+  indicators: Record<string, number>;
+  /** How much each source counts in the weighted average */
+  direct: number;
+  context: number;
+  oldDocument: number;
+  git: number;
+  /** Git bonuses: file untouched for 90+ days, per commit mentioning a keyword (2 max), per keyword found in the repo */
+  gitStaleFile: number;
+  gitCommitMention: number;
+  gitFeatureMatch: number;
+  /** Highest confidence git evidence alone can contribute */
+  gitCap: number;
 }
 
 /**
@@ -82,6 +125,25 @@ export const COMPLETION_INDICATORS: CompletionIndicator[] = [
   }
 ];
 
+/**
+ * Hand-picked weights, used until `calibrate` fits them to recorded feedback
+ */
+export const DEFAULT_COMPLETION_WEIGHTS: CompletionWeights = {
+  indicators: Object.fromEntries(COMPLETION_INDICATORS.map(indicator => [indicator.description, indicator.confidence])),
+  direct: 1.5,
+  context: 1.2,
+  oldDocument: 0.8,
+  git: 0.5,
+  gitStaleFile: 20,
+  gitCommitMention: 15,
+  gitFeatureMatch: 25,
+  gitCap: 60
+};
+
+function indicatorConfidence(indicator: CompletionIndicator, weights: CompletionWeights): number {
+  return weights.indicators[indicator.description] ?? indicator.confidence;
+}
+
 /**
  * Patterns that suggest a file/section is outdated
  */
@@ -120,7 +182,8 @@ export function isInArchivedPath(filePath: string): boolean {
 export function analyzeContext(
   content: string,
   todoLine: number,
-  contextLines: number = 3
+  contextLines: number = 3,
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
 ): {
   hasCompletionIndicator: boolean;
   confidence: number;
@@ -144,7 +207,7 @@ export function analyzeContext(
 
     if (matches) {
       indicators.push(indicator.description);
-      totalConfidence += indicator.confidence;
+      totalConfidence += indicatorConfidence(indicator, weights);
       matchCount++;
     }
   }
@@ -161,7 +224,10 @@ export function analyzeContext(
 /**
  * Check if the TODO itself contains completion markers
  */
-export function checkDirectCompletion(todoText: string): {
+export function checkDirectCompletion(
+  todoText: string,
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
+): {
   isCompleted: boolean;
   confidence: number;
   reason: string;
@@ -173,7 +239,7 @@ export function checkDirectCompletion(todoText: string): {
     if (indicator.pattern.test(todoText)) {
       return {
         isCompleted: true,
-        confidence: indicator.confidence,
+        confidence: indicatorConfidence(indicator, weights),
         reason: indicator.description
       };
     }
@@ -256,32 +322,94 @@ export function isInOldDocument(filePath: string, fileContent: string): {
 export function calculateCompletionConfidence(
   directCheck: ReturnType<typeof checkDirectCompletion>,
   contextCheck: ReturnType<typeof analyzeContext>,
-  oldDocCheck: ReturnType<typeof isInOldDocument>
+  oldDocCheck: ReturnType<typeof isInOldDocument>,
+  gitCheck?: { hasEvidence: boolean; confidence: number },
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
 ): number {
   let confidence = 0;
   let weight = 0;
 
   // Direct completion markers have highest weight
   if (directCheck.isCompleted) {
-    confidence += directCheck.confidence * 1.5;
-    weight += 1.5;
+    confidence += directCheck.confidence * weights.direct;
+    weight += weights.direct;
   }
 
   // Context indicators
   if (contextCheck.hasCompletionIndicator) {
-    confidence += contextCheck.confidence * 1.2;
-    weight += 1.2;
+    confidence += contextCheck.confidence * weights.context;
+    weight += weights.context;
   }
 
   // Old document check has lower weight but still relevant
   if (oldDocCheck.isOld) {
-    confidence += oldDocCheck.confidence * 0.8;
-    weight += 0.8;
+    confidence += oldDocCheck.confidence * weights.oldDocument;
+    weight += weights.oldDocument;
+  }
+
+  // Git history is circumstantial: on its own it never reaches "probably completed"
+  if (gitCheck?.hasEvidence) {
+    confidence += Math.min(gitCheck.confidence, weights.gitCap) * weights.git;
+    weight += weights.git;
   }
 
   return weight > 0 ? Math.min(confidence / weight, 100) : 0;
 }
 
+/**
+ * Confidence contributed by git history
+ */
+export function scoreGitSignals(signals: GitSignals, weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS): number {
+  let confidence = 0;
+
+  if (signals.daysSinceModified !== undefined && signals.daysSinceModified > 90) {
+    confidence += weights.gitStaleFile;
+  }
+  for (const commits of signals.commitMentions) {
+    confidence += Math.min(commits, 2) * weights.gitCommitMention;
+  }
+  confidence += signals.featureMatches * weights.gitFeatureMatch;
+
+  return Math.min(confidence, 100);
+}
+
+/**
+ * Whether git found anything at all for a TODO
+ */
+export function hasGitEvidence(signals: GitSignals): boolean {
+  return (signals.daysSinceModified !== undefined && signals.daysSinceModified > 90) ||
+    signals.commitMentions.some(commits => commits > 0) ||
+    signals.featureMatches > 0;
+}
+
+/**
+ * Recompute a TODO's confidence from its recorded signals
+ */
+export function scoreCompletionSignals(
+  signals: CompletionSignals,
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
+): number {
+  const context = signals.context.map(description => weights.indicators[description] ?? 0);
+
+  return calculateCompletionConfidence(
+    {
+      isCompleted: signals.direct !== undefined,
+      confidence: signals.direct !== undefined ? weights.indicators[signals.direct] ?? 0 : 0,
+      reason: signals.direct || ''
+    },
+    {
+      hasCompletionIndicator: context.length > 0,
+      confidence: context.length > 0 ? context.reduce((sum, value) => sum + value, 0) / context.length : 0,
+      indicators: signals.context
+    },
+    { isOld: signals.oldDocument >= 50, confidence: signals.oldDocument, reasons: [] },
+    signals.git
+      ? { hasEvidence: hasGitEvidence(signals.git), confidence: scoreGitSignals(signals.git, weights) }
+      : undefined,
+    weights
+  );
+}
+
 /**
  * Generate suggestions based on confidence level
  */
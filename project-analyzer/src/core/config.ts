@@ -0,0 +1,345 @@
+/**
+ * Analyzer configuration file (.project-analyzer.json)
+ *
+ * Lets a repository add or override TODO patterns, change priorities,
+ * tune the quality filters and pull structured fields (owner, due date,
+ * ticket) out of TODO text. The file is validated up front and every
+ * problem is reported at once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TodoPattern, PatternSet, CODE_PATTERNS, MARKDOWN_PATTERNS, createCommentTagRegex } from './patterns';
+
+export const DEFAULT_CONFIG_FILE = '.project-analyzer.json';
+
+type Priority = TodoPattern['priority'];
+type PatternCategory = TodoPattern['category'];
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+const CATEGORIES: PatternCategory[] = ['code', 'markdown', 'both'];
+
+export interface PatternConfig {
+  name: string;
+  /** Comment tag to match (defaults to `name`), e.g. `SECURITY` matches `// SECURITY: ...` */
+  tag?: string;
+  /** Custom regex source; named groups `content`, `owner`, `due` and `ticket` become TODO fields */
+  regex?: string;
+  flags?: string;
+  priority?: Priority;
+  category?: PatternCategory;
+  /** What the pattern flags (shown as rule help in SARIF and Code Climate output) */
+  description?: string;
+  /** Set to false to turn a built-in pattern off */
+  enabled?: boolean;
+}
+
+export interface PriorityRuleConfig {
+  /** Regex tested against the TODO content */
+  match: string;
+  priority: Priority;
+  /** Only apply to these pattern names */
+  types?: string[];
+}
+
+export interface QualityConfig {
+  /** Minimum content length (default: 10) */
+  minLength?: number;
+  /** Apply the built-in vague/garbage/checklist filters (default: true) */
+  builtinFilters?: boolean;
+  /** Regexes; matching TODOs are dropped */
+  exclude?: string[];
+  /** Regexes; matching TODOs are always kept */
+  allow?: string[];
+}
+
+export interface AnalyzerConfigFile {
+  /** Keep the built-in patterns alongside the configured ones (default: true) */
+  builtinPatterns?: boolean;
+  patterns?: PatternConfig[];
+  priorityRules?: PriorityRuleConfig[];
+  quality?: QualityConfig;
+  /** Regex for ticket references in TODO content, e.g. `[A-Z]+-\\d+` */
+  ticketPattern?: string;
+}
+
+export interface PriorityRule {
+  match: RegExp;
+  priority: Priority;
+  types?: string[];
+}
+
+export interface QualityOptions {
+  minLength: number;
+  builtinFilters: boolean;
+  exclude: RegExp[];
+  allow: RegExp[];
+}
+
+/**
+ * Validated configuration, ready to hand to the scanner
+ */
+export interface AnalyzerConfig {
+  patternSet: PatternSet;
+  priorityRules: PriorityRule[];
+  quality: QualityOptions;
+  ticketPattern?: RegExp;
+  /** Hash of the config file contents, used to invalidate the scan cache */
+  fingerprint: string;
+  /** Path the config was loaded from */
+  source?: string;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = {
+  minLength: 10,
+  builtinFilters: true,
+  exclude: [],
+  allow: []
+};
+
+/**
+ * Compile a regex from config, recording an error instead of throwing
+ */
+function compileRegex(source: unknown, flags: string, field: string, errors: string[]): RegExp | undefined {
+  if (typeof source !== 'string' || source.length === 0) {
+    errors.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+
+  try {
+    return new RegExp(source, flags);
+  } catch (error: any) {
+    errors.push(`${field} is not a valid regex: ${error.message}`);
+    return undefined;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the pattern set from built-in and configured patterns
+ * Configured patterns replace built-ins with the same name (case-insensitive).
+ */
+function buildPatternSet(file: AnalyzerConfigFile, errors: string[]): PatternSet {
+  const builtins = file.builtinPatterns === false ? [] : [...CODE_PATTERNS, ...MARKDOWN_PATTERNS];
+  const patterns = new Map<string, TodoPattern | null>();
+  for (const pattern of builtins) {
+    patterns.set(pattern.name.toLowerCase(), pattern);
+  }
+
+  if (file.patterns !== undefined && !Array.isArray(file.patterns)) {
+    errors.push('patterns must be an array');
+    return { code: CODE_PATTERNS, markdown: MARKDOWN_PATTERNS };
+  }
+
+  (file.patterns || []).forEach((entry, index) => {
+    const field = `patterns[${index}]`;
+    if (!isPlainObject(entry)) {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+    if (typeof entry.name !== 'string' || entry.name.trim().length === 0) {
+      errors.push(`${field}.name must be a non-empty string`);
+      return;
+    }
+    if (entry.priority !== undefined && !PRIORITIES.includes(entry.priority)) {
+      errors.push(`${field}.priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+    if (entry.category !== undefined && !CATEGORIES.includes(entry.category)) {
+      errors.push(`${field}.category must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      errors.push(`${field}.description must be a string`);
+    }
+    if (entry.regex !== undefined && entry.tag !== undefined) {
+      errors.push(`${field} cannot have both regex and tag`);
+    }
+
+    const key = entry.name.toLowerCase();
+    const existing = patterns.get(key);
+
+    if (entry.enabled === false) {
+      patterns.set(key, null);
+      return;
+    }
+
+    let regex: RegExp | undefined;
+    if (entry.regex !== undefined) {
+      let flags = entry.flags ?? 'gm';
+      if (!flags.includes('g')) {
+        flags += 'g';
+      }
+      regex = compileRegex(entry.regex, flags, `${field}.regex`, errors);
+    } else if (entry.tag !== undefined) {
+      if (typeof entry.tag !== 'string' || !/^[\w-]+$/.test(entry.tag)) {
+        errors.push(`${field}.tag must be a single word (letters, digits, _ or -)`);
+      } else {
+        regex = createCommentTagRegex(entry.tag);
+      }
+    } else if (existing) {
+      regex = existing.regex;
+    } else if (/^[\w-]+$/.test(entry.name)) {
+      regex = createCommentTagRegex(entry.name);
+    } else {
+      errors.push(`${field} needs a tag or regex ("${entry.name}" is not a built-in pattern)`);
+    }
+
+    if (regex) {
+      patterns.set(key, {
+        name: existing && !entry.regex && !entry.tag ? existing.name : entry.name,
+        regex,
+        priority: entry.priority ?? existing?.priority ?? 'medium',
+        category: entry.category ?? existing?.category ?? (entry.regex ? 'both' : 'code'),
+        description: entry.description ?? existing?.description
+      });
+    }
+  });
+
+  // 'both' lives in the code list: markdown files are scanned with code patterns too
+  const enabled = Array.from(patterns.values()).filter((p): p is TodoPattern => p !== null);
+  return {
+    code: enabled.filter(p => p.category !== 'markdown'),
+    markdown: enabled.filter(p => p.category === 'markdown')
+  };
+}
+
+function buildPriorityRules(file: AnalyzerConfigFile, errors: string[]): PriorityRule[] {
+  if (file.priorityRules === undefined) {
+    return [];
+  }
+  if (!Array.isArray(file.priorityRules)) {
+    errors.push('priorityRules must be an array');
+    return [];
+  }
+
+  const rules: PriorityRule[] = [];
+  file.priorityRules.forEach((entry, index) => {
+    const field = `priorityRules[${index}]`;
+    if (!isPlainObject(entry)) {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+    if (!PRIORITIES.includes(entry.priority)) {
+      errors.push(`${field}.priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+    if (entry.types !== undefined && (!Array.isArray(entry.types) || entry.types.some(t => typeof t !== 'string'))) {
+      errors.push(`${field}.types must be an array of pattern names`);
+    }
+
+    const match = compileRegex(entry.match, 'i', `${field}.match`, errors);
+    if (match && PRIORITIES.includes(entry.priority)) {
+      rules.push({ match, priority: entry.priority, types: entry.types });
+    }
+  });
+
+  return rules;
+}
+
+function buildQualityOptions(file: AnalyzerConfigFile, errors: string[]): QualityOptions {
+  const quality = file.quality;
+  if (quality === undefined) {
+    return DEFAULT_QUALITY_OPTIONS;
+  }
+  if (!isPlainObject(quality)) {
+    errors.push('quality must be an object');
+    return DEFAULT_QUALITY_OPTIONS;
+  }
+
+  if (quality.minLength !== undefined && (typeof quality.minLength !== 'number' || !Number.isInteger(quality.minLength) || quality.minLength < 0)) {
+    errors.push('quality.minLength must be a non-negative integer');
+  }
+  if (quality.builtinFilters !== undefined && typeof quality.builtinFilters !== 'boolean') {
+    errors.push('quality.builtinFilters must be true or false');
+  }
+
+  const compileList = (list: unknown, field: string): RegExp[] => {
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) {
+      errors.push(`${field} must be an array of regexes`);
+      return [];
+    }
+    return list
+      .map((source, index) => compileRegex(source, 'i', `${field}[${index}]`, errors))
+      .filter((regex): regex is RegExp => regex !== undefined);
+  };
+
+  return {
+    minLength: typeof quality.minLength === 'number' ? quality.minLength : DEFAULT_QUALITY_OPTIONS.minLength,
+    builtinFilters: quality.builtinFilters !== false,
+    exclude: compileList(quality.exclude, 'quality.exclude'),
+    allow: compileList(quality.allow, 'quality.allow')
+  };
+}
+
+/**
+ * Validate a parsed config file
+ * @throws Error listing every problem found
+ */
+export function parseAnalyzerConfig(raw: unknown, source?: string): AnalyzerConfig {
+  const label = source ? `Invalid analyzer config ${source}` : 'Invalid analyzer config';
+
+  if (!isPlainObject(raw)) {
+    throw new Error(`${label}:\n  - config must be a JSON object`);
+  }
+
+  const file = raw as AnalyzerConfigFile;
+  const errors: string[] = [];
+  const known = ['$schema', 'builtinPatterns', 'patterns', 'priorityRules', 'quality', 'ticketPattern'];
+
+  for (const key of Object.keys(file)) {
+    if (!known.includes(key)) {
+      errors.push(`unknown option "${key}" (expected one of ${known.slice(1).join(', ')})`);
+    }
+  }
+  if (file.builtinPatterns !== undefined && typeof file.builtinPatterns !== 'boolean') {
+    errors.push('builtinPatterns must be true or false');
+  }
+
+  const patternSet = buildPatternSet(file, errors);
+  const priorityRules = buildPriorityRules(file, errors);
+  const quality = buildQualityOptions(file, errors);
+  const ticketPattern = file.ticketPattern !== undefined
+    ? compileRegex(file.ticketPattern, '', 'ticketPattern', errors)
+    : undefined;
+
+  if (errors.length > 0) {
+    throw new Error(`${label}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return {
+    patternSet,
+    priorityRules,
+    quality,
+    ticketPattern,
+    fingerprint: crypto.createHash('sha256').update(JSON.stringify(raw)).digest('hex').slice(0, 16),
+    source
+  };
+}
+
+/**
+ * Load the analyzer config for a repository
+ * Uses `configPath` when given, otherwise `.project-analyzer.json` in the root
+ * (returning null when there is none).
+ */
+export function loadAnalyzerConfig(rootPath: string, configPath?: string): AnalyzerConfig | null {
+  const resolved = configPath ? path.resolve(configPath) : path.join(rootPath, DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(resolved)) {
+    if (configPath) {
+      throw new Error(`Analyzer config not found: ${resolved}`);
+    }
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid analyzer config ${resolved}:\n  - ${error.message}`);
+  }
+
+  return parseAnalyzerConfig(raw, resolved);
+}
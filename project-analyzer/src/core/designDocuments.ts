@@ -0,0 +1,483 @@
+/**
+ * Design document import
+ *
+ * Figma REST file exports and Sketch page JSON describe a design as a tree, so
+ * features can be read from structure instead of pixels. Both formats are
+ * normalized into DesignNode trees; screens (top-level frames and artboards),
+ * components with their instances, and prototype links then become
+ * ExtractedFeatures with page and coordinate locations.
+ */
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { ExtractedFeature, FeatureCategory } from '../types/features';
+
+export type DesignDocumentFormat = 'figma' | 'sketch';
+export type DesignNodeKind = 'page' | 'section' | 'frame' | 'component' | 'component-set' | 'instance' | 'other';
+
+export interface DesignBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DesignLink {
+  /** Id of the node the link navigates to */
+  destinationId: string;
+  /** Navigation type as exported (e.g. NAVIGATE, OVERLAY) */
+  navigation?: string;
+}
+
+/**
+ * A visible node of a design document, in either format
+ */
+export interface DesignNode {
+  id: string;
+  name: string;
+  kind: DesignNodeKind;
+  /** Position on the page's canvas */
+  bounds?: DesignBounds;
+  /** For instances: the component they were created from */
+  componentId?: string;
+  /** Component description, when the file has one */
+  description?: string;
+  /** Prototype links triggered from this node */
+  links: DesignLink[];
+  /** Prototype starting point (Figma flow start, Sketch flow home) */
+  flowStart?: boolean;
+  children: DesignNode[];
+}
+
+export interface ExternalComponent {
+  name: string;
+  description?: string;
+  /** Component set the component is a variant of */
+  setId?: string;
+}
+
+export interface DesignDocument {
+  format: DesignDocumentFormat;
+  name: string;
+  pages: DesignNode[];
+  /** Components that instances reference but the document does not define (libraries) */
+  externalComponents: Record<string, ExternalComponent>;
+}
+
+export interface DesignDocumentFeatures {
+  features: ExtractedFeature[];
+  warnings: string[];
+}
+
+const DOCUMENT_EXTENSIONS = ['.json'];
+
+/** Name patterns for categorizing components, checked in order */
+const COMPONENT_CATEGORIES: Array<[RegExp, FeatureCategory]> = [
+  [/\b(nav|navbar|navigation|menu|tabs?|breadcrumbs?|pagination|stepper)\b/i, 'Navigation'],
+  [/\b(header|footer|sidebar|grid|container|section|layout)\b/i, 'Layout'],
+  [/\b(input|field|text ?area|checkbox|radio|select|dropdown|toggle|switch|slider|date ?picker|form|search)\b/i, 'Form'],
+  [/\b(table|chart|graph|list|stat|metric|badge|avatar|progress)\b/i, 'Data Display'],
+  [/\b(button|btn|cta|link|fab)\b/i, 'Action'],
+  [/\b(text|heading|title|paragraph|label|image|illustration|icon)\b/i, 'Content']
+];
+
+/**
+ * Whether a design file is a document export rather than an image
+ */
+export function isDesignDocument(filePath: string): boolean {
+  return DOCUMENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+function asRecord(value: unknown): Record<string, any> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : undefined;
+}
+
+function toBounds(value: unknown): DesignBounds | undefined {
+  const box = asRecord(value);
+  if (!box || ![box.x, box.y, box.width, box.height].every(n => typeof n === 'number')) {
+    return undefined;
+  }
+  return { x: box.x, y: box.y, width: box.width, height: box.height };
+}
+
+/**
+ * Figma prototype links: legacy transitionNodeID plus reactions/interactions
+ */
+function figmaLinks(node: Record<string, any>): DesignLink[] {
+  const links: DesignLink[] = [];
+  if (typeof node.transitionNodeID === 'string') {
+    links.push({ destinationId: node.transitionNodeID, navigation: 'NAVIGATE' });
+  }
+
+  const actions: unknown[] = [];
+  for (const reaction of [...(node.reactions || []), ...(node.interactions || [])]) {
+    if (reaction?.action) actions.push(reaction.action);
+    if (Array.isArray(reaction?.actions)) actions.push(...reaction.actions);
+  }
+  for (const action of actions) {
+    const record = asRecord(action);
+    if (record?.type === 'NODE' && typeof record.destinationId === 'string'
+      && !links.some(link => link.destinationId === record.destinationId)) {
+      links.push({ destinationId: record.destinationId, navigation: record.navigation });
+    }
+  }
+  return links;
+}
+
+const FIGMA_KINDS: Record<string, DesignNodeKind> = {
+  CANVAS: 'page',
+  SECTION: 'section',
+  FRAME: 'frame',
+  COMPONENT: 'component',
+  COMPONENT_SET: 'component-set',
+  INSTANCE: 'instance'
+};
+
+function normalizeFigmaNode(node: Record<string, any>, components: Record<string, any>): DesignNode | undefined {
+  if (node.visible === false) {
+    return undefined;
+  }
+
+  const kind = FIGMA_KINDS[node.type] || 'other';
+  const children = (Array.isArray(node.children) ? node.children : [])
+    .map((child: unknown) => asRecord(child))
+    .filter((child: Record<string, any> | undefined): child is Record<string, any> => child !== undefined)
+    .map((child: Record<string, any>) => normalizeFigmaNode(child, components))
+    .filter((child: DesignNode | undefined): child is DesignNode => child !== undefined);
+
+  const description = kind === 'component' || kind === 'component-set'
+    ? node.description || components[node.id]?.description || undefined
+    : undefined;
+
+  return {
+    id: String(node.id),
+    name: String(node.name ?? ''),
+    kind,
+    bounds: toBounds(node.absoluteBoundingBox),
+    componentId: kind === 'instance' && typeof node.componentId === 'string' ? node.componentId : undefined,
+    description,
+    links: figmaLinks(node),
+    children
+  };
+}
+
+function parseFigmaDocument(file: Record<string, any>): DesignDocument {
+  const components: Record<string, any> = { ...(file.componentSets || {}), ...(file.components || {}) };
+  const pages = (file.document.children || [])
+    .map((page: Record<string, any>) => {
+      const normalized = normalizeFigmaNode(page, components);
+      if (normalized) {
+        const starts = new Set<string>((page.flowStartingPoints || []).map((start: any) => start.nodeId));
+        if (page.prototypeStartNodeID) starts.add(page.prototypeStartNodeID);
+        for (const child of normalized.children) {
+          child.flowStart = starts.has(child.id) || undefined;
+        }
+      }
+      return normalized;
+    })
+    .filter((page: DesignNode | undefined): page is DesignNode => page !== undefined && page.kind === 'page');
+
+  const defined = new Set<string>();
+  const collect = (node: DesignNode) => {
+    if (node.kind === 'component' || node.kind === 'component-set') defined.add(node.id);
+    node.children.forEach(collect);
+  };
+  pages.forEach(collect);
+
+  const externalComponents: DesignDocument['externalComponents'] = {};
+  for (const [id, component] of Object.entries(file.components || {}) as Array<[string, any]>) {
+    if (defined.has(id) || !component?.name) continue;
+    // Variants of a library component set are reported as the set
+    const set = component.componentSetId && !defined.has(component.componentSetId)
+      ? asRecord(file.componentSets?.[component.componentSetId])
+      : undefined;
+    externalComponents[id] = set?.name
+      ? { name: set.name, description: set.description || undefined, setId: component.componentSetId }
+      : { name: component.name, description: component.description || undefined };
+  }
+
+  return { format: 'figma', name: String(file.name ?? ''), pages, externalComponents };
+}
+
+const SKETCH_KINDS: Record<string, DesignNodeKind> = {
+  page: 'page',
+  artboard: 'frame',
+  symbolMaster: 'component',
+  symbolInstance: 'instance'
+};
+
+/**
+ * Sketch frames are relative to the parent layer; `origin` is the parent's
+ * position on the canvas. Symbol ids are mapped to the masters' object ids so
+ * instances point at nodes like they do in Figma.
+ */
+function normalizeSketchLayer(
+  layer: Record<string, any>,
+  origin: { x: number; y: number },
+  symbolIds: Map<string, string>
+): DesignNode | undefined {
+  if (layer.isVisible === false) {
+    return undefined;
+  }
+
+  const kind = SKETCH_KINDS[layer._class] || 'other';
+  const frame = kind === 'page' ? undefined : toBounds(layer.frame);
+  const bounds = frame ? { ...frame, x: frame.x + origin.x, y: frame.y + origin.y } : undefined;
+  const childOrigin = bounds ? { x: bounds.x, y: bounds.y } : origin;
+
+  const destination = layer.flow?.destinationArtboardID;
+  const children = (Array.isArray(layer.layers) ? layer.layers : [])
+    .map((child: Record<string, any>) => normalizeSketchLayer(child, childOrigin, symbolIds))
+    .filter((child: DesignNode | undefined): child is DesignNode => child !== undefined);
+
+  return {
+    id: String(layer.do_objectID),
+    name: String(layer.name ?? ''),
+    kind,
+    bounds,
+    componentId: kind === 'instance' ? symbolIds.get(layer.symbolID) || layer.symbolID : undefined,
+    // Sketch uses "back" for links to the previous artboard
+    links: typeof destination === 'string' && destination !== 'back' ? [{ destinationId: destination }] : [],
+    flowStart: layer.isFlowHome === true || undefined,
+    children
+  };
+}
+
+function parseSketchDocument(pages: Array<Record<string, any>>, name: string): DesignDocument {
+  const symbolIds = new Map<string, string>();
+  const masters = new Set<string>();
+  const visit = (layer: Record<string, any>) => {
+    if (layer._class === 'symbolMaster') {
+      symbolIds.set(layer.symbolID, layer.do_objectID);
+      masters.add(layer.do_objectID);
+    }
+    (layer.layers || []).forEach(visit);
+  };
+  pages.forEach(visit);
+
+  const normalized = pages
+    .map(page => normalizeSketchLayer(page, { x: 0, y: 0 }, symbolIds))
+    .filter((page): page is DesignNode => page !== undefined);
+
+  // Instances of library symbols carry the symbol's name as their own
+  const externalComponents: DesignDocument['externalComponents'] = {};
+  const collect = (node: DesignNode) => {
+    if (node.kind === 'instance' && node.componentId && !masters.has(node.componentId)) {
+      externalComponents[node.componentId] = externalComponents[node.componentId] || { name: node.name };
+    }
+    node.children.forEach(collect);
+  };
+  normalized.forEach(collect);
+
+  return { format: 'sketch', name, pages: normalized, externalComponents };
+}
+
+/**
+ * Normalize a Figma file (GET /v1/files/:key) or Sketch JSON (a page, or an
+ * object with inline `pages`) into a DesignDocument
+ */
+export function parseDesignDocument(json: unknown): DesignDocument {
+  const file = asRecord(json);
+
+  if (file && asRecord(file.document)?.type === 'DOCUMENT') {
+    return parseFigmaDocument(file);
+  }
+  if (file?._class === 'page') {
+    return parseSketchDocument([file], String(file.name ?? ''));
+  }
+  if (file && Array.isArray(file.pages) && file.pages.length > 0 && file.pages.every((page: any) => page?._class === 'page')) {
+    return parseSketchDocument(file.pages, String(file.name ?? ''));
+  }
+
+  throw new Error('Not a Figma file export or Sketch page JSON');
+}
+
+/**
+ * Categorize a component by its name; anything unrecognized is a UI Component
+ */
+export function categorizeComponent(name: string): FeatureCategory {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[/_=,-]+/g, ' ');
+  for (const [pattern, category] of COMPONENT_CATEGORIES) {
+    if (pattern.test(words)) {
+      return category;
+    }
+  }
+  return 'UI Component';
+}
+
+interface Placement {
+  node: DesignNode;
+  pageIndex: number;
+  page: DesignNode;
+  /** Top-level frame the node is on */
+  screen?: DesignNode;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Turn a design document into features: one per screen, per component (with
+ * instance usage) and per screen-to-screen prototype link
+ */
+export function extractDocumentFeatures(document: DesignDocument, sourcePath: string): DesignDocumentFeatures {
+  const warnings: string[] = [];
+  const extractedAt = new Date().toISOString();
+  const placements = new Map<string, Placement>();
+  const screens: Placement[] = [];
+  const definitions: Placement[] = [];
+  const instances: Placement[] = [];
+  const variantSets = new Map<string, string>();
+
+  const walk = (node: DesignNode, placement: Omit<Placement, 'node'>, parent?: DesignNode) => {
+    const isScreen = node.kind === 'frame' && (parent?.kind === 'page' || parent?.kind === 'section');
+    const current: Placement = { ...placement, node, screen: placement.screen || (isScreen ? node : undefined) };
+    placements.set(node.id, current);
+
+    if (isScreen) screens.push(current);
+    if (node.kind === 'component-set' || (node.kind === 'component' && parent?.kind !== 'component-set')) {
+      definitions.push(current);
+    }
+    if (node.kind === 'component' && parent?.kind === 'component-set') variantSets.set(node.id, parent.id);
+    if (node.kind === 'instance') instances.push(current);
+
+    // Instance internals repeat the component's structure
+    if (node.kind !== 'instance') {
+      node.children.forEach(child => walk(child, current, node));
+    }
+  };
+  document.pages.forEach((page, pageIndex) => walk(page, { pageIndex, page }));
+
+  const feature = (
+    key: string,
+    name: string,
+    category: FeatureCategory,
+    description: string,
+    placement: Placement | undefined,
+    extra: Partial<ExtractedFeature>
+  ): ExtractedFeature => ({
+    id: `feat-${createHash('md5').update(`${sourcePath}#${key}`).digest('hex').substring(0, 8)}`,
+    name,
+    description,
+    category,
+    source: 'design-file',
+    sourcePath,
+    priority: 'medium',
+    status: 'identified',
+    confidence: 90,
+    location: placement ? {
+      page: placement.pageIndex + 1,
+      pageName: placement.page.name,
+      nodeId: placement.node.id,
+      coordinates: placement.node.bounds
+    } : undefined,
+    tags: [document.format],
+    extractedAt,
+    ...extra
+  });
+
+  // Instance usage per component (variants count toward their set)
+  const usage = new Map<string, Placement[]>();
+  const groupOf = (id: string) => variantSets.get(id) || document.externalComponents[id]?.setId || id;
+  for (const instance of instances) {
+    const componentId = instance.node.componentId;
+    if (!componentId) continue;
+    const key = groupOf(componentId);
+    usage.set(key, [...(usage.get(key) || []), instance]);
+  }
+  const componentName = (id: string) =>
+    placements.get(groupOf(id))?.node.name || document.externalComponents[id]?.name || id;
+
+  const features: ExtractedFeature[] = [];
+
+  for (const screen of screens) {
+    const used = new Map<string, number>();
+    for (const instance of instances) {
+      if (instance.screen === screen.node && instance.node.componentId) {
+        const name = componentName(instance.node.componentId);
+        used.set(name, (used.get(name) || 0) + 1);
+      }
+    }
+    const size = screen.node.bounds ? ` (${screen.node.bounds.width}×${screen.node.bounds.height})` : '';
+    const components = [...used.entries()].map(([name, count]) => count > 1 ? `${name} ×${count}` : name);
+
+    features.push(feature(screen.node.id, screen.node.name, 'Page',
+      `Screen on page "${screen.page.name}"${size}` + (components.length > 0 ? ` using ${components.join(', ')}` : ''),
+      screen,
+      {
+        priority: screen.node.flowStart ? 'high' : 'medium',
+        confidence: 95,
+        tags: [document.format, 'screen', ...(screen.node.flowStart ? ['flow-start'] : [])]
+      }));
+  }
+
+  const usageNotes = (uses: Placement[] | undefined) => {
+    if (!uses || uses.length === 0) return 'Not used in any screen';
+    const on = [...new Set(uses.map(use => use.screen?.name || use.page.name))];
+    return `Used ${plural(uses.length, 'time')} on ${on.join(', ')}`;
+  };
+
+  for (const definition of definitions) {
+    const { node } = definition;
+    const variants = node.kind === 'component-set' ? node.children.filter(child => child.kind === 'component').length : 0;
+    features.push(feature(node.id, node.name, categorizeComponent(node.name),
+      node.description || `Component defined on page "${definition.page.name}"` + (variants > 0 ? ` with ${plural(variants, 'variant')}` : ''),
+      definition,
+      {
+        confidence: usage.has(node.id) ? 90 : 75,
+        notes: usageNotes(usage.get(node.id)),
+        tags: [document.format, 'component']
+      }));
+  }
+
+  const reported = new Set<string>();
+  for (const [id, component] of Object.entries(document.externalComponents)) {
+    const key = groupOf(id);
+    const uses = usage.get(key);
+    if (!uses || reported.has(key)) continue;
+    reported.add(key);
+    features.push(feature(key, component.name, categorizeComponent(component.name),
+      component.description || 'Library component',
+      uses[0],
+      { confidence: 85, notes: usageNotes(uses), tags: [document.format, 'component', 'library'] }));
+  }
+
+  // Prototype links, merged per source and destination screen
+  const links = new Map<string, { from: Placement; to: Placement; triggers: Placement[]; navigation?: string }>();
+  for (const placement of placements.values()) {
+    for (const link of placement.node.links) {
+      const destination = placements.get(link.destinationId);
+      if (!destination) {
+        warnings.push(`Prototype link from "${placement.node.name}" points to missing node ${link.destinationId}`);
+        continue;
+      }
+      const from = placement.screen ? placements.get(placement.screen.id)! : placement;
+      const to = destination.screen ? placements.get(destination.screen.id)! : destination;
+      const key = `${from.node.id}->${to.node.id}`;
+      const existing = links.get(key);
+      if (existing) {
+        existing.triggers.push(placement);
+      } else {
+        links.set(key, { from, to, triggers: [placement], navigation: link.navigation });
+      }
+    }
+  }
+
+  for (const [key, link] of links) {
+    const triggers = link.triggers.map(trigger => `"${trigger.node.name}"`).join(', ');
+    const verb = link.navigation === 'OVERLAY' ? 'opens' : 'navigates to';
+    features.push(feature(key, `${link.from.node.name} → ${link.to.node.name}`, 'Navigation',
+      `${triggers} on ${link.from.node.name} ${verb} ${link.to.node.name}`,
+      link.triggers[0],
+      { confidence: 90, tags: [document.format, 'prototype'] }));
+  }
+
+  if (document.pages.length === 0) {
+    warnings.push('Document has no pages');
+  } else if (features.length === 0) {
+    warnings.push('Document has no screens, components or prototype links');
+  }
+
+  return { features, warnings };
+}
@@ -0,0 +1,432 @@
+/**
+ * Design token extraction and drift detection
+ *
+ * Palettes come from the pixels of design images: colors are quantized with
+ * median cut and assigned primary/secondary/accent/neutral roles by
+ * saturation and coverage. The same token shape is produced from the
+ * codebase (see codeTokens.ts), so design and implementation can be compared
+ * color by color (CIE76 distance in Lab) and font by font.
+ */
+
+import * as fs from 'fs';
+import { decodeImage, DecodedImage } from '../utils/imageDecoder';
+import { ColorScheme, Typography } from '../types/features';
+
+export type ColorRole = 'primary' | 'secondary' | 'accent' | 'neutral';
+
+export interface PaletteColor {
+  hex: string;
+  /** Share of the sampled pixels (0-1) */
+  coverage: number;
+  role: ColorRole;
+}
+
+export interface ColorToken {
+  hex: string;
+  /** Token name (`--color-primary`, `primary-500`), when the color is named */
+  name?: string;
+  /** Relative importance: coverage for images, usage count for code */
+  weight: number;
+}
+
+export interface DesignTokenSet {
+  /** Where the tokens came from (image paths, directory or URL) */
+  source: string;
+  colors: ColorToken[];
+  typography: Typography;
+}
+
+export type DriftStatus = 'match' | 'drift' | 'missing';
+
+export interface ColorDrift {
+  /** Design color; palette colors are named after their role */
+  design: ColorToken;
+  /** Closest implementation color */
+  nearest?: ColorToken;
+  /** CIE76 distance to the nearest color */
+  deltaE?: number;
+  status: DriftStatus;
+}
+
+export interface TypographyDrift {
+  kind: 'font-family' | 'font-size' | 'font-weight';
+  design: string;
+  nearest?: string;
+  status: DriftStatus;
+}
+
+export interface TokenDriftReport {
+  design: string;
+  implementation: string;
+  colors: ColorDrift[];
+  typography: TypographyDrift[];
+  /** Prominent implementation colors that match no design color */
+  undocumented: ColorToken[];
+  summary: Record<DriftStatus, number>;
+}
+
+export interface DesignTokenExtraction {
+  palette: PaletteColor[];
+  colorScheme: ColorScheme;
+  typography?: Typography;
+  /** Images that were analyzed */
+  sources: string[];
+  warnings: string[];
+}
+
+export interface PaletteOptions {
+  /** Colors to quantize into before merging near-duplicates (default 12) */
+  maxColors?: number;
+  /** Pixels sampled per image (default 40000) */
+  sampleSize?: number;
+  /** Called for images that cannot be decoded; without it they throw */
+  onImageError?: (imagePath: string, error: Error) => void;
+}
+
+/** CIE76 distances: below MATCH is the same color, below DRIFT a near miss */
+export const COLOR_MATCH_DELTA_E = 5;
+export const COLOR_DRIFT_DELTA_E = 20;
+
+/** Font sizes within this many px match; within FONT_SIZE_DRIFT_PX they drift */
+const FONT_SIZE_MATCH_PX = 0.5;
+const FONT_SIZE_DRIFT_PX = 2;
+
+type Rgb = [number, number, number];
+
+// --- Color math ---
+
+export function parseHexColor(hex: string): Rgb | undefined {
+  const match = hex.trim().match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (!match) return undefined;
+  let digits = match[1];
+  if (digits.length <= 4) {
+    digits = digits.split('').map(d => d + d).join('');
+  }
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+}
+
+export function toHex([r, g, b]: Rgb): string {
+  return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+}
+
+function toLab([r, g, b]: Rgb): Rgb {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/**
+ * CIE76 color distance between two hex colors
+ */
+export function colorDistance(a: string, b: string): number {
+  const [l1, a1, b1] = toLab(parseHexColor(a)!);
+  const [l2, a2, b2] = toLab(parseHexColor(b)!);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/** HSL saturation, plus chroma, which unlike saturation stays low for near-black and near-white */
+function colorfulness([r, g, b]: Rgb): { saturation: number; chroma: number } {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return { saturation, chroma: max - min };
+}
+
+// --- Palette extraction ---
+
+/**
+ * Sample opaque pixels evenly across the image
+ */
+function samplePixels(image: DecodedImage, sampleSize: number): Rgb[] {
+  const total = image.width * image.height;
+  const step = Math.max(1, Math.floor(total / sampleSize));
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < total; i += step) {
+    const offset = i * 4;
+    if (image.data[offset + 3] < 128) continue;
+    pixels.push([image.data[offset], image.data[offset + 1], image.data[offset + 2]]);
+  }
+  return pixels;
+}
+
+/**
+ * Median cut: split the box with the widest channel range (weighted by
+ * population) at its median until there are maxColors boxes
+ */
+function medianCut(pixels: Rgb[], maxColors: number): Array<{ color: Rgb; count: number }> {
+  const range = (box: Rgb[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    for (const pixel of box) {
+      min = Math.min(min, pixel[channel]);
+      max = Math.max(max, pixel[channel]);
+    }
+    return max - min;
+  };
+
+  const boxes: Rgb[][] = pixels.length > 0 ? [pixels] : [];
+  while (boxes.length < maxColors) {
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, index) => {
+      for (let channel = 0; channel < 3; channel++) {
+        const score = range(box, channel) * Math.sqrt(box.length);
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+          bestChannel = channel;
+        }
+      }
+    });
+    if (best === -1) break;
+
+    const box = boxes[best].sort((a, b) => a[bestChannel] - b[bestChannel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(best, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+    return { color: sum.map(v => v / box.length) as Rgb, count: box.length };
+  });
+}
+
+/**
+ * Refine median-cut colors with a few k-means passes, so each color is the
+ * mean of the pixels nearest to it and its count is its true coverage
+ */
+function refineColors(pixels: Rgb[], seeds: Rgb[], iterations = 4): Array<{ color: Rgb; count: number }> {
+  let centroids = seeds.map(seed => [...seed] as Rgb);
+  let counts: number[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0]);
+    counts = centroids.map(() => 0);
+
+    for (const pixel of pixels) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, index) => {
+        const distance = (pixel[0] - centroid[0]) ** 2 + (pixel[1] - centroid[1]) ** 2 + (pixel[2] - centroid[2]) ** 2;
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      sums[nearest][0] += pixel[0];
+      sums[nearest][1] += pixel[1];
+      sums[nearest][2] += pixel[2];
+      counts[nearest]++;
+    }
+
+    centroids = centroids.map((centroid, index) =>
+      counts[index] > 0 ? sums[index].map(sum => sum / counts[index]) as Rgb : centroid
+    );
+  }
+
+  return centroids
+    .map((color, index) => ({ color, count: counts[index] }))
+    .filter(entry => entry.count > 0);
+}
+
+/**
+ * Assign roles: low-chroma colors (greys, near-black text, off-white) are
+ * neutrals; of the rest the largest is primary, small vivid ones are accents
+ * and the others secondary
+ */
+function assignRoles(colors: Array<{ hex: string; coverage: number }>): PaletteColor[] {
+  const palette: PaletteColor[] = [];
+  const chromatic: Array<{ hex: string; coverage: number }> = [];
+
+  for (const color of colors) {
+    if (colorfulness(parseHexColor(color.hex)!).chroma < 0.12) {
+      palette.push({ ...color, role: 'neutral' });
+    } else {
+      chromatic.push(color);
+    }
+  }
+
+  chromatic.sort((a, b) => b.coverage - a.coverage);
+  const chromaticTotal = chromatic.reduce((sum, color) => sum + color.coverage, 0);
+  chromatic.forEach((color, index) => {
+    const { saturation } = colorfulness(parseHexColor(color.hex)!);
+    const role: ColorRole = index === 0
+      ? 'primary'
+      : color.coverage < 0.15 * chromaticTotal && saturation >= 0.5 ? 'accent' : 'secondary';
+    palette.push({ ...color, role });
+  });
+
+  return palette.sort((a, b) => b.coverage - a.coverage);
+}
+
+/**
+ * Extract a role-tagged palette from design images
+ * @throws Error when an image cannot be decoded and there is no onImageError
+ */
+export function extractPalette(imagePaths: string[], options: PaletteOptions = {}): PaletteColor[] {
+  const { maxColors = 12, sampleSize = 40000, onImageError } = options;
+  const pixels: Rgb[] = [];
+  for (const imagePath of imagePaths) {
+    try {
+      for (const pixel of samplePixels(decodeImage(fs.readFileSync(imagePath)), sampleSize)) {
+        pixels.push(pixel);
+      }
+    } catch (error) {
+      if (!onImageError) throw error;
+      onImageError(imagePath, error as Error);
+    }
+  }
+  if (pixels.length === 0) return [];
+
+  // Merge quantized colors that are visually the same
+  const merged: Array<{ color: Rgb; count: number }> = [];
+  const seeds = medianCut(pixels, maxColors).map(entry => entry.color);
+  for (const entry of refineColors(pixels, seeds).sort((a, b) => b.count - a.count)) {
+    const same = merged.find(m => colorDistance(toHex(m.color), toHex(entry.color)) < COLOR_MATCH_DELTA_E);
+    if (same) {
+      const total = same.count + entry.count;
+      same.color = same.color.map((v, i) => (v * same.count + entry.color[i] * entry.count) / total) as Rgb;
+      same.count = total;
+    } else {
+      merged.push({ ...entry });
+    }
+  }
+
+  return assignRoles(merged.map(m => ({ hex: toHex(m.color), coverage: m.count / pixels.length })));
+}
+
+/**
+ * Group a palette into a ColorScheme (at most five colors per role)
+ */
+export function toColorScheme(palette: PaletteColor[]): ColorScheme {
+  const byRole = (role: ColorRole) => palette.filter(c => c.role === role).slice(0, 5).map(c => c.hex);
+  return {
+    primary: byRole('primary'),
+    secondary: byRole('secondary'),
+    accent: byRole('accent'),
+    neutral: byRole('neutral')
+  };
+}
+
+/**
+ * Design token set for a palette, with each color named after its role
+ */
+export function paletteToTokens(source: string, palette: PaletteColor[], typography: Typography): DesignTokenSet {
+  return {
+    source,
+    colors: palette.map(color => ({ hex: color.hex, name: color.role, weight: color.coverage })),
+    typography
+  };
+}
+
+/**
+ * Combine typography found in several sources (deduplicated, sizes ascending)
+ */
+export function mergeTypography(items: Typography[]): Typography {
+  const unique = <T>(values: T[]) => Array.from(new Set(values));
+  const numbers = (values: number[]) => unique(values).sort((a, b) => a - b);
+  return {
+    fontFamilies: unique(items.flatMap(t => t.fontFamilies)),
+    headingSizes: numbers(items.flatMap(t => t.headingSizes)),
+    bodySizes: numbers(items.flatMap(t => t.bodySizes)),
+    lineHeights: numbers(items.flatMap(t => t.lineHeights)),
+    fontWeights: unique(items.flatMap(t => t.fontWeights))
+  };
+}
+
+// --- Drift ---
+
+/** First family of a font stack, lowercased and unquoted */
+function normalizeFontFamily(family: string): string {
+  return family.split(',')[0].trim().replace(/^['"]|['"]$/g, '').toLowerCase();
+}
+
+function normalizeFontWeight(weight: string): string {
+  const named: Record<string, string> = { normal: '400', regular: '400', medium: '500', semibold: '600', bold: '700' };
+  const value = weight.trim().toLowerCase();
+  return named[value] || value;
+}
+
+function compareFontSizes(design: number[], implementation: number[]): TypographyDrift[] {
+  return design.map(size => {
+    const nearest = implementation.reduce<number | undefined>(
+      (best, candidate) => best === undefined || Math.abs(candidate - size) < Math.abs(best - size) ? candidate : best,
+      undefined
+    );
+    const distance = nearest === undefined ? Infinity : Math.abs(nearest - size);
+    return {
+      kind: 'font-size' as const,
+      design: `${size}px`,
+      nearest: nearest === undefined ? undefined : `${nearest}px`,
+      status: distance <= FONT_SIZE_MATCH_PX ? 'match' : distance <= FONT_SIZE_DRIFT_PX ? 'drift' : 'missing'
+    };
+  });
+}
+
+/**
+ * Compare design tokens with the tokens an implementation actually uses
+ */
+export function compareDesignTokens(
+  design: DesignTokenSet,
+  implementation: DesignTokenSet
+): TokenDriftReport {
+  const colors: ColorDrift[] = design.colors.map(color => {
+    let nearest: ColorToken | undefined;
+    let deltaE = Infinity;
+    for (const candidate of implementation.colors) {
+      const distance = colorDistance(color.hex, candidate.hex);
+      if (distance < deltaE) {
+        nearest = candidate;
+        deltaE = distance;
+      }
+    }
+    return {
+      design: color,
+      nearest,
+      deltaE: nearest ? Math.round(deltaE * 10) / 10 : undefined,
+      status: deltaE <= COLOR_MATCH_DELTA_E ? 'match' : deltaE <= COLOR_DRIFT_DELTA_E ? 'drift' : 'missing'
+    };
+  });
+
+  const implementationFamilies = implementation.typography.fontFamilies.map(normalizeFontFamily);
+  const implementationWeights = implementation.typography.fontWeights.map(normalizeFontWeight);
+  const typography: TypographyDrift[] = [
+    ...Array.from(new Set(design.typography.fontFamilies.map(normalizeFontFamily))).map(family => ({
+      kind: 'font-family' as const,
+      design: family,
+      nearest: implementationFamilies.includes(family) ? family : undefined,
+      status: (implementationFamilies.includes(family) ? 'match' : 'missing') as DriftStatus
+    })),
+    ...compareFontSizes(
+      Array.from(new Set([...design.typography.headingSizes, ...design.typography.bodySizes])).sort((a, b) => a - b),
+      [...implementation.typography.headingSizes, ...implementation.typography.bodySizes]
+    ),
+    ...Array.from(new Set(design.typography.fontWeights.map(normalizeFontWeight))).map(weight => ({
+      kind: 'font-weight' as const,
+      design: weight,
+      nearest: implementationWeights.includes(weight) ? weight : undefined,
+      status: (implementationWeights.includes(weight) ? 'match' : 'missing') as DriftStatus
+    }))
+  ];
+
+  const undocumented = implementation.colors
+    .filter(candidate => design.colors.every(color => colorDistance(color.hex, candidate.hex) > COLOR_DRIFT_DELTA_E))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 10);
+
+  const summary: Record<DriftStatus, number> = { match: 0, drift: 0, missing: 0 };
+  for (const item of [...colors, ...typography]) {
+    summary[item.status]++;
+  }
+
+  return { design: design.source, implementation: implementation.source, colors, typography, undocumented, summary };
+}
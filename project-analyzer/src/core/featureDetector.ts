@@ -125,16 +125,12 @@ export async function detectFeatureImplementation(
 }
 
 /**
- * Analyze all planning documents and detect feature implementation
+ * Find and parse the planning documents that contain features
  */
-export async function analyzeImplementation(options: DetectionOptions): Promise<ImplementationReport> {
-  const {
-    rootPath,
-    planningPaths = ['docs', 'memory-bank', '.'],
-    minConfidence = 0,
-    includeChecked = false
-  } = options;
-
+export function loadPlanningDocuments(
+  rootPath: string,
+  planningPaths: string[] = ['docs', 'memory-bank', '.']
+): PlanningDocument[] {
   // Find all planning documents
   const planFiles: string[] = [];
   for (const searchPath of planningPaths) {
@@ -161,6 +157,22 @@ export async function analyzeImplementation(options: DetectionOptions): Promise<
     }
   }
 
+  return planDocuments;
+}
+
+/**
+ * Analyze all planning documents and detect feature implementation
+ */
+export async function analyzeImplementation(options: DetectionOptions): Promise<ImplementationReport> {
+  const {
+    rootPath,
+    planningPaths = ['docs', 'memory-bank', '.'],
+    minConfidence = 0,
+    includeChecked = false
+  } = options;
+
+  const planDocuments = loadPlanningDocuments(rootPath, planningPaths);
+
   console.log(`📝 Parsed ${planDocuments.length} documents with features`);
 
   // Detect implementation for each feature
@@ -0,0 +1,401 @@
+/**
+ * Implementation gap detection
+ *
+ * Finds unfinished code that carries no TODO: functions that throw "not
+ * implemented", return a hard-coded empty value next to a placeholder
+ * comment, or have an empty body, and exports that were commented out.
+ * Findings are TodoItems, so they flow through the formatters, state
+ * tracking and `create-issues` like any TODO.
+ *
+ * Function bodies are found on the code with comments and strings blanked
+ * out (via the comment tokenizer), so braces in strings do not confuse the
+ * matching. JavaScript/TypeScript and Python are supported.
+ */
+
+import { TodoItem, TodoPattern } from './patterns';
+import { getCommentSyntax, findNonCodeRanges } from './commentTokenizer';
+
+export const GAP_CATEGORY = 'implementation-gap';
+
+/**
+ * Finding types, described like TODO patterns for SARIF and Code Climate rule help
+ */
+export const IMPLEMENTATION_GAP_PATTERNS: TodoPattern[] = [
+  {
+    name: 'Not Implemented',
+    regex: /$^/,
+    priority: 'high',
+    category: 'code',
+    description: 'Function that throws "not implemented"'
+  },
+  {
+    name: 'Placeholder Return',
+    regex: /$^/,
+    priority: 'medium',
+    category: 'code',
+    description: 'Function returning a hard-coded empty value next to a placeholder comment'
+  },
+  {
+    name: 'Empty Function',
+    regex: /$^/,
+    priority: 'low',
+    category: 'code',
+    description: 'Function with an empty body'
+  },
+  {
+    name: 'Commented-out Export',
+    regex: /$^/,
+    priority: 'low',
+    category: 'code',
+    description: 'Export disabled by commenting it out'
+  }
+];
+
+const PATTERN_BY_NAME = new Map(IMPLEMENTATION_GAP_PATTERNS.map(pattern => [pattern.name, pattern]));
+
+const PLACEHOLDER_COMMENT = /\b(placeholder|stub(bed)?|not (yet )?implemented|unimplemented|for now|implement (this|me|later)|todo:?\s*implement|dummy|mock(ed)? (data|response))\b/i;
+
+/** Functions that are empty on purpose */
+const INTENTIONALLY_EMPTY = /^(constructor|noop|_+|on[A-Z]\w*|handle[A-Z]\w*)$/;
+
+const JS_EXTENSIONS = new Set(['js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'mts', 'cts']);
+const PYTHON_EXTENSIONS = new Set(['py', 'pyw']);
+
+const JS_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'with', 'super', 'typeof', 'new', 'await', 'yield',
+  'function', 'else', 'do', 'try', 'throw', 'delete', 'void', 'in', 'of', 'case'
+]);
+
+interface LanguageRules {
+  notImplemented: RegExp;
+  /** Statements that do nothing (`pass` in Python) */
+  noop?: RegExp;
+  emptyReturn: RegExp;
+  emptyAssignment: RegExp;
+}
+
+const JS_RULES: LanguageRules = {
+  notImplemented: /^throw\b.*\b(not\s+(yet\s+)?implemented|unimplemented)\b|^throw\s+new\s+NotImplemented\w*/i,
+  emptyReturn: /^return\s*(\[\s*\]|\{\s*\}|undefined|null|''|""|``|0|false)?\s*;?$/,
+  emptyAssignment: /^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(\[\s*\]|\{\s*\}|null|undefined)\s*;?$/
+};
+
+const PYTHON_RULES: LanguageRules = {
+  notImplemented: /^raise\s+NotImplementedError\b|^raise\b.*\bnot\s+(yet\s+)?implemented\b/i,
+  noop: /^(pass|\.\.\.)$/,
+  emptyReturn: /^return(\s+(None|\[\]|\{\}|''|""|0|False))?$/,
+  emptyAssignment: /^([A-Za-z_]\w*)\s*(?::[^=]+)?=\s*(\[\]|\{\}|None)$/
+};
+
+interface FunctionBody {
+  name: string;
+  /** 1-based line of the function header */
+  line: number;
+  /** Body statements, one per line, comments removed, strings kept */
+  statements: string[];
+  /** Comment text inside the body */
+  comments: string[];
+}
+
+/**
+ * Replace the given ranges with spaces, keeping newlines so offsets and lines still match
+ */
+function blankRanges(content: string, ranges: Array<[number, number]>): string {
+  const chars = content.split('');
+  for (const [start, end] of ranges) {
+    for (let i = start; i < end; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  }
+  return chars.join('');
+}
+
+/**
+ * Offset -> 1-based line lookup
+ */
+function createLineLookup(content: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+
+  return offset => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+function skipWhitespace(code: string, from: number): number {
+  let i = from;
+  while (i < code.length && /\s/.test(code[i])) i++;
+  return i;
+}
+
+/**
+ * Index of the bracket closing the one at `open`, or -1
+ */
+function matchBracket(code: string, open: number): number {
+  const opener = code[open];
+  const closer = opener === '(' ? ')' : opener === '[' ? ']' : '}';
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === opener) depth++;
+    else if (code[i] === closer && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find the `{` opening a function body after its parameter list
+ * Skips a TypeScript return type; for arrows, expects `=>` before the body.
+ */
+function findBodyStart(code: string, afterParams: number, arrow: boolean): number {
+  let i = skipWhitespace(code, afterParams);
+
+  if (code[i] === ':') {
+    const typeStart = ++i;
+    let depth = 0;
+    while (i < code.length) {
+      const char = code[i];
+      if (char === '<' || char === '(' || char === '[') {
+        depth++;
+      } else if ((char === '>' && code[i - 1] !== '=') || char === ')' || char === ']') {
+        depth--;
+      } else if (depth === 0 && arrow && code.startsWith('=>', i)) {
+        break;
+      } else if (depth === 0 && char === '{') {
+        // `{` after a complete type is the body; otherwise it opens an object type
+        const typed = code.slice(typeStart, i).trim();
+        if (typed && !/([|&:,<(]|=>)$/.test(typed)) break;
+        i = matchBracket(code, i);
+        if (i === -1) return -1;
+      } else if (depth < 0 || (depth === 0 && (char === ';' || char === '}' || char === '='))) {
+        return -1;
+      }
+      i++;
+    }
+  }
+
+  i = skipWhitespace(code, i);
+  if (arrow) {
+    if (!code.startsWith('=>', i)) return -1;
+    i = skipWhitespace(code, i + 2);
+  }
+  return code[i] === '{' ? i : -1;
+}
+
+/**
+ * Function headers: declarations, methods, and functions assigned to a name
+ */
+const JS_FUNCTION_HEADS: Array<{ regex: RegExp; arrow: boolean }> = [
+  { regex: /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)\s*(?:<[^>()]*>)?\s*\(/g, arrow: false },
+  { regex: /^[ \t]*(?:(?:export|default|public|private|protected|static|async|override|get|set)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>()]*>)?\s*\(/gm, arrow: false },
+  { regex: /\b([A-Za-z_$][\w$]*)\s*(?::[^=;()]+)?=\s*(?:async\s+)?\(/g, arrow: true },
+  { regex: /\b([A-Za-z_$][\w$]*)\s*(?::[^=;()]+)?=\s*(?:async\s+)?function\b\s*\*?\s*[\w$]*\s*\(/g, arrow: false }
+];
+
+function findJsFunctions(
+  content: string,
+  code: string,
+  withStrings: string,
+  comments: Array<[number, number]>,
+  lineAt: (offset: number) => number
+): FunctionBody[] {
+  const functions: FunctionBody[] = [];
+  const seenBodies = new Set<number>();
+
+  for (const { regex, arrow } of JS_FUNCTION_HEADS) {
+    for (const match of code.matchAll(regex)) {
+      const name = match[1];
+      if (JS_KEYWORDS.has(name)) continue;
+
+      const paramsOpen = match.index! + match[0].length - 1;
+      const paramsClose = matchBracket(code, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      const bodyOpen = findBodyStart(code, paramsClose + 1, arrow);
+      if (bodyOpen === -1 || seenBodies.has(bodyOpen)) continue;
+      const bodyClose = matchBracket(code, bodyOpen);
+      if (bodyClose === -1) continue;
+      seenBodies.add(bodyOpen);
+
+      functions.push({
+        name,
+        line: lineAt(match.index! + match[0].search(/\S/)),
+        statements: withStrings.slice(bodyOpen + 1, bodyClose).split('\n').map(line => line.trim()).filter(Boolean),
+        comments: comments
+          .filter(([start, end]) => start > bodyOpen && end <= bodyClose)
+          .map(([start, end]) => content.slice(start, end))
+      });
+    }
+  }
+
+  return functions.sort((a, b) => a.line - b.line);
+}
+
+function findPythonFunctions(
+  content: string,
+  code: string,
+  withStrings: string,
+  comments: Array<[number, number]>,
+  lineAt: (offset: number) => number
+): FunctionBody[] {
+  const functions: FunctionBody[] = [];
+  const lines = code.split('\n');
+  const stringLines = withStrings.split('\n');
+  const lineStarts: number[] = [0];
+  for (const line of lines) lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+
+  for (const match of code.matchAll(/^([ \t]*)(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(/gm)) {
+    const indent = match[1].length;
+    const paramsClose = matchBracket(code, match.index! + match[0].length - 1);
+    if (paramsClose === -1) continue;
+    const colon = code.indexOf(':', paramsClose);
+    if (colon === -1) continue;
+
+    const headerLine = lineAt(match.index!);
+    const colonLine = lineAt(colon);
+    const statements: string[] = [];
+
+    // One-line body: `def f(): pass`
+    const inline = stringLines[colonLine - 1].slice(colon - lineStarts[colonLine - 1] + 1).trim();
+    if (inline) statements.push(inline);
+
+    let end = colonLine;
+    for (let i = colonLine; i < lines.length && !inline; i++) {
+      const text = lines[i];
+      if (text.trim() === '') continue;
+      if (text.length - text.trimStart().length <= indent) break;
+      statements.push(stringLines[i].trim());
+      end = i + 1;
+    }
+
+    functions.push({
+      name: match[2],
+      line: headerLine,
+      statements: statements.filter(Boolean),
+      comments: comments
+        .filter(([start]) => start > colon && lineAt(start) <= end)
+        .map(([start, stop]) => content.slice(start, stop))
+    });
+  }
+
+  return functions;
+}
+
+function createGap(
+  type: string,
+  content: string,
+  file: string,
+  line: number,
+  rawText: string
+): TodoItem {
+  return {
+    type,
+    content,
+    file,
+    line,
+    priority: PATTERN_BY_NAME.get(type)!.priority,
+    category: GAP_CATEGORY,
+    rawText
+  };
+}
+
+function firstSentence(comment: string): string {
+  const text = comment.replace(/^\s*(\/\/+|\/\*+|#+|\*+)\s*|\s*\*\/\s*$/g, '').replace(/\s+/g, ' ').trim();
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Decide whether a function body is a stub
+ */
+function classifyFunction(fn: FunctionBody, rules: LanguageRules, file: string, lines: string[]): TodoItem | null {
+  const rawText = lines[fn.line - 1]?.trim() || fn.name;
+  const statements = rules.noop ? fn.statements.filter(statement => !rules.noop!.test(statement)) : fn.statements;
+  const placeholder = fn.comments.find(comment => PLACEHOLDER_COMMENT.test(comment));
+
+  if (statements.length > 0 && rules.notImplemented.test(statements[0])) {
+    return createGap('Not Implemented', `${fn.name}() is not implemented`, file, fn.line, rawText);
+  }
+
+  if (statements.length === 0) {
+    // A comment that is not a placeholder explains why the body is empty
+    if (!placeholder && (INTENTIONALLY_EMPTY.test(fn.name) || fn.comments.length > 0)) return null;
+    const note = placeholder ? `: "${firstSentence(placeholder)}"` : '';
+    return createGap('Empty Function', `${fn.name}() has an empty body${note}`, file, fn.line, rawText);
+  }
+
+  if (!placeholder) return null;
+
+  // A function that returns real values on some path is not a stub
+  const returns = statements.filter(statement => /^return\b/.test(statement));
+  const emptyReturn = returns.find(statement => rules.emptyReturn.test(statement));
+  if (emptyReturn && returns.every(statement => rules.emptyReturn.test(statement))) {
+    const value = emptyReturn.replace(/^return\s*|;$/g, '').trim() || 'nothing';
+    return createGap('Placeholder Return', `${fn.name}() returns ${value}: "${firstSentence(placeholder)}"`, file, fn.line, rawText);
+  }
+
+  // `const items = []; ... return items` with nothing added in between
+  for (const statement of statements) {
+    const assignment = statement.match(rules.emptyAssignment);
+    if (!assignment) continue;
+
+    const name = assignment[1];
+    const mention = new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`);
+    const returnsName = new RegExp(`^return\\s+${name.replace(/\$/g, '\\$')}\\b`);
+    const returned = returns.some(other => returnsName.test(other)) &&
+      returns.every(other => returnsName.test(other) || rules.emptyReturn.test(other));
+    const mentions = statements.filter(other => mention.test(other)).length;
+    if (returned && mentions === 2) {
+      return createGap('Placeholder Return', `${fn.name}() returns an empty ${name}: "${firstSentence(placeholder)}"`, file, fn.line, rawText);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find implementation gaps in one file
+ */
+export function findImplementationGaps(content: string, relativePath: string): TodoItem[] {
+  const extension = relativePath.split('.').pop()?.toLowerCase() || '';
+  const isJs = JS_EXTENSIONS.has(extension);
+  const isPython = PYTHON_EXTENSIONS.has(extension);
+  const syntax = getCommentSyntax(relativePath);
+  if ((!isJs && !isPython) || !syntax) {
+    return [];
+  }
+
+  const { comments, strings } = findNonCodeRanges(content, syntax);
+  const withStrings = blankRanges(content, comments);
+  const code = blankRanges(withStrings, strings);
+  const lines = content.split('\n');
+  const lineAt = createLineLookup(content);
+
+  const functions = isJs
+    ? findJsFunctions(content, code, withStrings, comments, lineAt)
+    : findPythonFunctions(content, code, withStrings, comments, lineAt);
+  const gaps = functions
+    .map(fn => classifyFunction(fn, isJs ? JS_RULES : PYTHON_RULES, relativePath, lines))
+    .filter((gap): gap is TodoItem => gap !== null);
+
+  // Exports disabled with a line comment
+  if (isJs) {
+    for (const [start, end] of comments) {
+      const text = content.slice(start, end);
+      const match = text.match(/^\/\/\s*((?:export\s+(?:\{[^}]*\}|\*|default\b|(?:async\s+)?function\b|const\b|let\b|class\b|interface\b|type\b|enum\b)|module\.exports\b|exports\.[\w$]+\s*=).*?)(\s*\/\/.*)?$/);
+      if (match) {
+        const statement = match[1].trim().replace(/;$/, '');
+        gaps.push(createGap('Commented-out Export', `Commented-out export: ${statement}`, relativePath, lineAt(start), text.trim()));
+      }
+    }
+  }
+
+  return gaps.sort((a, b) => a.line - b.line);
+}
@@ -2,11 +2,16 @@
  * Pattern definitions for identifying TODO items in code and markdown files
  */
 
+import { BlameInfo } from '../utils/gitIntegration';
+import { COMMENT_SYNTAX_BY_EXTENSION, PLAIN_TEXT_EXTENSIONS } from './commentTokenizer';
+
 export interface TodoPattern {
   name: string;
   regex: RegExp;
   priority: 'high' | 'medium' | 'low';
   category: 'code' | 'markdown' | 'both';
+  /** What the pattern flags, used as rule help in SARIF and Code Climate output */
+  description?: string;
 }
 
 export interface TodoItem {
@@ -17,57 +22,96 @@ export interface TodoItem {
   priority: 'high' | 'medium' | 'low';
   category: string;
   rawText: string;
+  /** Normalized surrounding lines, used to re-identify the TODO after edits */
+  context?: string;
+  /** Last change to the TODO's line (git blame) */
+  blame?: BlameInfo;
+  /** GitHub usernames or teams (org/team) who own the TODO */
+  owners?: string[];
+  /** 1-based column of the TODO in its comment (source files only) */
+  column?: number;
+  /** Owner named in the TODO itself, e.g. `TODO(alice): ...` */
+  owner?: string;
+  /** Due date named in the TODO itself, e.g. `TODO(alice, 2026-Q3): ...` */
+  dueDate?: string;
+  /** Ticket referenced by the TODO, e.g. `TODO(PROJ-123): ...` */
+  ticket?: string;
+}
+
+/**
+ * Patterns applied to code and markdown files
+ */
+export interface PatternSet {
+  code: TodoPattern[];
+  markdown: TodoPattern[];
+}
+
+/**
+ * Build the regex for a comment tag such as `TODO` or `SECURITY`
+ * Group 1 is the text after the tag (and its optional colon).
+ */
+export function createCommentTagRegex(tag: string): RegExp {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:\\/\\/|#|\\/\\*|\\*|<!--)\\s*${escaped}:?\\s*(.+?)(?:\\*\\/|-->)?$`, 'gmi');
 }
 
 // Code comment patterns for various programming languages
 export const CODE_PATTERNS: TodoPattern[] = [
   {
     name: 'TODO',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*TODO:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('TODO'),
     priority: 'medium',
-    category: 'code'
+    category: 'code',
+    description: 'General task'
   },
   {
     name: 'FIXME',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*FIXME:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('FIXME'),
     priority: 'high',
-    category: 'code'
+    category: 'code',
+    description: 'Bug to fix'
   },
   {
     name: 'HACK',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*HACK:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('HACK'),
     priority: 'low',
-    category: 'code'
+    category: 'code',
+    description: 'Temporary workaround'
   },
   {
     name: 'BUG',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*BUG:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('BUG'),
     priority: 'high',
-    category: 'code'
+    category: 'code',
+    description: 'Known bug'
   },
   {
     name: 'OPTIMIZE',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*OPTIMIZE:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('OPTIMIZE'),
     priority: 'low',
-    category: 'code'
+    category: 'code',
+    description: 'Performance improvement'
   },
   {
     name: 'REFACTOR',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*REFACTOR:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('REFACTOR'),
     priority: 'medium',
-    category: 'code'
+    category: 'code',
+    description: 'Code improvement'
   },
   {
     name: 'NOTE',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*NOTE:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('NOTE'),
     priority: 'low',
-    category: 'code'
+    category: 'code',
+    description: 'Important note'
   },
   {
     name: 'XXX',
-    regex: /(?:\/\/|#|\/\*|\*|<!--)\s*XXX:?\s*(.+?)(?:\*\/|-->)?$/gmi,
+    regex: createCommentTagRegex('XXX'),
     priority: 'medium',
-    category: 'code'
+    category: 'code',
+    description: 'Attention needed'
   }
 ];
 
@@ -77,82 +121,100 @@ export const MARKDOWN_PATTERNS: TodoPattern[] = [
     name: 'Unchecked Task',
     regex: /^[\s]*-\s+\[\s\]\s+(.+)$/gm,
     priority: 'medium',
-    category: 'markdown'
+    category: 'markdown',
+    description: 'Unchecked markdown task item'
   },
   {
     name: 'TODO Section',
     regex: /^#+\s*(?:TODO|To\s*Do|Tasks?)(?:\s*:)?\s*\n+((?:.*\n)*?)(?=^#|\Z)/gmi,
     priority: 'medium',
-    category: 'markdown'
+    category: 'markdown',
+    description: 'Markdown TODO section'
   },
   {
     name: 'Action Item',
     regex: /^(?:Action\s*Item|AI)(?:\s*\d*)?:\s*(.+)$/gmi,
     priority: 'high',
-    category: 'markdown'
+    category: 'markdown',
+    description: 'Explicit action item'
   },
   {
     name: 'Incomplete Note',
     regex: /\[(?:TBD|TBA|WIP|INCOMPLETE)\]/gi,
     priority: 'medium',
-    category: 'markdown'
+    category: 'markdown',
+    description: 'Incomplete marker such as [TBD] or [WIP]'
   }
 ];
 
 // Combined patterns for scanning all file types
 export const ALL_PATTERNS: TodoPattern[] = [...CODE_PATTERNS, ...MARKDOWN_PATTERNS];
 
+export const DEFAULT_PATTERN_SET: PatternSet = {
+  code: CODE_PATTERNS,
+  markdown: MARKDOWN_PATTERNS
+};
+
 /**
  * Get patterns based on file extension
  */
-export function getPatternsForFile(filePath: string): TodoPattern[] {
+export function getPatternsForFile(filePath: string, patternSet: PatternSet = DEFAULT_PATTERN_SET): TodoPattern[] {
   const ext = filePath.split('.').pop()?.toLowerCase() || '';
 
   const markdownExtensions = ['md', 'mdx', 'markdown'];
   const codeExtensions = ['js', 'jsx', 'ts', 'tsx', 'py', 'java', 'cpp', 'c', 'cs', 'go', 'rs', 'rb', 'php', 'swift', 'kt', 'scala', 'r', 'sh', 'bash'];
 
   if (markdownExtensions.includes(ext)) {
-    return [...MARKDOWN_PATTERNS, ...CODE_PATTERNS]; // Markdown can contain code blocks
+    return [...patternSet.markdown, ...patternSet.code]; // Markdown can contain code blocks
   } else if (codeExtensions.includes(ext)) {
-    return CODE_PATTERNS;
+    return patternSet.code;
   }
 
   // Default to all patterns for unknown file types
-  return ALL_PATTERNS;
+  return [...patternSet.code, ...patternSet.markdown];
+}
+
+const DUE_DATE_PATTERN = /^\d{4}(?:-(?:Q[1-4]|\d{2}(?:-\d{2})?))?$/i;
+const TICKET_PATTERN = /^(?:#\d+|[A-Z][A-Z0-9]*-\d+)$/;
+
+export interface TodoAnnotation {
+  content: string;
+  owner?: string;
+  dueDate?: string;
+  ticket?: string;
+}
+
+/**
+ * Split a leading `(owner, due date, ticket)` annotation off TODO content
+ * Parts are recognized by shape, so `(PROJ-12)`, `(alice)` and
+ * `(2026-Q3, @alice)` all work. Content without an annotation is returned as is.
+ */
+export function parseTodoAnnotation(content: string): TodoAnnotation {
+  const match = content.match(/^\(([^)]*)\)\s*:?\s*(.*)$/s);
+  if (!match) {
+    return { content };
+  }
+
+  const annotation: TodoAnnotation = { content: match[2].trim() };
+
+  for (const part of match[1].split(',').map(p => p.trim()).filter(Boolean)) {
+    if (!annotation.dueDate && DUE_DATE_PATTERN.test(part)) {
+      annotation.dueDate = part;
+    } else if (!annotation.ticket && TICKET_PATTERN.test(part)) {
+      annotation.ticket = part;
+    } else if (!annotation.owner && /^@?[\w.-]+(?:\/[\w.-]+)?$/.test(part)) {
+      annotation.owner = part.replace(/^@/, '');
+    }
+  }
+
+  return annotation;
 }
 
 /**
  * Check if a file should be scanned based on its extension
+ * Source files need a comment tokenizer; prose files are scanned as a whole.
  */
 export function shouldScanFile(filePath: string): boolean {
   const ext = filePath.split('.').pop()?.toLowerCase() || '';
-
-  // List of extensions to scan
-  const scannable = [
-    'md', 'mdx', 'markdown', 'txt', 'rst',
-    'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs',
-    'py', 'pyw', 'pyx',
-    'java', 'kt', 'kts',
-    'cpp', 'c', 'h', 'hpp', 'cc', 'cxx',
-    'cs', 'vb',
-    'go',
-    'rs',
-    'rb', 'erb',
-    'php', 'phtml',
-    'swift',
-    'scala', 'sc',
-    'r', 'rmd',
-    'sh', 'bash', 'zsh', 'fish',
-    'yaml', 'yml',
-    'json', 'jsonc',
-    'xml', 'html', 'htm',
-    'sql',
-    'dart',
-    'lua',
-    'perl', 'pl',
-    'julia', 'jl',
-    'vue', 'svelte'
-  ];
-
-  return scannable.includes(ext);
-}
\ No newline at end of file
+  return PLAIN_TEXT_EXTENSIONS.includes(ext) || Object.prototype.hasOwnProperty.call(COMMENT_SYNTAX_BY_EXTENSION, ext);
+}
@@ -0,0 +1,165 @@
+/**
+ * Persistent scan cache
+ *
+ * Stores the TODOs extracted from each file, keyed by relative path and
+ * validated by file size and modification time, so unchanged files are not
+ * re-read on the next scan. Blame and ownership are not cached because they
+ * change with commits, not file contents.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TodoItem, TodoPattern } from './patterns';
+import { FileInfo } from '../utils/fileTraversal';
+
+/** Bump when extraction changes in a way that invalidates cached TODOs */
+export const SCAN_CACHE_VERSION = 4;
+
+export const DEFAULT_SCAN_CACHE_FILE = 'scan-cache.json';
+
+interface ScanCacheEntry {
+  size: number;
+  mtimeMs: number;
+  todos: TodoItem[];
+}
+
+interface ScanCacheFile {
+  version: number;
+  /** Hash of custom patterns the entries were extracted with ('' = built-in) */
+  patternsKey: string;
+  entries: Record<string, ScanCacheEntry>;
+}
+
+export interface ScanCacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 when nothing was looked up */
+  hitRate: number;
+}
+
+/**
+ * Compute the cache key for a custom pattern set
+ */
+export function getPatternsKey(patterns?: TodoPattern[]): string {
+  if (!patterns) {
+    return '';
+  }
+
+  const signature = patterns
+    .map(p => `${p.name}|${p.regex.source}|${p.regex.flags}|${p.priority}|${p.category}`)
+    .join('\n');
+  return crypto.createHash('sha256').update(signature).digest('hex').slice(0, 16);
+}
+
+export class ScanCache {
+  private entries: Record<string, ScanCacheEntry>;
+  private seen = new Set<string>();
+  private hits = 0;
+  private misses = 0;
+  private dirty = false;
+
+  private constructor(
+    private cachePath: string,
+    private patternsKey: string,
+    entries: Record<string, ScanCacheEntry>
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Load the cache file, starting empty when it is missing, unreadable or stale
+   */
+  static load(cachePath: string, patternsKey: string = ''): ScanCache {
+    if (fs.existsSync(cachePath)) {
+      try {
+        const cache = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as ScanCacheFile;
+        if (cache.version === SCAN_CACHE_VERSION && cache.patternsKey === patternsKey && cache.entries) {
+          return new ScanCache(cachePath, patternsKey, cache.entries);
+        }
+      } catch {
+        // Corrupt cache - rebuild it
+      }
+    }
+
+    return new ScanCache(cachePath, patternsKey, {});
+  }
+
+  /**
+   * Get the cached TODOs for a file if it is unchanged since it was cached
+   */
+  get(file: FileInfo): TodoItem[] | undefined {
+    this.seen.add(file.relativePath);
+    const entry = this.entries[file.relativePath];
+
+    if (entry && entry.size === file.size && entry.mtimeMs === file.mtimeMs) {
+      this.hits++;
+      return entry.todos.map(todo => ({ ...todo }));
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store the TODOs extracted from a file
+   */
+  set(file: FileInfo, todos: TodoItem[]): void {
+    this.seen.add(file.relativePath);
+    this.entries[file.relativePath] = {
+      size: file.size,
+      mtimeMs: file.mtimeMs,
+      todos: todos.map(todo => ({ ...todo }))
+    };
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries for files that were not looked up in this scan (deleted or excluded)
+   * Only call this after a full scan - partial (--since) scans see a subset of files.
+   */
+  prune(): void {
+    for (const relativePath of Object.keys(this.entries)) {
+      if (!this.seen.has(relativePath)) {
+        delete this.entries[relativePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  getStats(): ScanCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0
+    };
+  }
+
+  /**
+   * Write the cache back to disk if anything changed
+   */
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    const cache: ScanCacheFile = {
+      version: SCAN_CACHE_VERSION,
+      patternsKey: this.patternsKey,
+      entries: this.entries
+    };
+
+    try {
+      const dir = path.dirname(this.cachePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.cachePath, JSON.stringify(cache));
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`Could not write scan cache ${this.cachePath}: ${error}`);
+    }
+  }
+}
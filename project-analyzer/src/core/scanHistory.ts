@@ -0,0 +1,330 @@
+/**
+ * Scan history and TODO trends
+ *
+ * Every full scan appends a compact snapshot - the summary plus the identity
+ * of each open TODO - to `.project-analyzer/history.jsonl`. Trends are
+ * computed from consecutive snapshots: a hash that appears is an
+ * introduction, a hash that disappears is a resolution.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcessedTodo } from './scanner';
+
+export const DEFAULT_HISTORY_FILE = 'history.jsonl';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HistoryTodo {
+  hash: string;
+  type: string;
+  priority: 'high' | 'medium' | 'low';
+  file: string;
+  line: number;
+  content: string;
+  /** Blame author, when the scan ran with --blame */
+  author?: string;
+  authoredAt?: string;
+  owners?: string[];
+}
+
+export interface HistoryEntry {
+  scanDate: string;
+  gitCommit?: string;
+  /** Author of the HEAD commit at scan time; resolutions are attributed to them */
+  commitAuthor?: string;
+  totalTodos: number;
+  byPriority: Record<string, number>;
+  byType: Record<string, number>;
+  byDirectory: Record<string, number>;
+  todos: HistoryTodo[];
+}
+
+export interface TrendPoint {
+  date: string;
+  total: number;
+  byPriority: Record<string, number>;
+  byType: Record<string, number>;
+  byDirectory: Record<string, number>;
+  /** TODOs that appeared / disappeared since the previous point */
+  introduced: number;
+  resolved: number;
+}
+
+export interface WeeklyActivity {
+  /** Monday of the week (YYYY-MM-DD, UTC) */
+  week: string;
+  introduced: number;
+  resolved: number;
+  net: number;
+}
+
+export interface OpenTodoAge {
+  hash: string;
+  type: string;
+  priority: string;
+  file: string;
+  line: number;
+  content: string;
+  firstSeen: string;
+  ageDays: number;
+  owner?: string;
+}
+
+export interface ContributorActivity {
+  name: string;
+  added: number;
+  removed: number;
+}
+
+export interface TrendsReport {
+  generatedAt: string;
+  scans: number;
+  firstScan: string;
+  lastScan: string;
+  openTodos: number;
+  meanAgeDays: number;
+  /** Counts at the first scan, for comparison with the latest */
+  baseline: Pick<TrendPoint, 'total' | 'byPriority' | 'byType' | 'byDirectory'>;
+  timeline: TrendPoint[];
+  weekly: WeeklyActivity[];
+  oldest: OpenTodoAge[];
+  contributors: ContributorActivity[];
+}
+
+export interface TrendsOptions {
+  /** Weeks of introduction/resolution activity to report (default: 12) */
+  weeks?: number;
+  /** Number of oldest TODOs and contributors to list (default: 10) */
+  top?: number;
+}
+
+/**
+ * Directory a TODO is counted under: the first path segment, or '.' for root files
+ */
+export function getTopDirectory(file: string): string {
+  const segments = file.split(/[\\/]/);
+  return segments.length > 1 ? segments[0] : '.';
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const value = key(item);
+    counts[value] = (counts[value] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Build the history snapshot for a scan
+ */
+export function createHistoryEntry(
+  todos: ProcessedTodo[],
+  metadata: { scanDate?: string; gitCommit?: string; commitAuthor?: string } = {}
+): HistoryEntry {
+  return {
+    scanDate: metadata.scanDate || new Date().toISOString(),
+    ...(metadata.gitCommit ? { gitCommit: metadata.gitCommit } : {}),
+    ...(metadata.commitAuthor ? { commitAuthor: metadata.commitAuthor } : {}),
+    totalTodos: todos.length,
+    byPriority: { high: 0, medium: 0, low: 0, ...countBy(todos, todo => todo.priority) },
+    byType: countBy(todos, todo => todo.type),
+    byDirectory: countBy(todos, todo => getTopDirectory(todo.file)),
+    todos: todos.map(todo => ({
+      hash: todo.hash,
+      type: todo.type,
+      priority: todo.priority,
+      file: todo.file,
+      line: todo.line,
+      content: todo.content,
+      ...(todo.blame && !todo.blame.uncommitted
+        ? { author: todo.blame.author, authoredAt: todo.blame.authoredAt }
+        : {}),
+      ...(todo.owners && todo.owners.length > 0 ? { owners: todo.owners } : {})
+    }))
+  };
+}
+
+/**
+ * Append a snapshot to the history file (one JSON object per line)
+ */
+export function appendHistory(historyPath: string, entry: HistoryEntry): void {
+  const dir = path.dirname(historyPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.appendFileSync(historyPath, JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+/**
+ * Load all snapshots, oldest first; unreadable lines are skipped
+ */
+export function loadHistory(historyPath: string): HistoryEntry[] {
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Partially written line - ignore it
+    }
+  }
+
+  return entries.sort((a, b) => a.scanDate.localeCompare(b.scanDate));
+}
+
+/**
+ * Monday (UTC) of the week containing a date, as YYYY-MM-DD
+ */
+export function getWeekStart(date: string | Date): string {
+  const d = new Date(date);
+  const day = (d.getUTCDay() + 6) % 7; // Monday = 0
+  const monday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - day));
+  return monday.toISOString().split('T')[0];
+}
+
+/**
+ * Compute trends from scan history
+ */
+export function computeTrends(entries: HistoryEntry[], options: TrendsOptions = {}): TrendsReport {
+  const { weeks = 12, top = 10 } = options;
+
+  if (entries.length === 0) {
+    throw new Error('No scan history to compute trends from');
+  }
+
+  const firstSeen = new Map<string, string>();
+  const weekly = new Map<string, WeeklyActivity>();
+  const contributors = new Map<string, ContributorActivity>();
+  const timeline: TrendPoint[] = [];
+
+  const contributor = (name: string): ContributorActivity => {
+    let activity = contributors.get(name);
+    if (!activity) {
+      activity = { name, added: 0, removed: 0 };
+      contributors.set(name, activity);
+    }
+    return activity;
+  };
+
+  let previous: HistoryEntry | null = null;
+
+  for (const entry of entries) {
+    for (const todo of entry.todos) {
+      if (!firstSeen.has(todo.hash)) {
+        firstSeen.set(todo.hash, entry.scanDate);
+      }
+    }
+
+    let introduced = 0;
+    let resolved = 0;
+
+    // The first snapshot is the baseline, not a burst of new TODOs
+    if (previous) {
+      const previousHashes = new Set(previous.todos.map(todo => todo.hash));
+      const currentHashes = new Set(entry.todos.map(todo => todo.hash));
+      const introducedTodos = entry.todos.filter(todo => !previousHashes.has(todo.hash));
+      const resolvedTodos = previous.todos.filter(todo => !currentHashes.has(todo.hash));
+      introduced = introducedTodos.length;
+      resolved = resolvedTodos.length;
+
+      for (const todo of introducedTodos) {
+        contributor(todo.author || todo.owners?.[0] || entry.commitAuthor || 'unknown').added++;
+      }
+      if (resolved > 0) {
+        contributor(entry.commitAuthor || 'unknown').removed += resolved;
+      }
+
+      const week = getWeekStart(entry.scanDate);
+      const activity = weekly.get(week) || { week, introduced: 0, resolved: 0, net: 0 };
+      activity.introduced += introduced;
+      activity.resolved += resolved;
+      activity.net = activity.introduced - activity.resolved;
+      weekly.set(week, activity);
+    }
+
+    // One point per day: later scans on the same day replace earlier ones
+    const date = entry.scanDate.split('T')[0];
+    const point: TrendPoint = {
+      date,
+      total: entry.totalTodos,
+      byPriority: entry.byPriority,
+      byType: entry.byType,
+      byDirectory: entry.byDirectory,
+      introduced,
+      resolved
+    };
+    const last = timeline[timeline.length - 1];
+    if (last && last.date === date) {
+      point.introduced += last.introduced;
+      point.resolved += last.resolved;
+      timeline[timeline.length - 1] = point;
+    } else {
+      timeline.push(point);
+    }
+
+    previous = entry;
+  }
+
+  const latest = entries[entries.length - 1];
+  const now = Date.parse(latest.scanDate);
+
+  // Age from the earliest evidence: first snapshot containing it or its blame date
+  const open: OpenTodoAge[] = latest.todos.map(todo => {
+    let since = firstSeen.get(todo.hash) || latest.scanDate;
+    if (todo.authoredAt && todo.authoredAt < since) {
+      since = todo.authoredAt;
+    }
+    return {
+      hash: todo.hash,
+      type: todo.type,
+      priority: todo.priority,
+      file: todo.file,
+      line: todo.line,
+      content: todo.content,
+      firstSeen: since,
+      ageDays: Math.max(0, Math.floor((now - Date.parse(since)) / DAY_MS)),
+      ...(todo.owners?.[0] || todo.author ? { owner: todo.owners?.[0] || todo.author } : {})
+    };
+  });
+
+  // Last `weeks` weeks up to the latest scan, with empty weeks filled in
+  const weeklyActivity: WeeklyActivity[] = [];
+  const lastWeek = Date.parse(getWeekStart(latest.scanDate));
+  const firstWeek = Date.parse(getWeekStart(entries[0].scanDate));
+  for (let i = weeks - 1; i >= 0; i--) {
+    const weekStart = lastWeek - i * 7 * DAY_MS;
+    if (weekStart < firstWeek) continue;
+    const week = new Date(weekStart).toISOString().split('T')[0];
+    weeklyActivity.push(weekly.get(week) || { week, introduced: 0, resolved: 0, net: 0 });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    scans: entries.length,
+    firstScan: entries[0].scanDate,
+    lastScan: latest.scanDate,
+    openTodos: latest.totalTodos,
+    meanAgeDays: open.length > 0
+      ? Math.round((open.reduce((sum, todo) => sum + todo.ageDays, 0) / open.length) * 10) / 10
+      : 0,
+    baseline: {
+      total: entries[0].totalTodos,
+      byPriority: entries[0].byPriority,
+      byType: entries[0].byType,
+      byDirectory: entries[0].byDirectory
+    },
+    timeline,
+    weekly: weeklyActivity,
+    oldest: open.sort((a, b) => b.ageDays - a.ageDays).slice(0, top),
+    contributors: Array.from(contributors.values())
+      .sort((a, b) => (b.added + b.removed) - (a.added + a.removed) || a.name.localeCompare(b.name))
+      .slice(0, top)
+  };
+}
@@ -4,18 +4,47 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
-import { TodoItem, TodoPattern, getPatternsForFile } from './patterns';
-import { traverseFiles, readFileSafely, TraversalOptions } from '../utils/fileTraversal';
+import {
+  TODO_IDENTITY_VERSION,
+  TodoIdentityRecord,
+  generateStableTodoHash,
+  assignStableHashes,
+  extractTodoContext,
+  resolveTodoIdentities,
+  migrateTodoRecords
+} from '@project-suite/shared';
+import { TodoItem, TodoPattern, getPatternsForFile, parseTodoAnnotation } from './patterns';
+import { AnalyzerConfig, QualityOptions, DEFAULT_QUALITY_OPTIONS } from './config';
+import { getCommentSyntax, tokenizeComments, CommentSyntax, CommentLine } from './commentTokenizer';
+import { traverseFiles, readFileSafelyAsync, TraversalOptions, createPathFilter, statFiles } from '../utils/fileTraversal';
+import { getRenamedFiles, getChangedFiles } from '../utils/gitIntegration';
+import { runWorkerPool } from '../utils/workerPool';
+import { ScanCache, ScanCacheStats, getPatternsKey } from './scanCache';
+import { annotateOwnership, OwnershipOptions } from '../utils/ownership';
 import { isInArchivedPath } from './completionPatterns';
+import { findImplementationGaps, GAP_CATEGORY } from './implementationGaps';
 
 export interface ScanOptions extends Partial<TraversalOptions> {
   rootPath: string;
   patterns?: TodoPattern[];
+  /** Patterns, priority rules and quality filters from .project-analyzer.json */
+  config?: AnalyzerConfig | null;
   includeCompleted?: boolean;
   groupByFile?: boolean;
   generateHash?: boolean;
   excludeArchives?: boolean;
+  /** Attach blame author, age and owners to each TODO */
+  ownership?: OwnershipOptions;
+  /** Path of the persistent scan cache (no caching when omitted) */
+  cachePath?: string;
+  /** Only scan files changed relative to this git ref */
+  since?: string;
+  /** Number of files read in parallel */
+  concurrency?: number;
+  /** Scan only these files (relative to rootPath) instead of traversing the tree */
+  files?: string[];
+  /** Also report stubs and placeholder implementations (see implementationGaps) */
+  detectGaps?: boolean;
 }
 
 export interface ScanResult {
@@ -32,19 +61,48 @@ export interface ScanSummary {
   byFile: Record<string, number>;
   filesScanned: number;
   scanDuration: number;
+  /** Cache lookups, when the scan cache is enabled */
+  cache?: ScanCacheStats;
+  /** Git ref the scan was limited to (--since) */
+  since?: string;
+  /** Only TODOs not seen in earlier scans are listed (--only-new) */
+  onlyNew?: boolean;
 }
 
 export interface ProcessedTodo extends TodoItem {
   id: string;
   hash: string;
+  legacyHashes?: string[];
 }
 
 /**
- * Generate a unique hash for a TODO item
+ * Scan result with IDs and hashes assigned
  */
-export function generateTodoHash(todo: TodoItem): string {
-  const content = `${todo.file}:${todo.line}:${todo.type}:${todo.content}`;
-  return crypto.createHash('md5').update(content).digest('hex');
+export interface ProcessedScanResult extends Omit<ScanResult, 'todos'> {
+  todos: ProcessedTodo[];
+}
+
+/**
+ * State file written by the scan command
+ */
+export interface AnalyzerState {
+  lastUpdated: string;
+  identityVersion?: number;
+  processedTodos: ProcessedTodo[];
+  metadata: {
+    gitCommit?: string;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Generate a stable hash for a TODO item
+ *
+ * The hash is anchored on file, type and normalized content (not the line),
+ * and is shared with the project-manager state file.
+ */
+export function generateTodoHash(todo: TodoItem, occurrence: number = 0): string {
+  return generateStableTodoHash(todo, occurrence);
 }
 
 /**
@@ -58,14 +116,26 @@ function generateTodoId(todo: TodoItem, index: number): string {
 /**
  * Check if TODO content is actionable and specific enough
  */
-function isQualityTodo(content: string): boolean {
+function isQualityTodo(content: string, quality: QualityOptions = DEFAULT_QUALITY_OPTIONS): boolean {
   const trimmed = content.trim();
 
+  // Configured filters take precedence over the built-in ones
+  if (quality.allow.some(pattern => pattern.test(trimmed))) {
+    return true;
+  }
+  if (quality.exclude.some(pattern => pattern.test(trimmed))) {
+    return false;
+  }
+
   // Minimum length requirement (at least 10 characters for meaningful content)
-  if (trimmed.length < 10) {
+  if (trimmed.length < quality.minLength) {
     return false;
   }
 
+  if (!quality.builtinFilters) {
+    return true;
+  }
+
   // Filter out truncated/garbage content
   const garbagePatterns = [
     /^[^a-zA-Z0-9]*$/,  // Only special characters
@@ -130,14 +200,183 @@ function isQualityTodo(content: string): boolean {
   return true;
 }
 
+/**
+ * Apply the first matching priority rule, falling back to the pattern's priority
+ */
+function resolvePriority(
+  pattern: TodoPattern,
+  content: string,
+  config?: AnalyzerConfig | null
+): TodoPattern['priority'] {
+  const rule = config?.priorityRules.find(rule =>
+    (!rule.types || rule.types.includes(pattern.name)) && rule.match.test(content)
+  );
+  return rule ? rule.priority : pattern.priority;
+}
+
+/**
+ * Check if TODO content is a testing/verification checklist item rather than work
+ */
+function isChecklistItem(content: string): boolean {
+  content = content.toLowerCase();
+
+  // Testing/verification patterns - match various formats
+  // Format: "Unit tests pass: `npm test`" or "Run `npm test`"
+  if (content.match(/`npm\s+(run\s+)?(test|lint|build|start|dev|audit)`/i)) return true;
+  // Format: "Run something - no errors"
+  if (content.match(/^run\s+.*\s*-\s*(no errors?|successful)/i)) return true;
+  // Format: "Test X manually" or "Test X page"
+  if (content.match(/^test\s+.*\s+(manually|page)/i)) return true;
+  // Format: "All tests pass", "Build succeeds", "Tests pass"
+  if (content.match(/(tests?\s+pass|build\s+succeeds?|lint\s+passes?)/i)) return true;
+  // Format: "No errors", "No lint errors", "Zero vulnerabilities"
+  if (content.match(/(no\s+(typescript\s+|eslint\s+|lint\s+)?errors?|zero.*vulnerabilities)/i)) return true;
+  if (content.match(/^verify\s+(no\s+)?/i)) return true;
+  if (content.match(/lighthouse\s+score/i)) return true;
+  if (content.match(/^git\s+commit\s+created/i)) return true;
+  if (content.match(/^documentation\s+updated?$/i)) return true;
+  if (content.match(/^update\s+memory\s+bank/i)) return true;
+  if (content.match(/^consider\s+adding\s+(unit\s+)?tests/i)) return true;
+  if (content.match(/^(check|ensure)\s+/i)) return true;
+
+  return false;
+}
+
+interface MatchLocation {
+  file: string;
+  line: number;
+  column?: number;
+  rawText: string;
+  context: string;
+  /** Continuation lines joined onto the matched text */
+  continuation?: string;
+}
+
+/**
+ * Build a TODO from a pattern match, or null when it fails the quality filter
+ */
+function createTodoFromMatch(
+  pattern: TodoPattern,
+  match: RegExpExecArray,
+  location: MatchLocation,
+  config?: AnalyzerConfig | null
+): TodoItem | null {
+  const groups = match.groups || {};
+  const todoContent = groups.content || match[1] || match[0];
+
+  // Structured fields: named groups first, then a leading (owner, due, ticket) annotation
+  const annotation = pattern.category === 'markdown'
+    ? { content: todoContent.trim() }
+    : parseTodoAnnotation(todoContent.trim());
+  const trimmedContent = [annotation.content.trim(), location.continuation].filter(Boolean).join(' ');
+  const owner = groups.owner?.trim().replace(/^@/, '') || annotation.owner;
+  const dueDate = groups.due?.trim() || annotation.dueDate;
+  const ticket = groups.ticket?.trim() || annotation.ticket ||
+    (config?.ticketPattern ? trimmedContent.match(config.ticketPattern)?.[0] : undefined);
+
+  // Quality filter: Skip low-quality or truncated TODOs
+  if (!isQualityTodo(trimmedContent, config?.quality)) {
+    return null;
+  }
+
+  return {
+    type: pattern.name,
+    content: trimmedContent,
+    file: location.file,
+    line: location.line,
+    ...(location.column ? { column: location.column } : {}),
+    priority: resolvePriority(pattern, trimmedContent, config),
+    category: pattern.category,
+    rawText: location.rawText,
+    context: location.context,
+    ...(owner ? { owner, owners: [owner] } : {}),
+    ...(dueDate ? { dueDate } : {}),
+    ...(ticket ? { ticket } : {})
+  };
+}
+
+/**
+ * Extract TODO items from the comments of a source file
+ *
+ * Each comment line is matched as `// <text>`, so tag patterns work for every
+ * comment style. Lines after a TODO belong to it until a blank line, another
+ * TODO or a JSDoc tag; in runs of line comments they must also be indented
+ * further than the TODO line.
+ */
+function extractTodosFromComments(
+  content: string,
+  filePath: string,
+  patterns: TodoPattern[],
+  syntax: CommentSyntax,
+  config?: AnalyzerConfig | null
+): TodoItem[] {
+  const todos: TodoItem[] = [];
+  const sourceLines = content.split('\n');
+
+  const matchLine = (pattern: TodoPattern, line: CommentLine): RegExpExecArray | null => {
+    pattern.regex.lastIndex = 0;
+    const match = pattern.regex.exec(pattern.category === 'markdown' ? line.text : `// ${line.text}`);
+    pattern.regex.lastIndex = 0;
+    return match;
+  };
+
+  for (const comment of tokenizeComments(content, syntax)) {
+    const startsTodo = comment.lines.map(line => patterns.some(pattern => matchLine(pattern, line)));
+
+    comment.lines.forEach((line, index) => {
+      if (!startsTodo[index]) {
+        return;
+      }
+
+      const body: CommentLine[] = [line];
+      for (let next = index + 1; next < comment.lines.length; next++) {
+        const candidate = comment.lines[next];
+        if (!candidate.text || startsTodo[next] || candidate.text.startsWith('@')) break;
+        if (comment.kind === 'line' && candidate.indent <= line.indent) break;
+        body.push(candidate);
+      }
+
+      for (const pattern of patterns) {
+        const match = matchLine(pattern, line);
+        if (!match) continue;
+
+        const prefixLength = pattern.category === 'markdown' ? 0 : 3;
+        const todo = createTodoFromMatch(pattern, match, {
+          file: filePath,
+          line: line.line,
+          column: line.column + Math.max(0, match.index - prefixLength),
+          rawText: body.map(part => part.raw).join('\n'),
+          context: extractTodoContext(sourceLines, line.line),
+          continuation: body.slice(1).map(part => part.text).join(' ')
+        }, config);
+
+        if (todo) {
+          todos.push(todo);
+        }
+      }
+    });
+  }
+
+  todos.sort((a, b) => a.line - b.line);
+
+  return todos;
+}
+
 /**
  * Extract TODO items from file content
+ * Source files are scanned comment by comment; prose and unknown files as a whole.
  */
 function extractTodosFromContent(
   content: string,
   filePath: string,
-  patterns: TodoPattern[]
+  patterns: TodoPattern[],
+  config?: AnalyzerConfig | null
 ): TodoItem[] {
+  const syntax = getCommentSyntax(filePath);
+  if (syntax) {
+    return extractTodosFromComments(content, filePath, patterns, syntax, config);
+  }
+
   const todos: TodoItem[] = [];
   const lines = content.split('\n');
 
@@ -147,17 +386,8 @@ function extractTodosFromContent(
 
     let match;
     while ((match = pattern.regex.exec(content)) !== null) {
-      const matchedText = match[0];
-      const todoContent = match[1] || matchedText;
-      const trimmedContent = todoContent.trim();
-
-      // Quality filter: Skip low-quality or truncated TODOs
-      if (!isQualityTodo(trimmedContent)) {
-        continue;
-      }
-
-      // Find line number
-      const position = match.index;
+      // Find line number (patterns starting with \s* can match a preceding newline)
+      const position = match.index + (match[0].length - match[0].trimStart().length);
       let lineNumber = 1;
       let charCount = 0;
 
@@ -169,15 +399,16 @@ function extractTodosFromContent(
         }
       }
 
-      todos.push({
-        type: pattern.name,
-        content: trimmedContent,
+      const todo = createTodoFromMatch(pattern, match, {
         file: filePath,
         line: lineNumber,
-        priority: pattern.priority,
-        category: pattern.category,
-        rawText: matchedText
-      });
+        rawText: match[0],
+        context: extractTodoContext(lines, lineNumber)
+      }, config);
+
+      if (todo) {
+        todos.push(todo);
+      }
     }
   }
 
@@ -195,42 +426,89 @@ export async function scanTodos(options: ScanOptions): Promise<ScanResult> {
   const {
     rootPath,
     patterns,
+    config,
     includeCompleted = false,
     groupByFile = false,
     generateHash = true,
     excludeArchives = false,
+    ownership,
+    cachePath,
+    since,
+    concurrency,
+    files: onlyFiles,
+    detectGaps = false,
     ...traversalOptions
   } = options;
 
   // Get all files to scan
-  const files = await traverseFiles({
-    rootPath,
-    ...traversalOptions
-  });
+  let files = onlyFiles
+    ? statFiles(rootPath, onlyFiles, createPathFilter({ rootPath, ...traversalOptions }))
+    : await traverseFiles({
+      rootPath,
+      ...traversalOptions
+    });
 
-  const allTodos: TodoItem[] = [];
-  const byFile: Record<string, number> = {};
+  // Limit to files changed since a git ref
+  if (since) {
+    const changed = getChangedFiles(rootPath, since);
+    if (!changed) {
+      throw new Error(`Could not list files changed since "${since}" (is it a valid git ref?)`);
+    }
+    const changedSet = new Set(changed.map(file => path.normalize(file)));
+    files = files.filter(file => changedSet.has(path.normalize(file.relativePath)));
+  }
 
-  // Scan each file
-  for (const file of files) {
-    const content = readFileSafely(file.path);
-    if (!content) continue;
+  const cacheKey = [getPatternsKey(patterns), config?.fingerprint || '', detectGaps ? 'gaps' : ''].filter(Boolean).join(':');
+  const cache = cachePath ? ScanCache.load(cachePath, cacheKey) : null;
+
+  // Read and scan files in parallel; cached files are not read at all
+  const perFileTodos = await runWorkerPool(files, async file => {
+    const cached = cache?.get(file);
+    if (cached) {
+      return cached;
+    }
+
+    const content = await readFileSafelyAsync(file);
+    if (!content) {
+      return [];
+    }
 
     // Get patterns for this file type
-    const filePatterns = patterns || getPatternsForFile(file.path);
+    const filePatterns = patterns || getPatternsForFile(file.path, config?.patternSet);
 
     // Extract TODOs
     const fileTodos = extractTodosFromContent(
       content,
       file.relativePath,
-      filePatterns
+      filePatterns,
+      config
     );
+    if (detectGaps) {
+      fileTodos.push(...findImplementationGaps(content, file.relativePath));
+      fileTodos.sort((a, b) => a.line - b.line);
+    }
+
+    cache?.set(file, fileTodos);
+    return fileTodos;
+  }, concurrency);
+
+  if (cache) {
+    if (!since && !onlyFiles) {
+      cache.prune();
+    }
+    cache.save();
+  }
 
+  const allTodos: TodoItem[] = [];
+  const byFile: Record<string, number> = {};
+
+  files.forEach((file, index) => {
+    const fileTodos = perFileTodos[index];
     if (fileTodos.length > 0) {
       byFile[file.relativePath] = fileTodos.length;
       allTodos.push(...fileTodos);
     }
-  }
+  });
 
   // CRITICAL: Always filter out .project-analyzer directory TODOs (should never happen, but extra safety)
   let filteredTodos = allTodos.filter(todo => {
@@ -239,32 +517,13 @@ export async function scanTodos(options: ScanOptions): Promise<ScanResult> {
   });
 
   // Filter out testing/verification checklist items (post-processing)
-  filteredTodos = filteredTodos.filter(todo => {
-    const content = todo.content.toLowerCase();
-
-    // Testing/verification patterns - match various formats
-    // Format: "Unit tests pass: `npm test`" or "Run `npm test`"
-    if (content.match(/`npm\s+(run\s+)?(test|lint|build|start|dev|audit)`/i)) {
-      return false;
-    }
-    // Format: "Run something - no errors"
-    if (content.match(/^run\s+.*\s*-\s*(no errors?|successful)/i)) return false;
-    // Format: "Test X manually" or "Test X page"
-    if (content.match(/^test\s+.*\s+(manually|page)/i)) return false;
-    // Format: "All tests pass", "Build succeeds", "Tests pass"
-    if (content.match(/(tests?\s+pass|build\s+succeeds?|lint\s+passes?)/i)) return false;
-    // Format: "No errors", "No lint errors", "Zero vulnerabilities"
-    if (content.match(/(no\s+(typescript\s+|eslint\s+|lint\s+)?errors?|zero.*vulnerabilities)/i)) return false;
-    if (content.match(/^verify\s+(no\s+)?/i)) return false;
-    if (content.match(/lighthouse\s+score/i)) return false;
-    if (content.match(/^git\s+commit\s+created/i)) return false;
-    if (content.match(/^documentation\s+updated?$/i)) return false;
-    if (content.match(/^update\s+memory\s+bank/i)) return false;
-    if (content.match(/^consider\s+adding\s+(unit\s+)?tests/i)) return false;
-    if (content.match(/^(check|ensure)\s+/i)) return false;
-
-    return true;
-  });
+  const quality = config?.quality || DEFAULT_QUALITY_OPTIONS;
+  if (quality.builtinFilters) {
+    filteredTodos = filteredTodos.filter(todo =>
+      todo.category === GAP_CATEGORY ||
+      quality.allow.some(pattern => pattern.test(todo.content)) || !isChecklistItem(todo.content)
+    );
+  }
 
   // Filter out archived TODOs if requested
   if (excludeArchives) {
@@ -282,6 +541,11 @@ export async function scanTodos(options: ScanOptions): Promise<ScanResult> {
     });
   }
 
+  // Attach blame and owners
+  if (ownership) {
+    annotateOwnership(filteredTodos, rootPath, ownership);
+  }
+
   // Calculate summary statistics
   const byPriority: Record<string, number> = {
     high: 0,
@@ -304,7 +568,9 @@ export async function scanTodos(options: ScanOptions): Promise<ScanResult> {
     byType,
     byFile,
     filesScanned: files.length,
-    scanDuration: Date.now() - startTime
+    scanDuration: Date.now() - startTime,
+    ...(cache ? { cache: cache.getStats() } : {}),
+    ...(since ? { since } : {})
   };
 
   return {
@@ -318,16 +584,12 @@ export async function scanTodos(options: ScanOptions): Promise<ScanResult> {
 /**
  * Process scan results and add IDs and hashes
  */
-export function processScanResults(result: ScanResult): {
-  todos: ProcessedTodo[];
-  summary: ScanSummary;
-  scanDate: string;
-  rootPath: string;
-} {
+export function processScanResults(result: ScanResult): ProcessedScanResult {
+  const hashes = assignStableHashes(result.todos);
   const processedTodos: ProcessedTodo[] = result.todos.map((todo, index) => ({
     ...todo,
     id: generateTodoId(todo, index),
-    hash: generateTodoHash(todo)
+    hash: hashes[index]
   }));
 
   return {
@@ -337,31 +599,79 @@ export function processScanResults(result: ScanResult): {
 }
 
 /**
- * Load state from previous scan
+ * Load the state file from a previous scan
+ * State files written before stable identities are migrated on load.
+ */
+export function loadStateFile(statePath: string): AnalyzerState | null {
+  if (!fs.existsSync(statePath)) {
+    return null;
+  }
+
+  try {
+    const stateContent = fs.readFileSync(statePath, 'utf-8');
+    const state = JSON.parse(stateContent) as AnalyzerState;
+
+    if (!state.processedTodos || !Array.isArray(state.processedTodos)) {
+      return null;
+    }
+
+    if (state.identityVersion !== TODO_IDENTITY_VERSION) {
+      const migration = migrateTodoRecords(state.processedTodos.filter(todo => todo.hash));
+      state.processedTodos = migration.records;
+      state.identityVersion = TODO_IDENTITY_VERSION;
+    }
+
+    state.metadata = state.metadata || {};
+    return state;
+  } catch (error) {
+    console.error('Error loading previous state:', error);
+    return null;
+  }
+}
+
+/**
+ * Load hashes of TODOs seen in a previous scan (including legacy hashes)
  */
 export function loadPreviousState(statePath: string): Set<string> {
   const processedHashes = new Set<string>();
+  const state = loadStateFile(statePath);
 
-  if (fs.existsSync(statePath)) {
-    try {
-      const stateContent = fs.readFileSync(statePath, 'utf-8');
-      const state = JSON.parse(stateContent);
-
-      if (state.processedTodos && Array.isArray(state.processedTodos)) {
-        for (const todo of state.processedTodos) {
-          if (todo.hash) {
-            processedHashes.add(todo.hash);
-          }
-        }
+  if (state) {
+    for (const todo of state.processedTodos) {
+      processedHashes.add(todo.hash);
+      for (const legacy of todo.legacyHashes || []) {
+        processedHashes.add(legacy);
       }
-    } catch (error) {
-      console.error('Error loading previous state:', error);
     }
   }
 
   return processedHashes;
 }
 
+/**
+ * Carry identities over from a previous scan
+ *
+ * TODOs that moved, were lightly edited, or live in a renamed file keep the
+ * hash they were first seen with, so they are not reported as new.
+ */
+export function applyPreviousIdentities(
+  todos: ProcessedTodo[],
+  statePath: string,
+  rootPath: string
+): ProcessedTodo[] {
+  const state = loadStateFile(statePath);
+  if (!state || state.processedTodos.length === 0) {
+    return todos;
+  }
+
+  const renames = state.metadata.gitCommit
+    ? getRenamedFiles(rootPath, state.metadata.gitCommit)
+    : {};
+
+  const previous: TodoIdentityRecord[] = state.processedTodos;
+  return resolveTodoIdentities(todos, previous, { renames });
+}
+
 /**
  * Save current state
  */
@@ -370,8 +680,9 @@ export function saveState(
   processedTodos: ProcessedTodo[],
   metadata: any = {}
 ): void {
-  const state = {
+  const state: AnalyzerState = {
     lastUpdated: new Date().toISOString(),
+    identityVersion: TODO_IDENTITY_VERSION,
     processedTodos,
     metadata
   };
@@ -399,6 +710,24 @@ export function findNewTodos(
   return currentTodos.filter(todo => !previousHashes.has(todo.hash));
 }
 
+/**
+ * Find the TODOs not in the state file, then record the scan as the new state
+ *
+ * The whole scan is recorded, not just the new TODOs, so a TODO is reported as
+ * new once. Partial scans (`save: false`) are compared but not recorded.
+ */
+export function trackNewTodos(
+  todos: ProcessedTodo[],
+  statePath: string,
+  options: { save?: boolean; metadata?: any } = {}
+): ProcessedTodo[] {
+  const newTodos = findNewTodos(todos, loadPreviousState(statePath));
+  if (options.save !== false) {
+    saveState(statePath, todos, options.metadata);
+  }
+  return newTodos;
+}
+
 /**
  * Group TODOs by file
  */
@@ -0,0 +1,419 @@
+/**
+ * Site Crawler
+ * Breadth-first crawl of a website with depth and page limits, URL
+ * normalization, sitemap.xml seeding, robots.txt rules and include/exclude
+ * patterns. Pages are visited through a PageVisitor so the crawl is
+ * independent of how a page is loaded (Playwright in WebsiteAnalyzer).
+ */
+
+import { runWorkerPool } from '../utils/workerPool';
+
+export const DEFAULT_MAX_PAGES = 50;
+export const DEFAULT_CRAWL_CONCURRENCY = 2;
+export const CRAWLER_USER_AGENT = 'project-analyzer';
+
+/** Longest robots.txt Crawl-delay that is honored */
+const MAX_CRAWL_DELAY_MS = 10000;
+/** Sitemap files read per origin, including nested sitemap indexes */
+const MAX_SITEMAP_FILES = 10;
+
+/** Query parameters that never change page content */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid)$/i;
+
+/** Links to these are downloads, not pages */
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tar|dmg|exe|mp[34]|mov|avi|webm|woff2?|ttf|css|js|json|xml|txt|csv)$/i;
+
+export interface CrawlOptions {
+  /** Link depth to follow from the seed URLs (0 = seeds only) */
+  maxDepth?: number;
+  /** Maximum number of pages to visit */
+  maxPages?: number;
+  /** Pages visited in parallel */
+  concurrency?: number;
+  /** Only crawl URLs matching one of these patterns */
+  include?: string[];
+  /** Never crawl URLs matching one of these patterns */
+  exclude?: string[];
+  /** Obey robots.txt (default: true) */
+  respectRobots?: boolean;
+  /** Seed the crawl with the origin's sitemap.xml (default: true) */
+  useSitemap?: boolean;
+  /** User agent token matched against robots.txt groups */
+  userAgent?: string;
+  /** Fetch robots.txt and sitemaps; resolves undefined when missing */
+  fetchText?: (url: string) => Promise<string | undefined>;
+}
+
+/** What a PageVisitor reports about a visited page */
+export interface VisitedPage {
+  /** Absolute link targets found on the page */
+  links: string[];
+  title?: string;
+  status?: number;
+  /** URL after redirects */
+  finalUrl?: string;
+}
+
+export type PageVisitor = (url: string, depth: number) => Promise<VisitedPage>;
+
+export interface SiteMapEntry {
+  url: string;
+  depth: number;
+  /** Page the URL was first found on */
+  parent?: string;
+  /** How the URL was discovered */
+  via: 'seed' | 'link' | 'sitemap';
+  title?: string;
+  status?: number;
+  finalUrl?: string;
+  /** Number of crawlable links on the page */
+  linkCount?: number;
+  error?: string;
+}
+
+export type CrawlSkipReason = 'robots' | 'excluded' | 'max-pages';
+
+export interface SiteMap {
+  seeds: string[];
+  pages: SiteMapEntry[];
+  /** Same-origin URLs that were found but not visited */
+  skipped: Array<{ url: string; reason: CrawlSkipReason }>;
+  /** Sitemap files that were read */
+  sitemaps: string[];
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+/**
+ * Canonical form of a page URL for dedupe: fragment, tracking parameters and
+ * duplicate slashes removed, query parameters sorted. Returns undefined for
+ * anything that is not an http(s) page.
+ */
+export function normalizeUrl(href: string, base?: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(href.trim(), base);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return undefined;
+  }
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  url.pathname = url.pathname.replace(/\/{2,}/g, '/');
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  return url.toString();
+}
+
+/**
+ * Parse robots.txt, keeping the group for `userAgent` (or `*` when no group
+ * names it)
+ */
+export function parseRobotsTxt(text: string, userAgent = CRAWLER_USER_AGENT): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [], sitemaps: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    if (field === 'disallow' && value) current.rules.disallow.push(value);
+    if (field === 'crawl-delay' && Number.isFinite(parseFloat(value))) current.rules.crawlDelay = parseFloat(value);
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group = groups.find(g => g.agents.some(a => a !== '*' && agent.includes(a)))
+    || groups.find(g => g.agents.includes('*'));
+
+  return { ...(group?.rules || { allow: [], disallow: [] }), sitemaps };
+}
+
+function robotsPatternLength(pattern: string, target: string): number {
+  const regex = new RegExp('^' + pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\\\$$/, '$'));
+  return regex.test(target) ? pattern.length : -1;
+}
+
+/**
+ * Whether robots rules allow a URL: the longest matching rule wins, and Allow
+ * wins ties
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+  const longest = (patterns: string[]) => Math.max(-1, ...patterns.map(p => robotsPatternLength(p, target)));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+/**
+ * Page URLs and nested sitemaps listed in a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = (block: string) => [...xml.matchAll(new RegExp(`<${block}\\b[^>]*>([\\s\\S]*?)</${block}>`, 'gi'))]
+    .map(entry => entry[1].match(/<loc>\s*(?:<!\[CDATA\[)?\s*([\s\S]*?)\s*(?:\]\]>)?\s*<\/loc>/i)?.[1])
+    .filter((loc): loc is string => Boolean(loc))
+    .map(loc => loc.replace(/&amp;/g, '&'));
+  return { urls: locs('url'), sitemaps: locs('sitemap') };
+}
+
+/**
+ * Compile an include/exclude glob (`*` within a path segment, `**` across
+ * segments). Patterns starting with `/` match the path and query, anything
+ * else the whole URL.
+ */
+export function compileUrlPattern(pattern: string): (url: string) => boolean {
+  const glob = new RegExp('^' + pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '.*') + '$');
+
+  return url => {
+    if (!pattern.startsWith('/')) {
+      return glob.test(url);
+    }
+    const { pathname, search } = new URL(url);
+    return glob.test(pathname + search) || glob.test(pathname);
+  };
+}
+
+async function defaultFetchText(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(10000)
+    });
+    return response.ok ? await response.text() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+  parent?: string;
+  via: SiteMapEntry['via'];
+}
+
+export class SiteCrawler {
+  private options: Required<Omit<CrawlOptions, 'include' | 'exclude'>>;
+  private include: Array<(url: string) => boolean>;
+  private exclude: Array<(url: string) => boolean>;
+  private robots = new Map<string, Promise<RobotsRules | undefined>>();
+
+  constructor(options: CrawlOptions = {}) {
+    this.options = {
+      maxDepth: 0,
+      maxPages: DEFAULT_MAX_PAGES,
+      concurrency: DEFAULT_CRAWL_CONCURRENCY,
+      respectRobots: true,
+      useSitemap: true,
+      userAgent: CRAWLER_USER_AGENT,
+      fetchText: defaultFetchText,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+    } as Required<Omit<CrawlOptions, 'include' | 'exclude'>>;
+    this.include = (options.include || []).map(compileUrlPattern);
+    this.exclude = (options.exclude || []).map(compileUrlPattern);
+  }
+
+  /**
+   * Crawl breadth-first from the seed URLs. Only the seeds' origins are
+   * crawled; seeds themselves are exempt from robots.txt and patterns.
+   */
+  async crawl(seedUrls: string[], visit: PageVisitor): Promise<SiteMap> {
+    const seen = new Set<string>();
+    const siteMap: SiteMap = { seeds: [], pages: [], skipped: [], sitemaps: [] };
+
+    let frontier: QueuedUrl[] = [];
+    for (const seed of seedUrls) {
+      const url = normalizeUrl(seed);
+      if (!url) {
+        throw new Error(`Not an http(s) URL: ${seed}`);
+      }
+      if (!seen.has(url)) {
+        seen.add(url);
+        siteMap.seeds.push(url);
+        frontier.push({ url, depth: 0, via: 'seed' });
+      }
+    }
+    const origins = new Set(siteMap.seeds.map(url => new URL(url).origin));
+
+    for (let depth = 0; frontier.length > 0; depth++) {
+      const budget = this.options.maxPages - siteMap.pages.length;
+      for (const skipped of frontier.slice(Math.max(0, budget))) {
+        siteMap.skipped.push({ url: skipped.url, reason: 'max-pages' });
+      }
+      const level = frontier.slice(0, Math.max(0, budget));
+      const delay = await this.getCrawlDelay(level);
+
+      const entries = await runWorkerPool(level, async (queued) => {
+        if (delay > 0) await sleep(delay);
+        return this.visitPage(queued, visit);
+      }, delay > 0 ? 1 : this.options.concurrency);
+
+      const next: QueuedUrl[] = [];
+      const enqueue = async (queued: QueuedUrl) => {
+        if (seen.has(queued.url)) return;
+        seen.add(queued.url);
+        const reason = await this.getSkipReason(queued.url);
+        if (reason) {
+          siteMap.skipped.push({ url: queued.url, reason });
+        } else {
+          next.push(queued);
+        }
+      };
+
+      for (const { entry, links } of entries) {
+        siteMap.pages.push(entry);
+        if (entry.finalUrl) seen.add(entry.finalUrl);
+        if (depth >= this.options.maxDepth) continue;
+
+        for (const link of links) {
+          if (origins.has(new URL(link).origin)) {
+            await enqueue({ url: link, depth: depth + 1, parent: entry.url, via: 'link' });
+          }
+        }
+      }
+
+      if (depth === 0 && this.options.maxDepth > 0 && this.options.useSitemap) {
+        for (const url of await this.readSitemaps([...origins], siteMap)) {
+          if (origins.has(new URL(url).origin)) {
+            await enqueue({ url, depth: 1, via: 'sitemap' });
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    return siteMap;
+  }
+
+  private async visitPage(queued: QueuedUrl, visit: PageVisitor): Promise<{ entry: SiteMapEntry; links: string[] }> {
+    const entry: SiteMapEntry = { url: queued.url, depth: queued.depth, parent: queued.parent, via: queued.via };
+    try {
+      const page = await visit(queued.url, queued.depth);
+      const base = page.finalUrl || queued.url;
+      const links = [...new Set(page.links
+        .map(link => normalizeUrl(link, base))
+        .filter((link): link is string => link !== undefined && !ASSET_EXTENSIONS.test(new URL(link).pathname)))];
+
+      entry.title = page.title;
+      entry.status = page.status;
+      const finalUrl = page.finalUrl ? normalizeUrl(page.finalUrl) : undefined;
+      if (finalUrl && finalUrl !== queued.url) entry.finalUrl = finalUrl;
+      entry.linkCount = links.length;
+      return { entry, links: page.status && page.status >= 400 ? [] : links };
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      return { entry, links: [] };
+    }
+  }
+
+  private async getSkipReason(url: string): Promise<CrawlSkipReason | undefined> {
+    if (this.include.length > 0 && !this.include.some(match => match(url))) return 'excluded';
+    if (this.exclude.some(match => match(url))) return 'excluded';
+
+    if (this.options.respectRobots) {
+      const rules = await this.getRobots(new URL(url).origin);
+      if (rules && !isAllowedByRobots(rules, url)) return 'robots';
+    }
+    return undefined;
+  }
+
+  private getRobots(origin: string): Promise<RobotsRules | undefined> {
+    if (!this.robots.has(origin)) {
+      this.robots.set(origin, this.options.fetchText(`${origin}/robots.txt`)
+        .then(text => text === undefined ? undefined : parseRobotsTxt(text, this.options.userAgent)));
+    }
+    return this.robots.get(origin)!;
+  }
+
+  /**
+   * Crawl-delay for a level beyond the seeds, capped at MAX_CRAWL_DELAY_MS
+   */
+  private async getCrawlDelay(level: QueuedUrl[]): Promise<number> {
+    if (!this.options.respectRobots || level.every(queued => queued.via === 'seed')) {
+      return 0;
+    }
+    const origins = [...new Set(level.map(queued => new URL(queued.url).origin))];
+    const delays = await Promise.all(origins.map(async origin => (await this.getRobots(origin))?.crawlDelay || 0));
+    return Math.min(MAX_CRAWL_DELAY_MS, Math.max(0, ...delays) * 1000);
+  }
+
+  /**
+   * Page URLs from /sitemap.xml and any sitemaps robots.txt lists
+   */
+  private async readSitemaps(origins: string[], siteMap: SiteMap): Promise<string[]> {
+    const urls: string[] = [];
+
+    for (const origin of origins) {
+      const robots = this.options.respectRobots ? await this.getRobots(origin) : undefined;
+      const queue = [...new Set([`${origin}/sitemap.xml`, ...(robots?.sitemaps || [])])];
+      const read = new Set<string>();
+
+      while (queue.length > 0 && read.size < MAX_SITEMAP_FILES) {
+        const sitemapUrl = queue.shift()!;
+        if (read.has(sitemapUrl)) continue;
+        read.add(sitemapUrl);
+
+        const xml = await this.options.fetchText(sitemapUrl);
+        if (!xml) continue;
+        siteMap.sitemaps.push(sitemapUrl);
+
+        const parsed = parseSitemap(xml);
+        queue.push(...parsed.sitemaps);
+        for (const url of parsed.urls) {
+          const normalized = normalizeUrl(url);
+          if (normalized && !ASSET_EXTENSIONS.test(new URL(normalized).pathname)) urls.push(normalized);
+        }
+      }
+    }
+
+    return urls;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Test status feed (.test-status/)
+ *
+ * Turns verification runs into test runs and records them with the shared
+ * writer the project-manager Jest reporter uses (latest.json, summary.json
+ * and daily history files), so the dashboard's tests view lists them next
+ * to the unit test results.
+ */
+
+import { TestRunSummary, TestStatusResult, testStatusId } from '@project-suite/shared';
+import { VerificationResult, VERIFICATION_TIERS } from './ProductionVerifier';
+
+export { recordTestRun } from '@project-suite/shared';
+export type { TestRunSummary, TestStatusResult } from '@project-suite/shared';
+
+export const DEFAULT_TEST_STATUS_DIR = '.test-status';
+
+/**
+ * Turn verification results into a test run: one test per check, grouped
+ * into a suite per feature and environment
+ */
+export function verificationTestRun(results: VerificationResult[], packageName: string, file = ''): TestRunSummary {
+  const tests: TestStatusResult[] = [];
+
+  for (const result of results) {
+    const suite = `${result.featureName} (${result.environment})`;
+    const prefix = `${result.environment} ${result.featureId}`;
+
+    if (result.error) {
+      tests.push({
+        testId: testStatusId(packageName, file, `${prefix} verification`),
+        name: 'verification',
+        suite,
+        package: packageName,
+        file,
+        status: 'failed',
+        duration: result.duration || 0,
+        error: { message: result.error }
+      });
+      continue;
+    }
+
+    for (const [key, label] of VERIFICATION_TIERS) {
+      for (const check of result[key].checks) {
+        tests.push({
+          testId: testStatusId(packageName, file, `${prefix} ${key} ${check.name}`),
+          name: `${label}: ${check.name}`,
+          suite,
+          package: packageName,
+          file,
+          status: check.passed ? 'passed' : 'failed',
+          duration: check.duration || 0,
+          error: check.passed ? undefined : { message: check.message }
+        });
+      }
+    }
+  }
+
+  const failed = tests.filter(test => test.status === 'failed').length;
+  return {
+    timestamp: new Date().toISOString(),
+    package: packageName,
+    totalTests: tests.length,
+    passed: tests.length - failed,
+    failed,
+    skipped: 0,
+    duration: results.reduce((sum, result) => sum + (result.duration || 0), 0),
+    tests
+  };
+}
@@ -0,0 +1,357 @@
+/**
+ * Watch mode - keeps TODO scan results current while files change
+ *
+ * Watches every non-ignored directory, batches file events with a debounce,
+ * rescans only the changed files, and reports which TODOs were added, removed
+ * or changed. State and the latest scan output are rewritten after every
+ * batch so consumers that poll them (like the dashboard) stay in sync.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { EventEmitter } from 'events';
+import { matchTodoIdentities } from '@project-suite/shared';
+import { scanTodos, processScanResults, saveState, applyPreviousIdentities, ScanOptions, ProcessedScanResult, ProcessedTodo } from './scanner';
+import { createPathFilter, PathFilter } from '../utils/fileTraversal';
+import { getHeadCommit } from '../utils/gitIntegration';
+import { formatOutput, OutputFormat } from '../formatters/outputFormatter';
+
+export interface TodoWatcherOptions {
+  rootPath: string;
+  /** Options passed to every scan (patterns, include/exclude, cache...) */
+  scanOptions?: Partial<ScanOptions>;
+  /** Quiet period before a batch of changes is rescanned (default: 300ms) */
+  debounceMs?: number;
+  /** State file rewritten after every batch */
+  statePath: string;
+  /** Scan output rewritten after every batch */
+  outputPath: string;
+  outputFormat?: OutputFormat;
+  /** Shell command run after each batch; the diff is passed as JSON on stdin */
+  onChangeCommand?: string;
+  /** URL the diff is POSTed to as JSON after each batch */
+  webhookUrl?: string;
+}
+
+export interface TodoChange {
+  previous: ProcessedTodo;
+  current: ProcessedTodo;
+}
+
+export interface TodoDiff {
+  added: ProcessedTodo[];
+  removed: ProcessedTodo[];
+  changed: TodoChange[];
+  /** Files rescanned in this batch */
+  files: string[];
+  timestamp: string;
+}
+
+/**
+ * Compare the TODOs of a set of files before and after a change
+ *
+ * Rescanned TODOs that match a previous one keep its hash (returned in
+ * `current`). Moves within a file are not reported; text edits are reported
+ * as changes.
+ */
+export function diffTodos(
+  previous: ProcessedTodo[],
+  rescanned: ProcessedTodo[]
+): Omit<TodoDiff, 'files' | 'timestamp'> & { current: ProcessedTodo[] } {
+  const matches = matchTodoIdentities(rescanned, previous);
+  const matchedPrevious = new Set<string>();
+  const current: ProcessedTodo[] = [];
+  const added: ProcessedTodo[] = [];
+  const changed: TodoChange[] = [];
+
+  matches.forEach((match, index) => {
+    const todo = { ...rescanned[index], hash: match.hash };
+    current.push(todo);
+
+    if (match.previous) {
+      matchedPrevious.add(match.previous.hash);
+    }
+
+    if (match.kind === 'new') {
+      added.push(todo);
+    } else if (match.kind === 'edited' || match.kind === 'renamed') {
+      changed.push({ previous: match.previous as ProcessedTodo, current: todo });
+    }
+  });
+
+  return {
+    added,
+    removed: previous.filter(todo => !matchedPrevious.has(todo.hash)),
+    changed,
+    current
+  };
+}
+
+export class TodoWatcher extends EventEmitter {
+  private options: TodoWatcherOptions;
+  private filter: PathFilter;
+  private watchers = new Map<string, fs.FSWatcher>();
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private scanning: Promise<void> = Promise.resolve();
+  private result: ProcessedScanResult | null = null;
+
+  constructor(options: TodoWatcherOptions) {
+    super();
+    this.options = { debounceMs: 300, outputFormat: 'json', ...options };
+    this.filter = createPathFilter({
+      rootPath: options.rootPath,
+      excludePatterns: options.scanOptions?.excludePatterns,
+      useGitignore: options.scanOptions?.useGitignore
+    });
+  }
+
+  /**
+   * Run the initial scan and start watching
+   */
+  async start(): Promise<ProcessedScanResult> {
+    const { rootPath, statePath } = this.options;
+
+    const result = processScanResults(await scanTodos({ ...this.options.scanOptions, rootPath }));
+    result.todos = applyPreviousIdentities(result.todos, statePath, rootPath);
+    this.result = result;
+    this.persist();
+
+    this.watchDirectory(rootPath);
+    return result;
+  }
+
+  /**
+   * Stop watching and cancel any pending batch
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    await this.scanning;
+  }
+
+  /**
+   * Number of directories currently watched
+   */
+  getWatchedDirectoryCount(): number {
+    return this.watchers.size;
+  }
+
+  /**
+   * Watch a directory and its non-ignored subdirectories
+   */
+  private watchDirectory(dir: string): void {
+    if (this.watchers.has(dir) || this.filter.ignoresDirectory(dir)) {
+      return;
+    }
+
+    try {
+      const watcher = fs.watch(dir, (_event, filename) => {
+        if (filename) {
+          this.handleEvent(path.join(dir, filename.toString()));
+        }
+      });
+      watcher.on('error', () => this.unwatchDirectory(dir));
+      this.watchers.set(dir, watcher);
+
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          this.watchDirectory(path.join(dir, entry.name));
+        }
+      }
+    } catch {
+      // Directory vanished or is unreadable
+      this.unwatchDirectory(dir);
+    }
+  }
+
+  private unwatchDirectory(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  /**
+   * Queue a changed path for the next batch
+   */
+  private handleEvent(absolutePath: string): void {
+    let stats: fs.Stats | null = null;
+    try {
+      stats = fs.statSync(absolutePath);
+    } catch {
+      // Deleted
+    }
+
+    if (stats?.isDirectory()) {
+      this.watchDirectory(absolutePath);
+      return;
+    }
+
+    if (!stats) {
+      this.unwatchDirectory(absolutePath);
+    }
+
+    const relativePath = path.relative(this.options.rootPath, absolutePath);
+    const tracked = this.result?.todos.some(todo => todo.file === relativePath);
+    if (!tracked && !this.filter.acceptsFile(absolutePath)) {
+      return;
+    }
+
+    this.pending.add(relativePath);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.scanning = this.scanning.then(() => this.flush());
+    }, this.options.debounceMs);
+  }
+
+  /**
+   * Rescan the pending files and publish the diff
+   */
+  private async flush(): Promise<void> {
+    if (!this.result || this.pending.size === 0) {
+      return;
+    }
+
+    const files = Array.from(this.pending).sort();
+    this.pending.clear();
+    const fileSet = new Set(files);
+
+    try {
+      const scan = processScanResults(await scanTodos({
+        ...this.options.scanOptions,
+        rootPath: this.options.rootPath,
+        files
+      }));
+
+      const previous = this.result.todos.filter(todo => fileSet.has(todo.file));
+      const { current, ...changes } = diffTodos(previous, scan.todos);
+      const diff: TodoDiff = {
+        ...changes,
+        files,
+        timestamp: new Date().toISOString()
+      };
+
+      this.result = this.mergeResult(current, fileSet, scan.summary.scanDuration);
+      this.persist();
+
+      if (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) {
+        this.emit('change', diff);
+        await this.runHooks(diff);
+      }
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Replace the TODOs of the rescanned files and recompute the summary
+   */
+  private mergeResult(
+    current: ProcessedTodo[],
+    files: Set<string>,
+    scanDuration: number
+  ): ProcessedScanResult {
+    const previous = this.result as ProcessedScanResult;
+    const todos = [
+      ...previous.todos.filter(todo => !files.has(todo.file)),
+      ...current
+    ].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    const byPriority: Record<string, number> = { high: 0, medium: 0, low: 0 };
+    const byType: Record<string, number> = {};
+    const byFile: Record<string, number> = {};
+    for (const todo of todos) {
+      byPriority[todo.priority]++;
+      byType[todo.type] = (byType[todo.type] || 0) + 1;
+      byFile[todo.file] = (byFile[todo.file] || 0) + 1;
+    }
+
+    return {
+      ...previous,
+      todos,
+      summary: {
+        ...previous.summary,
+        totalTodos: todos.length,
+        byPriority,
+        byType,
+        byFile,
+        scanDuration,
+        cache: undefined
+      },
+      scanDate: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Write the state file and the latest scan output
+   */
+  private persist(): void {
+    if (!this.result) return;
+    const { rootPath, statePath, outputPath, outputFormat } = this.options;
+
+    saveState(statePath, this.result.todos, {
+      gitCommit: getHeadCommit(rootPath) || undefined
+    });
+
+    const dir = path.dirname(outputPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const patternSet = this.options.scanOptions?.config?.patternSet;
+    fs.writeFileSync(outputPath, formatOutput(this.result, {
+      format: outputFormat as OutputFormat,
+      patterns: patternSet ? [...patternSet.code, ...patternSet.markdown] : undefined
+    }), 'utf-8');
+  }
+
+  /**
+   * Run the change command and webhook for a diff
+   */
+  private async runHooks(diff: TodoDiff): Promise<void> {
+    const { onChangeCommand, webhookUrl, rootPath } = this.options;
+    const payload = JSON.stringify(diff);
+
+    if (onChangeCommand) {
+      await new Promise<void>(resolve => {
+        const child = exec(onChangeCommand, { cwd: rootPath }, (error) => {
+          if (error) {
+            this.emit('hookError', new Error(`Change command failed: ${error.message}`));
+          }
+          resolve();
+        });
+        child.stdin?.end(payload);
+      });
+    }
+
+    if (webhookUrl) {
+      try {
+        const response = await fetch(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: payload
+        });
+        if (!response.ok) {
+          this.emit('hookError', new Error(`Webhook returned status ${response.status}`));
+        }
+      } catch (error: any) {
+        this.emit('hookError', new Error(`Webhook failed: ${error.message}`));
+      }
+    }
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Code-to-plan traceability
+ *
+ * Instead of guessing from keywords, code and tests name the requirement
+ * they belong to: `// @implements PM-12` (or `@feature PM-12`) in a comment,
+ * or `describe('[PM-12] ...')` in a test title. Requirements come from plan
+ * checklist items that carry an id and from a feature registry CSV. The
+ * result is a requirement -> files -> tests matrix.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCommentSyntax, tokenizeComments } from './commentTokenizer';
+import { loadPlanningDocuments } from './featureDetector';
+import { traverseFiles, readFileSafelyAsync } from '../utils/fileTraversal';
+import { parseCSVRecords } from '../utils/csv';
+
+/** Requirement ids look like PM-12 or AUTH-3 */
+const ID_SOURCE = '[A-Z][A-Z0-9]*-\\d+';
+const ID_LIST_SOURCE = `${ID_SOURCE}(?:\\s*,\\s*${ID_SOURCE})*`;
+
+const REQUIREMENT_ID = new RegExp(`\\b${ID_SOURCE}\\b`);
+const COMMENT_ANNOTATION = new RegExp(`@(?:implements|feature)\\s+(${ID_LIST_SOURCE})`, 'g');
+const TEST_TITLE = /\b(?:describe|it|test|context|suite)(?:\.(?:only|skip|each\([^)]*\)))?\s*\(\s*(['"`])(.*?)\1/g;
+const BRACKETED_IDS = new RegExp(`\\[(${ID_LIST_SOURCE})\\]`, 'g');
+
+const TEST_FILE = /(^|[\/\\])(__tests__|tests?|spec)[\/\\]|[._-](test|spec)\.[^.\/\\]+$/i;
+
+export type TraceStatus = 'untraced' | 'traced' | 'tested';
+
+export interface TraceAnnotation {
+  id: string;
+  file: string;
+  line: number;
+  /** Annotations in test files count as tests */
+  kind: 'implementation' | 'test';
+  text: string;
+}
+
+export interface RequirementSource {
+  kind: 'plan' | 'registry';
+  path: string;
+  line?: number;
+}
+
+export interface Requirement {
+  /** Undefined for plan items that carry no id (they cannot be traced) */
+  id?: string;
+  title: string;
+  sources: RequirementSource[];
+  /** Registry status or plan checkbox state */
+  plannedStatus?: string;
+}
+
+export interface RequirementTrace extends Requirement {
+  status: TraceStatus;
+  implementations: TraceAnnotation[];
+  tests: TraceAnnotation[];
+}
+
+export interface TraceabilityMatrix {
+  rootPath: string;
+  generatedAt: string;
+  requirements: RequirementTrace[];
+  /** Annotations naming an id that no plan item or registry feature has */
+  unmatched: TraceAnnotation[];
+  summary: {
+    total: number;
+    tested: number;
+    traced: number;
+    untraced: number;
+    withoutId: number;
+    annotatedFiles: number;
+  };
+}
+
+export interface TraceabilityOptions {
+  rootPath: string;
+  planningPaths?: string[];
+  /** Feature registry CSV (id, name, status, ...) */
+  registryPath?: string;
+  excludePatterns?: string[];
+}
+
+/**
+ * Whether a path looks like a test file
+ */
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE.test(filePath);
+}
+
+function splitIds(list: string): string[] {
+  return list.split(',').map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * Find traceability annotations in one file
+ */
+export function extractTraceAnnotations(content: string, relativePath: string): TraceAnnotation[] {
+  const syntax = getCommentSyntax(relativePath);
+  if (!syntax) {
+    return [];
+  }
+
+  const kind = isTestFile(relativePath) ? 'test' : 'implementation';
+  const annotations: TraceAnnotation[] = [];
+  const seen = new Set<string>();
+  const add = (id: string, line: number, text: string) => {
+    const key = `${id}:${line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    annotations.push({ id, file: relativePath, line, kind, text: text.trim() });
+  };
+
+  for (const span of tokenizeComments(content, syntax)) {
+    for (const commentLine of span.lines) {
+      for (const match of commentLine.text.matchAll(COMMENT_ANNOTATION)) {
+        splitIds(match[1]).forEach(id => add(id, commentLine.line, commentLine.text));
+      }
+    }
+  }
+
+  if (kind === 'test') {
+    content.split('\n').forEach((text, index) => {
+      for (const title of text.matchAll(TEST_TITLE)) {
+        for (const match of title[2].matchAll(BRACKETED_IDS)) {
+          splitIds(match[1]).forEach(id => add(id, index + 1, text));
+        }
+      }
+    });
+  }
+
+  return annotations.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Collect annotations from every source file under the root
+ */
+export async function collectTraceAnnotations(
+  rootPath: string,
+  excludePatterns: string[] = []
+): Promise<TraceAnnotation[]> {
+  const files = await traverseFiles({ rootPath, excludePatterns });
+  const annotations: TraceAnnotation[] = [];
+
+  for (const file of files) {
+    if (!getCommentSyntax(file.relativePath)) continue;
+
+    const content = await readFileSafelyAsync(file);
+    if (content === null || !/@(implements|feature)\b|\[[A-Z]/.test(content)) continue;
+
+    annotations.push(...extractTraceAnnotations(content, file.relativePath.split(path.sep).join('/')));
+  }
+
+  return annotations;
+}
+
+/**
+ * Load requirements from a feature registry CSV
+ */
+export function loadRegistryRequirements(registryPath: string, rootPath?: string): Requirement[] {
+  const records = parseCSVRecords(fs.readFileSync(registryPath, 'utf-8'));
+  const sourcePath = rootPath ? path.relative(rootPath, registryPath) : registryPath;
+
+  return records
+    .filter(record => record.id && record.id !== 'PROJECT_META')
+    .map(record => ({
+      id: record.id,
+      title: record.name || record.description || record.id,
+      sources: [{ kind: 'registry' as const, path: sourcePath }],
+      ...(record.status ? { plannedStatus: record.status } : {})
+    }));
+}
+
+/**
+ * Requirements from planning checklist items; the id is the first PM-12-style token
+ */
+export function loadPlanRequirements(rootPath: string, planningPaths?: string[]): Requirement[] {
+  return loadPlanningDocuments(rootPath, planningPaths).flatMap(plan =>
+    plan.features.map(feature => {
+      const id = feature.description.match(REQUIREMENT_ID)?.[0];
+      return {
+        ...(id ? { id } : {}),
+        title: feature.description,
+        sources: [{ kind: 'plan' as const, path: path.relative(rootPath, plan.path), line: feature.line }],
+        plannedStatus: feature.checked ? 'checked' : 'unchecked'
+      };
+    })
+  );
+}
+
+/**
+ * Join requirements with annotations
+ * Requirements sharing an id (e.g. a registry feature and its plan item) become one row.
+ */
+export function buildTraceabilityMatrix(
+  requirements: Requirement[],
+  annotations: TraceAnnotation[],
+  rootPath: string = ''
+): TraceabilityMatrix {
+  const rows: RequirementTrace[] = [];
+  const byId = new Map<string, RequirementTrace>();
+
+  for (const requirement of requirements) {
+    const existing = requirement.id ? byId.get(requirement.id) : undefined;
+    if (existing) {
+      existing.sources.push(...requirement.sources);
+      continue;
+    }
+
+    const row: RequirementTrace = {
+      ...requirement,
+      sources: [...requirement.sources],
+      status: 'untraced',
+      implementations: [],
+      tests: []
+    };
+    rows.push(row);
+    if (requirement.id) byId.set(requirement.id, row);
+  }
+
+  const unmatched: TraceAnnotation[] = [];
+  for (const annotation of annotations) {
+    const row = byId.get(annotation.id);
+    if (!row) {
+      unmatched.push(annotation);
+    } else if (annotation.kind === 'test') {
+      row.tests.push(annotation);
+    } else {
+      row.implementations.push(annotation);
+    }
+  }
+
+  for (const row of rows) {
+    row.status = row.tests.length > 0 ? 'tested' : row.implementations.length > 0 ? 'traced' : 'untraced';
+  }
+
+  return {
+    rootPath,
+    generatedAt: new Date().toISOString(),
+    requirements: rows,
+    unmatched,
+    summary: {
+      total: rows.length,
+      tested: rows.filter(row => row.status === 'tested').length,
+      traced: rows.filter(row => row.status === 'traced').length,
+      untraced: rows.filter(row => row.status === 'untraced').length,
+      withoutId: rows.filter(row => !row.id).length,
+      annotatedFiles: new Set(annotations.map(annotation => annotation.file)).size
+    }
+  };
+}
+
+/**
+ * Build the traceability matrix for a project
+ */
+export async function analyzeTraceability(options: TraceabilityOptions): Promise<TraceabilityMatrix> {
+  const { rootPath, planningPaths, registryPath, excludePatterns } = options;
+
+  const requirements = [
+    ...(registryPath ? loadRegistryRequirements(registryPath, rootPath) : []),
+    ...loadPlanRequirements(rootPath, planningPaths)
+  ];
+  const annotations = await collectTraceAnnotations(rootPath, excludePatterns);
+
+  return buildTraceabilityMatrix(requirements, annotations, rootPath);
+}
@@ -0,0 +1,517 @@
+/**
+ * Synthetic monitoring - re-runs a verification spec on a schedule
+ *
+ * Every run's results are appended to a history file (one JSON object per
+ * line). From the history the monitor computes uptime and pass rates per
+ * feature and check, and marks checks that keep flipping between passing and
+ * failing as flaky. A feature's status ignores its flaky checks, so hooks
+ * fire on real status changes only. `status.json` is rewritten after every
+ * run for the dashboard.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { EventEmitter } from 'events';
+import { CheckResult, VerificationResult, VERIFICATION_TIERS } from './ProductionVerifier';
+import { Schedule } from '../utils/schedule';
+
+export const MONITOR_HISTORY_FILE = 'history.jsonl';
+export const MONITOR_STATUS_FILE = 'status.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest delay setTimeout takes; Node fires longer ones after 1ms */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export interface MonitorRun {
+  timestamp: string;
+  environment: string;
+  results: VerificationResult[];
+}
+
+export interface CheckStats {
+  /** `<tier>:<check name>` */
+  id: string;
+  tier: 'tier1' | 'tier2' | 'tier3';
+  name: string;
+  runs: number;
+  passed: number;
+  /** % of runs the check passed */
+  passRate: number;
+  /** Times the check flipped between passing and failing in the flaky window */
+  flips: number;
+  flaky: boolean;
+  lastPassed: boolean;
+  lastMessage: string;
+}
+
+export interface FeatureStats {
+  featureId: string;
+  featureName: string;
+  runs: number;
+  /** % of runs the feature's page was up: it loaded and Tier 1 didn't fail outright */
+  uptime: number;
+  /** % of runs every check passed */
+  passRate: number;
+  /** Status at the last run, ignoring flaky checks */
+  status: 'pass' | 'fail';
+  /** When `status` last changed (the first run, if it never did) */
+  since: string;
+  lastRun: string;
+  lastOverall: VerificationResult['overall'];
+  lastError?: string;
+  /** Names of the flaky checks */
+  flaky: string[];
+  checks: CheckStats[];
+}
+
+export interface MonitorStatus {
+  generated: string;
+  environment?: string;
+  schedule?: string;
+  nextRun?: string;
+  runs: number;
+  firstRun?: string;
+  lastRun?: string;
+  /** Averages over the features */
+  uptime: number;
+  passRate: number;
+  features: FeatureStats[];
+  /** Latest runs, oldest first */
+  recent: Array<{ timestamp: string; passed: number; failed: number; partial: number; duration: number }>;
+}
+
+export interface FlakinessOptions {
+  /** Latest runs of a check looked at for flakiness (default: 10) */
+  flakyWindow?: number;
+  /** Flips within the window that make a check flaky (default: 3) */
+  flakyFlips?: number;
+}
+
+export interface StatusChange {
+  type: 'status_change';
+  timestamp: string;
+  environment: string;
+  featureId: string;
+  featureName: string;
+  previous: 'pass' | 'fail';
+  current: 'pass' | 'fail';
+  error?: string;
+  failingChecks: Array<{ name: string; message: string }>;
+  flakyChecks: string[];
+  uptime: number;
+  passRate: number;
+}
+
+/**
+ * Append a run to the history file
+ */
+export function appendMonitorRun(historyPath: string, run: MonitorRun): void {
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, JSON.stringify(run) + '\n', 'utf-8');
+}
+
+/**
+ * Load all runs, oldest first; unreadable lines are skipped
+ */
+export function loadMonitorHistory(historyPath: string): MonitorRun[] {
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const runs: MonitorRun[] = [];
+  for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as MonitorRun);
+    } catch {
+      // Partially written line - ignore it
+    }
+  }
+
+  return runs.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Drop runs older than `cutoff` from the history file
+ * @returns The runs kept
+ */
+export function pruneMonitorHistory(historyPath: string, cutoff: Date): MonitorRun[] {
+  const runs = loadMonitorHistory(historyPath);
+  const kept = runs.filter(run => new Date(run.timestamp) >= cutoff);
+  if (kept.length < runs.length) {
+    fs.writeFileSync(historyPath, kept.map(run => JSON.stringify(run) + '\n').join(''), 'utf-8');
+  }
+  return kept;
+}
+
+function checksOf(result: VerificationResult): Array<{ id: string; tier: CheckStats['tier']; check: CheckResult }> {
+  return VERIFICATION_TIERS.flatMap(([tier]) =>
+    result[tier].checks.map(check => ({ id: `${tier}:${check.name}`, tier, check }))
+  );
+}
+
+function isUp(result: VerificationResult): boolean {
+  return !result.error && result.tier1.status !== 'fail';
+}
+
+/**
+ * A feature's status with flaky checks ignored
+ */
+export function effectiveStatus(result: VerificationResult, flaky: Set<string>): 'pass' | 'fail' {
+  if (result.error) return 'fail';
+  return checksOf(result).some(({ id, check }) => !check.passed && !flaky.has(id)) ? 'fail' : 'pass';
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+function flipsIn(statuses: boolean[]): number {
+  let flips = 0;
+  for (let i = 1; i < statuses.length; i++) {
+    if (statuses[i] !== statuses[i - 1]) flips++;
+  }
+  return flips;
+}
+
+/**
+ * Uptime, pass rates and flakiness per feature and check
+ */
+export function computeMonitorStatus(runs: MonitorRun[], options: FlakinessOptions = {}): MonitorStatus {
+  const { flakyWindow = 10, flakyFlips = 3 } = options;
+  const byFeature = new Map<string, Array<{ timestamp: string; result: VerificationResult }>>();
+
+  for (const run of runs) {
+    for (const result of run.results) {
+      const entries = byFeature.get(result.featureId) || [];
+      entries.push({ timestamp: run.timestamp, result });
+      byFeature.set(result.featureId, entries);
+    }
+  }
+
+  const features: FeatureStats[] = [];
+  for (const [featureId, entries] of byFeature) {
+    const checkRuns = new Map<string, { tier: CheckStats['tier']; name: string; statuses: boolean[]; last: CheckResult }>();
+    for (const { result } of entries) {
+      for (const { id, tier, check } of checksOf(result)) {
+        const stats = checkRuns.get(id) || { tier, name: check.name, statuses: [], last: check };
+        stats.statuses.push(check.passed);
+        stats.last = check;
+        checkRuns.set(id, stats);
+      }
+    }
+
+    const checks: CheckStats[] = [...checkRuns].map(([id, { tier, name, statuses, last }]) => {
+      const passed = statuses.filter(Boolean).length;
+      const flips = flipsIn(statuses.slice(-flakyWindow));
+      return {
+        id,
+        tier,
+        name,
+        runs: statuses.length,
+        passed,
+        passRate: percent(passed, statuses.length),
+        flips,
+        flaky: flips >= flakyFlips,
+        lastPassed: last.passed,
+        lastMessage: last.message
+      };
+    });
+
+    const flaky = new Set(checks.filter(check => check.flaky).map(check => check.id));
+    const statuses = entries.map(({ result }) => effectiveStatus(result, flaky));
+    let since = entries[0].timestamp;
+    for (let i = 1; i < entries.length; i++) {
+      if (statuses[i] !== statuses[i - 1]) since = entries[i].timestamp;
+    }
+
+    const last = entries[entries.length - 1];
+    features.push({
+      featureId,
+      featureName: last.result.featureName,
+      runs: entries.length,
+      uptime: percent(entries.filter(({ result }) => isUp(result)).length, entries.length),
+      passRate: percent(entries.filter(({ result }) => result.overall === 'pass').length, entries.length),
+      status: statuses[statuses.length - 1],
+      since,
+      lastRun: last.timestamp,
+      lastOverall: last.result.overall,
+      lastError: last.result.error,
+      flaky: checks.filter(check => check.flaky).map(check => check.name),
+      checks
+    });
+  }
+
+  const average = (values: number[]) => values.length === 0 ? 0 : Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10;
+  return {
+    generated: new Date().toISOString(),
+    environment: runs[runs.length - 1]?.environment,
+    runs: runs.length,
+    firstRun: runs[0]?.timestamp,
+    lastRun: runs[runs.length - 1]?.timestamp,
+    uptime: average(features.map(feature => feature.uptime)),
+    passRate: average(features.map(feature => feature.passRate)),
+    features,
+    recent: runs.slice(-50).map(run => ({
+      timestamp: run.timestamp,
+      passed: run.results.filter(result => result.overall === 'pass').length,
+      failed: run.results.filter(result => result.overall === 'fail').length,
+      partial: run.results.filter(result => result.overall === 'partial').length,
+      duration: run.results.reduce((sum, result) => sum + (result.duration || 0), 0)
+    }))
+  };
+}
+
+/**
+ * Features whose status (flaky checks ignored) differs between the previous
+ * runs and the latest one. Flakiness is judged with the latest run included,
+ * so a check that has just become flaky doesn't raise an alert.
+ */
+export function detectStatusChanges(previousRuns: MonitorRun[], latest: MonitorRun, options: FlakinessOptions = {}): StatusChange[] {
+  const status = computeMonitorStatus([...previousRuns, latest], options);
+  const changes: StatusChange[] = [];
+
+  for (const result of latest.results) {
+    let before: VerificationResult | undefined;
+    for (let i = previousRuns.length - 1; i >= 0 && !before; i--) {
+      before = previousRuns[i].results.find(previous => previous.featureId === result.featureId);
+    }
+    const stats = status.features.find(feature => feature.featureId === result.featureId);
+    if (!before || !stats) continue;
+
+    const flaky = new Set(stats.checks.filter(check => check.flaky).map(check => check.id));
+    const previous = effectiveStatus(before, flaky);
+    const current = effectiveStatus(result, flaky);
+    if (previous === current) continue;
+
+    changes.push({
+      type: 'status_change',
+      timestamp: latest.timestamp,
+      environment: latest.environment,
+      featureId: result.featureId,
+      featureName: result.featureName,
+      previous,
+      current,
+      error: result.error,
+      failingChecks: checksOf(result)
+        .filter(({ id, check }) => !check.passed && !flaky.has(id))
+        .map(({ check }) => ({ name: check.name, message: check.message })),
+      flakyChecks: stats.flaky,
+      uptime: stats.uptime,
+      passRate: stats.passRate
+    });
+  }
+
+  return changes;
+}
+
+export interface VerificationMonitorOptions {
+  /** Runs one verification pass */
+  verify: () => Promise<VerificationResult[]>;
+  environment: string;
+  schedule: Schedule;
+  /** Directory for history.jsonl and status.json */
+  directory: string;
+  /** Days of history to keep (default: 30) */
+  retainDays?: number;
+  /** Shell command run on each status change; the change is passed as JSON on stdin */
+  onChangeCommand?: string;
+  /** URL each status change is POSTed to as JSON */
+  webhookUrl?: string;
+  /** Working directory for the change command */
+  cwd?: string;
+  flakiness?: FlakinessOptions;
+}
+
+export class VerificationMonitor extends EventEmitter {
+  private options: VerificationMonitorOptions;
+  private runs: MonitorRun[] = [];
+  private loaded = false;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<unknown> = Promise.resolve();
+  private stopped = false;
+  private nextRun?: Date;
+
+  constructor(options: VerificationMonitorOptions) {
+    super();
+    this.options = { retainDays: 30, ...options };
+  }
+
+  get historyPath(): string {
+    return path.join(this.options.directory, MONITOR_HISTORY_FILE);
+  }
+
+  get statusPath(): string {
+    return path.join(this.options.directory, MONITOR_STATUS_FILE);
+  }
+
+  /**
+   * Load the history, run once right away and then on the schedule
+   */
+  async start(): Promise<MonitorRun> {
+    this.stopped = false;
+    this.runs = this.prune();
+    this.loaded = true;
+    const run = await this.runOnce();
+    this.scheduleNext();
+    return run;
+  }
+
+  /**
+   * Stop scheduling and wait for a run in progress
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running.catch(() => undefined);
+  }
+
+  /**
+   * Run the spec once: record the results, rewrite status.json and fire
+   * hooks for status changes
+   */
+  async runOnce(): Promise<MonitorRun> {
+    const pass = (async () => {
+      if (!this.loaded) {
+        this.runs = this.prune();
+        this.loaded = true;
+      }
+      const previousRuns = this.runs;
+      const run: MonitorRun = {
+        timestamp: new Date().toISOString(),
+        environment: this.options.environment,
+        results: await this.options.verify()
+      };
+
+      appendMonitorRun(this.historyPath, run);
+      this.runs = [...previousRuns, run];
+
+      // Prune every 100 runs rather than rewriting the file every run
+      if (this.runs.length % 100 === 0) {
+        this.runs = this.prune();
+      }
+
+      const status = this.writeStatus();
+      this.emit('run', run, status);
+
+      const flakyBefore = new Set(computeMonitorStatus(previousRuns, this.options.flakiness).features
+        .flatMap(feature => feature.checks.filter(check => check.flaky).map(check => `${feature.featureId} ${check.id}`)));
+      for (const feature of status.features) {
+        for (const check of feature.checks) {
+          if (check.flaky && !flakyBefore.has(`${feature.featureId} ${check.id}`)) {
+            this.emit('flaky', feature, check);
+          }
+        }
+      }
+
+      for (const change of detectStatusChanges(previousRuns, run, this.options.flakiness)) {
+        this.emit('statusChange', change);
+        await this.runHooks(change);
+      }
+      return run;
+    })();
+
+    this.running = pass;
+    return pass;
+  }
+
+  /**
+   * Current status from the loaded history
+   */
+  getStatus(): MonitorStatus {
+    return {
+      ...computeMonitorStatus(this.runs, this.options.flakiness),
+      schedule: this.options.schedule.description,
+      nextRun: this.nextRun?.toISOString()
+    };
+  }
+
+  /**
+   * Prune the history file and keep this environment's runs, so a shared
+   * directory never compares one environment's results with another's
+   */
+  private prune(): MonitorRun[] {
+    return pruneMonitorHistory(this.historyPath, new Date(Date.now() - (this.options.retainDays as number) * DAY_MS))
+      .filter(run => run.environment === this.options.environment);
+  }
+
+  private writeStatus(): MonitorStatus {
+    const status = this.getStatus();
+    fs.mkdirSync(this.options.directory, { recursive: true });
+    fs.writeFileSync(this.statusPath, JSON.stringify(status, null, 2), 'utf-8');
+    return status;
+  }
+
+  /**
+   * Wait for the next scheduled time; runs never overlap, so a slot that
+   * passed while a run was still going is skipped
+   */
+  private scheduleNext(): void {
+    if (this.stopped) return;
+
+    this.nextRun = this.options.schedule.next(new Date());
+    this.writeStatus();
+    this.armTimer(this.nextRun);
+  }
+
+  /**
+   * Run at `at`; waits longer than setTimeout allows (about 24.8 days, e.g.
+   * @monthly) are split into steps
+   */
+  private armTimer(at: Date): void {
+    const delay = at.getTime() - Date.now();
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (Date.now() < at.getTime()) {
+        this.armTimer(at);
+        return;
+      }
+      try {
+        await this.runOnce();
+      } catch (error) {
+        this.emit('error', error);
+      }
+      this.scheduleNext();
+    }, Math.min(Math.max(0, delay), MAX_TIMEOUT_MS));
+  }
+
+  /**
+   * Run the change command and webhook for a status change
+   */
+  private async runHooks(change: StatusChange): Promise<void> {
+    const { onChangeCommand, webhookUrl, cwd } = this.options;
+    const payload = JSON.stringify(change);
+
+    if (onChangeCommand) {
+      await new Promise<void>(resolve => {
+        const child = exec(onChangeCommand, { cwd }, (error) => {
+          if (error) {
+            this.emit('hookError', new Error(`Change command failed: ${error.message}`));
+          }
+          resolve();
+        });
+        child.stdin?.end(payload);
+      });
+    }
+
+    if (webhookUrl) {
+      try {
+        const response = await fetch(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: payload
+        });
+        if (!response.ok) {
+          this.emit('hookError', new Error(`Webhook returned status ${response.status}`));
+        }
+      } catch (error: any) {
+        this.emit('hookError', new Error(`Webhook failed: ${error.message}`));
+      }
+    }
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Verification spec files (YAML or JSON)
+ *
+ * Declares the features to verify, their Tier 1/2/3 checks and the
+ * environments they run against. URLs starting with `/` are resolved against
+ * the selected environment's base URL, and `${NAME}` / `${NAME:-default}`
+ * pull base URLs and secrets from environment variables. The file is
+ * validated up front and every problem is reported at once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Tier1Check, Tier2Check, Tier3Check, VerificationOptions, VerificationTarget } from './ProductionVerifier';
+import { variableReferences } from './apiChecks';
+import type { DeploymentThresholdOverrides } from './DeploymentWorkflow';
+import { parsePath } from '../utils/jsonPath';
+
+export interface SpecEnvironment {
+  /** Base URL that relative feature and check URLs resolve against */
+  baseUrl: string;
+  /** Auth profile for every feature in this environment */
+  auth?: string;
+}
+
+export interface FeatureSpec {
+  id: string;
+  name?: string;
+  /** Page the feature lives on (default: `/`) */
+  url?: string;
+  /** Auth profile, overriding the environment's */
+  auth?: string;
+  tier1?: Tier1Check[];
+  tier2?: Tier2Check[];
+  tier3?: Tier3Check[];
+}
+
+export interface VerificationSpec {
+  environments: Record<string, SpecEnvironment>;
+  options: VerificationOptions;
+  /** Visual and performance risk thresholds for environment comparisons */
+  thresholds: DeploymentThresholdOverrides;
+  features: FeatureSpec[];
+  source?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+const TIER2_TYPES: Tier2Check['type'][] = ['button', 'form', 'link', 'interaction'];
+const TIER2_ACTIONS: NonNullable<Tier2Check['action']>[] = ['click', 'fill', 'submit'];
+const METHODS: NonNullable<Tier3Check['method']>[] = ['GET', 'POST', 'PUT', 'DELETE'];
+const TIER3_KEYS = [
+  'name', 'endpoint', 'method', 'body', 'expectedStatus', 'expectedData', 'headers',
+  'schema', 'assertions', 'expectedHeaders', 'maxLatency', 'capture'
+];
+const ASSERTION_KEYS = ['path', 'exists', 'equals', 'matches', 'contains', 'greaterThan', 'lessThan', 'length'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace `${NAME}` and `${NAME:-default}` in every string of a value
+ */
+export function interpolateEnv<T>(value: T, env: Env, field: string, errors: string[]): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        errors.push(`${field}: environment variable ${name} is not set`);
+        return '';
+      }
+      return resolved;
+    }) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, `${field}[${index}]`, errors)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, `${field}.${key}`, errors)])
+    ) as T;
+  }
+  return value;
+}
+
+function checkKeys(value: Record<string, any>, known: string[], field: string, errors: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      errors.push(`${field}: unknown option "${key}" (expected one of ${known.join(', ')})`);
+    }
+  }
+}
+
+function checkString(value: unknown, field: string, errors: string[], required = false): void {
+  if (value === undefined && !required) return;
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${field} must be a non-empty string`);
+  }
+}
+
+function checkList(value: unknown, field: string, errors: string[], validate: (entry: Record<string, any>, field: string) => void): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (!isPlainObject(entry)) {
+      errors.push(`${field}[${index}] must be an object`);
+    } else {
+      validate(entry, `${field}[${index}]`);
+    }
+  });
+}
+
+function validateFeature(feature: Record<string, any>, field: string, errors: string[]): void {
+  checkKeys(feature, ['id', 'name', 'url', 'auth', 'tier1', 'tier2', 'tier3'], field, errors);
+  checkString(feature.id, `${field}.id`, errors, true);
+  checkString(feature.name, `${field}.name`, errors);
+  checkString(feature.url, `${field}.url`, errors);
+  checkString(feature.auth, `${field}.auth`, errors);
+
+  checkList(feature.tier1, `${field}.tier1`, errors, (check, checkField) => {
+    checkKeys(check, ['url', 'expectedStatus', 'expectedTitle', 'expectedElement'], checkField, errors);
+    checkString(check.url, `${checkField}.url`, errors, true);
+    if (check.expectedStatus !== undefined && !Number.isInteger(check.expectedStatus)) {
+      errors.push(`${checkField}.expectedStatus must be an HTTP status code`);
+    }
+  });
+
+  checkList(feature.tier2, `${field}.tier2`, errors, (check, checkField) => {
+    checkKeys(check, ['type', 'selector', 'action', 'data', 'expectedResult'], checkField, errors);
+    if (!TIER2_TYPES.includes(check.type)) {
+      errors.push(`${checkField}.type must be one of ${TIER2_TYPES.join(', ')}`);
+    }
+    checkString(check.selector, `${checkField}.selector`, errors, true);
+    if (check.action !== undefined && !TIER2_ACTIONS.includes(check.action)) {
+      errors.push(`${checkField}.action must be one of ${TIER2_ACTIONS.join(', ')}`);
+    }
+    if (check.data !== undefined && !isPlainObject(check.data)) {
+      errors.push(`${checkField}.data must be an object of field values`);
+    }
+  });
+
+  // Variables captured by earlier checks, which later ones may use as {{name}}
+  const captured = new Set<string>();
+  checkList(feature.tier3, `${field}.tier3`, errors, (check, checkField) => {
+    checkKeys(check, TIER3_KEYS, checkField, errors);
+    checkString(check.name, `${checkField}.name`, errors);
+    checkString(check.endpoint, `${checkField}.endpoint`, errors, true);
+    if (check.method !== undefined && !METHODS.includes(check.method)) {
+      errors.push(`${checkField}.method must be one of ${METHODS.join(', ')}`);
+    }
+    if (check.expectedStatus !== undefined && !Number.isInteger(check.expectedStatus)) {
+      errors.push(`${checkField}.expectedStatus must be an HTTP status code`);
+    }
+    if (check.headers !== undefined && !isPlainObject(check.headers)) {
+      errors.push(`${checkField}.headers must be an object`);
+    }
+    if (check.schema !== undefined && !isPlainObject(check.schema) && typeof check.schema !== 'boolean') {
+      errors.push(`${checkField}.schema must be a JSON Schema object`);
+    }
+    if (check.maxLatency !== undefined && (!Number.isInteger(check.maxLatency) || check.maxLatency <= 0)) {
+      errors.push(`${checkField}.maxLatency must be a positive number of milliseconds`);
+    }
+    if (check.expectedHeaders !== undefined) {
+      if (!isPlainObject(check.expectedHeaders) ||
+          Object.values(check.expectedHeaders).some(value => typeof value !== 'string' && typeof value !== 'boolean')) {
+        errors.push(`${checkField}.expectedHeaders must map header names to true, false or a string`);
+      }
+    }
+
+    checkList(check.assertions, `${checkField}.assertions`, errors, (assertion, assertionField) => {
+      checkKeys(assertion, ASSERTION_KEYS, assertionField, errors);
+      checkJsonPath(assertion.path, `${assertionField}.path`, errors);
+      if (assertion.matches !== undefined) {
+        try {
+          new RegExp(assertion.matches);
+        } catch {
+          errors.push(`${assertionField}.matches must be a regular expression`);
+        }
+      }
+      for (const key of ['greaterThan', 'lessThan', 'length']) {
+        if (assertion[key] !== undefined && typeof assertion[key] !== 'number') {
+          errors.push(`${assertionField}.${key} must be a number`);
+        }
+      }
+    });
+
+    for (const name of variableReferences([check.endpoint, check.headers, check.body, check.assertions])) {
+      if (!captured.has(name)) {
+        errors.push(`${checkField} uses {{${name}}}, which no earlier check captures`);
+      }
+    }
+    if (check.capture !== undefined) {
+      if (!isPlainObject(check.capture)) {
+        errors.push(`${checkField}.capture must map variable names to a JSONPath or header:<name>`);
+      } else {
+        for (const [name, source] of Object.entries(check.capture)) {
+          if (!/^[\w.-]+$/.test(name)) {
+            errors.push(`${checkField}.capture: "${name}" is not a valid variable name`);
+          }
+          if (typeof source !== 'string' || !source.startsWith('header:')) {
+            checkJsonPath(source, `${checkField}.capture.${name}`, errors);
+          }
+          captured.add(name);
+        }
+      }
+    }
+  });
+}
+
+function checkJsonPath(value: unknown, field: string, errors: string[]): void {
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a JSONPath such as $.data.id`);
+    return;
+  }
+  try {
+    parsePath(value);
+  } catch (error: any) {
+    errors.push(`${field}: ${error.message}`);
+  }
+}
+
+function validateThresholds(thresholds: unknown, errors: string[]): void {
+  if (thresholds === undefined) return;
+  if (!isPlainObject(thresholds)) {
+    errors.push('thresholds must be an object');
+    return;
+  }
+
+  checkKeys(thresholds, ['visual', 'pixelTolerance', 'timing', 'timingNoise', 'requests'], 'thresholds', errors);
+  for (const key of ['visual', 'timing', 'requests']) {
+    const limits = thresholds[key];
+    if (limits === undefined) continue;
+    if (!isPlainObject(limits)) {
+      errors.push(`thresholds.${key} must be an object of { medium, high } percentages`);
+      continue;
+    }
+    checkKeys(limits, ['medium', 'high'], `thresholds.${key}`, errors);
+    for (const level of ['medium', 'high']) {
+      if (limits[level] !== undefined && (typeof limits[level] !== 'number' || limits[level] < 0)) {
+        errors.push(`thresholds.${key}.${level} must be a non-negative percentage`);
+      }
+    }
+    if (typeof limits.medium === 'number' && typeof limits.high === 'number' && limits.medium > limits.high) {
+      errors.push(`thresholds.${key}.medium must not be above thresholds.${key}.high`);
+    }
+  }
+  const tolerance = thresholds.pixelTolerance;
+  if (tolerance !== undefined && (typeof tolerance !== 'number' || tolerance < 0 || tolerance > 1)) {
+    errors.push('thresholds.pixelTolerance must be between 0 and 1');
+  }
+  if (thresholds.timingNoise !== undefined && (typeof thresholds.timingNoise !== 'number' || thresholds.timingNoise < 0)) {
+    errors.push('thresholds.timingNoise must be a non-negative number of milliseconds');
+  }
+}
+
+/**
+ * Validate a parsed spec and resolve its environment variables
+ * @throws Error listing every problem found
+ */
+export function parseVerificationSpec(raw: unknown, env: Env = process.env, source?: string): VerificationSpec {
+  const label = source ? `Invalid verification spec ${source}` : 'Invalid verification spec';
+  if (!isPlainObject(raw)) {
+    throw new Error(`${label}:\n  - spec must be an object`);
+  }
+
+  const errors: string[] = [];
+  checkKeys(raw, ['environments', 'defaults', 'thresholds', 'features'], 'spec', errors);
+
+  const environments: Record<string, SpecEnvironment> = {};
+  if (raw.environments !== undefined && !isPlainObject(raw.environments)) {
+    errors.push('environments must be an object of { baseUrl, auth? } by name');
+  }
+  for (const [name, environment] of Object.entries(isPlainObject(raw.environments) ? raw.environments : {})) {
+    const field = `environments.${name}`;
+    const value = typeof environment === 'string' ? { baseUrl: environment } : environment;
+    if (!isPlainObject(value)) {
+      errors.push(`${field} must be a base URL or an object`);
+      continue;
+    }
+    checkKeys(value, ['baseUrl', 'auth'], field, errors);
+    checkString(value.auth, `${field}.auth`, errors);
+    if (typeof value.baseUrl !== 'string') {
+      errors.push(`${field}.baseUrl must be a URL`);
+      continue;
+    }
+    environments[name] = { baseUrl: value.baseUrl, auth: typeof value.auth === 'string' ? value.auth : undefined };
+  }
+
+  const defaults = raw.defaults ?? {};
+  if (!isPlainObject(defaults)) {
+    errors.push('defaults must be an object');
+  } else {
+    checkKeys(defaults, ['timeout', 'retries', 'captureScreenshots', 'screenshotDir'], 'defaults', errors);
+    for (const key of ['timeout', 'retries']) {
+      const value = defaults[key];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        errors.push(`defaults.${key} must be a non-negative integer`);
+      }
+    }
+  }
+
+  validateThresholds(raw.thresholds, errors);
+
+  if (!Array.isArray(raw.features) || raw.features.length === 0) {
+    errors.push('features must be a non-empty array');
+  }
+  const features: FeatureSpec[] = [];
+  const seen = new Set<string>();
+  (Array.isArray(raw.features) ? raw.features : []).forEach((feature: unknown, index: number) => {
+    const field = `features[${index}]`;
+    if (!isPlainObject(feature)) {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+    validateFeature(feature, field, errors);
+    if (typeof feature.id === 'string') {
+      if (seen.has(feature.id)) {
+        errors.push(`${field}.id "${feature.id}" is used by another feature`);
+      }
+      seen.add(feature.id);
+    }
+    // validateFeature checked the shape; errors are thrown below
+    features.push(interpolateEnv<unknown>(feature, env, field, errors) as FeatureSpec);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`${label}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return {
+    environments,
+    options: isPlainObject(defaults) ? { ...defaults } : {},
+    thresholds: raw.thresholds ?? {},
+    features,
+    source
+  };
+}
+
+/**
+ * Read a spec file; `.yaml`/`.yml` files are parsed as YAML, anything else as JSON
+ */
+export function loadVerificationSpec(filePath: string, env: Env = process.env): VerificationSpec {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Verification spec not found: ${resolved}`);
+  }
+
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(resolved, 'utf-8');
+    raw = /\.ya?ml$/i.test(resolved) ? yaml.load(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid verification spec ${resolved}:\n  - ${error.message}`);
+  }
+
+  return parseVerificationSpec(raw, env, resolved);
+}
+
+/**
+ * Resolve an environment's base URL (interpolating it only when it is used)
+ */
+function resolveEnvironment(spec: VerificationSpec, name: string | undefined, env: Env): SpecEnvironment | undefined {
+  if (name === undefined) {
+    return undefined;
+  }
+  const environment = spec.environments[name];
+  if (!environment) {
+    const known = Object.keys(spec.environments);
+    throw new Error(`Unknown environment "${name}"${known.length ? ` (spec defines ${known.join(', ')})` : ' (spec defines no environments)'}`);
+  }
+
+  const errors: string[] = [];
+  const baseUrl = interpolateEnv(environment.baseUrl, env, `environments.${name}.baseUrl`, errors);
+  if (errors.length === 0 && !/^https?:\/\/[^/]/.test(baseUrl)) {
+    errors.push(`environments.${name}.baseUrl must be an http(s) URL, got "${baseUrl}"`);
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return { ...environment, baseUrl };
+}
+
+function resolveUrl(url: string, environment: SpecEnvironment | undefined, field: string): string {
+  if (/^https?:\/\//.test(url)) {
+    return url;
+  }
+  if (!environment) {
+    throw new Error(`${field} "${url}" is relative but no environment was selected`);
+  }
+  return new URL(url.replace(/^\//, ''), environment.baseUrl.endsWith('/') ? environment.baseUrl : `${environment.baseUrl}/`).toString();
+}
+
+/**
+ * The environment `verify` uses when none is named: `production`, or the
+ * spec's only environment
+ */
+export function defaultEnvironment(spec: VerificationSpec): string | undefined {
+  const names = Object.keys(spec.environments);
+  return spec.environments.production ? 'production' : names.length === 1 ? names[0] : undefined;
+}
+
+/**
+ * Build verification targets for an environment. With `stagingEnvironment`
+ * each target also gets the staging URL and auth profile, for comparisons.
+ */
+export function buildVerificationTargets(
+  spec: VerificationSpec,
+  environmentName: string | undefined = defaultEnvironment(spec),
+  stagingEnvironmentName?: string,
+  env: Env = process.env
+): VerificationTarget[] {
+  const environment = resolveEnvironment(spec, environmentName, env);
+  const staging = resolveEnvironment(spec, stagingEnvironmentName, env);
+
+  return spec.features.map((feature, index) => {
+    const field = `features[${index}]`;
+    const url = feature.url || '/';
+    return {
+      featureId: feature.id,
+      featureName: feature.name || feature.id,
+      productionUrl: resolveUrl(url, environment, `${field}.url`),
+      stagingUrl: staging ? resolveUrl(url, staging, `${field}.url`) : undefined,
+      auth: feature.auth ?? environment?.auth,
+      stagingAuth: staging ? feature.auth ?? staging.auth : undefined,
+      tier1: feature.tier1?.map((check, checkIndex) => ({
+        ...check,
+        url: resolveUrl(check.url, environment, `${field}.tier1[${checkIndex}].url`)
+      })),
+      tier2: feature.tier2,
+      tier3: feature.tier3?.map((check, checkIndex) => ({
+        ...check,
+        endpoint: resolveUrl(check.endpoint, environment, `${field}.tier3[${checkIndex}].endpoint`)
+      }))
+    };
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Code scanning formatters: SARIF 2.1.0 and Code Climate (GitLab code quality)
+ *
+ * Each TODO becomes a finding with a rule per pattern, a severity mapped from
+ * its priority and a fingerprint from its content-anchored hash, so the same
+ * TODO keeps its alert across scans even when lines move.
+ */
+
+import { pathToFileURL } from 'url';
+import { TodoItem, TodoPattern, ALL_PATTERNS } from '../core/patterns';
+import { ScanResult, ProcessedTodo, generateTodoHash } from '../core/scanner';
+import { IMPLEMENTATION_GAP_PATTERNS } from '../core/implementationGaps';
+
+export const TOOL_NAME = 'project-analyzer';
+export const TOOL_VERSION = '1.0.0';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<TodoItem['priority'], 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+const CODE_CLIMATE_SEVERITIES: Record<TodoItem['priority'], 'major' | 'minor' | 'info'> = {
+  high: 'major',
+  medium: 'minor',
+  low: 'info'
+};
+
+/**
+ * Code Climate categories by pattern name; anything else is Clarity
+ */
+const CODE_CLIMATE_CATEGORIES: Record<string, string> = {
+  FIXME: 'Bug Risk',
+  BUG: 'Bug Risk',
+  HACK: 'Bug Risk',
+  XXX: 'Bug Risk',
+  OPTIMIZE: 'Performance',
+  PERF: 'Performance',
+  REFACTOR: 'Complexity',
+  SECURITY: 'Security'
+};
+
+/**
+ * Rule id for a TODO type, e.g. "FIXME" -> "todo/fixme", "Unchecked Task" -> "todo/unchecked-task"
+ */
+export function getRuleId(type: string): string {
+  return `todo/${type.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+function getFingerprint(todo: TodoItem): string {
+  return (todo as ProcessedTodo).hash || generateTodoHash(todo);
+}
+
+function toUri(file: string): string {
+  return encodeURI(file.split('\\').join('/'));
+}
+
+function describeTodo(todo: TodoItem): string {
+  return `${todo.type}: ${todo.content}`;
+}
+
+/**
+ * Find the pattern behind each TODO type, falling back to the TODO itself
+ */
+function getRulePatterns(todos: TodoItem[], patterns: TodoPattern[]): TodoPattern[] {
+  const byName = new Map([...IMPLEMENTATION_GAP_PATTERNS, ...patterns].map(pattern => [pattern.name, pattern]));
+  const rules = new Map<string, TodoPattern>();
+
+  for (const todo of todos) {
+    if (rules.has(todo.type)) continue;
+    rules.set(todo.type, byName.get(todo.type) || {
+      name: todo.type,
+      regex: /$^/,
+      priority: todo.priority,
+      category: todo.category === 'markdown' ? 'markdown' : 'code'
+    });
+  }
+
+  return Array.from(rules.values());
+}
+
+/**
+ * Format scan results as a SARIF 2.1.0 log
+ */
+export function formatAsSARIF(result: ScanResult, patterns: TodoPattern[] = ALL_PATTERNS): string {
+  const rulePatterns = getRulePatterns(result.todos, patterns);
+  const ruleIndex = new Map(rulePatterns.map((pattern, index) => [pattern.name, index]));
+
+  const rules = rulePatterns.map(pattern => {
+    const description = pattern.description || `${pattern.name} comment`;
+    return {
+      id: getRuleId(pattern.name),
+      name: pattern.name.replace(/[^A-Za-z0-9]+/g, ''),
+      shortDescription: { text: description },
+      fullDescription: { text: `${description} (${pattern.name}) left in ${pattern.category === 'markdown' ? 'documentation' : 'code'}.` },
+      defaultConfiguration: { level: SARIF_LEVELS[pattern.priority] },
+      properties: {
+        tags: ['todo', pattern.category],
+        priority: pattern.priority
+      }
+    };
+  });
+
+  const results = result.todos.map(todo => ({
+    ruleId: getRuleId(todo.type),
+    ruleIndex: ruleIndex.get(todo.type),
+    level: SARIF_LEVELS[todo.priority],
+    message: { text: describeTodo(todo) },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: toUri(todo.file), uriBaseId: 'SRCROOT' },
+        region: {
+          startLine: todo.line,
+          ...(todo.column ? { startColumn: todo.column } : {})
+        }
+      }
+    }],
+    partialFingerprints: { 'todoHash/v1': getFingerprint(todo) },
+    properties: {
+      priority: todo.priority,
+      ...(todo.owners && todo.owners.length > 0 ? { owners: todo.owners } : {}),
+      ...(todo.dueDate ? { dueDate: todo.dueDate } : {}),
+      ...(todo.ticket ? { ticket: todo.ticket } : {}),
+      ...(todo.blame && !todo.blame.uncommitted ? { ageDays: todo.blame.ageDays } : {})
+    }
+  }));
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: TOOL_VERSION,
+          rules
+        }
+      },
+      originalUriBaseIds: {
+        SRCROOT: { uri: `${pathToFileURL(result.rootPath).href.replace(/\/?$/, '/')}` }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: result.scanDate
+      }],
+      results
+    }]
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Format scan results as a Code Climate issue list (GitLab code quality report)
+ */
+export function formatAsCodeClimate(result: ScanResult, patterns: TodoPattern[] = ALL_PATTERNS): string {
+  const descriptions = new Map([...IMPLEMENTATION_GAP_PATTERNS, ...patterns].map(pattern => [pattern.name, pattern.description]));
+
+  const issues = result.todos.map(todo => {
+    const help = descriptions.get(todo.type);
+    return {
+      type: 'issue',
+      check_name: getRuleId(todo.type),
+      description: describeTodo(todo),
+      ...(help ? { content: { body: `${help} (${todo.type}).` } } : {}),
+      categories: [CODE_CLIMATE_CATEGORIES[todo.type.toUpperCase()] || 'Clarity'],
+      location: {
+        path: todo.file.split('\\').join('/'),
+        lines: { begin: todo.line }
+      },
+      severity: CODE_CLIMATE_SEVERITIES[todo.priority],
+      fingerprint: getFingerprint(todo)
+    };
+  });
+
+  return JSON.stringify(issues, null, 2);
+}
@@ -4,6 +4,8 @@
 
 import { CompletionReport, CompletionAnalysis } from '../core/completionDetector';
 import { getCompletionStats } from '../core/completionDetector';
+import { CleanupAction, CleanupPlan } from '../core/completionCleanup';
+import { CalibrationResult } from '../core/completionCalibration';
 
 /**
  * Format completion report as markdown
@@ -191,4 +193,96 @@ export function generateCleanupActionList(
       todo: a.todo.content
     }))
     .sort((a, b) => b.confidence - a.confidence);
-}
\ No newline at end of file
+}
+const CLEANUP_ACTION_LABELS: Record<CleanupAction, string> = {
+  delete: '🗑️ Removed',
+  trim: '✂️ Removed comment',
+  check: '☑️ Checked',
+  move: '📦 Moved to Done'
+};
+
+/**
+ * Summarize the changes made (or planned) by `cleanup --apply`
+ */
+export function formatCleanupSummary(plan: CleanupPlan): string {
+  const lines: string[] = [];
+  const changed = plan.files.reduce((sum, file) => sum + file.changes.length, 0);
+
+  lines.push('## 🧹 Cleanup Changes');
+  lines.push('');
+  lines.push(`**Retired:** ${changed} TODOs in ${plan.files.length} files`);
+  if (plan.skipped.length > 0) {
+    lines.push(`**Skipped:** ${plan.skipped.length}`);
+  }
+  if (plan.declined.length > 0) {
+    lines.push(`**Declined:** ${plan.declined.length}`);
+  }
+  lines.push('');
+
+  for (const file of plan.files) {
+    lines.push(`### ${file.file}`);
+    for (const change of file.changes) {
+      lines.push(`- ${CLEANUP_ACTION_LABELS[change.action]} line ${change.line}: [${change.todo.type}] ${change.todo.content} (${change.confidence.toFixed(0)}%)`);
+    }
+    lines.push('');
+  }
+
+  if (plan.skipped.length > 0) {
+    lines.push('### ⏭️ Skipped');
+    for (const skip of plan.skipped) {
+      lines.push(`- ${skip.todo.file}:${skip.todo.line} [${skip.todo.type}] ${skip.todo.content} - ${skip.reason}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Format a calibration result (markdown or json)
+ */
+export function formatCalibrationReport(result: CalibrationResult, format: string = 'markdown'): string {
+  if (format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const lines: string[] = [];
+
+  lines.push('# ⚖️ Completion Confidence Calibration');
+  lines.push('');
+  lines.push(`**Labels:** ${result.labels} (${result.correct} correct, ${result.incorrect} incorrect)`);
+  lines.push(`**Brier score:** ${result.defaultLoss.toFixed(3)} → ${result.calibratedLoss.toFixed(3)} (lower is better)`);
+  if (result.suggested) {
+    lines.push(`**Suggested --min-confidence:** ${result.suggested.threshold} (precision ${formatRate(result.suggested.precision)}, recall ${formatRate(result.suggested.recall)})`);
+  }
+  lines.push('');
+
+  lines.push('## Precision / Recall by --min-confidence');
+  lines.push('');
+  lines.push('| Threshold | Flagged | Precision | Recall | Default precision | Default recall |');
+  lines.push('|-----------|---------|-----------|--------|-------------------|----------------|');
+  result.after.forEach((metric, index) => {
+    const before = result.before[index];
+    lines.push(`| ${metric.threshold} | ${metric.flagged} | ${formatRate(metric.precision)} | ${formatRate(metric.recall)} | ${formatRate(before.precision)} | ${formatRate(before.recall)} |`);
+  });
+  lines.push('');
+
+  lines.push('## Weight Changes');
+  lines.push('');
+  if (result.changes.length === 0) {
+    lines.push('_The default weights already fit the feedback best._');
+  } else {
+    lines.push('| Weight | Default | Calibrated |');
+    lines.push('|--------|---------|------------|');
+    for (const change of result.changes) {
+      lines.push(`| ${change.name} | ${change.from} | ${change.to} |`);
+    }
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,145 @@
+/**
+ * Formatters for extracted design tokens and design-vs-implementation drift
+ */
+
+import { DesignTokenExtraction, DriftStatus, TokenDriftReport } from '../core/designTokens';
+import { Typography } from '../types/features';
+
+const STATUS_LABELS: Record<DriftStatus, string> = {
+  match: '✅ Match',
+  drift: '⚠️ Drift',
+  missing: '❌ Missing'
+};
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatTypographyLines(typography: Typography): string[] {
+  const join = (values: Array<string | number>, unit = '') =>
+    values.length > 0 ? values.map(v => `${v}${unit}`).join(', ') : '-';
+  return [
+    `- **Font families:** ${join(typography.fontFamilies)}`,
+    `- **Heading sizes:** ${join(typography.headingSizes, 'px')}`,
+    `- **Body sizes:** ${join(typography.bodySizes, 'px')}`,
+    `- **Line heights:** ${join(typography.lineHeights)}`,
+    `- **Font weights:** ${join(typography.fontWeights)}`
+  ];
+}
+
+/**
+ * Format extracted design tokens as markdown
+ */
+export function formatDesignTokensAsMarkdown(tokens: DesignTokenExtraction): string {
+  const lines: string[] = [];
+
+  lines.push('# Design Tokens');
+  lines.push('');
+  lines.push(`**Sources:** ${tokens.sources.join(', ')}`);
+  lines.push('');
+
+  lines.push('## Palette');
+  lines.push('');
+  lines.push('| Color | Role | Coverage |');
+  lines.push('|-------|------|----------|');
+  for (const color of tokens.palette) {
+    lines.push(`| \`${color.hex}\` | ${color.role} | ${formatPercent(color.coverage)} |`);
+  }
+  lines.push('');
+
+  if (tokens.typography) {
+    lines.push('## Typography');
+    lines.push('');
+    lines.push(...formatTypographyLines(tokens.typography));
+    lines.push('');
+  }
+
+  if (tokens.warnings.length > 0) {
+    lines.push('## ⚠️ Warnings');
+    lines.push('');
+    tokens.warnings.forEach(warning => lines.push(`- ${warning}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a drift report as markdown
+ */
+export function formatDriftReportAsMarkdown(report: TokenDriftReport): string {
+  const lines: string[] = [];
+  const { summary } = report;
+
+  lines.push('# Design Token Drift');
+  lines.push('');
+  lines.push(`**Design:** ${report.design}`);
+  lines.push(`**Implementation:** ${report.implementation}`);
+  lines.push('');
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- ${STATUS_LABELS.match}: ${summary.match}`);
+  lines.push(`- ${STATUS_LABELS.drift}: ${summary.drift}`);
+  lines.push(`- ${STATUS_LABELS.missing}: ${summary.missing}`);
+  lines.push('');
+
+  lines.push('## Colors');
+  lines.push('');
+  lines.push('| Design | Role | Nearest in code | ΔE | Status |');
+  lines.push('|--------|------|-----------------|----|--------|');
+  for (const color of report.colors) {
+    const nearest = color.nearest
+      ? `\`${color.nearest.hex}\`${color.nearest.name ? ` (${color.nearest.name})` : ''}`
+      : '-';
+    lines.push(`| \`${color.design.hex}\` | ${color.design.name || '-'} | ${nearest} | ${color.deltaE ?? '-'} | ${STATUS_LABELS[color.status]} |`);
+  }
+  lines.push('');
+
+  if (report.typography.length > 0) {
+    lines.push('## Typography');
+    lines.push('');
+    lines.push('| Token | Design | Nearest in code | Status |');
+    lines.push('|-------|--------|-----------------|--------|');
+    for (const item of report.typography) {
+      lines.push(`| ${item.kind} | ${item.design} | ${item.nearest || '-'} | ${STATUS_LABELS[item.status]} |`);
+    }
+    lines.push('');
+  }
+
+  if (report.undocumented.length > 0) {
+    lines.push('## Colors Not in the Design');
+    lines.push('');
+    for (const color of report.undocumented) {
+      lines.push(`- \`${color.hex}\`${color.name ? ` (${color.name})` : ''}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format tokens or a drift report as JSON
+ */
+export function formatDesignTokensAsJSON(value: DesignTokenExtraction | TokenDriftReport): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * One-paragraph console summary of a drift report
+ */
+export function formatDriftSummary(report: TokenDriftReport): string {
+  const { summary } = report;
+  const lines = [
+    '',
+    '🎨 Design token drift:',
+    `   Matching: ${summary.match}`,
+    `   Drifted: ${summary.drift}`,
+    `   Missing from implementation: ${summary.missing}`
+  ];
+  if (report.undocumented.length > 0) {
+    lines.push(`   Implementation colors not in the design: ${report.undocumented.length}`);
+  }
+  return lines.join('\n');
+}
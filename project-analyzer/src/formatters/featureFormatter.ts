@@ -283,6 +283,27 @@ export function formatFeaturesAsMarkdown(result: FeatureAnalysisResult | Detaile
     }
   }
 
+  // Site map of a crawl
+  const siteMap = 'siteMap' in result ? result.siteMap : undefined;
+  if (siteMap) {
+    lines.push('## Site Map');
+    lines.push('');
+    lines.push('| Depth | Page | Status | Found via |');
+    lines.push('|-------|------|--------|-----------|');
+    for (const page of siteMap.pages) {
+      const status = page.error ? `❌ ${page.error}` : page.status ?? '-';
+      const title = page.title ? `${page.title} (${page.url})` : page.url;
+      lines.push(`| ${page.depth} | ${title} | ${status} | ${page.via} |`);
+    }
+    lines.push('');
+    if (siteMap.skipped.length > 0) {
+      const counts = new Map<string, number>();
+      siteMap.skipped.forEach(skipped => counts.set(skipped.reason, (counts.get(skipped.reason) || 0) + 1));
+      lines.push(`Skipped: ${[...counts.entries()].map(([reason, count]) => `${count} (${reason})`).join(', ')}`);
+      lines.push('');
+    }
+  }
+
   // Recommendations
   if (result.recommendations && result.recommendations.length > 0) {
     lines.push('## Recommendations');
@@ -4,10 +4,11 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { TodoItem } from '../core/patterns';
+import { TodoItem, TodoPattern } from '../core/patterns';
 import { ScanResult, ProcessedTodo, groupTodosByFile, groupTodosByPriority } from '../core/scanner';
+import { formatAsSARIF, formatAsCodeClimate } from './codeQualityFormatter';
 
-export type OutputFormat = 'json' | 'markdown' | 'github' | 'csv' | 'summary';
+export type OutputFormat = 'json' | 'markdown' | 'github' | 'csv' | 'summary' | 'sarif' | 'codeclimate';
 
 export interface FormatterOptions {
   format: OutputFormat;
@@ -15,6 +16,8 @@ export interface FormatterOptions {
   groupBy?: 'file' | 'priority' | 'type' | 'none';
   includeStats?: boolean;
   compact?: boolean;
+  /** Pattern definitions used for SARIF / Code Climate rule metadata */
+  patterns?: TodoPattern[];
 }
 
 /**
@@ -54,7 +57,25 @@ export function formatAsMarkdown(result: ScanResult, groupBy: 'file' | 'priority
   }
   lines.push('');
 
+  const byOwner = countByOwner(todos);
+  if (Object.keys(byOwner).length > 0) {
+    lines.push('### By Owner');
+    for (const [owner, count] of Object.entries(byOwner).sort((a, b) => b[1] - a[1])) {
+      lines.push(`- @${owner}: ${count}`);
+    }
+    lines.push('');
+  }
+
   lines.push(`**Files Scanned:** ${summary.filesScanned}`);
+  if (summary.since) {
+    lines.push(`**Changed Since:** ${summary.since}`);
+  }
+  if (summary.onlyNew) {
+    lines.push('**New TODOs Only:** yes');
+  }
+  if (summary.cache) {
+    lines.push(`**Cache Hit Rate:** ${formatHitRate(summary.cache.hitRate)} (${summary.cache.hits} hits, ${summary.cache.misses} misses)`);
+  }
   lines.push(`**Scan Duration:** ${summary.scanDuration}ms`);
   lines.push('');
 
@@ -122,9 +143,69 @@ function formatTodoList(todos: TodoItem[], lines: string[]): void {
     const priorityEmoji = todo.priority === 'high' ? '🔴' : todo.priority === 'medium' ? '🟡' : '🟢';
     lines.push(`- ${priorityEmoji} **[${todo.type}]** ${todo.content}`);
     lines.push(`  - 📁 ${todo.file}:${todo.line}`);
+
+    const ownership = formatOwnership(todo);
+    if (ownership) {
+      lines.push(`  - 👤 ${ownership}`);
+    }
+    if (todo.dueDate) {
+      lines.push(`  - 📅 Due ${todo.dueDate}`);
+    }
+    if (todo.ticket) {
+      lines.push(`  - 🎫 ${todo.ticket}`);
+    }
   }
 }
 
+/**
+ * Describe who owns a TODO and how old it is, e.g. "@alice (Alice Smith, 42 days old)"
+ */
+export function formatOwnership(todo: TodoItem): string {
+  const parts: string[] = [];
+
+  if (todo.owners && todo.owners.length > 0) {
+    parts.push(todo.owners.map(owner => `@${owner}`).join(', '));
+  }
+
+  const details: string[] = [];
+  if (todo.blame && !todo.blame.uncommitted) {
+    if (parts.length === 0 || !todo.owners?.includes(todo.blame.author)) {
+      details.push(todo.blame.author);
+    }
+    details.push(`${todo.blame.ageDays} days old`);
+  } else if (todo.blame?.uncommitted) {
+    details.push('not committed yet');
+  }
+
+  if (details.length > 0) {
+    parts.push(parts.length > 0 ? `(${details.join(', ')})` : details.join(', '));
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Format a cache hit rate as a percentage
+ */
+function formatHitRate(hitRate: number): string {
+  return `${(hitRate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Count TODOs per owner (unowned TODOs are not counted)
+ */
+function countByOwner(todos: TodoItem[]): Record<string, number> {
+  const byOwner: Record<string, number> = {};
+
+  for (const todo of todos) {
+    for (const owner of todo.owners || []) {
+      byOwner[owner] = (byOwner[owner] || 0) + 1;
+    }
+  }
+
+  return byOwner;
+}
+
 /**
  * Format scan results as GitHub issues format
  */
@@ -136,6 +217,10 @@ export function formatAsGitHub(result: ScanResult): string {
     lines.push('---');
     lines.push(`title: "[${todo.type}] ${todo.content.slice(0, 50)}${todo.content.length > 50 ? '...' : ''}"`);
     lines.push(`labels: todo, ${todo.priority}-priority, ${todo.type.toLowerCase().replace(/\s+/g, '-')}`);
+    const assignees = (todo.owners || []).filter(owner => !owner.includes('/'));
+    if (assignees.length > 0) {
+      lines.push(`assignees: ${assignees.join(', ')}`);
+    }
     lines.push('---');
     lines.push('');
     lines.push('## Description');
@@ -146,6 +231,16 @@ export function formatAsGitHub(result: ScanResult): string {
     lines.push(`- **Line:** ${todo.line}`);
     lines.push(`- **Priority:** ${todo.priority}`);
     lines.push(`- **Type:** ${todo.type}`);
+    const ownership = formatOwnership(todo);
+    if (ownership) {
+      lines.push(`- **Owner:** ${ownership}`);
+    }
+    if (todo.dueDate) {
+      lines.push(`- **Due:** ${todo.dueDate}`);
+    }
+    if (todo.ticket) {
+      lines.push(`- **Ticket:** ${todo.ticket}`);
+    }
     lines.push('');
     lines.push('## Context');
     lines.push('```');
@@ -165,13 +260,18 @@ export function formatAsCSV(result: ScanResult): string {
   const { todos } = result;
 
   // Header
-  lines.push('Type,Priority,Content,File,Line');
+  lines.push('Type,Priority,Content,File,Line,Owners,Author,AgeDays,DueDate,Ticket');
 
   // Data rows
   for (const todo of todos) {
     const content = `"${todo.content.replace(/"/g, '""')}"`;
     const file = `"${todo.file}"`;
-    lines.push(`${todo.type},${todo.priority},${content},${file},${todo.line}`);
+    const owners = `"${(todo.owners || []).join(' ')}"`;
+    const author = `"${(todo.blame?.author || '').replace(/"/g, '""')}"`;
+    const age = todo.blame && !todo.blame.uncommitted ? todo.blame.ageDays : '';
+    const dueDate = `"${todo.dueDate || ''}"`;
+    const ticket = `"${todo.ticket || ''}"`;
+    lines.push(`${todo.type},${todo.priority},${content},${file},${todo.line},${owners},${author},${age},${dueDate},${ticket}`);
   }
 
   return lines.join('\n');
@@ -200,7 +300,32 @@ export function formatSummary(result: ScanResult): string {
     lines.push(`  ${type}: ${count}`);
   }
   lines.push('');
+
+  const byOwner = countByOwner(result.todos);
+  if (Object.keys(byOwner).length > 0) {
+    lines.push('By Owner:');
+    for (const [owner, count] of Object.entries(byOwner).sort((a, b) => b[1] - a[1])) {
+      lines.push(`  @${owner}: ${count}`);
+    }
+    lines.push('');
+  }
+
+  const ages = result.todos
+    .filter(todo => todo.blame && !todo.blame.uncommitted)
+    .map(todo => todo.blame!.ageDays);
+  if (ages.length > 0) {
+    lines.push(`Oldest TODO: ${Math.max(...ages)} days`);
+    lines.push(`Average Age: ${Math.round(ages.reduce((sum, age) => sum + age, 0) / ages.length)} days`);
+    lines.push('');
+  }
+
   lines.push(`Files Scanned: ${summary.filesScanned}`);
+  if (summary.since) {
+    lines.push(`Changed Since: ${summary.since}`);
+  }
+  if (summary.cache) {
+    lines.push(`Cache Hit Rate: ${formatHitRate(summary.cache.hitRate)} (${summary.cache.hits} hits, ${summary.cache.misses} misses)`);
+  }
   lines.push(`Scan Duration: ${summary.scanDuration}ms`);
 
   return lines.join('\n');
@@ -210,7 +335,7 @@ export function formatSummary(result: ScanResult): string {
  * Main formatter function
  */
 export function formatOutput(result: ScanResult, options: FormatterOptions): string {
-  const { format, groupBy = 'file', compact = false } = options;
+  const { format, groupBy = 'file', compact = false, patterns } = options;
 
   switch (format) {
     case 'json':
@@ -228,6 +353,12 @@ export function formatOutput(result: ScanResult, options: FormatterOptions): str
     case 'summary':
       return formatSummary(result);
 
+    case 'sarif':
+      return formatAsSARIF(result, patterns);
+
+    case 'codeclimate':
+      return formatAsCodeClimate(result, patterns);
+
     default:
       return formatAsJSON(result, compact);
   }
@@ -252,11 +383,27 @@ export function writeOutput(content: string, outputPath: string): void {
   }
 }
 
+/**
+ * File extension for an output format
+ */
+export function getFormatExtension(format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+    case 'codeclimate':
+      return 'json';
+    case 'csv':
+      return 'csv';
+    case 'sarif':
+      return 'sarif';
+    default:
+      return 'md';
+  }
+}
+
 /**
  * Create a report filename with timestamp
  */
 export function generateReportFilename(format: OutputFormat, prefix = 'todo-scan'): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-  const extension = format === 'markdown' ? 'md' : format === 'csv' ? 'csv' : 'json';
-  return `${prefix}-${timestamp}.${extension}`;
+  return `${prefix}-${timestamp}.${getFormatExtension(format)}`;
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * Formatters for the requirement -> files -> tests traceability matrix
+ */
+
+import { TraceabilityMatrix, TraceAnnotation, RequirementTrace, TraceStatus } from '../core/traceability';
+
+const STATUS_LABELS: Record<TraceStatus, string> = {
+  tested: '✅ Tested',
+  traced: '🔗 Traced',
+  untraced: '❌ Untraced'
+};
+
+function formatLocation(annotation: TraceAnnotation): string {
+  return `${annotation.file}:${annotation.line}`;
+}
+
+function formatSources(row: RequirementTrace): string {
+  return row.sources
+    .map(source => (source.line ? `${source.path}:${source.line}` : source.path))
+    .join('; ');
+}
+
+function escapeCSV(value: string): string {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Format the matrix as markdown
+ */
+export function formatTraceabilityAsMarkdown(matrix: TraceabilityMatrix): string {
+  const lines: string[] = [];
+  const { summary } = matrix;
+
+  lines.push('# Requirement Traceability Matrix');
+  lines.push('');
+  lines.push(`**Generated:** ${new Date(matrix.generatedAt).toLocaleString()}`);
+  lines.push(`**Requirements:** ${summary.total} (${summary.annotatedFiles} annotated files)`);
+  lines.push('');
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- ${STATUS_LABELS.tested}: ${summary.tested}`);
+  lines.push(`- ${STATUS_LABELS.traced}: ${summary.traced}`);
+  lines.push(`- ${STATUS_LABELS.untraced}: ${summary.untraced}`);
+  if (summary.withoutId > 0) {
+    lines.push(`- ⚪ Without an id: ${summary.withoutId} (add e.g. \`PM-12\` to the plan item to trace it)`);
+  }
+  lines.push('');
+
+  lines.push('## Matrix');
+  lines.push('');
+  lines.push('| Requirement | Title | Status | Files | Tests |');
+  lines.push('|-------------|-------|--------|-------|-------|');
+  for (const row of matrix.requirements) {
+    const files = row.implementations.map(formatLocation).join('<br>') || '-';
+    const tests = row.tests.map(formatLocation).join('<br>') || '-';
+    lines.push(`| ${row.id || '-'} | ${escapeTableCell(row.title)} | ${STATUS_LABELS[row.status]} | ${files} | ${tests} |`);
+  }
+  lines.push('');
+
+  if (matrix.unmatched.length > 0) {
+    lines.push('## ⚠️ Annotations Without a Requirement');
+    lines.push('');
+    for (const annotation of matrix.unmatched) {
+      lines.push(`- **${annotation.id}** at ${formatLocation(annotation)}: \`${annotation.text}\``);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the matrix as CSV, one row per requirement
+ */
+export function formatTraceabilityAsCSV(matrix: TraceabilityMatrix): string {
+  const lines = ['id,title,status,planned_status,sources,files,tests'];
+
+  for (const row of matrix.requirements) {
+    lines.push([
+      row.id || '',
+      row.title,
+      row.status,
+      row.plannedStatus || '',
+      formatSources(row),
+      row.implementations.map(formatLocation).join('; '),
+      row.tests.map(formatLocation).join('; ')
+    ].map(escapeCSV).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format the matrix as JSON
+ */
+export function formatTraceabilityAsJSON(matrix: TraceabilityMatrix): string {
+  return JSON.stringify(matrix, null, 2);
+}
+
+/**
+ * One-paragraph console summary
+ */
+export function formatTraceabilitySummary(matrix: TraceabilityMatrix): string {
+  const { summary } = matrix;
+  const lines = [
+    '',
+    '🔗 Traceability:',
+    `   Requirements: ${summary.total}`,
+    `   Tested: ${summary.tested}`,
+    `   Traced (no tests): ${summary.traced}`,
+    `   Untraced: ${summary.untraced}`
+  ];
+  if (summary.withoutId > 0) {
+    lines.push(`   Without an id: ${summary.withoutId}`);
+  }
+  if (matrix.unmatched.length > 0) {
+    lines.push(`   Annotations without a requirement: ${matrix.unmatched.length}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,142 @@
+/**
+ * Formatters for TODO trend reports
+ */
+
+import { TrendsReport, TrendPoint } from '../core/scanHistory';
+
+export type TrendsFormat = 'markdown' | 'json' | 'csv';
+
+/**
+ * Format a signed change, e.g. "+3", "-2", "0"
+ */
+function formatChange(change: number): string {
+  return change > 0 ? `+${change}` : `${change}`;
+}
+
+/**
+ * Compare the first and latest counts of a breakdown (type or directory)
+ */
+function formatBreakdown(
+  title: string,
+  label: string,
+  first: TrendsReport['baseline'],
+  latest: TrendPoint,
+  key: 'byType' | 'byDirectory',
+  lines: string[]
+): void {
+  const names = Array.from(new Set([...Object.keys(first[key]), ...Object.keys(latest[key])]))
+    .sort((a, b) => (latest[key][b] || 0) - (latest[key][a] || 0) || a.localeCompare(b));
+
+  if (names.length === 0) return;
+
+  lines.push(`## ${title}`);
+  lines.push('');
+  lines.push(`| ${label} | First Scan | Latest | Change |`);
+  lines.push('|---|---:|---:|---:|');
+  for (const name of names) {
+    const before = first[key][name] || 0;
+    const after = latest[key][name] || 0;
+    lines.push(`| ${name} | ${before} | ${after} | ${formatChange(after - before)} |`);
+  }
+  lines.push('');
+}
+
+/**
+ * Format a trends report as markdown
+ */
+export function formatTrendsAsMarkdown(report: TrendsReport): string {
+  const lines: string[] = [];
+  const first = report.baseline;
+  const latest = report.timeline[report.timeline.length - 1];
+
+  lines.push('# TODO Trends');
+  lines.push('');
+  lines.push(`**Scans:** ${report.scans} (${report.firstScan.split('T')[0]} → ${report.lastScan.split('T')[0]})`);
+  lines.push(`**Open TODOs:** ${report.openTodos} (${formatChange(latest.total - first.total)} since first scan)`);
+  lines.push(`**Mean Age:** ${report.meanAgeDays} days`);
+  lines.push('');
+
+  lines.push('## 📈 TODO Count Over Time');
+  lines.push('');
+  lines.push('| Date | Total | High | Medium | Low | Introduced | Resolved |');
+  lines.push('|---|---:|---:|---:|---:|---:|---:|');
+  for (const point of report.timeline) {
+    const { high = 0, medium = 0, low = 0 } = point.byPriority;
+    lines.push(`| ${point.date} | ${point.total} | ${high} | ${medium} | ${low} | ${point.introduced} | ${point.resolved} |`);
+  }
+  lines.push('');
+
+  formatBreakdown('🏷️ By Type', 'Type', first, latest, 'byType', lines);
+  formatBreakdown('📁 By Directory', 'Directory', first, latest, 'byDirectory', lines);
+
+  if (report.weekly.length > 0) {
+    lines.push('## 📅 Weekly Activity');
+    lines.push('');
+    lines.push('| Week of | Introduced | Resolved | Net |');
+    lines.push('|---|---:|---:|---:|');
+    for (const week of report.weekly) {
+      lines.push(`| ${week.week} | ${week.introduced} | ${week.resolved} | ${formatChange(week.net)} |`);
+    }
+    lines.push('');
+  }
+
+  if (report.oldest.length > 0) {
+    lines.push('## 🕰️ Oldest Open TODOs');
+    lines.push('');
+    for (const todo of report.oldest) {
+      const owner = todo.owner ? ` 👤 ${todo.owner}` : '';
+      lines.push(`- **${todo.ageDays} days** [${todo.type}] ${todo.content}`);
+      lines.push(`  - 📁 ${todo.file}:${todo.line}${owner}`);
+    }
+    lines.push('');
+  }
+
+  if (report.contributors.length > 0) {
+    lines.push('## 👥 Added / Removed By');
+    lines.push('');
+    lines.push('| Who | Added | Removed |');
+    lines.push('|---|---:|---:|');
+    for (const person of report.contributors) {
+      lines.push(`| ${person.name} | ${person.added} | ${person.removed} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a trends report as JSON
+ */
+export function formatTrendsAsJSON(report: TrendsReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format the trend timeline as CSV (one row per day)
+ */
+export function formatTrendsAsCSV(report: TrendsReport): string {
+  const lines: string[] = ['Date,Total,High,Medium,Low,Introduced,Resolved'];
+
+  for (const point of report.timeline) {
+    const { high = 0, medium = 0, low = 0 } = point.byPriority;
+    lines.push(`${point.date},${point.total},${high},${medium},${low},${point.introduced},${point.resolved}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a trends report in the requested format
+ */
+export function formatTrends(report: TrendsReport, format: TrendsFormat = 'markdown'): string {
+  switch (format) {
+    case 'json':
+      return formatTrendsAsJSON(report);
+    case 'csv':
+      return formatTrendsAsCSV(report);
+    case 'markdown':
+    default:
+      return formatTrendsAsMarkdown(report);
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Verification report formatters: JUnit XML and JSON
+ *
+ * JUnit gets one testsuite per feature and tier with one testcase per check,
+ * so CI systems show verification runs the way they show unit test results.
+ * The JSON report keeps everything: timings, screenshots and network evidence.
+ */
+
+import { VerificationResult, TierResult, VERIFICATION_TIERS } from '../core/ProductionVerifier';
+import type { DeploymentReport } from '../core/DeploymentWorkflow';
+import { TOOL_NAME, TOOL_VERSION } from './codeQualityFormatter';
+
+export interface VerificationReport {
+  generated: string;
+  tool: { name: string; version: string };
+  summary: {
+    features: number;
+    passed: number;
+    failed: number;
+    partial: number;
+    checks: { total: number; passed: number; failed: number };
+    /** Sum of the runs' durations in ms */
+    duration: number;
+  };
+  /** Staging vs production readiness, for comparison runs */
+  deployment?: {
+    overallReadiness: DeploymentReport['overallReadiness'];
+    summary: DeploymentReport['summary'];
+    recommendations: string[];
+    comparisons: Array<{
+      featureId: string;
+      deploymentReady: boolean;
+      riskLevel: 'low' | 'medium' | 'high';
+      differences: DeploymentReport['comparisons'][number]['differences'];
+      recommendations: string[];
+    }>;
+  };
+  results: VerificationResult[];
+}
+
+/**
+ * All verification results in a deployment report, staging first
+ */
+export function deploymentResults(report: DeploymentReport): VerificationResult[] {
+  return report.comparisons.flatMap(comparison => [comparison.stagingResult, comparison.productionResult]);
+}
+
+function tiersOf(result: VerificationResult): Array<[string, string, TierResult]> {
+  return VERIFICATION_TIERS.map(([key, label]) => [key, label, result[key]]);
+}
+
+/**
+ * Build the machine-readable report for a verification run
+ */
+export function createVerificationReport(results: VerificationResult[], deployment?: DeploymentReport): VerificationReport {
+  const checks = results.flatMap(result => tiersOf(result).flatMap(([, , tier]) => tier.checks));
+  const passedChecks = checks.filter(check => check.passed).length;
+
+  return {
+    generated: new Date().toISOString(),
+    tool: { name: TOOL_NAME, version: TOOL_VERSION },
+    summary: {
+      features: results.length,
+      passed: results.filter(result => result.overall === 'pass').length,
+      failed: results.filter(result => result.overall === 'fail').length,
+      partial: results.filter(result => result.overall === 'partial').length,
+      checks: { total: checks.length, passed: passedChecks, failed: checks.length - passedChecks },
+      duration: results.reduce((sum, result) => sum + (result.duration || 0), 0)
+    },
+    deployment: deployment && {
+      overallReadiness: deployment.overallReadiness,
+      summary: deployment.summary,
+      recommendations: deployment.recommendations,
+      comparisons: deployment.comparisons.map(comparison => ({
+        featureId: comparison.featureId,
+        deploymentReady: comparison.deploymentReady,
+        riskLevel: comparison.riskLevel,
+        differences: comparison.differences,
+        recommendations: comparison.recommendations
+      }))
+    },
+    results
+  };
+}
+
+/**
+ * Format a verification run as a JSON report
+ */
+export function formatVerificationJSON(results: VerificationResult[], deployment?: DeploymentReport): string {
+  return JSON.stringify(createVerificationReport(results, deployment), null, 2);
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML can't hold
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms || 0) / 1000).toFixed(3);
+}
+
+/**
+ * Format a verification run as JUnit XML
+ */
+export function formatVerificationJUnit(results: VerificationResult[], name = 'Production verification'): string {
+  const suites: string[] = [];
+  let tests = 0;
+  let failures = 0;
+  let errors = 0;
+
+  for (const result of results) {
+    const suiteName = `${result.featureName} (${result.environment})`;
+    const properties = [
+      `      <property name="featureId" value="${escapeXml(result.featureId)}"/>`,
+      `      <property name="environment" value="${escapeXml(result.environment)}"/>`,
+      `      <property name="overall" value="${result.overall}"/>`,
+      ...(result.screenshotPath ? [`      <property name="screenshot" value="${escapeXml(result.screenshotPath)}"/>`] : [])
+    ];
+
+    // A run that never got to its checks is one errored testcase
+    if (result.error) {
+      tests++;
+      errors++;
+      suites.push([
+        `  <testsuite name="${escapeXml(suiteName)}" tests="1" failures="0" errors="1" skipped="0" time="${seconds(result.duration)}" timestamp="${result.timestamp}">`,
+        '    <properties>', ...properties, '    </properties>',
+        `    <testcase classname="${escapeXml(`${result.environment}.${result.featureId}`)}" name="verification" time="0.000">`,
+        `      <error message="${escapeXml(result.error)}"/>`,
+        '    </testcase>',
+        '  </testsuite>'
+      ].join('\n'));
+      continue;
+    }
+
+    for (const [key, label, tier] of tiersOf(result)) {
+      if (tier.status === 'skipped') continue;
+
+      tests += tier.total;
+      failures += tier.failed;
+      const cases = tier.checks.map(check => {
+        const lines = [`    <testcase classname="${escapeXml(`${result.environment}.${result.featureId}.${key}`)}" name="${escapeXml(check.name)}" time="${seconds(check.duration)}">`];
+        if (!check.passed) {
+          const details = check.details !== undefined ? escapeXml(JSON.stringify(check.details, null, 2)) : '';
+          lines.push(`      <failure message="${escapeXml(check.message)}">${details}</failure>`);
+        }
+        if (check.screenshotPath) {
+          // Jenkins and GitLab pick up attachments in this form
+          lines.push(`      <system-out>[[ATTACHMENT|${escapeXml(check.screenshotPath)}]]</system-out>`);
+        }
+        lines.push('    </testcase>');
+        return lines.join('\n');
+      });
+
+      suites.push([
+        `  <testsuite name="${escapeXml(`${suiteName} › ${label}`)}" tests="${tier.total}" failures="${tier.failed}" errors="0" skipped="0" time="${seconds(tier.duration)}" timestamp="${result.timestamp}">`,
+        '    <properties>', ...properties, '    </properties>',
+        ...cases,
+        '  </testsuite>'
+      ].join('\n'));
+    }
+  }
+
+  const time = seconds(results.reduce((sum, result) => sum + (result.duration || 0), 0));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${tests}" failures="${failures}" errors="${errors}" time="${time}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
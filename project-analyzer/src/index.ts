@@ -5,22 +5,49 @@
  */
 
 export * from './core/patterns';
+export * from './core/commentTokenizer';
 export * from './core/scanner';
+export * from './core/scanCache';
+export * from './core/scanHistory';
+export * from './core/config';
+export * from './core/todoWatcher';
 export * from './utils/fileTraversal';
+export * from './utils/ownership';
+export type { BlameInfo } from './utils/gitIntegration';
 export * from './formatters/outputFormatter';
-export { ProductionVerifier } from './core/ProductionVerifier';
-export { DeploymentWorkflow } from './core/DeploymentWorkflow';
+export * from './formatters/trendsFormatter';
+export * from './formatters/codeQualityFormatter';
+export { ProductionVerifier, toStagingTarget } from './core/ProductionVerifier';
+export {
+  DeploymentWorkflow,
+  DEFAULT_DEPLOYMENT_THRESHOLDS,
+  comparePageTimings,
+  resolveDeploymentThresholds
+} from './core/DeploymentWorkflow';
+export type { DeploymentThresholds, DeploymentThresholdOverrides } from './core/DeploymentWorkflow';
+export * from './core/verificationSpec';
+export * from './core/testStatus';
+export * from './core/apiChecks';
+export * from './utils/jsonPath';
+export * from './utils/jsonSchema';
+export * from './formatters/verificationFormatter';
+export * from './core/verificationMonitor';
+export * from './utils/schedule';
 
 // Export new feature extraction capabilities
 export * from './types/features';
 export { DesignAnalyzer } from './core/DesignAnalyzer';
+export * from './core/designDocuments';
 export { WebsiteAnalyzer } from './core/WebsiteAnalyzer';
+export * from './core/siteCrawler';
 export * from './formatters/featureFormatter';
+export * from './vision';
 
-import { scanTodos, processScanResults, ScanOptions, ScanResult } from './core/scanner';
+import { scanTodos, processScanResults, ScanOptions, ScanResult, ProcessedTodo } from './core/scanner';
 import { formatOutput, FormatterOptions, OutputFormat } from './formatters/outputFormatter';
 import { DesignAnalyzer } from './core/DesignAnalyzer';
 import { WebsiteAnalyzer } from './core/WebsiteAnalyzer';
+import { VisionProvider } from './vision';
 import {
   DesignAnalysisOptions,
   WebsiteAnalysisOptions,
@@ -74,11 +101,12 @@ export class ProjectAnalyzer {
    * Get only new TODOs compared to a previous scan
    */
   async getNewTodos(previousStatePath: string): Promise<ScanResult> {
-    const { loadPreviousState, findNewTodos } = await import('./core/scanner');
+    const { loadPreviousState, findNewTodos, applyPreviousIdentities } = await import('./core/scanner');
 
     const result = await this.scan();
+    const todos = applyPreviousIdentities(result.todos as ProcessedTodo[], previousStatePath, this.rootPath);
     const previousHashes = loadPreviousState(previousStatePath);
-    const newTodos = findNewTodos(result.todos as any[], previousHashes);
+    const newTodos = findNewTodos(todos, previousHashes);
 
     return {
       ...result,
@@ -104,9 +132,10 @@ export class ProjectAnalyzer {
    */
   async analyzeDesigns(
     options: DesignAnalysisOptions,
-    context?: DesignContext
+    context?: DesignContext,
+    visionProvider?: VisionProvider
   ): Promise<DetailedAnalysisResult> {
-    const analyzer = new DesignAnalyzer(options, context);
+    const analyzer = new DesignAnalyzer(options, context, visionProvider);
     return await analyzer.analyze();
   }
 
@@ -6,6 +6,10 @@
  * - Screenshots
  */
 
+import { VisionConfig } from '../vision';
+import { SiteMap } from '../core/siteCrawler';
+import { AuthProfile } from '@project-suite/shared';
+
 export type FeatureSource = 'design-file' | 'moodboard' | 'website' | 'screenshot' | 'wireframe';
 export type FeatureCategory = 'UI Component' | 'Page' | 'Navigation' | 'Form' | 'Data Display' | 'Action' | 'Content' | 'Layout' | 'Other';
 export type FeaturePriority = 'high' | 'medium' | 'low';
@@ -42,6 +46,10 @@ export interface ExtractedFeature {
   /** Location within source (page number, coordinates, etc.) */
   location?: {
     page?: number;
+    /** Page name in a design document */
+    pageName?: string;
+    /** Node id in a design document (Figma node id, Sketch object id) */
+    nodeId?: string;
     coordinates?: { x: number; y: number; width: number; height: number };
     url?: string;
     selector?: string;
@@ -104,7 +112,7 @@ export interface FeatureAnalysisResult {
  * Options for design file analysis
  */
 export interface DesignAnalysisOptions {
-  /** Paths to design files (images) */
+  /** Paths to design files (images, or Figma/Sketch JSON exports) */
   designFiles?: string[];
 
   /** Paths to moodboard images */
@@ -130,6 +138,9 @@ export interface DesignAnalysisOptions {
 
   /** Context/project description for better analysis */
   projectContext?: string;
+
+  /** Vision provider used to analyze the images (default: Anthropic, API key from ANTHROPIC_API_KEY) */
+  vision?: VisionConfig;
 }
 
 /**
@@ -142,6 +153,24 @@ export interface WebsiteAnalysisOptions {
   /** Crawl depth (0 = single page, 1 = linked pages, etc.) */
   crawlDepth?: number;
 
+  /** Maximum number of pages to visit when crawling (default: 50) */
+  maxPages?: number;
+
+  /** Pages analyzed in parallel, one browser each (default: 2) */
+  concurrency?: number;
+
+  /** Only crawl URLs matching these globs (`/docs/**`, `https://example.com/*`) */
+  includePatterns?: string[];
+
+  /** Never crawl URLs matching these globs */
+  excludePatterns?: string[];
+
+  /** Obey robots.txt when following links (default: true) */
+  respectRobots?: boolean;
+
+  /** Seed the crawl with sitemap.xml (default: true) */
+  useSitemap?: boolean;
+
   /** Capture screenshots */
   captureScreenshots?: boolean;
 
@@ -154,12 +183,8 @@ export interface WebsiteAnalysisOptions {
   /** Include low-confidence features */
   includeLowConfidence?: boolean;
 
-  /** Authentication if needed */
-  auth?: {
-    type: 'cookies' | 'basic' | 'bearer';
-    credentials?: Record<string, string>;
-    cookiePath?: string;
-  };
+  /** Auth profile to sign in with before crawling */
+  authProfile?: AuthProfile;
 
   /** Context/project description */
   projectContext?: string;
@@ -250,4 +275,7 @@ export interface DetailedAnalysisResult extends FeatureAnalysisResult {
 
   /** Component library suggestions */
   suggestedComponents?: string[];
+
+  /** Pages visited by a website crawl */
+  siteMap?: SiteMap;
 }
@@ -0,0 +1,61 @@
+/**
+ * Minimal CSV reader (RFC 4180: quoted fields, doubled quotes, CRLF)
+ */
+
+/**
+ * Split CSV text into rows of fields
+ */
+export function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim().length > 0));
+}
+
+/**
+ * Parse CSV with a header row into records keyed by column name
+ */
+export function parseCSVRecords(content: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(fields =>
+    Object.fromEntries(columns.map((column, index) => [column, (fields[index] ?? '').trim()]))
+  );
+}
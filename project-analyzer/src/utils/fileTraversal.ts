@@ -21,6 +21,8 @@ export interface FileInfo {
   path: string;
   relativePath: string;
   size: number;
+  /** Last modification time, used to validate the scan cache */
+  mtimeMs: number;
   extension: string;
 }
 
@@ -82,6 +84,94 @@ function shouldIgnore(filePath: string, ig: ReturnType<typeof ignore>, rootPath:
   return ig.ignores(relativePath);
 }
 
+/**
+ * Decides which paths a scan looks at
+ */
+export interface PathFilter {
+  /** True if a directory (and everything below it) is ignored */
+  ignoresDirectory(absolutePath: string): boolean;
+  /** True if a file should be scanned */
+  acceptsFile(absolutePath: string): boolean;
+}
+
+/**
+ * Create the path filter used by traversal and watch mode
+ * Combines the analyzer output exclusion, .gitignore, exclude patterns and
+ * the scannable extensions.
+ */
+export function createPathFilter(
+  options: Pick<TraversalOptions, 'rootPath' | 'excludePatterns' | 'useGitignore'>
+): PathFilter {
+  const { rootPath, excludePatterns = [], useGitignore = true } = options;
+
+  // Initialize gitignore
+  const ig = useGitignore ? loadGitignore(rootPath) : ignore();
+
+  // Add exclude patterns to ignore
+  if (excludePatterns.length > 0) {
+    ig.add(excludePatterns);
+  }
+
+  const analyzerDir = path.join(rootPath, '.project-analyzer');
+  const inAnalyzerDir = (absolutePath: string) =>
+    absolutePath === analyzerDir || absolutePath.startsWith(analyzerDir + path.sep);
+
+  return {
+    ignoresDirectory(absolutePath: string): boolean {
+      const relativePath = path.relative(rootPath, absolutePath);
+      if (!relativePath) return false;
+      return inAnalyzerDir(absolutePath) || ig.ignores(relativePath + '/');
+    },
+    acceptsFile(absolutePath: string): boolean {
+      // CRITICAL: Never scan these directories - check absolute path first
+      if (inAnalyzerDir(absolutePath)) {
+        return false;
+      }
+
+      // Check if file should be ignored
+      if (shouldIgnore(absolutePath, ig, rootPath)) {
+        return false;
+      }
+
+      // Check if file extension is scannable
+      return shouldScanFile(absolutePath);
+    }
+  };
+}
+
+/**
+ * Build FileInfo for specific files, skipping missing and filtered ones
+ */
+export function statFiles(rootPath: string, relativePaths: string[], filter: PathFilter): FileInfo[] {
+  const files: FileInfo[] = [];
+
+  for (const relativePath of relativePaths) {
+    const filePath = path.resolve(rootPath, relativePath);
+    if (!filter.acceptsFile(filePath)) {
+      continue;
+    }
+
+    try {
+      const stats = fs.statSync(filePath);
+      if (!stats.isFile()) {
+        continue;
+      }
+
+      files.push({
+        path: filePath,
+        relativePath: path.relative(rootPath, filePath),
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        extension: path.extname(filePath).slice(1).toLowerCase()
+      });
+    } catch {
+      // Deleted since it was reported
+    }
+  }
+
+  return files;
+}
+
 /**
  * Get all files in a directory that match the criteria
  */
@@ -100,14 +190,7 @@ export async function traverseFiles(options: TraversalOptions): Promise<FileInfo
     throw new Error(`Root path does not exist: ${rootPath}`);
   }
 
-  // Initialize gitignore
-  const ig = useGitignore ? loadGitignore(rootPath) : ignore();
-
-  // Add exclude patterns to ignore
-  if (excludePatterns.length > 0) {
-    ig.add(excludePatterns);
-  }
-
+  const filter = createPathFilter({ rootPath, excludePatterns, useGitignore });
   const files: FileInfo[] = [];
 
   // Use glob to find files matching include patterns
@@ -125,19 +208,7 @@ export async function traverseFiles(options: TraversalOptions): Promise<FileInfo
       const matches = await glob(pattern, globOptions);
 
       for (const filePath of matches) {
-        // CRITICAL: Never scan these directories - check absolute path first
-        const analyzerDir = path.join(rootPath, '.project-analyzer');
-        if (filePath.startsWith(analyzerDir + path.sep) || filePath === analyzerDir) {
-          continue;
-        }
-
-        // Check if file should be ignored
-        if (shouldIgnore(filePath, ig, rootPath)) {
-          continue;
-        }
-
-        // Check if file extension is scannable
-        if (!shouldScanFile(filePath)) {
+        if (!filter.acceptsFile(filePath)) {
           continue;
         }
 
@@ -152,6 +223,7 @@ export async function traverseFiles(options: TraversalOptions): Promise<FileInfo
             path: filePath,
             relativePath: path.relative(rootPath, filePath),
             size: stats.size,
+            mtimeMs: stats.mtimeMs,
             extension: path.extname(filePath).slice(1).toLowerCase()
           });
         } catch (error) {
@@ -207,6 +279,27 @@ export function readFileSafely(filePath: string, maxSize: number = 10 * 1024 * 1
   }
 }
 
+/**
+ * Read file content asynchronously with size limit
+ * Size comes from traversal, so no extra stat call is needed.
+ */
+export async function readFileSafelyAsync(
+  file: FileInfo,
+  maxSize: number = 10 * 1024 * 1024
+): Promise<string | null> {
+  if (file.size > maxSize) {
+    console.warn(`File too large, skipping: ${file.path} (${file.size} bytes)`);
+    return null;
+  }
+
+  try {
+    return await fs.promises.readFile(file.path, 'utf-8');
+  } catch (error) {
+    console.error(`Error reading file ${file.path}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get repository statistics
  */
@@ -0,0 +1,249 @@
+/**
+ * Batched, shell-free git access
+ *
+ * Git is always run with an argument array, never through a shell, so paths
+ * and TODO text are passed to git verbatim. The commit log, the tracked file
+ * list and a grep index for a set of keywords are each loaded with a single
+ * git process; every later query is answered from memory.
+ */
+
+import { execFileSync } from 'child_process';
+
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+/** Record and field separators used in `git log --format` */
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+
+export interface GitFileInfo {
+  exists: boolean;
+  lastModified: Date | null;
+  commitCount: number;
+  isTracked: boolean;
+}
+
+export interface GitCommit {
+  commit: string;
+  date: string;
+  message: string;
+}
+
+export interface RunGitOptions {
+  /** Exit codes besides 0 that still count as success (e.g. 1 for "no matches" from git grep) */
+  allowedStatus?: number[];
+  /** Written to git's stdin */
+  input?: string;
+  /** Extra environment variables */
+  env?: Record<string, string>;
+}
+
+export interface GitIndexOptions {
+  /** Terms to load into the grep index up front (case-insensitive) */
+  keywords?: string[];
+}
+
+/**
+ * Run git with an argument array (no shell)
+ * Returns stdout, or null when git fails.
+ */
+export function runGit(repoPath: string, args: string[], options: RunGitOptions = {}): string | null {
+  const { allowedStatus = [], input, env } = options;
+
+  try {
+    return execFileSync('git', args, {
+      cwd: repoPath,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: MAX_BUFFER,
+      ...(input !== undefined ? { input } : {}),
+      ...(env ? { env: { ...process.env, ...env } } : {})
+    });
+  } catch (error: any) {
+    if (typeof error?.status === 'number' && allowedStatus.includes(error.status)) {
+      return typeof error.stdout === 'string' ? error.stdout : '';
+    }
+    return null;
+  }
+}
+
+function splitLines(output: string | null): string[] {
+  return (output || '').split('\n').filter(line => line.length > 0);
+}
+
+/**
+ * In-memory index of a repository's history, files and keyword mentions
+ */
+export class GitIndex {
+  readonly repoPath: string;
+  readonly isGitRepo: boolean;
+
+  private commits: GitCommit[] = [];
+  /** Lowercased full message (subject and body) of each commit, for search */
+  private commitText: string[] = [];
+  private trackedFiles: string[] = [];
+  private trackedSet = new Set<string>();
+  private fileHistory = new Map<string, { lastModified: string; commitCount: number }>();
+  private mentions = new Map<string, number>();
+
+  private constructor(repoPath: string, isGitRepo: boolean) {
+    this.repoPath = repoPath;
+    this.isGitRepo = isGitRepo;
+  }
+
+  /**
+   * Load the index with one git process per data set
+   */
+  static load(repoPath: string, options: GitIndexOptions = {}): GitIndex {
+    const isGitRepo = runGit(repoPath, ['rev-parse', '--git-dir']) !== null;
+    const index = new GitIndex(repoPath, isGitRepo);
+
+    if (!isGitRepo) {
+      return index;
+    }
+
+    index.loadCommits();
+    index.loadFileHistory();
+    index.loadTrackedFiles();
+    index.loadMentions(options.keywords || []);
+
+    return index;
+  }
+
+  /**
+   * Commit messages on all refs, newest first
+   */
+  private loadCommits(): void {
+    // Bodies span lines, so records are split on RECORD rather than newlines
+    const output = runGit(this.repoPath, ['log', '--all', `--format=${RECORD}%h${FIELD}%aI${FIELD}%s${FIELD}%b`]);
+    this.commits = [];
+    this.commitText = [];
+
+    for (const record of (output || '').split(RECORD)) {
+      const [commit, date, subject = '', body = ''] = record.split(FIELD);
+      if (!date) continue;
+
+      this.commits.push({ commit, date, message: subject });
+      this.commitText.push(`${subject}\n${body}`.toLowerCase());
+    }
+  }
+
+  /**
+   * Last authored date and commit count of every path in HEAD's history
+   */
+  private loadFileHistory(): void {
+    // -z keeps paths unquoted: "<RECORD>date\0\npath\0path\0..."
+    const output = runGit(this.repoPath, ['log', `--format=${RECORD}%aI`, '--name-only', '--relative', '-z', 'HEAD', '--']);
+
+    for (const record of (output || '').split(RECORD)) {
+      const [date, ...paths] = record.split('\0');
+      const files = paths.map(file => file.replace(/^\n/, '')).filter(Boolean);
+      if (!date) continue;
+
+      for (const file of files) {
+        const history = this.fileHistory.get(file);
+        if (history) {
+          history.commitCount++;
+        } else {
+          // Log is newest first, so the first date seen is the last modification
+          this.fileHistory.set(file, { lastModified: date, commitCount: 1 });
+        }
+      }
+    }
+  }
+
+  private loadTrackedFiles(): void {
+    const output = runGit(this.repoPath, ['ls-files', '-z']);
+    this.trackedFiles = (output || '').split('\0').filter(Boolean);
+    this.trackedSet = new Set(this.trackedFiles);
+  }
+
+  /**
+   * Count lines in tracked files mentioning each keyword, with one git grep
+   */
+  private loadMentions(keywords: string[]): void {
+    const terms = Array.from(new Set(
+      keywords.map(keyword => keyword.toLowerCase()).filter(keyword => keyword.length > 0 && !this.mentions.has(keyword))
+    ));
+    if (terms.length === 0) return;
+
+    const args = ['grep', '-I', '-i', '-h', '-F'];
+    for (const term of terms) {
+      args.push('-e', term);
+    }
+    const lines = splitLines(runGit(this.repoPath, args, { allowedStatus: [1] })).map(line => line.toLowerCase());
+
+    for (const term of terms) {
+      this.mentions.set(term, lines.filter(line => line.includes(term)).length);
+    }
+  }
+
+  /**
+   * Git information for a file (path relative to the indexed directory)
+   */
+  getFileInfo(relativePath: string, existsOnDisk: boolean): GitFileInfo {
+    if (!this.isGitRepo || !existsOnDisk) {
+      return { exists: false, lastModified: null, commitCount: 0, isTracked: false };
+    }
+
+    const file = relativePath.split('\\').join('/');
+    if (!this.trackedSet.has(file)) {
+      return { exists: true, lastModified: null, commitCount: 0, isTracked: false };
+    }
+
+    const history = this.fileHistory.get(file);
+    return {
+      exists: true,
+      lastModified: history ? new Date(history.lastModified) : null,
+      commitCount: history ? history.commitCount : 0,
+      isTracked: true
+    };
+  }
+
+  /**
+   * Commits whose message (subject or body) mentions a term
+   * (case-insensitive), newest first
+   */
+  searchCommits(term: string, maxResults: number = Infinity): GitCommit[] {
+    const needle = term.toLowerCase();
+    const matches: GitCommit[] = [];
+
+    this.commits.forEach((commit, i) => {
+      if (matches.length < maxResults && this.commitText[i].includes(needle)) {
+        matches.push(commit);
+      }
+    });
+
+    return matches;
+  }
+
+  /**
+   * Tracked files whose path mentions a term (case-insensitive)
+   */
+  findFiles(term: string, maxResults: number = Infinity): string[] {
+    const needle = term.toLowerCase();
+    const matches: string[] = [];
+
+    for (const file of this.trackedFiles) {
+      if (matches.length >= maxResults) break;
+      if (file.toLowerCase().includes(needle)) {
+        matches.push(file);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Lines in tracked files mentioning a term (case-insensitive)
+   * Terms not loaded up front are grepped on first use and cached.
+   */
+  countMentions(term: string): number {
+    if (!this.isGitRepo) return 0;
+
+    const key = term.toLowerCase();
+    if (!this.mentions.has(key)) {
+      this.loadMentions([key]);
+    }
+    return this.mentions.get(key) || 0;
+  }
+}
@@ -1,16 +1,31 @@
 /**
  * Git integration utilities for completion detection
+ *
+ * All git calls go through `runGit` (argument arrays, no shell). Queries that
+ * run once per TODO are answered from a `GitIndex` loaded once per run.
  */
 
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { runGit, GitIndex, GitFileInfo, GitCommit } from './gitIndex';
+import { CompletionWeights, GitSignals, DEFAULT_COMPLETION_WEIGHTS, scoreGitSignals } from '../core/completionPatterns';
 
-export interface GitFileInfo {
-  exists: boolean;
-  lastModified: Date | null;
-  commitCount: number;
-  isTracked: boolean;
+export type { GitFileInfo, GitCommit } from './gitIndex';
+export { GitIndex } from './gitIndex';
+
+/**
+ * Last change to a line, from git blame
+ */
+export interface BlameInfo {
+  author: string;
+  email: string;
+  commit: string;
+  /** ISO date the line was authored */
+  authoredAt: string;
+  /** Days since the line was authored */
+  ageDays: number;
+  /** Line has local changes that are not committed yet */
+  uncommitted?: boolean;
 }
 
 export interface GitRepoInfo {
@@ -23,15 +38,7 @@ export interface GitRepoInfo {
  * Check if a directory is a git repository
  */
 export function isGitRepository(dirPath: string): boolean {
-  try {
-    execSync('git rev-parse --git-dir', {
-      cwd: dirPath,
-      stdio: 'pipe'
-    });
-    return true;
-  } catch {
-    return false;
-  }
+  return runGit(dirPath, ['rev-parse', '--git-dir']) !== null;
 }
 
 /**
@@ -46,134 +53,163 @@ export function getGitRepoInfo(repoPath: string): GitRepoInfo {
     };
   }
 
-  try {
-    const branch = execSync('git rev-parse --abbrev-ref HEAD', {
-      cwd: repoPath,
-      encoding: 'utf-8'
-    }).trim();
+  const branch = runGit(repoPath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  const remotes = runGit(repoPath, ['remote']);
 
-    const remotes = execSync('git remote', {
-      cwd: repoPath,
-      encoding: 'utf-8'
-    }).trim();
+  return {
+    isGitRepo: true,
+    currentBranch: branch ? branch.trim() : '',
+    hasRemote: !!remotes && remotes.trim().length > 0
+  };
+}
 
-    return {
-      isGitRepo: true,
-      currentBranch: branch,
-      hasRemote: remotes.length > 0
-    };
-  } catch (error) {
-    return {
-      isGitRepo: true,
-      currentBranch: '',
-      hasRemote: false
-    };
+/**
+ * Get the current HEAD commit hash
+ */
+export function getHeadCommit(repoPath: string): string | null {
+  // Fails when there are no commits yet
+  return runGit(repoPath, ['rev-parse', 'HEAD'])?.trim() || null;
+}
+
+/**
+ * Get the author name of a commit
+ */
+export function getCommitAuthor(repoPath: string, ref: string = 'HEAD'): string | null {
+  if (ref.startsWith('-')) {
+    return null;
   }
+  return runGit(repoPath, ['log', '-1', '--format=%an', ref, '--'])?.trim() || null;
 }
 
 /**
- * Get information about a file from git
+ * Get the top-level directory of the repository containing a path
  */
-export function getGitFileInfo(
+export function getRepoRoot(dirPath: string): string | null {
+  return runGit(dirPath, ['rev-parse', '--show-toplevel'])?.trim() || null;
+}
+
+/**
+ * Blame every line of a file
+ * Returns a map of 1-based line number -> blame info (empty for untracked files)
+ */
+export function getFileBlame(
   repoPath: string,
   relativePath: string
-): GitFileInfo {
-  const defaultInfo: GitFileInfo = {
-    exists: false,
-    lastModified: null,
-    commitCount: 0,
-    isTracked: false
-  };
+): Map<number, BlameInfo> {
+  const output = runGit(repoPath, ['blame', '--line-porcelain', '--', relativePath]);
 
-  if (!isGitRepository(repoPath)) {
-    return defaultInfo;
+  // Untracked file or not a git repository
+  return output === null ? new Map() : parseBlamePorcelain(output);
+}
+
+/**
+ * Parse `git blame --line-porcelain` output
+ */
+export function parseBlamePorcelain(output: string, now: number = Date.now()): Map<number, BlameInfo> {
+  const blame = new Map<number, BlameInfo>();
+  let current: { commit: string; line: number; author?: string; email?: string; time?: number } | null = null;
+
+  for (const line of output.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+
+    if (header) {
+      current = { commit: header[1], line: parseInt(header[2], 10) };
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith('author ')) {
+      current.author = line.slice('author '.length);
+    } else if (line.startsWith('author-mail ')) {
+      current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+    } else if (line.startsWith('author-time ')) {
+      current.time = parseInt(line.slice('author-time '.length), 10) * 1000;
+    } else if (line.startsWith('\t')) {
+      const uncommitted = /^0+$/.test(current.commit);
+      const time = current.time ?? now;
+
+      blame.set(current.line, {
+        author: current.author || '',
+        email: current.email || '',
+        commit: current.commit,
+        authoredAt: new Date(time).toISOString(),
+        ageDays: uncommitted ? 0 : Math.max(0, Math.floor((now - time) / (1000 * 60 * 60 * 24))),
+        ...(uncommitted ? { uncommitted: true } : {})
+      });
+      current = null;
+    }
   }
 
-  const fullPath = path.join(repoPath, relativePath);
+  return blame;
+}
 
-  // Check if file exists
-  if (!fs.existsSync(fullPath)) {
-    return defaultInfo;
+/**
+ * List files changed relative to a git ref (committed, staged, unstaged and untracked)
+ * Paths are relative to `dirPath`. Returns null when the ref cannot be resolved.
+ */
+export function getChangedFiles(dirPath: string, ref: string): string[] | null {
+  if (!ref || ref.startsWith('-')) {
+    return null;
   }
 
-  try {
-    // Check if file is tracked
-    execSync(`git ls-files --error-unmatch "${relativePath}"`, {
-      cwd: repoPath,
-      stdio: 'pipe'
-    });
-
-    // Get last modification date
-    const lastModifiedStr = execSync(
-      `git log -1 --format=%aI -- "${relativePath}"`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    // Get commit count
-    const commitCountStr = execSync(
-      `git log --oneline -- "${relativePath}" | wc -l`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    return {
-      exists: true,
-      lastModified: lastModifiedStr ? new Date(lastModifiedStr) : null,
-      commitCount: parseInt(commitCountStr) || 0,
-      isTracked: true
-    };
-  } catch (error) {
-    // File exists but is not tracked
-    return {
-      exists: true,
-      lastModified: null,
-      commitCount: 0,
-      isTracked: false
-    };
+  const changed = runGit(dirPath, ['diff', '--name-only', '--relative', '--diff-filter=ACMR', ref, '--']);
+  const untracked = runGit(dirPath, ['ls-files', '--others', '--exclude-standard']);
+  if (changed === null || untracked === null) {
+    return null;
   }
+
+  return Array.from(new Set(
+    `${changed}\n${untracked}`.split('\n').map(line => line.trim()).filter(Boolean)
+  ));
 }
 
 /**
- * Search git history for mentions of a keyword
+ * Detect files renamed since a commit (committed and uncommitted changes)
+ * Returns a map of old path -> new path, relative to `repoPath`
  */
-export function searchGitHistory(
+export function getRenamedFiles(
   repoPath: string,
-  searchTerm: string,
-  maxResults: number = 10
-): Array<{ commit: string; date: string; message: string }> {
-  if (!isGitRepository(repoPath)) {
-    return [];
+  sinceCommit: string
+): Record<string, string> {
+  const renames: Record<string, string> = {};
+
+  if (!/^[0-9a-f]{7,40}$/i.test(sinceCommit)) {
+    return renames;
   }
 
-  try {
-    const results = execSync(
-      `git log --all --oneline --grep="${searchTerm}" -i --format="%h|%aI|%s" -n ${maxResults}`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    if (!results) {
-      return [];
-    }
+  // Unknown commit (e.g. history rewritten) - no rename information
+  const result = runGit(repoPath, ['diff', '--name-status', '--relative', '-M', sinceCommit, '--']) || '';
 
-    return results.split('\n').map(line => {
-      const [commit, date, ...messageParts] = line.split('|');
-      return {
-        commit,
-        date,
-        message: messageParts.join('|')
-      };
-    });
-  } catch (error) {
-    return [];
+  for (const line of result.trim().split('\n')) {
+    const [status, oldPath, newPath] = line.split('\t');
+    if (status && status.startsWith('R') && oldPath && newPath) {
+      renames[oldPath] = newPath;
+    }
   }
+
+  return renames;
+}
+
+/**
+ * Get information about a file from git
+ * Pass a loaded index when querying many files.
+ */
+export function getGitFileInfo(
+  repoPath: string,
+  relativePath: string,
+  index: GitIndex = GitIndex.load(repoPath)
+): GitFileInfo {
+  return index.getFileInfo(relativePath, fs.existsSync(path.join(repoPath, relativePath)));
+}
+
+/**
+ * Search git history for mentions of a keyword
+ */
+export function searchGitHistory(
+  repoPath: string,
+  searchTerm: string,
+  maxResults: number = 10,
+  index: GitIndex = GitIndex.load(repoPath)
+): GitCommit[] {
+  return index.searchCommits(searchTerm, maxResults);
 }
 
 /**
@@ -181,70 +217,40 @@ export function searchGitHistory(
  */
 export function checkFeatureExists(
   repoPath: string,
-  featureName: string
+  featureName: string,
+  index: GitIndex = GitIndex.load(repoPath, { keywords: [featureName] })
 ): {
   exists: boolean;
   evidence: string[];
 } {
-  if (!isGitRepository(repoPath)) {
+  if (!index.isGitRepo) {
     return { exists: false, evidence: [] };
   }
 
   const evidence: string[] = [];
 
-  try {
-    // Search for files matching the feature name
-    const filesResult = execSync(
-      `git ls-files | grep -i "${featureName}" | head -5`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    if (filesResult) {
-      evidence.push(`Files found: ${filesResult.split('\n').length}`);
-    }
-
-    // Search for commits mentioning the feature
-    const commitsResult = execSync(
-      `git log --all --oneline --grep="${featureName}" -i | wc -l`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    const commitCount = parseInt(commitsResult) || 0;
-    if (commitCount > 0) {
-      evidence.push(`Commits mentioning feature: ${commitCount}`);
-    }
+  // Files matching the feature name
+  const files = index.findFiles(featureName, 5);
+  if (files.length > 0) {
+    evidence.push(`Files found: ${files.length}`);
+  }
 
-    // Search for code mentions
-    try {
-      const grepResult = execSync(
-        `git grep -i "${featureName}" | wc -l`,
-        {
-          cwd: repoPath,
-          encoding: 'utf-8'
-        }
-      ).trim();
-
-      const mentions = parseInt(grepResult) || 0;
-      if (mentions > 0) {
-        evidence.push(`Code mentions: ${mentions}`);
-      }
-    } catch {
-      // git grep might fail if no matches
-    }
+  // Commits mentioning the feature
+  const commitCount = index.searchCommits(featureName).length;
+  if (commitCount > 0) {
+    evidence.push(`Commits mentioning feature: ${commitCount}`);
+  }
 
-    return {
-      exists: evidence.length > 0,
-      evidence
-    };
-  } catch (error) {
-    return { exists: false, evidence: [] };
+  // Code mentions
+  const mentions = index.countMentions(featureName);
+  if (mentions > 0) {
+    evidence.push(`Code mentions: ${mentions}`);
   }
+
+  return {
+    exists: evidence.length > 0,
+    evidence
+  };
 }
 
 /**
@@ -254,27 +260,18 @@ export function getStaleFiles(
   repoPath: string,
   daysOld: number = 180
 ): string[] {
-  if (!isGitRepository(repoPath)) {
-    return [];
-  }
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+  const cutoffStr = cutoffDate.toISOString().split('T')[0];
 
-  try {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysOld);
-    const cutoffStr = cutoffDate.toISOString().split('T')[0];
-
-    const result = execSync(
-      `git log --all --name-only --before="${cutoffStr}" --format="%H" | grep -v "^$" | grep -v "^[0-9a-f]\\{40\\}$" | sort | uniq`,
-      {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }
-    ).trim();
-
-    return result ? result.split('\n') : [];
-  } catch (error) {
+  const result = runGit(repoPath, ['log', '--all', '--name-only', '-z', `--before=${cutoffStr}`, '--format=']);
+  if (!result) {
     return [];
   }
+
+  return Array.from(new Set(
+    result.split('\0').map(file => file.replace(/^\n+/, '')).filter(Boolean)
+  )).sort();
 }
 
 /**
@@ -292,53 +289,67 @@ export function extractSearchKeywords(todoText: string): string[] {
   return Array.from(new Set(words)).slice(0, 5);
 }
 
+/**
+ * Load a git index with the search keywords of every TODO grepped up front
+ */
+export function createGitEvidenceIndex(repoPath: string, todoTexts: string[]): GitIndex {
+  return GitIndex.load(repoPath, {
+    keywords: todoTexts.flatMap(text => extractSearchKeywords(text))
+  });
+}
+
 /**
  * Enhanced completion detection using git history
+ * Pass an index from `createGitEvidenceIndex` when checking many TODOs.
  */
 export function checkGitEvidence(
   repoPath: string,
   todoText: string,
-  filePath: string
+  filePath: string,
+  index: GitIndex = GitIndex.load(repoPath, { keywords: extractSearchKeywords(todoText) }),
+  weights: CompletionWeights = DEFAULT_COMPLETION_WEIGHTS
 ): {
   hasEvidence: boolean;
   confidence: number;
   evidence: string[];
+  signals: GitSignals;
 } {
   const evidence: string[] = [];
-  let confidence = 0;
+  const signals: GitSignals = { commitMentions: [], featureMatches: 0 };
 
   // Check if file has been modified recently
-  const fileInfo = getGitFileInfo(repoPath, filePath);
+  const fileInfo = getGitFileInfo(repoPath, filePath, index);
   if (fileInfo.isTracked && fileInfo.lastModified) {
     const daysSinceModification =
       (Date.now() - fileInfo.lastModified.getTime()) / (1000 * 60 * 60 * 24);
+    signals.daysSinceModified = Math.round(daysSinceModification);
 
     if (daysSinceModification > 90) {
       evidence.push(`File not modified in ${Math.round(daysSinceModification)} days`);
-      confidence += 20;
     }
   }
 
   // Extract keywords and search git history
   const keywords = extractSearchKeywords(todoText);
   for (const keyword of keywords) {
-    const commits = searchGitHistory(repoPath, keyword, 3);
+    const commits = searchGitHistory(repoPath, keyword, 3, index);
+    signals.commitMentions.push(commits.length);
     if (commits.length > 0) {
       evidence.push(`Found ${commits.length} commits mentioning "${keyword}"`);
-      confidence += Math.min(commits.length * 15, 30);
     }
 
     // Check if feature exists in codebase
-    const featureCheck = checkFeatureExists(repoPath, keyword);
+    const featureCheck = checkFeatureExists(repoPath, keyword, index);
     if (featureCheck.exists) {
       evidence.push(...featureCheck.evidence);
-      confidence += 25;
+      signals.featureMatches++;
     }
   }
 
   return {
     hasEvidence: evidence.length > 0,
-    confidence: Math.min(confidence, 100),
-    evidence
+    confidence: scoreGitSignals(signals, weights),
+    evidence,
+    signals
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,533 @@
+/**
+ * Minimal image decoding for palette extraction
+ *
+ * PNG is decoded fully (all color types and bit depths, including Adam7
+ * interlacing). JPEG is decoded from DC coefficients only, which gives the
+ * average color of every 8x8 block - a 1/8-scale image that is plenty for
+ * color quantization and needs no IDCT. Baseline and progressive JPEGs are
+ * supported; arithmetic-coded and lossless JPEGs are not.
+ */
+
+import { inflateSync } from 'zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** RGBA, 8 bits per channel */
+  data: Uint8Array;
+  /** Decoded size relative to the original (1/8 for JPEG) */
+  scale: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Decode a PNG or JPEG image
+ * @throws Error for other formats and unsupported encodings
+ */
+export function decodeImage(buffer: Buffer): DecodedImage {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return decodePng(buffer);
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return decodeJpeg(buffer);
+  }
+  throw new Error('Unsupported image format (palette extraction needs PNG or JPEG)');
+}
+
+// --- PNG ---
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes: x start, y start, x step, y step */
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function decodePng(buffer: Buffer): DecodedImage {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (!width || !height || !channels) {
+    throw new Error('Invalid PNG header');
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const data = new Uint8Array(width * height * 4);
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  let position = 0;
+
+  const sample = (line: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return line[index];
+    if (bitDepth === 16) return line[index * 2];
+    const bit = index * bitDepth;
+    return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (value: number) => bitDepth >= 8 ? value : Math.round(value * 255 / maxSample);
+
+  const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const stride = Math.ceil(passWidth * bitsPerPixel / 8);
+    let previous = new Uint8Array(stride);
+
+    for (let row = 0; row < passHeight; row++) {
+      const filter = raw[position];
+      const line = new Uint8Array(raw.subarray(position + 1, position + 1 + stride));
+      position += stride + 1;
+
+      for (let i = 0; i < stride; i++) {
+        const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+        const up = previous[i];
+        const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+        switch (filter) {
+          case 1: line[i] += left; break;
+          case 2: line[i] += up; break;
+          case 3: line[i] += (left + up) >> 1; break;
+          case 4: line[i] += paeth(left, up, upLeft); break;
+        }
+      }
+      previous = line;
+
+      for (let column = 0; column < passWidth; column++) {
+        const out = (((y0 + row * dy) * width) + x0 + column * dx) * 4;
+        const base = column * channels;
+        let r: number, g: number, b: number, a = 255;
+
+        if (colorType === 3) {
+          const index = sample(line, column);
+          r = palette ? palette[index * 3] : 0;
+          g = palette ? palette[index * 3 + 1] : 0;
+          b = palette ? palette[index * 3 + 2] : 0;
+          a = transparency && index < transparency.length ? transparency[index] : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          r = g = b = to8(sample(line, base));
+          if (colorType === 4) a = to8(sample(line, base + 1));
+        } else {
+          r = to8(sample(line, base));
+          g = to8(sample(line, base + 1));
+          b = to8(sample(line, base + 2));
+          if (colorType === 6) a = to8(sample(line, base + 3));
+        }
+
+        data[out] = r;
+        data[out + 1] = g;
+        data[out + 2] = b;
+        data[out + 3] = a;
+      }
+    }
+  }
+
+  return { width, height, data, scale: 1 };
+}
+
+// --- JPEG (DC coefficients only) ---
+
+interface HuffmanTable {
+  /** Per code length: first code, last code (-1 when none) and index of its first symbol */
+  minCode: Int32Array;
+  maxCode: Int32Array;
+  valuePointer: Int32Array;
+  symbols: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Dequantized DC coefficient per block */
+  dc: Float32Array;
+}
+
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const table: HuffmanTable = {
+    minCode: new Int32Array(17),
+    maxCode: new Int32Array(17).fill(-1),
+    valuePointer: new Int32Array(17),
+    symbols: new Uint8Array(symbols)
+  };
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      table.valuePointer[length] = k;
+      table.minCode[length] = code;
+      code += count;
+      k += count;
+      table.maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return table;
+}
+
+/**
+ * Bit reader over entropy-coded data; stops at markers and skips byte stuffing
+ */
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Buffer, public offset: number) {}
+
+  private readBit(): number {
+    if (this.bitCount === 0) {
+      let byte = this.data[this.offset];
+      if (byte === 0xff) {
+        const next = this.data[this.offset + 1];
+        if (next === 0x00) {
+          this.offset += 2;
+        } else {
+          // Marker: feed zeros until the caller resynchronizes
+          byte = 0;
+        }
+      } else {
+        this.offset++;
+      }
+      this.bitBuffer = byte ?? 0;
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      if (code <= table.maxCode[length]) {
+        return table.symbols[table.valuePointer[length] + code - table.minCode[length]];
+      }
+    }
+    throw new Error('Invalid JPEG Huffman code');
+  }
+
+  /** Skip to the byte after the next RST marker */
+  restart(): void {
+    this.bitCount = 0;
+    while (this.offset < this.data.length - 1) {
+      if (this.data[this.offset] === 0xff && this.data[this.offset + 1] >= 0xd0 && this.data[this.offset + 1] <= 0xd7) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+}
+
+/** Offset of the next marker after entropy-coded data */
+function skipEntropyData(data: Buffer, offset: number): number {
+  while (offset < data.length - 1) {
+    if (data[offset] === 0xff) {
+      const next = data[offset + 1];
+      if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) {
+        return offset;
+      }
+    }
+    offset++;
+  }
+  return data.length;
+}
+
+function decodeJpeg(buffer: Buffer): DecodedImage {
+  const quantTables: number[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let progressive = false;
+  let restartInterval = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let adobeTransform: number | undefined;
+
+  let offset = 2;
+  while (offset < buffer.length - 1) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    offset += 2;
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+      if (marker === 0xff) offset--;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = buffer.readUInt16BE(offset);
+    const segment = buffer.subarray(offset + 2, offset + length);
+    offset += length;
+
+    if (marker === 0xdb) {
+      for (let i = 0; i < segment.length;) {
+        const precision = segment[i] >> 4;
+        const id = segment[i] & 15;
+        // Only the DC entry (first in zigzag order) is needed
+        quantTables[id] = precision ? segment.readUInt16BE(i + 1) : segment[i + 1];
+        i += 1 + (precision ? 128 : 64);
+      }
+    } else if (marker === 0xc4) {
+      for (let i = 0; i < segment.length;) {
+        const tableClass = segment[i] >> 4;
+        const id = segment[i] & 15;
+        const counts = segment.subarray(i + 1, i + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+        (tableClass === 0 ? dcTables : acTables)[id] = table;
+        i += 17 + total;
+      }
+    } else if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      progressive = marker === 0xc2;
+      height = segment.readUInt16BE(1);
+      width = segment.readUInt16BE(3);
+      components = [];
+      for (let i = 0; i < segment[5]; i++) {
+        const base = 6 + i * 3;
+        components.push({
+          id: segment[base],
+          h: segment[base + 1] >> 4,
+          v: segment[base + 1] & 15,
+          quantTable: segment[base + 2],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          dc: new Float32Array(0)
+        });
+      }
+      maxH = Math.max(...components.map(c => c.h));
+      maxV = Math.max(...components.map(c => c.v));
+      const mcusPerLine = Math.ceil(width / (8 * maxH));
+      const mcusPerColumn = Math.ceil(height / (8 * maxV));
+      for (const component of components) {
+        component.blocksPerLine = mcusPerLine * component.h;
+        component.blocksPerColumn = mcusPerColumn * component.v;
+        component.dc = new Float32Array(component.blocksPerLine * component.blocksPerColumn);
+      }
+    } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      throw new Error('Unsupported JPEG encoding (only baseline and progressive Huffman JPEGs are supported)');
+    } else if (marker === 0xdd) {
+      restartInterval = segment.readUInt16BE(0);
+    } else if (marker === 0xee && segment.toString('latin1', 0, 5) === 'Adobe') {
+      adobeTransform = segment[11];
+    } else if (marker === 0xda) {
+      const scanComponents = [];
+      for (let i = 0; i < segment[0]; i++) {
+        const component = components.find(c => c.id === segment[1 + i * 2]);
+        if (!component) throw new Error('JPEG scan references an unknown component');
+        scanComponents.push({
+          component,
+          dcTable: dcTables[segment[2 + i * 2] >> 4],
+          acTable: acTables[segment[2 + i * 2] & 15]
+        });
+      }
+      const tail = 1 + segment[0] * 2;
+      const spectralStart = segment[tail];
+      const successiveHigh = segment[tail + 2] >> 4;
+      const successiveLow = segment[tail + 2] & 15;
+
+      // Progressive AC and refinement scans only sharpen detail; skip them
+      if (!progressive || (spectralStart === 0 && successiveHigh === 0)) {
+        decodeDcScan(buffer, offset, scanComponents, {
+          progressive, restartInterval, successiveLow, maxH, maxV, width, height
+        });
+      }
+      offset = skipEntropyData(buffer, offset);
+    }
+  }
+
+  if (!width || components.length === 0) {
+    throw new Error('Invalid JPEG: no frame header');
+  }
+  if (components.length !== 1 && components.length !== 3) {
+    throw new Error('Unsupported JPEG color space (CMYK)');
+  }
+
+  const outWidth = Math.ceil(width / 8);
+  const outHeight = Math.ceil(height / 8);
+  const data = new Uint8Array(outWidth * outHeight * 4);
+  const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  const level = (component: JpegComponent, x: number, y: number) => {
+    const bx = Math.floor(x * component.h / maxH);
+    const by = Math.floor(y * component.v / maxV);
+    const q = quantTables[component.quantTable] ?? 1;
+    return component.dc[by * component.blocksPerLine + bx] * q / 8 + 128;
+  };
+  // RGB JPEGs say so with an Adobe transform of 0 or with component ids 'R', 'G', 'B'
+  const rgbIds = components.map(c => String.fromCharCode(c.id)).join('') === 'RGB';
+  const ycc = components.length === 3 && adobeTransform !== 0 && !rgbIds;
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const out = (y * outWidth + x) * 4;
+      if (components.length === 1) {
+        data[out] = data[out + 1] = data[out + 2] = clamp(level(components[0], x, y));
+      } else {
+        const c0 = level(components[0], x, y);
+        const c1 = level(components[1], x, y);
+        const c2 = level(components[2], x, y);
+        if (ycc) {
+          data[out] = clamp(c0 + 1.402 * (c2 - 128));
+          data[out + 1] = clamp(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+          data[out + 2] = clamp(c0 + 1.772 * (c1 - 128));
+        } else {
+          data[out] = clamp(c0);
+          data[out + 1] = clamp(c1);
+          data[out + 2] = clamp(c2);
+        }
+      }
+      data[out + 3] = 255;
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data, scale: 1 / 8 };
+}
+
+interface ScanParameters {
+  progressive: boolean;
+  restartInterval: number;
+  successiveLow: number;
+  maxH: number;
+  maxV: number;
+  width: number;
+  height: number;
+}
+
+interface ScanComponent {
+  component: JpegComponent;
+  dcTable: HuffmanTable;
+  acTable: HuffmanTable;
+}
+
+/**
+ * Decode the DC coefficient of every block in a scan, skipping AC data
+ */
+function decodeDcScan(buffer: Buffer, offset: number, scan: ScanComponent[], params: ScanParameters): void {
+  const reader = new BitReader(buffer, offset);
+  const predictors = scan.map(() => 0);
+
+  const decodeBlock = (index: number, blockIndex: number) => {
+    const { component, dcTable, acTable } = scan[index];
+    const size = reader.decode(dcTable);
+    predictors[index] += reader.receiveExtend(size);
+    component.dc[blockIndex] = predictors[index] * (1 << params.successiveLow);
+
+    if (params.progressive) return;
+
+    // Baseline blocks carry their AC coefficients inline
+    for (let k = 1; k < 64;) {
+      const symbol = reader.decode(acTable);
+      const run = symbol >> 4;
+      const bits = symbol & 15;
+      if (bits === 0) {
+        if (run !== 15) break;
+        k += 16;
+        continue;
+      }
+      reader.receive(bits);
+      k += run + 1;
+    }
+  };
+
+  let units: Array<() => void>;
+  if (scan.length === 1) {
+    // Non-interleaved: blocks in raster order over the component itself
+    const { component } = scan[0];
+    const blocksWide = Math.ceil(Math.ceil(params.width * component.h / params.maxH) / 8);
+    const blocksHigh = Math.ceil(Math.ceil(params.height * component.v / params.maxV) / 8);
+    units = [];
+    for (let by = 0; by < blocksHigh; by++) {
+      for (let bx = 0; bx < blocksWide; bx++) {
+        units.push(() => decodeBlock(0, by * component.blocksPerLine + bx));
+      }
+    }
+  } else {
+    const mcusPerLine = Math.ceil(params.width / (8 * params.maxH));
+    const mcusPerColumn = Math.ceil(params.height / (8 * params.maxV));
+    units = [];
+    for (let my = 0; my < mcusPerColumn; my++) {
+      for (let mx = 0; mx < mcusPerLine; mx++) {
+        units.push(() => {
+          scan.forEach(({ component }, index) => {
+            for (let v = 0; v < component.v; v++) {
+              for (let h = 0; h < component.h; h++) {
+                const row = my * component.v + v;
+                const column = mx * component.h + h;
+                decodeBlock(index, row * component.blocksPerLine + column);
+              }
+            }
+          });
+        });
+      }
+    }
+  }
+
+  units.forEach((unit, index) => {
+    if (params.restartInterval && index > 0 && index % params.restartInterval === 0) {
+      reader.restart();
+      predictors.fill(0);
+    }
+    unit();
+  });
+}
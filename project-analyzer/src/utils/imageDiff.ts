@@ -0,0 +1,132 @@
+/**
+ * Pixel diff between two screenshots
+ *
+ * Pixels are compared channel by channel; a pixel counts as changed when
+ * any channel differs by more than the tolerance. Where the images differ
+ * in size, the area only one of them covers counts as changed. The diff
+ * image shows changed pixels in red over a faded copy of the baseline, and
+ * is written as an 8-bit RGBA PNG.
+ */
+
+import { deflateSync } from 'zlib';
+import { DecodedImage } from './imageDecoder';
+
+export interface ImageDiff {
+  width: number;
+  height: number;
+  changedPixels: number;
+  /** Changed pixels as a percentage of the compared area (0-100) */
+  percentage: number;
+  /** RGBA diff image */
+  diff: Uint8Array;
+}
+
+export interface ImageDiffOptions {
+  /** Largest per-channel difference (0-1) still counted as equal (default: 0.1) */
+  tolerance?: number;
+}
+
+/**
+ * Compare a candidate image against a baseline
+ */
+export function diffImages(baseline: DecodedImage, candidate: DecodedImage, options: ImageDiffOptions = {}): ImageDiff {
+  const maxDelta = Math.round((options.tolerance ?? 0.1) * 255);
+  const width = Math.max(baseline.width, candidate.width);
+  const height = Math.max(baseline.height, candidate.height);
+  const diff = new Uint8Array(width * height * 4);
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const inCandidate = x < candidate.width && y < candidate.height;
+      const a = (y * baseline.width + x) * 4;
+      const b = (y * candidate.width + x) * 4;
+
+      let changed = inBaseline !== inCandidate;
+      if (inBaseline && inCandidate) {
+        for (let channel = 0; channel < 4 && !changed; channel++) {
+          changed = Math.abs(baseline.data[a + channel] - candidate.data[b + channel]) > maxDelta;
+        }
+      }
+
+      if (changed) {
+        changedPixels++;
+        diff[out] = 255;
+        diff[out + 3] = 255;
+      } else {
+        // Faded grayscale of the baseline, so changes stand out
+        const source = inBaseline ? baseline.data : candidate.data;
+        const index = inBaseline ? a : b;
+        const luma = 0.299 * source[index] + 0.587 * source[index + 1] + 0.114 * source[index + 2];
+        const faded = Math.round(255 - 0.1 * (255 - luma));
+        diff[out] = diff[out + 1] = diff[out + 2] = faded;
+        diff[out + 3] = 255;
+      }
+    }
+  }
+
+  const total = width * height;
+  return {
+    width,
+    height,
+    changedPixels,
+    percentage: total === 0 ? 0 : (changedPixels / total) * 100,
+    diff
+  };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+
+  // Every scanline starts with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
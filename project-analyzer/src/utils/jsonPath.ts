@@ -0,0 +1,163 @@
+/**
+ * JSONPath queries
+ *
+ * The subset API checks need: `$`, `.name` and `['name']`, array indexes
+ * (negative ones count from the end), `*` wildcards, `..` recursive descent
+ * and simple filters like `[?(@.status == 'active')]` or `[?(@.email)]`.
+ */
+
+type Segment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descend' }
+  | { type: 'filter'; path: Segment[]; operator?: string; value?: unknown };
+
+const cache = new Map<string, Segment[]>();
+
+function parseLiteral(text: string, expression: string): unknown {
+  const trimmed = text.trim();
+  if (/^'.*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\'/g, "'");
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`Invalid JSONPath "${expression}": cannot read value ${trimmed}`);
+  }
+}
+
+function parseFilter(body: string, expression: string): Segment {
+  const match = body.match(/^\s*@((?:\.[A-Za-z_$][\w$-]*|\[[^\]]*\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+?))?\s*$/);
+  if (!match) {
+    throw new Error(`Invalid JSONPath "${expression}": unsupported filter ${body}`);
+  }
+  return {
+    type: 'filter',
+    path: parsePath(`$${match[1]}`),
+    operator: match[2],
+    value: match[2] ? parseLiteral(match[3], expression) : undefined
+  };
+}
+
+/**
+ * Split a JSONPath expression into segments
+ * @throws Error when the expression is not valid
+ */
+export function parsePath(expression: string): Segment[] {
+  const cached = cache.get(expression);
+  if (cached) return cached;
+
+  if (!expression.startsWith('$')) {
+    throw new Error(`Invalid JSONPath "${expression}": must start with $`);
+  }
+
+  const segments: Segment[] = [];
+  let position = 1;
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+
+    if (rest.startsWith('..')) {
+      segments.push({ type: 'descend' });
+      position += rest[2] === '[' ? 2 : 1;
+      continue;
+    }
+
+    const dotted = rest.match(/^\.(\*|[A-Za-z_$][\w$-]*)/);
+    if (dotted) {
+      segments.push(dotted[1] === '*' ? { type: 'wildcard' } : { type: 'key', key: dotted[1] });
+      position += dotted[0].length;
+      continue;
+    }
+
+    const filter = rest.match(/^\[\?\((.*?)\)\]/);
+    if (filter) {
+      segments.push(parseFilter(filter[1], expression));
+      position += filter[0].length;
+      continue;
+    }
+
+    const bracket = rest.match(/^\[\s*(\*|-?\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]/);
+    if (bracket) {
+      const token = bracket[1];
+      if (token === '*') {
+        segments.push({ type: 'wildcard' });
+      } else if (/^-?\d+$/.test(token)) {
+        segments.push({ type: 'index', index: Number(token) });
+      } else {
+        segments.push({ type: 'key', key: String(parseLiteral(token, expression)) });
+      }
+      position += bracket[0].length;
+      continue;
+    }
+
+    throw new Error(`Invalid JSONPath "${expression}": unexpected "${rest}"`);
+  }
+
+  cache.set(expression, segments);
+  return segments;
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && value !== null) return Object.values(value);
+  return [];
+}
+
+function descendants(value: unknown): unknown[] {
+  const all: unknown[] = [value];
+  for (const child of children(value)) {
+    all.push(...descendants(child));
+  }
+  return all;
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  switch (operator) {
+    case '==': return JSON.stringify(left) === JSON.stringify(right);
+    case '!=': return JSON.stringify(left) !== JSON.stringify(right);
+    case '<': return typeof left === typeof right && (left as any) < (right as any);
+    case '<=': return typeof left === typeof right && (left as any) <= (right as any);
+    case '>': return typeof left === typeof right && (left as any) > (right as any);
+    case '>=': return typeof left === typeof right && (left as any) >= (right as any);
+    default: return false;
+  }
+}
+
+function apply(values: unknown[], segment: Segment): unknown[] {
+  switch (segment.type) {
+    case 'key':
+      return values.flatMap(value =>
+        typeof value === 'object' && value !== null && !Array.isArray(value) && segment.key in value
+          ? [(value as Record<string, unknown>)[segment.key]]
+          : []
+      );
+    case 'index':
+      return values.flatMap(value => {
+        if (!Array.isArray(value)) return [];
+        const index = segment.index < 0 ? value.length + segment.index : segment.index;
+        return index >= 0 && index < value.length ? [value[index]] : [];
+      });
+    case 'wildcard':
+      return values.flatMap(children);
+    case 'descend':
+      return values.flatMap(descendants);
+    case 'filter':
+      return values.flatMap(children).filter(item => {
+        const matches = evaluate(item, segment.path);
+        if (!segment.operator) return matches.length > 0;
+        return matches.some(match => compare(match, segment.operator!, segment.value));
+      });
+  }
+}
+
+function evaluate(root: unknown, segments: Segment[]): unknown[] {
+  return segments.reduce<unknown[]>((values, segment) => apply(values, segment), [root]);
+}
+
+/**
+ * Every value the expression matches in `data`, in document order
+ */
+export function queryJsonPath(data: unknown, expression: string): unknown[] {
+  return evaluate(data, parsePath(expression));
+}
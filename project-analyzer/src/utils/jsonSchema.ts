@@ -0,0 +1,202 @@
+/**
+ * JSON Schema validation
+ *
+ * Covers the keywords API contracts use in practice: types (with OpenAPI's
+ * `nullable`), `enum`/`const`, object properties, arrays, string and number
+ * bounds, common formats, `allOf`/`anyOf`/`oneOf`/`not` and local `$ref`s.
+ * Unknown keywords are ignored, so OpenAPI schemas validate as they are.
+ */
+
+export type JsonSchema = boolean | {
+  $ref?: string;
+  type?: string | string[];
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+function pathTo(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+}
+
+/**
+ * Resolve a local `$ref` such as `#/components/schemas/User`
+ * @throws Error when the pointer does not resolve
+ */
+export function resolveRef(root: unknown, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref ${ref} (only local references are)`);
+  }
+  let target: any = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof target !== 'object' || target === null || !(key in target)) {
+      throw new Error(`Cannot resolve $ref ${ref}`);
+    }
+    target = target[key];
+  }
+  return target;
+}
+
+function validate(value: unknown, schema: JsonSchema, path: string, root: unknown, errors: string[]): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  if (schema.$ref) {
+    validate(value, resolveRef(root, schema.$ref), path, root, errors);
+    return;
+  }
+
+  if (value === null && schema.nullable) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match /${schema.pattern}/`);
+    }
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      errors.push(`${path}: must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    // Draft 4 / OpenAPI 3.0 use booleans for the exclusive bounds, later drafts numbers
+    const exclusiveMinimum = schema.exclusiveMinimum === true ? schema.minimum : schema.exclusiveMinimum;
+    const exclusiveMaximum = schema.exclusiveMaximum === true ? schema.maximum : schema.exclusiveMaximum;
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${exclusiveMinimum}`);
+    } else if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${exclusiveMaximum}`);
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      errors.push(`${path}: items must be unique`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => validate(item, schema.items!, pathTo(path, index), root, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema !== undefined) {
+        validate(item, propertySchema, pathTo(path, key), root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties !== undefined) {
+        validate(item, schema.additionalProperties, pathTo(path, key), root, errors);
+      }
+    }
+  }
+
+  for (const part of schema.allOf || []) {
+    validate(value, part, path, root, errors);
+  }
+  if (schema.anyOf && !schema.anyOf.some(part => validateJsonSchema(value, part, root).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed schemas`);
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter(part => validateJsonSchema(value, part, root).length === 0).length;
+    if (matching !== 1) {
+      errors.push(`${path}: must match exactly one schema in oneOf (matched ${matching})`);
+    }
+  }
+  if (schema.not !== undefined && validateJsonSchema(value, schema.not, root).length === 0) {
+    errors.push(`${path}: must not match the excluded schema`);
+  }
+}
+
+/**
+ * Validate a value against a schema; `$ref`s resolve against `root`
+ * (default: the schema itself)
+ * @returns One message per violation, each prefixed with its JSONPath
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, root: unknown = schema): string[] {
+  const errors: string[] = [];
+  validate(value, schema, '$', root, errors);
+  return errors;
+}
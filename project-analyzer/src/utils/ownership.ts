@@ -0,0 +1,191 @@
+/**
+ * TODO ownership from git blame, an author map and CODEOWNERS
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TodoItem } from '../core/patterns';
+import { BlameInfo, getFileBlame, getRepoRoot } from './gitIntegration';
+
+export interface OwnershipOptions {
+  /** Attach git blame author and age to each TODO */
+  blame?: boolean;
+  /** Author email or name -> GitHub username */
+  authorMap?: Record<string, string>;
+  /** Fall back to CODEOWNERS when the author cannot be mapped */
+  codeOwners?: boolean;
+}
+
+export interface CodeOwnerRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+/** Locations GitHub reads CODEOWNERS from, in priority order */
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+/**
+ * Parse a CODEOWNERS file
+ * Owners are returned without the leading `@`; email owners are skipped.
+ */
+export function parseCodeOwners(content: string): CodeOwnerRule[] {
+  const rules: CodeOwnerRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s#.*$/, '').trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({
+      pattern,
+      owners: owners.filter(owner => owner.startsWith('@')).map(owner => owner.slice(1)),
+      regex: codeOwnerPatternToRegex(pattern)
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Convert a CODEOWNERS (gitignore-style) pattern to a regex over repo-relative paths
+ */
+function codeOwnerPatternToRegex(pattern: string): RegExp {
+  let body = pattern;
+  const directoryOnly = body.endsWith('/');
+  body = body.replace(/\/+$/, '');
+
+  // Patterns with a slash (other than trailing) are anchored to the repo root
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  const source = body
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '\u0001')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?')
+    .replace(/\u0001/g, '.*');
+
+  const prefix = anchored ? '' : '(?:.*/)?';
+  const suffix = directoryOnly ? '/.*' : '(?:/.*)?';
+  return new RegExp(`^${prefix}${source}${suffix}$`);
+}
+
+/**
+ * Find the owners of a repo-relative path (last matching rule wins)
+ */
+export function findCodeOwners(rules: CodeOwnerRule[], filePath: string): string[] {
+  const normalized = filePath.split(path.sep).join('/');
+
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(normalized)) {
+      return rules[i].owners;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Load CODEOWNERS rules from a repository
+ */
+export function loadCodeOwners(repoRoot: string): CodeOwnerRule[] {
+  for (const candidate of CODEOWNERS_PATHS) {
+    const fullPath = path.join(repoRoot, candidate);
+    if (fs.existsSync(fullPath)) {
+      return parseCodeOwners(fs.readFileSync(fullPath, 'utf-8'));
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Map a blame author to a GitHub username
+ * Checks the author map (by email, then name), then GitHub noreply emails.
+ */
+export function resolveAuthorUsername(
+  blame: BlameInfo,
+  authorMap: Record<string, string> = {}
+): string | undefined {
+  const byEmail = authorMap[blame.email] || authorMap[blame.email.toLowerCase()];
+  if (byEmail) return byEmail.replace(/^@/, '');
+
+  const byName = authorMap[blame.author];
+  if (byName) return byName.replace(/^@/, '');
+
+  const noreply = blame.email.match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i);
+  return noreply ? noreply[1] : undefined;
+}
+
+/**
+ * Attach blame info and owners to TODOs
+ *
+ * Owners are the owner named in the TODO, then the mapped blame author when
+ * known, otherwise the CODEOWNERS owners of the file. Each file is blamed once.
+ */
+export function annotateOwnership(
+  todos: TodoItem[],
+  rootPath: string,
+  options: OwnershipOptions
+): TodoItem[] {
+  const { blame = true, authorMap, codeOwners = false } = options;
+  const repoRoot = getRepoRoot(rootPath);
+
+  if (!repoRoot) {
+    return todos;
+  }
+
+  const rules = codeOwners ? loadCodeOwners(repoRoot) : [];
+  const blameCache = new Map<string, Map<number, BlameInfo>>();
+
+  for (const todo of todos) {
+    if (blame) {
+      let fileBlame = blameCache.get(todo.file);
+      if (!fileBlame) {
+        fileBlame = getFileBlame(rootPath, todo.file);
+        blameCache.set(todo.file, fileBlame);
+      }
+
+      const lineBlame = fileBlame.get(todo.line);
+      if (lineBlame) {
+        todo.blame = lineBlame;
+      }
+    }
+
+    // An owner written in the TODO itself wins over blame and CODEOWNERS
+    if (todo.owner) {
+      todo.owners = [todo.owner];
+      continue;
+    }
+
+    const author = todo.blame && !todo.blame.uncommitted
+      ? resolveAuthorUsername(todo.blame, authorMap)
+      : undefined;
+
+    if (author) {
+      todo.owners = [author];
+    } else if (rules.length > 0) {
+      const repoRelative = path.relative(repoRoot, path.join(rootPath, todo.file));
+      const owners = findCodeOwners(rules, repoRelative);
+      if (owners.length > 0) {
+        todo.owners = owners;
+      }
+    }
+  }
+
+  return todos;
+}
+
+/**
+ * Load an author map JSON file ({ "email or name": "github-username" })
+ */
+export function loadAuthorMap(mapPath: string): Record<string, string> {
+  if (!fs.existsSync(mapPath)) {
+    throw new Error(`Author map not found: ${mapPath}`);
+  }
+
+  return JSON.parse(fs.readFileSync(mapPath, 'utf-8')) as Record<string, string>;
+}
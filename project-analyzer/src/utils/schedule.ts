@@ -0,0 +1,170 @@
+/**
+ * Run schedules: fixed intervals and cron expressions
+ *
+ * Cron expressions have the usual five fields (minute, hour, day of month,
+ * month, day of week) with lists, ranges, steps and month/day names, plus the
+ * @hourly/@daily/@weekly/@monthly/@yearly shorthands. As in cron, times are
+ * local, and when both day fields are restricted a day matching either runs.
+ */
+
+export interface Schedule {
+  /** Human-readable form, e.g. "every 5m" or "cron 0 * * * *" */
+  description: string;
+  /** The first run time strictly after `after` */
+  next(after: Date): Date;
+}
+
+const UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Longest interval accepted: a year */
+const MAX_INTERVAL_MS = 365 * UNITS.d;
+
+/**
+ * Parse an interval such as `30s`, `5m`, `1h` or `1d` into milliseconds
+ * @throws Error for anything else, or for intervals longer than a year
+ */
+export function parseInterval(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/);
+  const ms = match ? Math.round(Number(match[1]) * UNITS[match[2]]) : 0;
+  if (ms <= 0) {
+    throw new Error(`Invalid interval "${text}" (use e.g. 30s, 5m, 1h)`);
+  }
+  if (ms > MAX_INTERVAL_MS) {
+    throw new Error(`Interval "${text}" is too long (at most 365d)`);
+  }
+  return ms;
+}
+
+export function intervalSchedule(ms: number, description = `every ${ms}ms`): Schedule {
+  return {
+    description,
+    next: after => new Date(after.getTime() + ms)
+  };
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day of month / day of week were restricted (not `*`) */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseField(field: string, min: number, max: number, label: string, names: string[] = [], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  const value = (token: string): number => {
+    const named = names.indexOf(token.toLowerCase());
+    const number = named >= 0 ? named + nameOffset : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (Number.isNaN(number) || number < min || number > max) {
+      throw new Error(`Invalid cron ${label} "${token}" (expected ${min}-${max})`);
+    }
+    return number;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}" in ${label}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [value(from), value(to)];
+      if (start > end) {
+        throw new Error(`Invalid cron range "${range}" in ${label}`);
+      }
+    } else {
+      start = value(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+  return values;
+}
+
+function parseCron(expression: string): CronFields {
+  const fields = (MACROS[expression.trim().toLowerCase()] || expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}" (expected 5 fields: minute hour day month weekday)`);
+  }
+
+  const weekdays = parseField(fields[4], 0, 7, 'day of week', DAY_NAMES);
+  if (weekdays.delete(7)) {
+    weekdays.add(0); // 7 is Sunday too
+  }
+  return {
+    minutes: parseField(fields[0], 0, 59, 'minute'),
+    hours: parseField(fields[1], 0, 23, 'hour'),
+    days: parseField(fields[2], 1, 31, 'day of month'),
+    months: parseField(fields[3], 1, 12, 'month', MONTH_NAMES, 1),
+    weekdays,
+    daysRestricted: fields[2] !== '*',
+    weekdaysRestricted: fields[4] !== '*'
+  };
+}
+
+function dayMatches(cron: CronFields, date: Date): boolean {
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.daysRestricted && cron.weekdaysRestricted) return day || weekday;
+  return day && weekday;
+}
+
+/**
+ * Schedule for a cron expression
+ * @throws Error when the expression is invalid
+ */
+export function cronSchedule(expression: string): Schedule {
+  const cron = parseCron(expression);
+
+  return {
+    description: `cron ${expression}`,
+    next(after: Date): Date {
+      const time = new Date(after.getTime());
+      time.setSeconds(0, 0);
+      time.setMinutes(time.getMinutes() + 1);
+
+      // Skip whole months, days and hours that can't match; five years covers Feb 29 on a given weekday
+      const limit = after.getTime() + 5 * 366 * 86_400_000;
+      while (time.getTime() <= limit) {
+        if (!cron.months.has(time.getMonth() + 1)) {
+          time.setMonth(time.getMonth() + 1, 1);
+          time.setHours(0, 0, 0, 0);
+        } else if (!dayMatches(cron, time)) {
+          time.setDate(time.getDate() + 1);
+          time.setHours(0, 0, 0, 0);
+        } else if (!cron.hours.has(time.getHours())) {
+          time.setHours(time.getHours() + 1, 0, 0, 0);
+        } else if (!cron.minutes.has(time.getMinutes())) {
+          time.setMinutes(time.getMinutes() + 1, 0, 0);
+        } else {
+          return time;
+        }
+      }
+      throw new Error(`Cron expression "${expression}" never runs`);
+    }
+  };
+}
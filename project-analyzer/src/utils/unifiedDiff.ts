@@ -0,0 +1,156 @@
+/**
+ * Unified diff generation
+ *
+ * Line diff with Myers' algorithm, rendered in the format `git apply` and
+ * `patch -p1` accept. Common leading and trailing lines are trimmed first,
+ * so the cost depends on the size of the edited region, not the file.
+ */
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Split text into lines, keeping each line's terminator
+ */
+function splitKeepingEol(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Shortest edit script between two line arrays
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMid = a.slice(prefix, a.length - suffix);
+  const newMid = b.slice(prefix, b.length - suffix);
+  const n = oldMid.length;
+  const m = newMid.length;
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  const trace: Int32Array[] = [];
+  let found = n === 0 && m === 0;
+
+  for (let d = 0; d <= offset && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldMid[x] === newMid[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const middle: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      middle.push({ type: ' ', line: oldMid[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      middle.push({ type: '+', line: newMid[--y] });
+    } else {
+      middle.push({ type: '-', line: oldMid[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    middle.push({ type: ' ', line: oldMid[--x] });
+    y--;
+  }
+  middle.reverse();
+
+  return [
+    ...a.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(line => ({ type: ' ' as const, line }))
+  ];
+}
+
+/**
+ * Render a unified diff between two versions of a file
+ * Returns an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  context: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(splitKeepingEol(oldText), splitKeepingEol(newText));
+  const output: string[] = [`--- a/${oldPath}`, `+++ b/${newPath}`];
+
+  // Positions (in old and new line numbers) before each op
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change and grow a hunk around it, merging nearby changes
+    while (index < ops.length && ops[index].type === ' ') index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= 2 * context) {
+      if (ops[end].type !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldLines[start] : oldLines[start] + 1;
+    const newStart = newCount === 0 ? newLines[start] : newLines[start] + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      if (op.line.endsWith('\n')) {
+        output.push(`${op.type}${op.line.slice(0, -1)}`);
+      } else {
+        output.push(`${op.type}${op.line}`, '\\ No newline at end of file');
+      }
+    }
+
+    index = end;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,35 @@
+/**
+ * Bounded-concurrency worker pool for async tasks
+ */
+
+import * as os from 'os';
+
+/**
+ * Default number of concurrent workers for file I/O
+ */
+export function getDefaultConcurrency(): number {
+  return Math.max(4, Math.min(32, os.cpus().length * 4));
+}
+
+/**
+ * Run `worker` over every item with at most `concurrency` tasks in flight
+ * Results keep the order of `items`.
+ */
+export async function runWorkerPool<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  concurrency: number = getDefaultConcurrency()
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
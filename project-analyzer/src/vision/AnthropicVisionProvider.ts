@@ -0,0 +1,103 @@
+/**
+ * Anthropic Messages API vision provider
+ *
+ * Sends the image as a base64 content block followed by the prompt. Rate
+ * limits, overloaded/server errors and network errors are retried with
+ * backoff, honouring `retry-after` when the API sends it.
+ */
+
+import { VisionProvider, VisionRequest, VisionResponse } from './VisionProvider';
+
+export const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504, 529]);
+
+export interface AnthropicVisionConfig {
+  apiKey: string;
+  model?: string;
+  maxTokens?: number;
+  /** Retries after the first attempt for rate limits, server errors and network errors */
+  maxRetries?: number;
+  /** Override for proxies and tests */
+  apiUrl?: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class AnthropicVisionProvider implements VisionProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private config: Required<Omit<AnthropicVisionConfig, 'model'>>;
+
+  constructor(config: AnthropicVisionConfig) {
+    if (!config.apiKey) {
+      throw new Error('An Anthropic API key is required (set ANTHROPIC_API_KEY)');
+    }
+
+    this.model = config.model || DEFAULT_ANTHROPIC_MODEL;
+    this.config = {
+      apiKey: config.apiKey,
+      maxTokens: config.maxTokens ?? 4096,
+      maxRetries: config.maxRetries ?? 2,
+      apiUrl: config.apiUrl || ANTHROPIC_API_URL
+    };
+  }
+
+  async analyze(request: VisionRequest): Promise<VisionResponse> {
+    const body = JSON.stringify({
+      model: this.model,
+      max_tokens: this.config.maxTokens,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'image', source: { type: 'base64', media_type: request.mediaType, data: request.image } },
+          { type: 'text', text: request.prompt }
+        ]
+      }]
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      let text: string;
+      try {
+        response = await fetch(this.config.apiUrl, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-api-key': this.config.apiKey,
+            'anthropic-version': ANTHROPIC_API_VERSION
+          },
+          body
+        });
+        text = await response.text();
+      } catch (error: any) {
+        // Connection resets, DNS failures and timeouts
+        if (attempt >= this.config.maxRetries) {
+          throw new Error(`Anthropic API request failed: ${error.message}`);
+        }
+        await sleep(1000 * 2 ** attempt);
+        continue;
+      }
+
+      if (response.ok) {
+        const message = JSON.parse(text);
+        const content = Array.isArray(message.content) ? message.content : [];
+        return {
+          text: content.filter((block: any) => block.type === 'text').map((block: any) => block.text).join(''),
+          model: message.model || this.model
+        };
+      }
+
+      if (!RETRYABLE_STATUS.has(response.status) || attempt >= this.config.maxRetries) {
+        throw new Error(`Anthropic API request failed with status ${response.status}: ${text.slice(0, 200)}`);
+      }
+
+      const retryAfter = Number(response.headers.get('retry-after'));
+      await sleep(retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt);
+    }
+  }
+}
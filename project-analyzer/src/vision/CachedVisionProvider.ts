@@ -0,0 +1,71 @@
+/**
+ * Response cache for vision providers
+ *
+ * Responses are stored one file per request under the cache directory, keyed
+ * by provider, model, image hash and prompt. Re-running an analysis on
+ * unchanged images costs no API calls; a changed image or prompt misses.
+ * Only responses that parse as JSON are stored, so a malformed reply is asked
+ * for again next time instead of being replayed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VisionProvider, VisionRequest, VisionResponse, getVisionRequestKey } from './VisionProvider';
+import { parseModelJson } from './featureResponse';
+
+export const DEFAULT_VISION_CACHE_DIR = 'vision-cache';
+
+interface CacheEntry {
+  provider: string;
+  model?: string;
+  sourcePath?: string;
+  createdAt: string;
+  text: string;
+}
+
+export class CachedVisionProvider implements VisionProvider {
+  readonly name: string;
+  readonly model?: string;
+
+  constructor(private inner: VisionProvider, private cacheDir: string) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async analyze(request: VisionRequest): Promise<VisionResponse> {
+    const entryPath = path.join(this.cacheDir, `${getVisionRequestKey(this.inner, request)}.json`);
+
+    if (fs.existsSync(entryPath)) {
+      try {
+        const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as CacheEntry;
+        // Entries written before malformed replies were skipped are fetched again
+        if (isParseable(entry.text)) {
+          return { text: entry.text, model: entry.model, cached: true };
+        }
+      } catch {
+        // Corrupt entry - fetch again and overwrite it
+      }
+    }
+
+    const response = await this.inner.analyze(request);
+    if (!isParseable(response.text)) {
+      return response;
+    }
+
+    const entry: CacheEntry = {
+      provider: this.inner.name,
+      model: response.model || this.inner.model,
+      sourcePath: request.sourcePath,
+      createdAt: new Date().toISOString(),
+      text: response.text
+    };
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+    fs.writeFileSync(entryPath, JSON.stringify(entry, null, 2), 'utf-8');
+
+    return response;
+  }
+}
+
+function isParseable(text: string): boolean {
+  return parseModelJson(text).value !== undefined;
+}
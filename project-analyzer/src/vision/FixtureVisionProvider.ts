@@ -0,0 +1,98 @@
+/**
+ * Fixture replay and recording for vision providers
+ *
+ * FixtureVisionProvider answers from files on disk so DesignAnalyzer can be
+ * exercised offline. A fixture is looked up first by request key (exact
+ * image + prompt match), then by the image's file name plus the request's
+ * task, if any, so hand-written fixtures keep working when prompts change.
+ * RecordingVisionProvider wraps a real provider and writes each response as
+ * a fixture.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VisionProvider, VisionRequest, VisionResponse, getVisionRequestKey } from './VisionProvider';
+
+interface FixtureFile {
+  text?: string;
+  response?: unknown;
+  model?: string;
+}
+
+/**
+ * Read a fixture: a `.json` file holds either `{ "text": "..." }` (raw model
+ * output, malformed or not) or `{ "response": <features> }`; a `.txt` file is
+ * raw model output.
+ */
+function readFixture(filePath: string): VisionResponse {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  if (filePath.endsWith('.txt')) {
+    return { text: content };
+  }
+
+  const fixture = JSON.parse(content) as FixtureFile;
+  if (typeof fixture.text === 'string') {
+    return { text: fixture.text, model: fixture.model };
+  }
+  if (fixture.response !== undefined) {
+    return { text: JSON.stringify(fixture.response), model: fixture.model };
+  }
+  throw new Error(`Fixture ${filePath} has neither "text" nor "response"`);
+}
+
+export class FixtureVisionProvider implements VisionProvider {
+  readonly name = 'fixtures';
+
+  constructor(private fixturesDir: string) {
+    if (!fs.existsSync(fixturesDir)) {
+      throw new Error(`Vision fixtures directory not found: ${fixturesDir}`);
+    }
+  }
+
+  async analyze(request: VisionRequest): Promise<VisionResponse> {
+    const candidates = [`${getVisionRequestKey(this, request)}.json`];
+    if (request.sourcePath) {
+      const suffix = request.task ? `.${request.task}` : '';
+      const fileName = path.basename(request.sourcePath) + suffix;
+      const stem = path.basename(request.sourcePath, path.extname(request.sourcePath)) + suffix;
+      candidates.push(`${fileName}.json`, `${stem}.json`, `${fileName}.txt`, `${stem}.txt`);
+    }
+
+    for (const candidate of candidates) {
+      const fixturePath = path.join(this.fixturesDir, candidate);
+      if (fs.existsSync(fixturePath)) {
+        return readFixture(fixturePath);
+      }
+    }
+
+    throw new Error(
+      `No vision fixture for ${request.sourcePath || 'image'} in ${this.fixturesDir} (tried ${candidates.join(', ')})`
+    );
+  }
+}
+
+export class RecordingVisionProvider implements VisionProvider {
+  readonly name: string;
+  readonly model?: string;
+
+  constructor(private inner: VisionProvider, private fixturesDir: string) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async analyze(request: VisionRequest): Promise<VisionResponse> {
+    const response = await this.inner.analyze(request);
+
+    const fileName = request.sourcePath
+      ? path.basename(request.sourcePath) + (request.task ? `.${request.task}` : '')
+      : getVisionRequestKey(this.inner, request);
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.fixturesDir, `${fileName}.json`),
+      JSON.stringify({ model: response.model, text: response.text }, null, 2),
+      'utf-8'
+    );
+
+    return response;
+  }
+}
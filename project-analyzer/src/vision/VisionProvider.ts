@@ -0,0 +1,74 @@
+/**
+ * Vision provider interface
+ *
+ * A provider sends one image and a prompt to a vision model and returns the
+ * model's text. DesignAnalyzer builds the prompt and turns the text into
+ * features (see featureResponse.ts), so providers know nothing about
+ * features. Providers can be stacked: a cache or a fixture recorder wraps
+ * another provider.
+ */
+
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type VisionMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface VisionRequest {
+  /** Base64-encoded image */
+  image: string;
+  mediaType: VisionMediaType;
+  prompt: string;
+  /** Where the image came from; fixtures are looked up by its file name */
+  sourcePath?: string;
+  /** What is asked besides features (e.g. 'typography'); named fixtures become `<image>.<task>.json` */
+  task?: string;
+}
+
+export interface VisionResponse {
+  text: string;
+  /** Model that produced the response, when known */
+  model?: string;
+  /** True when the response was served from the cache */
+  cached?: boolean;
+}
+
+export interface VisionProvider {
+  /** Provider name, part of the cache key */
+  readonly name: string;
+
+  /** Model used, part of the cache key */
+  readonly model?: string;
+
+  /** Send an image and prompt, get the model's text back */
+  analyze(request: VisionRequest): Promise<VisionResponse>;
+}
+
+const MEDIA_TYPES: Record<string, VisionMediaType> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Media type of an image file, from its extension
+ * @throws Error for formats vision models do not accept
+ */
+export function getImageMediaType(filePath: string): VisionMediaType {
+  const mediaType = MEDIA_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mediaType) {
+    throw new Error(`Unsupported image format: ${path.basename(filePath)} (use PNG, JPEG, GIF or WebP)`);
+  }
+  return mediaType;
+}
+
+/**
+ * Cache key for a request: provider, model, image content and prompt
+ */
+export function getVisionRequestKey(provider: VisionProvider, request: VisionRequest): string {
+  const imageHash = createHash('sha256').update(request.image).digest('hex');
+  return createHash('sha256')
+    .update([provider.name, provider.model || '', imageHash, request.prompt].join('\0'))
+    .digest('hex');
+}
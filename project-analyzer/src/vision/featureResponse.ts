@@ -0,0 +1,226 @@
+/**
+ * Parsing and validation of vision model responses
+ *
+ * Models asked for a JSON array do not always return one: the array may be
+ * wrapped in a code fence or prose, contain trailing commas or smart quotes,
+ * or be cut off at the token limit. parseFeatureResponse repairs what it can,
+ * keeps every entry that matches the prompt's contract and reports the rest
+ * as warnings instead of failing the whole image.
+ */
+
+import { FeaturePriority, Typography } from '../types/features';
+
+/** A feature as requested by DesignAnalyzer's prompt, after validation */
+export interface RawFeature {
+  name: string;
+  description: string;
+  category: string;
+  priority?: FeaturePriority;
+  confidence?: number;
+  notes?: string;
+}
+
+export interface FeatureResponseResult {
+  features: RawFeature[];
+  warnings: string[];
+  /** True when the text was not valid JSON as returned */
+  repaired: boolean;
+}
+
+const PRIORITIES: FeaturePriority[] = ['high', 'medium', 'low'];
+
+/**
+ * Cut the outermost JSON array (or object) out of surrounding text. An array
+ * cut off mid-way is closed after its last complete element.
+ */
+function extractJson(text: string): string | undefined {
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let lastCompleteElement = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      stack.push(char === '[' ? ']' : '}');
+    } else if (char === ']' || char === '}') {
+      stack.pop();
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+      if (stack.length === 1) {
+        lastCompleteElement = i;
+      }
+    }
+  }
+
+  // Truncated: keep the complete elements of the top-level array
+  if (text[start] === '[' && lastCompleteElement !== -1) {
+    return text.slice(start, lastCompleteElement + 1) + ']';
+  }
+  return undefined;
+}
+
+/**
+ * Fix the usual ways model output deviates from strict JSON
+ */
+function repairJson(json: string): string {
+  return json
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/,\s*([\]}])/g, '$1');
+}
+
+/**
+ * Parse JSON from model output, repairing fences, prose, trailing commas,
+ * smart quotes and truncation; value is undefined when nothing parses
+ */
+export function parseModelJson(text: string): { value?: unknown; repaired: boolean } {
+  const trimmed = text.trim();
+  try {
+    return { value: JSON.parse(trimmed), repaired: false };
+  } catch {
+    // Fall through to repair
+  }
+
+  const unfenced = trimmed.replace(/```(?:json)?/gi, '');
+  const extracted = extractJson(unfenced);
+  if (extracted === undefined) {
+    return { repaired: true };
+  }
+
+  for (const candidate of [extracted, repairJson(extracted)]) {
+    try {
+      return { value: JSON.parse(candidate), repaired: true };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return { repaired: true };
+}
+
+function toConfidence(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    return undefined;
+  }
+  // Accept 0-1 fractions as well as 0-100 scores
+  const score = number > 0 && number <= 1 ? number * 100 : number;
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+/**
+ * Validate one entry against the prompt's contract
+ */
+function validateFeature(entry: unknown, index: number, warnings: string[]): RawFeature | undefined {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    warnings.push(`Feature ${index + 1} is not an object; skipped`);
+    return undefined;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    warnings.push(`Feature ${index + 1} has no name; skipped`);
+    return undefined;
+  }
+
+  const priority = typeof raw.priority === 'string' ? raw.priority.toLowerCase() : undefined;
+  if (priority && !PRIORITIES.includes(priority as FeaturePriority)) {
+    warnings.push(`Feature "${name}" has unknown priority "${raw.priority}"; using medium`);
+  }
+
+  const confidence = toConfidence(raw.confidence);
+  if (raw.confidence !== undefined && confidence === undefined) {
+    warnings.push(`Feature "${name}" has invalid confidence "${raw.confidence}"`);
+  }
+
+  return {
+    name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    category: typeof raw.category === 'string' ? raw.category : 'Other',
+    priority: PRIORITIES.includes(priority as FeaturePriority) ? priority as FeaturePriority : undefined,
+    confidence,
+    notes: typeof raw.notes === 'string' && raw.notes ? raw.notes : undefined
+  };
+}
+
+/**
+ * Parse a model response into features, repairing malformed JSON
+ */
+export function parseFeatureResponse(text: string): FeatureResponseResult {
+  const warnings: string[] = [];
+  const { value, repaired } = parseModelJson(text);
+
+  if (value === undefined) {
+    const preview = text.trim().slice(0, 80).replace(/\s+/g, ' ');
+    return { features: [], warnings: [`Response is not JSON: "${preview}"`], repaired };
+  }
+
+  // Accept { "features": [...] } as well as a bare array
+  const entries = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && Array.isArray((value as any).features)
+      ? (value as any).features
+      : undefined;
+
+  if (!entries) {
+    return { features: [], warnings: ['Response JSON is not an array of features'], repaired };
+  }
+
+  const features = entries
+    .map((entry: unknown, index: number) => validateFeature(entry, index, warnings))
+    .filter((feature: RawFeature | undefined): feature is RawFeature => feature !== undefined);
+
+  return { features, warnings, repaired };
+}
+
+/**
+ * Parse a typography response: `{ fontFamilies, headingSizes, bodySizes,
+ * lineHeights, fontWeights }`. Sizes may be numbers or px strings.
+ */
+export function parseTypographyResponse(text: string): { typography?: Typography; warnings: string[] } {
+  const { value } = parseModelJson(text);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { warnings: ['Typography response is not a JSON object'] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const list = (key: string): unknown[] => Array.isArray(raw[key]) ? raw[key] as unknown[] : [];
+  const numbers = (key: string) => list(key)
+    .map(entry => typeof entry === 'number' ? entry : parseFloat(String(entry)))
+    .filter(entry => Number.isFinite(entry) && entry > 0);
+  const strings = (key: string) => list(key)
+    .map(entry => String(entry).trim())
+    .filter(Boolean);
+
+  const typography: Typography = {
+    fontFamilies: strings('fontFamilies'),
+    headingSizes: numbers('headingSizes'),
+    bodySizes: numbers('bodySizes'),
+    lineHeights: numbers('lineHeights'),
+    fontWeights: strings('fontWeights')
+  };
+
+  const warnings = typography.fontFamilies.length === 0 && typography.headingSizes.length === 0 && typography.bodySizes.length === 0
+    ? ['Typography response has no font families or sizes']
+    : [];
+  return { typography, warnings };
+}
@@ -0,0 +1,67 @@
+/**
+ * Vision providers for design analysis
+ */
+
+import { VisionProvider } from './VisionProvider';
+import { AnthropicVisionProvider } from './AnthropicVisionProvider';
+import { CachedVisionProvider } from './CachedVisionProvider';
+import { FixtureVisionProvider, RecordingVisionProvider } from './FixtureVisionProvider';
+
+export * from './VisionProvider';
+export * from './featureResponse';
+export { AnthropicVisionProvider, DEFAULT_ANTHROPIC_MODEL } from './AnthropicVisionProvider';
+export { CachedVisionProvider, DEFAULT_VISION_CACHE_DIR } from './CachedVisionProvider';
+export { FixtureVisionProvider, RecordingVisionProvider } from './FixtureVisionProvider';
+
+export type VisionProviderName = 'anthropic' | 'fixtures';
+
+export interface VisionConfig {
+  /** Default: fixtures when fixturesDir is set, otherwise anthropic */
+  provider?: VisionProviderName;
+  /** Default: ANTHROPIC_API_KEY */
+  apiKey?: string;
+  /** Default: ANTHROPIC_MODEL, then the provider default */
+  model?: string;
+  maxTokens?: number;
+  /** Directory of fixtures to replay (fixtures provider) */
+  fixturesDir?: string;
+  /** Write every response as a fixture into this directory */
+  recordDir?: string;
+  /** Cache responses in this directory; omit to disable caching */
+  cacheDir?: string;
+}
+
+/**
+ * Create the vision provider selected in config, wrapped in the cache and
+ * fixture recorder when those are configured
+ */
+export function createVisionProvider(config: VisionConfig = {}): VisionProvider {
+  const provider = config.provider || (config.fixturesDir ? 'fixtures' : 'anthropic');
+  let vision: VisionProvider;
+
+  switch (provider) {
+    case 'anthropic':
+      vision = new AnthropicVisionProvider({
+        apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY || '',
+        model: config.model || process.env.ANTHROPIC_MODEL,
+        maxTokens: config.maxTokens
+      });
+      break;
+    case 'fixtures':
+      if (!config.fixturesDir) {
+        throw new Error('A fixtures directory is required for the fixtures vision provider');
+      }
+      // Replayed responses are already on disk; caching them again is pointless
+      return new FixtureVisionProvider(config.fixturesDir);
+    default:
+      throw new Error(`Unknown vision provider: ${provider}`);
+  }
+
+  if (config.cacheDir) {
+    vision = new CachedVisionProvider(vision, config.cacheDir);
+  }
+  if (config.recordDir) {
+    vision = new RecordingVisionProvider(vision, config.recordDir);
+  }
+  return vision;
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for Tier 3 API contract checks and their generators
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { APIEndpoint } from '@project-suite/shared';
+import {
+  checksFromNetwork,
+  checksFromOpenAPI,
+  evaluateApiResponse,
+  generatedChecksSpec,
+  parseCheckMethods,
+  substituteVariables
+} from '../src/core/apiChecks';
+import { buildVerificationTargets, parseVerificationSpec } from '../src/core/verificationSpec';
+import { queryJsonPath } from '../src/utils/jsonPath';
+import { validateJsonSchema } from '../src/utils/jsonSchema';
+
+const OPENAPI = path.join(__dirname, 'fixtures', 'verification', 'openapi.yaml');
+
+const order = {
+  data: {
+    id: 'ord_123',
+    total: 59.9,
+    items: [
+      { sku: 'A-1', qty: 2, status: 'shipped' },
+      { sku: 'B-7', qty: 1, status: 'pending' }
+    ]
+  }
+};
+
+describe('API checks', () => {
+  it('should query JSON with paths, wildcards, recursive descent and filters', () => {
+    expect(queryJsonPath(order, '$.data.id')).toEqual(['ord_123']);
+    expect(queryJsonPath(order, "$['data'].items[-1].sku")).toEqual(['B-7']);
+    expect(queryJsonPath(order, '$.data.items[*].qty')).toEqual([2, 1]);
+    expect(queryJsonPath(order, '$..sku')).toEqual(['A-1', 'B-7']);
+    expect(queryJsonPath(order, "$.data.items[?(@.status == 'pending')].sku")).toEqual(['B-7']);
+    expect(queryJsonPath(order, '$.data.items[?(@.qty > 1)].sku')).toEqual(['A-1']);
+    expect(queryJsonPath(order, '$.data.missing')).toEqual([]);
+    expect(() => queryJsonPath(order, 'data.id')).toThrow('Invalid JSONPath "data.id": must start with $');
+  });
+
+  it('should validate JSON Schema with refs, nullable and nested errors', () => {
+    const doc = yaml.load(fs.readFileSync(OPENAPI, 'utf-8')) as any;
+    const product = { $ref: '#/components/schemas/Product' };
+
+    expect(validateJsonSchema({ id: 1, name: 'Dune', price: 9.5, discontinuedAt: null }, product, doc)).toEqual([]);
+    expect(validateJsonSchema({ id: 1.5, name: '', related: [{ id: 2, name: 'x', price: -1 }], discontinuedAt: 'soon' }, product, doc)).toEqual([
+      '$: missing required property "price"',
+      '$.id: expected integer, got number',
+      '$.name: must be at least 1 characters',
+      '$.related[0].price: must be at least 0',
+      '$.discontinuedAt: must be a valid date-time'
+    ]);
+  });
+
+  it('should check status, latency, headers, schema and assertions and capture values', () => {
+    const response = {
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8', 'x-request-id': 'req-9' },
+      body: JSON.stringify(order),
+      duration: 180
+    };
+
+    const passing = evaluateApiResponse({
+      endpoint: 'https://shop.example.com/api/orders',
+      expectedStatus: 200,
+      maxLatency: 500,
+      expectedHeaders: { 'Content-Type': 'application/json', 'x-request-id': true, 'set-cookie': false },
+      schema: { type: 'object', required: ['data'], properties: { data: { type: 'object', required: ['id', 'items'] } } },
+      assertions: [
+        { path: '$.data.id', matches: '^ord_' },
+        { path: '$.data.items', length: 2 },
+        { path: '$.data.items[*].qty', greaterThan: 0 },
+        { path: '$.data.items[*].sku', contains: '-' },
+        { path: '$.data.coupon', exists: false }
+      ],
+      capture: { orderId: '$.data.id', requestId: 'header:X-Request-Id' }
+    }, response);
+    expect(passing.failures).toEqual([]);
+    expect(passing.captured).toEqual({ orderId: 'ord_123', requestId: 'req-9' });
+
+    const failing = evaluateApiResponse({
+      endpoint: 'https://shop.example.com/api/orders',
+      expectedStatus: 201,
+      maxLatency: 100,
+      expectedHeaders: { 'cache-control': true },
+      schema: { type: 'object', properties: { data: { type: 'object', properties: { total: { type: 'integer' } } } } },
+      assertions: [
+        { path: '$.data.items[*].status', equals: 'shipped' },
+        { path: '$.data.coupon' }
+      ],
+      capture: { token: '$.token' }
+    }, response);
+    expect(failing.failures).toEqual([
+      'Expected status 201, got 200',
+      'Took 180ms, budget is 100ms',
+      'Missing header "cache-control"',
+      'Response does not match schema: $.data.total: expected integer, got number',
+      '$.data.items[*].status is "pending", expected "shipped"',
+      '$.data.coupon matched nothing',
+      'Could not capture "token" from $.token'
+    ]);
+    expect(failing.details.schemaErrors).toEqual(['$.data.total: expected integer, got number']);
+
+    expect(evaluateApiResponse({ endpoint: '/health', assertions: [{ path: '$.ok', equals: true }] }, { ...response, body: '<html>' }).failures)
+      .toEqual(['Response body is not JSON']);
+  });
+
+  it('should substitute captured values into later checks', () => {
+    const variables = { orderId: 'ord 123', qty: 2 };
+    expect(substituteVariables('https://shop.example.com/api/orders/%7B%7BorderId%7D%7D?q={{qty}}', variables, encodeURIComponent))
+      .toBe('https://shop.example.com/api/orders/ord%20123?q=2');
+    expect(substituteVariables({ qty: '{{qty}}', note: 'order {{ orderId }}' }, variables)).toEqual({ qty: 2, note: 'order ord 123' });
+    expect(() => substituteVariables({ Authorization: 'Bearer {{token}}' }, variables)).toThrow('Variable "token" has not been captured');
+  });
+
+  it('should generate checks from an OpenAPI document', () => {
+    const doc = yaml.load(fs.readFileSync(OPENAPI, 'utf-8'));
+    const generated = checksFromOpenAPI(doc, { methods: ['GET', 'POST'], maxLatency: 800 });
+
+    expect(generated.baseUrl).toBe('https://shop.example.com');
+    expect(generated.skipped).toEqual([
+      'POST /products: no example for the required request body',
+      'GET /orders/{orderId}: no example for path parameter "orderId"'
+    ]);
+    expect(generated.checks.map(check => [check.name, check.endpoint, check.expectedStatus])).toEqual([
+      ['listProducts', '/api/v1/products?category=books', 200],
+      ['GET /products/{id}', '/api/v1/products/42', 200]
+    ]);
+
+    const [list, single] = generated.checks;
+    expect(list).toMatchObject({ method: 'GET', maxLatency: 800, expectedHeaders: { 'content-type': 'application/json' } });
+    expect(list.schema).toMatchObject({ type: 'array', items: { type: 'object', required: ['id', 'name', 'price'] } });
+    expect((single.schema as any).properties.related.items).toEqual({});
+    expect(JSON.stringify(generated.checks)).not.toContain('$ref');
+
+    // The generated spec is a valid verification spec
+    const spec = parseVerificationSpec(generatedChecksSpec(generated, 'shop-api', 'Shop API'), {});
+    const [target] = buildVerificationTargets(spec);
+    expect(target.tier3?.[1].endpoint).toBe('https://shop.example.com/api/v1/products/42');
+    expect(() => checksFromOpenAPI({ info: {} })).toThrow('Not an OpenAPI document');
+
+    expect(parseCheckMethods('get, POST')).toEqual(['GET', 'POST']);
+    expect(() => parseCheckMethods('GET,PATCH')).toThrow('Unknown method "PATCH" (expected GET, POST, PUT, DELETE)');
+  });
+
+  it('should generate checks from observed API calls', () => {
+    const endpoint = (url: string, statusCode: number, body?: unknown, method = 'GET'): APIEndpoint => ({
+      url,
+      method,
+      requestHeaders: {},
+      responseHeaders: { 'content-type': 'application/json' },
+      statusCode,
+      responsePayload: body === undefined ? undefined : JSON.stringify(body),
+      timestamp: new Date()
+    });
+
+    const generated = checksFromNetwork([
+      endpoint('https://shop.example.com/api/cart?x=1', 200, { items: [{ sku: 'A', qty: 1, note: null }, { sku: 'B', qty: 2 }], total: 3 }),
+      endpoint('https://shop.example.com/api/cart?x=1', 200, {}),
+      endpoint('https://cdn.example.net/config.json', 200, { flags: [] }),
+      endpoint('https://shop.example.com/api/recommendations', 503),
+      endpoint('https://shop.example.com/api/cart', 200, { ok: true }, 'POST')
+    ], 'https://shop.example.com/cart');
+
+    expect(generated.baseUrl).toBe('https://shop.example.com');
+    expect(generated.skipped).toEqual(['GET https://shop.example.com/api/recommendations: responded 503']);
+    expect(generated.checks.map(check => check.endpoint)).toEqual(['/api/cart?x=1', 'https://cdn.example.net/config.json']);
+    expect(generated.checks[0].schema).toEqual({
+      type: 'object',
+      required: ['items', 'total'],
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['sku', 'qty'],
+            properties: { sku: { type: 'string' }, qty: { type: 'number' }, note: {} }
+          }
+        },
+        total: { type: 'number' }
+      }
+    });
+  });
+
+  it('should validate Tier 3 contract options in specs', () => {
+    expect(() => parseVerificationSpec({
+      features: [{
+        id: 'orders',
+        url: 'https://shop.example.com/',
+        tier3: [
+          { endpoint: 'https://shop.example.com/api/orders/{{orderId}}', maxLatency: 0, assertions: [{ path: 'data.id' }] },
+          { endpoint: 'https://shop.example.com/api/orders', capture: { orderId: '$.data[' }, expectedHeaders: { etag: 1 } }
+        ]
+      }]
+    }, {})).toThrow([
+      'Invalid verification spec:',
+      '  - features[0].tier3[0].maxLatency must be a positive number of milliseconds',
+      '  - features[0].tier3[0].assertions[0].path: Invalid JSONPath "data.id": must start with $',
+      '  - features[0].tier3[0] uses {{orderId}}, which no earlier check captures',
+      '  - features[0].tier3[1].expectedHeaders must map header names to true, false or a string',
+      '  - features[0].tier3[1].capture.orderId: Invalid JSONPath "$.data[": unexpected "["'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for SARIF and Code Climate output
+ */
+
+import { formatAsSARIF, formatAsCodeClimate, getRuleId } from '../src/formatters/codeQualityFormatter';
+import { getFormatExtension } from '../src/formatters/outputFormatter';
+import { ScanResult, ProcessedTodo } from '../src/core/scanner';
+import { ALL_PATTERNS } from '../src/core/patterns';
+
+function todo(overrides: Partial<ProcessedTodo>): ProcessedTodo {
+  return {
+    type: 'TODO',
+    content: 'Add retry logic for failed uploads',
+    file: 'src/upload.ts',
+    line: 12,
+    column: 5,
+    priority: 'medium',
+    category: 'code',
+    rawText: '// TODO: Add retry logic for failed uploads',
+    id: 'todo-1',
+    hash: 'abc123',
+    ...overrides
+  };
+}
+
+const result: ScanResult = {
+  todos: [
+    todo({}),
+    todo({ type: 'FIXME', priority: 'high', content: 'Crash on empty input', line: 40, hash: 'def456', dueDate: '2026-11-01' }),
+    todo({ type: 'SECURITY', priority: 'high', content: 'Validate redirect target', file: 'src/auth.ts', line: 7, column: undefined, hash: 'ghi789' })
+  ],
+  summary: {
+    totalTodos: 3,
+    byPriority: { high: 2, medium: 1, low: 0 },
+    byType: { TODO: 1, FIXME: 1, SECURITY: 1 },
+    byFile: {},
+    filesScanned: 2,
+    scanDuration: 1
+  },
+  scanDate: '2026-10-19T12:00:00.000Z',
+  rootPath: '/repo'
+};
+
+describe('Code quality formatters', () => {
+  describe('formatAsSARIF', () => {
+    const log = JSON.parse(formatAsSARIF(result, ALL_PATTERNS));
+    const run = log.runs[0];
+
+    it('should produce a SARIF 2.1.0 run with one rule per TODO type', () => {
+      expect(log.version).toBe('2.1.0');
+      expect(run.tool.driver.name).toBe('project-analyzer');
+      expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['todo/todo', 'todo/fixme', 'todo/security']);
+      expect(run.tool.driver.rules[1].shortDescription.text).toBe('Bug to fix');
+      expect(run.originalUriBaseIds.SRCROOT.uri).toBe('file:///repo/');
+    });
+
+    it('should map priority to level and use the TODO hash as fingerprint', () => {
+      const [first, second, third] = run.results;
+
+      expect(first.level).toBe('warning');
+      expect(second.level).toBe('error');
+      expect(second.ruleIndex).toBe(1);
+      expect(second.partialFingerprints).toEqual({ 'todoHash/v1': 'def456' });
+      expect(second.properties.dueDate).toBe('2026-11-01');
+      expect(first.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'src/upload.ts', uriBaseId: 'SRCROOT' },
+        region: { startLine: 12, startColumn: 5 }
+      });
+      expect(third.locations[0].physicalLocation.region).toEqual({ startLine: 7 });
+    });
+  });
+
+  describe('formatAsCodeClimate', () => {
+    it('should produce issues with categories, severities and fingerprints', () => {
+      const issues = JSON.parse(formatAsCodeClimate(result, ALL_PATTERNS));
+
+      expect(issues).toHaveLength(3);
+      expect(issues[0]).toEqual({
+        type: 'issue',
+        check_name: 'todo/todo',
+        description: 'TODO: Add retry logic for failed uploads',
+        content: { body: 'General task (TODO).' },
+        categories: ['Clarity'],
+        location: { path: 'src/upload.ts', lines: { begin: 12 } },
+        severity: 'minor',
+        fingerprint: 'abc123'
+      });
+      expect(issues[1].categories).toEqual(['Bug Risk']);
+      expect(issues[1].severity).toBe('major');
+      expect(issues[2].categories).toEqual(['Security']);
+    });
+  });
+
+  it('should build rule ids and file extensions', () => {
+    expect(getRuleId('Unchecked Task')).toBe('todo/unchecked-task');
+    expect(getFormatExtension('sarif')).toBe('sarif');
+    expect(getFormatExtension('codeclimate')).toBe('json');
+  });
+});
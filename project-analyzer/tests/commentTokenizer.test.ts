@@ -0,0 +1,147 @@
+/**
+ * Tests for language-aware comment extraction
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { tokenizeComments, getCommentSyntax } from '../src/core/commentTokenizer';
+import { scanTodos } from '../src/core/scanner';
+
+function comments(file: string, content: string) {
+  return tokenizeComments(content, getCommentSyntax(file)!);
+}
+
+describe('Comment tokenizer', () => {
+  describe('tokenizeComments', () => {
+    it('should skip comment markers inside strings', () => {
+      const spans = comments('app.ts', [
+        'const url = "http://example.com/* not a comment */";',
+        'const label = \'// TODO: not a comment either\';',
+        'run(); // TODO: Real trailing comment'
+      ].join('\n'));
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0].lines[0]).toMatchObject({ text: 'TODO: Real trailing comment', line: 3, column: 11 });
+    });
+
+    it('should strip block comment decoration and keep line numbers', () => {
+      const spans = comments('lib.java', '/**\n * TODO: Split this class\n *   into readers and writers\n */');
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0].kind).toBe('block');
+      expect(spans[0].lines.map(line => [line.line, line.text])).toEqual([
+        [1, ''],
+        [2, 'TODO: Split this class'],
+        [3, 'into readers and writers'],
+        [4, '']
+      ]);
+    });
+
+    it('should merge consecutive own-line comments only', () => {
+      const spans = comments('run.py', 'x = 1  # first\n# second\n# third\n\n# fourth');
+
+      expect(spans.map(span => span.lines.map(line => line.text))).toEqual([
+        ['first'],
+        ['second', 'third'],
+        ['fourth']
+      ]);
+    });
+
+    it('should require shell comments to start a word', () => {
+      const spans = comments('deploy.sh', 'echo ${#ARGS} https://example.com/#top # real comment');
+
+      expect(spans.map(span => span.lines[0].text)).toEqual(['real comment']);
+    });
+
+    it('should treat docstrings, SQL and Lua comments as comments', () => {
+      expect(comments('model.py', 'def f():\n    """TODO: Document the return value"""\n    s = """TODO: not a docstring"""')
+        .map(span => span.kind)).toEqual(['docstring']);
+      expect(comments('schema.sql', "SELECT '--x' -- TODO: Add an index\n/* FIXME: Drop column */")
+        .map(span => span.lines[0].text)).toEqual(['TODO: Add an index', 'FIXME: Drop column']);
+      expect(comments('init.lua', '--[[ TODO: Cache lookups ]]\nprint("--") -- HACK: Remove')
+        .map(span => span.lines[0].text)).toEqual(['TODO: Cache lookups', 'HACK: Remove']);
+    });
+
+    it('should skip regex literals but not divisions', () => {
+      const spans = comments('parse.ts', [
+        'const quote = /"/; // TODO: Handle escaped quotes',
+        "const parts = line.split(/[/'`]/g); // FIXME: Keep empty parts",
+        'const half = total / 2; // NOTE: Rounds down',
+        'if (ok) return /\\/\\*/.test(text); // HACK: Remove',
+        'const slash = path.endsWith("/") ? 1 : 0 / 1; // XXX: Trailing'
+      ].join('\n'));
+
+      expect(spans.map(span => [span.line, span.lines[0].text])).toEqual([
+        [1, 'TODO: Handle escaped quotes'],
+        [2, 'FIXME: Keep empty parts'],
+        [3, 'NOTE: Rounds down'],
+        [4, 'HACK: Remove'],
+        [5, 'XXX: Trailing']
+      ]);
+    });
+
+    it('should skip text blocks and handle Ruby =begin blocks', () => {
+      expect(comments('Query.kt', 'val sql = """\n  SELECT 1 -- // TODO: not a comment\n""" // TODO: Move to a resource')
+        .map(span => [span.line, span.lines[0].text])).toEqual([[3, 'TODO: Move to a resource']]);
+      expect(comments('Report.java', 'String html = """\n    <a href="/*">\n    """;\n/* FIXME: Escape */')
+        .map(span => span.lines[0].text)).toEqual(['FIXME: Escape']);
+
+      const ruby = comments('worker.rb', '=begin\nTODO: Retry failed jobs\n=end\nx = 1 # real\n  =begin not a comment');
+      expect(ruby.map(span => [span.kind, span.line, span.endLine])).toEqual([['block', 1, 3], ['line', 4, 4]]);
+      expect(ruby[0].lines.map(line => line.text)).toEqual(['', 'TODO: Retry failed jobs', '']);
+    });
+
+    it('should tokenize script blocks in templates', () => {
+      const spans = comments('App.vue', [
+        '<template>',
+        '  <!-- TODO: Add an empty state -->',
+        '  <a href="https://example.com/#/home">Home // not a comment</a>',
+        '</template>',
+        '<script>',
+        '// FIXME: Debounce search input',
+        '</script>'
+      ].join('\n'));
+
+      expect(spans.map(span => [span.line, span.lines[0].text])).toEqual([
+        [2, 'TODO: Add an empty state'],
+        [6, 'FIXME: Debounce search input']
+      ]);
+    });
+  });
+
+  describe('scanning source files', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tokenizer-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should join multi-line TODO bodies and ignore TODOs in strings', async () => {
+      fs.writeFileSync(path.join(testDir, 'upload.ts'), [
+        'const message = "// TODO: this is user-facing text";',
+        '/*',
+        ' * TODO: Retry failed chunk uploads',
+        ' * with exponential backoff.',
+        ' *',
+        ' * @param chunk the chunk',
+        ' */',
+        '// FIXME: Handle quota errors from',
+        '//   the storage provider',
+        '// Unrelated comment'
+      ].join('\n'));
+
+      const result = await scanTodos({ rootPath: testDir });
+
+      expect(result.todos.map(todo => [todo.type, todo.content, todo.line, todo.column])).toEqual([
+        ['TODO', 'Retry failed chunk uploads with exponential backoff.', 3, 4],
+        ['FIXME', 'Handle quota errors from the storage provider', 8, 4]
+      ]);
+      expect(result.todos[1].rawText).toBe('// FIXME: Handle quota errors from\n//   the storage provider');
+    });
+  });
+});
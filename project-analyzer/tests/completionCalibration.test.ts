@@ -0,0 +1,136 @@
+/**
+ * Tests for feedback-driven calibration of completion confidence
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { scanTodos, processScanResults } from '../src/core/scanner';
+import { analyzeCompletions } from '../src/core/completionDetector';
+import { DEFAULT_COMPLETION_WEIGHTS, scoreCompletionSignals } from '../src/core/completionPatterns';
+import {
+  FeedbackEntry,
+  createCleanupSnapshot,
+  resolveVerdicts,
+  appendFeedback,
+  loadFeedback,
+  calibrateWeights,
+  evaluateThresholds,
+  saveCompletionWeights,
+  loadCompletionWeights
+} from '../src/core/completionCalibration';
+
+describe('Completion calibration', () => {
+  let testDir: string;
+
+  function entry(hash: string, verdict: FeedbackEntry['verdict'], context: string[]): FeedbackEntry {
+    return {
+      hash,
+      verdict,
+      recordedAt: new Date().toISOString(),
+      file: 'notes.md',
+      line: 1,
+      type: 'TODO',
+      content: hash,
+      confidence: 0,
+      signals: { context, oldDocument: 0 }
+    };
+  }
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'calibration-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reproduce each confidence from its recorded signals', async () => {
+    fs.writeFileSync(path.join(testDir, 'app.ts'), [
+      '// TODO: add retries - done, merged last week',
+      'const a = 1;',
+      '// TODO: ~~old approach~~',
+      '// FIXME: handle empty input',
+      ''
+    ].join('\n'));
+
+    const result = processScanResults(await scanTodos({ rootPath: testDir }));
+    const report = analyzeCompletions(result.todos, testDir);
+    const snapshot = createCleanupSnapshot(report);
+
+    expect(snapshot.suggestions).toHaveLength(3);
+    for (const analysis of report.analyses) {
+      expect(scoreCompletionSignals(analysis.signals!)).toBeCloseTo(analysis.confidence, 6);
+    }
+    expect(snapshot.suggestions[0].hash).toBe((result.todos[0] as any).hash);
+  });
+
+  it('should resolve ids by file:line or hash prefix and keep the latest verdict', () => {
+    const snapshot = {
+      generatedAt: new Date().toISOString(),
+      suggestions: [
+        { ...entry('abcdef123456', 'correct', []), file: 'src/a.ts', line: 3 },
+        { ...entry('fedcba654321', 'correct', []), file: 'src/b.ts', line: 9 }
+      ]
+    };
+
+    const entries = resolveVerdicts(snapshot, [
+      { id: 'src/a.ts:3', verdict: 'correct' },
+      { id: 'fedcba', verdict: 'incorrect' }
+    ]);
+    expect(entries.map(e => [e.hash, e.verdict])).toEqual([['abcdef123456', 'correct'], ['fedcba654321', 'incorrect']]);
+
+    expect(() => resolveVerdicts(snapshot, [
+      { id: 'src/a.ts:4', verdict: 'correct' },
+      { id: 'abc', verdict: 'correct' }
+    ])).toThrow(/src\/a\.ts:4[\s\S]*abc/);
+
+    const feedbackPath = path.join(testDir, 'feedback.jsonl');
+    appendFeedback(feedbackPath, entries);
+    appendFeedback(feedbackPath, resolveVerdicts(snapshot, [{ id: 'src/a.ts:3', verdict: 'incorrect' }]));
+
+    const feedback = loadFeedback(feedbackPath);
+    expect(feedback).toHaveLength(2);
+    expect(feedback.find(e => e.hash === 'abcdef123456')!.verdict).toBe('incorrect');
+  });
+
+  it('should lower an indicator that keeps flagging open TODOs', () => {
+    const feedback = [
+      ...Array.from({ length: 6 }, (_, i) => entry(`deploy-${i}`, 'incorrect', ['Deployment/release indicators'])),
+      ...Array.from({ length: 6 }, (_, i) => entry(`done-${i}`, 'correct', ['Contains completion keywords']))
+    ];
+
+    const before = evaluateThresholds(feedback, DEFAULT_COMPLETION_WEIGHTS, [70]);
+    expect(before[0].precision).toBe(0.5);
+
+    const result = calibrateWeights(feedback);
+    expect(result.weights.indicators['Deployment/release indicators']).toBeLessThan(50);
+    expect(result.weights.indicators['Contains completion keywords']).toBeGreaterThanOrEqual(80);
+    expect(result.calibratedLoss).toBeLessThan(result.defaultLoss);
+    expect(result.suggested).not.toBeNull();
+    expect(result.suggested!.precision).toBe(1);
+    expect(result.changes.map(change => change.name)).toContain('indicator: Deployment/release indicators');
+  });
+
+  it('should require both verdicts and save weights that merge over the defaults', () => {
+    expect(() => calibrateWeights([entry('a', 'correct', ['Contains completion keywords'])])).toThrow(/both correct and incorrect/);
+
+    const result = calibrateWeights([
+      entry('a', 'correct', ['Contains completion keywords']),
+      entry('b', 'incorrect', ['Deployment/release indicators'])
+    ]);
+    const weightsPath = path.join(testDir, 'weights.json');
+    saveCompletionWeights(weightsPath, result);
+
+    const saved = JSON.parse(fs.readFileSync(weightsPath, 'utf-8'));
+    delete saved.weights.indicators['Strikethrough formatting'];
+    delete saved.weights.gitCap;
+    fs.writeFileSync(weightsPath, JSON.stringify(saved));
+
+    const loaded = loadCompletionWeights(weightsPath)!;
+    expect(loaded.indicators['Strikethrough formatting']).toBe(DEFAULT_COMPLETION_WEIGHTS.indicators['Strikethrough formatting']);
+    expect(loaded.gitCap).toBe(DEFAULT_COMPLETION_WEIGHTS.gitCap);
+    expect(loaded.indicators['Deployment/release indicators']).toBe(result.weights.indicators['Deployment/release indicators']);
+    expect(loadCompletionWeights(path.join(testDir, 'missing.json'))).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for applying cleanup to likely-completed TODOs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { scanTodos } from '../src/core/scanner';
+import { CompletionReport } from '../src/core/completionDetector';
+import { planCleanup, formatCleanupPatch, commitCleanupToBranch, writeCleanupInPlace } from '../src/core/completionCleanup';
+import { createUnifiedDiff } from '../src/utils/unifiedDiff';
+
+describe('Completion cleanup', () => {
+  let testDir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: testDir,
+    encoding: 'utf-8',
+    stdio: 'pipe'
+  });
+
+  /**
+   * Scan the test directory and mark every TODO with the given confidence
+   */
+  async function reportFor(confidence: number = 95): Promise<CompletionReport> {
+    const result = await scanTodos({ rootPath: testDir });
+    return {
+      totalTodos: result.todos.length,
+      likelyCompleted: result.todos.length,
+      probablyCompleted: 0,
+      possiblyCompleted: 0,
+      activeCount: 0,
+      analyses: result.todos.map(todo => ({ todo, isLikelyCompleted: true, confidence, reasons: [], suggestions: [] })),
+      summary: { veryHighConfidence: result.todos.length, highConfidence: 0, mediumConfidence: 0, lowConfidence: 0, active: 0 },
+      recommendations: { safeToClose: [], needsReview: [], possiblyDone: [] }
+    };
+  }
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should remove TODO comments and keep the code around them', async () => {
+    fs.writeFileSync(path.join(testDir, 'app.ts'), [
+      '/**',
+      ' * TODO: Document the public API surface',
+      ' */',
+      'export function run() {',
+      '  // TODO: Validate the configuration object',
+      '  //   before starting the server',
+      '  start(); // FIXME: Handle startup failures properly',
+      '  /**',
+      '   * Stops the server.',
+      '   * TODO: Drain open connections first',
+      '   */',
+      '}',
+      ''
+    ].join('\n'));
+
+    const plan = await planCleanup(await reportFor(), testDir);
+
+    expect(plan.skipped).toEqual([]);
+    expect(plan.files[0].changes.map(change => change.action)).toEqual(['delete', 'delete', 'trim', 'delete']);
+    expect(plan.files[0].updated).toBe([
+      'export function run() {',
+      '  start();',
+      '  /**',
+      '   * Stops the server.',
+      '   */',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should tick or move markdown checkboxes', async () => {
+    const tasks = ['# Tasks', '', '- [ ] Ship the onboarding flow', '  - with analytics', '- [ ] Write migration guide for v2', ''].join('\n');
+    fs.writeFileSync(path.join(testDir, 'TASKS.md'), tasks);
+
+    const checked = await planCleanup(await reportFor(), testDir, { markdownMode: 'check' });
+    expect(checked.files[0].updated).toBe(tasks.replace(/\[ \]/g, '[x]'));
+
+    const moved = await planCleanup(await reportFor(), testDir, { markdownMode: 'move' });
+    expect(moved.files[0].updated).toBe([
+      '# Tasks',
+      '',
+      '## Done',
+      '',
+      '- [x] Ship the onboarding flow',
+      '  - with analytics',
+      '- [x] Write migration guide for v2',
+      ''
+    ].join('\n'));
+  });
+
+  it('should respect the threshold and interactive answers', async () => {
+    fs.writeFileSync(path.join(testDir, 'a.ts'), '// TODO: Remove the legacy adapter\n// NOTE: Keep this for the release notes\n');
+
+    expect((await planCleanup(await reportFor(80), testDir)).files).toEqual([]);
+
+    const plan = await planCleanup(await reportFor(), testDir, {
+      confirm: change => change.todo.type === 'TODO'
+    });
+    expect(plan.declined).toHaveLength(1);
+    expect(plan.files[0].updated).toBe('// NOTE: Keep this for the release notes\n');
+  });
+
+  it('should produce a patch git can apply and a branch without touching the working tree', async () => {
+    const original = 'const a = 1;\n// TODO: Remove the legacy adapter\nconst b = 2;\n';
+    fs.writeFileSync(path.join(testDir, 'a.ts'), original);
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('add', 'a.ts');
+    git('commit', '-q', '-m', 'init');
+
+    const plan = await planCleanup(await reportFor(), testDir);
+    const patch = formatCleanupPatch(plan);
+    expect(patch).toBe([
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,3 +1,2 @@',
+      ' const a = 1;',
+      '-// TODO: Remove the legacy adapter',
+      ' const b = 2;',
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(testDir, 'cleanup.patch'), patch);
+    git('apply', '--check', 'cleanup.patch');
+
+    commitCleanupToBranch(plan, testDir, 'todo-cleanup');
+    expect(git('show', 'todo-cleanup:a.ts')).toBe('const a = 1;\nconst b = 2;\n');
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toBe(original);
+    expect(git('status', '--porcelain', '--', 'a.ts')).toBe('');
+    expect(() => commitCleanupToBranch(plan, testDir, 'todo-cleanup')).toThrow('Branch already exists');
+
+    writeCleanupInPlace(plan, testDir);
+    expect(fs.readFileSync(path.join(testDir, 'a.ts'), 'utf-8')).toBe('const a = 1;\nconst b = 2;\n');
+  });
+
+  it('should render separate hunks and missing final newlines', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n');
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'K'].join('\n');
+
+    expect(createUnifiedDiff('x.txt', 'x.txt', before, after)).toBe([
+      '--- a/x.txt',
+      '+++ b/x.txt',
+      '@@ -1,5 +1,5 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      ' d',
+      ' e',
+      '@@ -8,4 +8,4 @@',
+      ' h',
+      ' i',
+      ' j',
+      '-k',
+      '\\ No newline at end of file',
+      '+K',
+      '\\ No newline at end of file',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the analyzer config file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseAnalyzerConfig, loadAnalyzerConfig, DEFAULT_CONFIG_FILE } from '../src/core/config';
+import { scanTodos } from '../src/core/scanner';
+
+describe('Analyzer config', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseAnalyzerConfig', () => {
+    it('should add tag patterns and override built-in priorities', () => {
+      const config = parseAnalyzerConfig({
+        patterns: [
+          { name: 'SECURITY', priority: 'high' },
+          { name: 'TODO', priority: 'low' },
+          { name: 'NOTE', enabled: false }
+        ]
+      });
+
+      const names = config.patternSet.code.map(p => p.name);
+      expect(names).toContain('SECURITY');
+      expect(names).not.toContain('NOTE');
+      expect(config.patternSet.code.find(p => p.name === 'TODO')?.priority).toBe('low');
+      expect(config.patternSet.markdown.map(p => p.name)).toContain('Unchecked Task');
+    });
+
+    it('should report every validation error at once', () => {
+      expect(() => parseAnalyzerConfig({
+        patterns: [{ name: 'PERF', priority: 'urgent' }, { name: 'Bad', regex: '(' }],
+        quality: { minLength: -1 },
+        extra: true
+      }, '.project-analyzer.json')).toThrow(
+        'Invalid analyzer config .project-analyzer.json:\n' +
+        '  - unknown option "extra" (expected one of builtinPatterns, patterns, priorityRules, quality, ticketPattern)\n' +
+        '  - patterns[0].priority must be one of high, medium, low\n' +
+        '  - patterns[1].regex is not a valid regex: Invalid regular expression: /(/gm: Unterminated group\n' +
+        '  - quality.minLength must be a non-negative integer'
+      );
+    });
+
+    it('should return null when there is no config file', () => {
+      expect(loadAnalyzerConfig(testDir)).toBeNull();
+      expect(() => loadAnalyzerConfig(testDir, path.join(testDir, 'missing.json'))).toThrow('Analyzer config not found');
+    });
+  });
+
+  describe('scanning with a config', () => {
+    it('should apply custom patterns, priority rules, captures and quality filters', async () => {
+      fs.writeFileSync(path.join(testDir, DEFAULT_CONFIG_FILE), JSON.stringify({
+        patterns: [
+          { name: 'SECURITY', priority: 'high' },
+          { name: 'PERF', priority: 'low' },
+          { name: 'Ticket', regex: 'TICKET\\s+(?<ticket>[A-Z]+-\\d+):\\s*(?<content>.+)$', category: 'code' }
+        ],
+        priorityRules: [{ match: 'data loss', priority: 'high' }],
+        quality: { exclude: ['^wip\\b'] }
+      }));
+      fs.writeFileSync(path.join(testDir, 'app.ts'), [
+        '// SECURITY: Sanitize the redirect parameter',
+        '// PERF: Memoize the expensive selector',
+        '// TODO(alice, 2026-Q3): Migrate to the new upload API',
+        '// TODO: Retry writes to avoid data loss',
+        '// TODO: wip placeholder for later',
+        '// TICKET PROJ-42: Remove the legacy billing flag'
+      ].join('\n'));
+
+      const config = loadAnalyzerConfig(testDir);
+      const result = await scanTodos({ rootPath: testDir, config });
+      const byContent = Object.fromEntries(result.todos.map(todo => [todo.content, todo]));
+
+      expect(result.todos).toHaveLength(5);
+      expect(byContent['Sanitize the redirect parameter']).toMatchObject({ type: 'SECURITY', priority: 'high' });
+      expect(byContent['Memoize the expensive selector']).toMatchObject({ type: 'PERF', priority: 'low' });
+      expect(byContent['Migrate to the new upload API']).toMatchObject({
+        owner: 'alice',
+        owners: ['alice'],
+        dueDate: '2026-Q3'
+      });
+      expect(byContent['Retry writes to avoid data loss'].priority).toBe('high');
+      expect(byContent['Remove the legacy billing flag']).toMatchObject({ type: 'Ticket', ticket: 'PROJ-42' });
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for staging vs production comparisons: pixel diffs, page timings
+ * and the thresholds that turn them into deployment risk
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  DEFAULT_COMPARISON_SCREENSHOT_DIR,
+  DeploymentWorkflow,
+  comparePageTimings,
+  resolveDeploymentThresholds
+} from '../src/core/DeploymentWorkflow';
+import {
+  ProductionVerifier,
+  PageTimings,
+  TierResult,
+  VerificationOptions,
+  VerificationResult,
+  VerificationTarget
+} from '../src/core/ProductionVerifier';
+import { parseVerificationSpec } from '../src/core/verificationSpec';
+import { decodeImage } from '../src/utils/imageDecoder';
+import { diffImages, encodePng } from '../src/utils/imageDiff';
+
+/**
+ * A white 20x10 image with an optional black rectangle
+ */
+function page(width = 20, height = 10, dark?: { x: number; y: number; width: number; height: number }): Buffer {
+  const rgba = new Uint8Array(width * height * 4).fill(255);
+  if (dark) {
+    for (let y = dark.y; y < dark.y + dark.height; y++) {
+      for (let x = dark.x; x < dark.x + dark.width; x++) {
+        rgba.set([0, 0, 0], (y * width + x) * 4);
+      }
+    }
+  }
+  return encodePng(width, height, rgba);
+}
+
+const passing: TierResult = { passed: 1, failed: 0, total: 1, checks: [{ name: 'URL: /', passed: true, message: 'ok' }], status: 'pass' };
+const timings: PageTimings = { ttfb: 120, domContentLoaded: 600, load: 900, lcp: 1000, requestCount: 40 };
+
+/**
+ * A verifier that "screenshots" each environment from a fixture image
+ */
+function fakeVerifier(screens: Record<string, Buffer>, performance: Record<string, PageTimings>): ProductionVerifier {
+  return {
+    verify: async (target: VerificationTarget, options: VerificationOptions): Promise<VerificationResult> => {
+      const environment = options.environment || 'production';
+      const screenshotPath = path.join(options.screenshotDir!, `${target.featureId}-${environment}.png`);
+      fs.writeFileSync(screenshotPath, screens[environment]);
+      return {
+        featureId: target.featureId,
+        featureName: target.featureName,
+        environment,
+        tier1: passing,
+        tier2: passing,
+        tier3: passing,
+        overall: 'pass',
+        timestamp: '2026-03-01T10:00:00.000Z',
+        screenshotPath,
+        performance: performance[environment]
+      };
+    }
+  } as unknown as ProductionVerifier;
+}
+
+describe('DeploymentWorkflow', () => {
+  let dir: string;
+  const target: VerificationTarget = {
+    featureId: 'home',
+    featureName: 'Home',
+    productionUrl: 'https://example.com/',
+    stagingUrl: 'https://staging.example.com/'
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-workflow-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should diff images pixel by pixel and encode the diff as PNG', () => {
+    const baseline = decodeImage(page());
+    const candidate = decodeImage(page(20, 10, { x: 2, y: 2, width: 4, height: 3 }));
+
+    const result = diffImages(baseline, candidate);
+    expect(result.changedPixels).toBe(12);
+    expect(result.percentage).toBe(6);
+
+    const diff = decodeImage(encodePng(result.width, result.height, result.diff));
+    expect([diff.width, diff.height]).toEqual([20, 10]);
+    expect([...diff.data.subarray((2 * 20 + 2) * 4, (2 * 20 + 2) * 4 + 4)]).toEqual([255, 0, 0, 255]);
+    expect([...diff.data.subarray(0, 4)]).toEqual([255, 255, 255, 255]);
+
+    // Area only one image covers counts as changed; small color shifts don't
+    expect(diffImages(baseline, decodeImage(page(20, 12))).changedPixels).toBe(40);
+    const tinted = decodeImage(page());
+    tinted.data.fill(240);
+    expect(diffImages(baseline, tinted).changedPixels).toBe(0);
+    expect(diffImages(baseline, tinted, { tolerance: 0.05 }).changedPixels).toBe(200);
+  });
+
+  it('should turn timing and request changes into differences by threshold', () => {
+    const differences = comparePageTimings(
+      { ttfb: 180, domContentLoaded: 560, load: 1500, lcp: 1300, requestCount: 50 },
+      timings
+    );
+
+    expect(differences.map(d => [d.metric, d.impact, d.risk])).toEqual([
+      ['load', 'negative', 'high'],
+      ['lcp', 'negative', 'medium'],
+      ['requestCount', 'negative', 'medium']
+    ]);
+    expect(differences[0].description).toBe('Load slower in staging: 1500ms vs 900ms (+67%)');
+
+    const relaxed = resolveDeploymentThresholds({ timing: { high: 80 }, timingNoise: 30 });
+    expect(relaxed.timing).toEqual({ medium: 20, high: 80 });
+    expect(comparePageTimings({ ...timings, ttfb: 60, load: 1500 }, timings, relaxed).map(d => [d.metric, d.impact, d.risk])).toEqual([
+      ['ttfb', 'positive', 'low'],
+      ['load', 'negative', 'medium']
+    ]);
+    expect(comparePageTimings(undefined, timings)).toEqual([]);
+  });
+
+  it('should block deployment on large visual changes and write a diff image', async () => {
+    const screens = { production: page(), staging: page(20, 10, { x: 0, y: 0, width: 10, height: 2 }) };
+    const workflow = new DeploymentWorkflow(fakeVerifier(screens, { production: timings, staging: timings }));
+
+    const report = await workflow.compareEnvironments([target], { screenshotDir: dir });
+    const [comparison] = report.comparisons;
+
+    expect(comparison.differences).toEqual([{
+      category: 'visual',
+      type: 'visual_change',
+      description: `10.00% of pixels differ from production (diff: ${path.join(dir, 'home-diff.png')})`,
+      impact: 'negative',
+      risk: 'high',
+      metric: 'pixels',
+      staging: 10,
+      production: 0,
+      diffImagePath: path.join(dir, 'home-diff.png')
+    }]);
+    expect(fs.existsSync(path.join(dir, 'home-diff.png'))).toBe(true);
+    expect(comparison.deploymentReady).toBe(false);
+    expect(comparison.riskLevel).toBe('high');
+    expect(report.overallReadiness).toBe('not_ready');
+    expect(comparison.recommendations).toEqual(['Staging looks different from production - review the diff image before deploying']);
+    expect(workflow.formatReport(report)).toContain('| LCP | 1000ms | 1000ms |');
+  });
+
+  it('should use configured thresholds to decide the risk level', async () => {
+    const screens = { production: page(), staging: page(20, 10, { x: 0, y: 0, width: 10, height: 2 }) };
+    const slower = { ...timings, load: 1200 };
+    const workflow = new DeploymentWorkflow(
+      fakeVerifier(screens, { production: timings, staging: slower }),
+      { visual: { high: 15 }, timing: { medium: 30, high: 60 } }
+    );
+
+    const report = await workflow.compareEnvironments([target], { screenshotDir: dir });
+    const [comparison] = report.comparisons;
+
+    expect(comparison.differences.map(d => [d.category, d.risk])).toEqual([['visual', 'medium'], ['performance', 'medium']]);
+    expect(comparison.deploymentReady).toBe(true);
+    expect(comparison.riskLevel).toBe('medium');
+    expect(report.overallReadiness).toBe('caution');
+    expect(comparison.recommendations).toEqual([
+      'Staging looks different from production - review the diff image',
+      'Staging is slower than production - review page load performance'
+    ]);
+
+    // Identical pages with identical timings are safe to deploy
+    const same = await new DeploymentWorkflow(fakeVerifier({ production: page(), staging: page() }, { production: timings, staging: timings }))
+      .compareEnvironments([target], { screenshotDir: dir });
+    expect(same.overallReadiness).toBe('ready');
+    expect(same.recommendations).toEqual(['No changes detected - safe to deploy']);
+  });
+
+  it('should count comparisons that fail as not ready', async () => {
+    const directories: Array<string | undefined> = [];
+    const verifier = {
+      verify: async (target: VerificationTarget, options: VerificationOptions): Promise<VerificationResult> => {
+        directories.push(options.screenshotDir);
+        if (options.environment === 'production') {
+          throw new Error('net::ERR_CONNECTION_REFUSED');
+        }
+        return {
+          featureId: target.featureId,
+          featureName: target.featureName,
+          environment: 'staging',
+          tier1: passing,
+          tier2: passing,
+          tier3: passing,
+          overall: 'pass',
+          timestamp: '2026-03-01T10:00:00.000Z'
+        };
+      }
+    } as unknown as ProductionVerifier;
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const report = await new DeploymentWorkflow(verifier).compareEnvironments([target]);
+      const [comparison] = report.comparisons;
+
+      expect(directories).toEqual([DEFAULT_COMPARISON_SCREENSHOT_DIR, DEFAULT_COMPARISON_SCREENSHOT_DIR]);
+      expect(comparison).toMatchObject({
+        featureId: 'home',
+        deploymentReady: false,
+        riskLevel: 'high',
+        error: 'net::ERR_CONNECTION_REFUSED',
+        recommendations: ['Comparison of Home failed - fix the verification and re-run before deploying']
+      });
+      expect(comparison.stagingResult.overall).toBe('pass');
+      expect(comparison.productionResult).toMatchObject({ environment: 'production', overall: 'fail', error: 'net::ERR_CONNECTION_REFUSED' });
+      expect(report.overallReadiness).toBe('not_ready');
+      expect(report.summary).toMatchObject({ totalFeatures: 1, notReady: 1, highRisk: 1 });
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it('should read and validate thresholds from a verification spec', () => {
+    const features = [{ id: 'home', url: 'https://example.com/' }];
+    expect(parseVerificationSpec({ thresholds: { visual: { medium: 2 }, timingNoise: 50 }, features }, {}).thresholds)
+      .toEqual({ visual: { medium: 2 }, timingNoise: 50 });
+    expect(() => parseVerificationSpec({
+      thresholds: { visual: { medium: 10, high: 5 }, pixelTolerance: 2, timing: { slow: 1 } },
+      features
+    }, {})).toThrow([
+      'Invalid verification spec:',
+      '  - thresholds.visual.medium must not be above thresholds.visual.high',
+      '  - thresholds.timing: unknown option "slow" (expected one of medium, high)',
+      '  - thresholds.pixelTolerance must be between 0 and 1'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for Figma and Sketch JSON import
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { DesignAnalyzer } from '../src/core/DesignAnalyzer';
+import { categorizeComponent, extractDocumentFeatures, parseDesignDocument } from '../src/core/designDocuments';
+import { VisionProvider } from '../src/vision';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'design-documents');
+
+function loadFixture(name: string) {
+  return parseDesignDocument(JSON.parse(fs.readFileSync(path.join(FIXTURES, name), 'utf-8')));
+}
+
+describe('Design documents', () => {
+  it('should read screens, components and prototype links from a Figma file', () => {
+    const { features, warnings } = extractDocumentFeatures(loadFixture('checkout.figma.json'), 'checkout.figma.json');
+
+    expect(features.map(feature => [feature.name, feature.category])).toEqual([
+      ['Cart', 'Page'],
+      ['Payment', 'Page'],
+      ['Order confirmation', 'Page'],
+      ['Header', 'Layout'],
+      ['Button', 'Action'],
+      ['Empty state', 'UI Component'],
+      ['Text field', 'Form'],
+      ['Cart → Payment', 'Navigation'],
+      ['Payment → Cart', 'Navigation'],
+      ['Payment → Order confirmation', 'Navigation'],
+      ['Order confirmation → Cart', 'Navigation']
+    ]);
+
+    const cart = features[0];
+    expect(cart.priority).toBe('high');
+    expect(cart.description).toBe('Screen on page "Flows" (375×812) using Header, Button');
+    expect(cart.location).toEqual({
+      page: 1,
+      pageName: 'Flows',
+      nodeId: '1:2',
+      coordinates: { x: 0, y: 0, width: 375, height: 812 }
+    });
+
+    // Variants count toward their set; the hidden banner's instance does not count
+    const button = features.find(feature => feature.name === 'Button')!;
+    expect(button.notes).toBe('Used 3 times on Cart, Payment, Order confirmation');
+    expect(button.location?.page).toBe(2);
+    expect(features.find(feature => feature.name === 'Empty state')?.confidence).toBe(75);
+    expect(features.find(feature => feature.name === 'Text field')?.tags).toContain('library');
+
+    const payment = features.find(feature => feature.name === 'Payment → Order confirmation')!;
+    expect(payment.description).toBe('"Pay button" on Payment opens Order confirmation');
+    expect(payment.location?.coordinates).toEqual({ x: 491, y: 740, width: 343, height: 48 });
+
+    expect(warnings).toEqual(['Prototype link from "Help link" points to missing node 9:99']);
+    expect(new Set(features.map(feature => feature.id)).size).toBe(features.length);
+  });
+
+  it('should read artboards, symbols and flows from a Sketch page with canvas coordinates', () => {
+    const { features, warnings } = extractDocumentFeatures(loadFixture('onboarding.sketch.json'), 'onboarding.sketch.json');
+
+    expect(features.map(feature => [feature.name, feature.category, feature.notes])).toEqual([
+      ['Welcome', 'Page', undefined],
+      ['Sign up', 'Page', undefined],
+      ['Button/Primary', 'Action', 'Used 1 time on Welcome'],
+      ['Email input', 'Form', 'Used 1 time on Sign up'],
+      ['Welcome → Sign up', 'Navigation', undefined]
+    ]);
+    expect(features[0].priority).toBe('high');
+    // Artboard (100, 50) + group (0, 700) + instance (24, 40)
+    expect(features[4].location?.coordinates).toEqual({ x: 124, y: 790, width: 342, height: 52 });
+    expect(warnings).toEqual([]);
+  });
+
+  it('should categorize components by name', () => {
+    expect(categorizeComponent('Nav/TabBar')).toBe('Navigation');
+    expect(categorizeComponent('DatePicker')).toBe('Form');
+    expect(categorizeComponent('Avatar')).toBe('Data Display');
+    expect(categorizeComponent('Modal')).toBe('UI Component');
+    expect(() => parseDesignDocument({ name: 'tokens' })).toThrow('Not a Figma file export or Sketch page JSON');
+  });
+
+  it('should analyze JSON exports without the vision provider', async () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'design-documents-test-'));
+    const invalidPath = path.join(testDir, 'tokens.json');
+    fs.writeFileSync(invalidPath, JSON.stringify({ colors: {} }));
+    const provider: VisionProvider = {
+      name: 'unused',
+      analyze: async () => { throw new Error('vision provider should not be called'); }
+    };
+
+    try {
+      const result = await new DesignAnalyzer({
+        designFiles: [path.join(FIXTURES, 'checkout.figma.json'), invalidPath],
+        extractColors: true
+      }, undefined, provider).analyze();
+
+      expect(result.summary.totalFeatures).toBe(11);
+      expect(result.summary.bySource).toEqual({ 'design-file': 11 });
+      expect(result.colorScheme).toBeUndefined();
+      expect(result.warnings).toHaveLength(2);
+      expect(result.warnings?.[1]).toContain(`Failed to analyze design file ${invalidPath}`);
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+});
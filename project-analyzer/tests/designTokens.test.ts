@@ -0,0 +1,238 @@
+/**
+ * Tests for design token extraction and drift detection
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { deflateSync } from 'zlib';
+import { DesignAnalyzer } from '../src/core/DesignAnalyzer';
+import { compareDesignTokens, extractPalette, paletteToTokens, toColorScheme } from '../src/core/designTokens';
+import { extractCodeTokens, parseCssColor } from '../src/core/codeTokens';
+import { decodeImage } from '../src/utils/imageDecoder';
+
+type Fill = [x: number, y: number, width: number, height: number, hex: string];
+
+const JPEG_FIXTURES = path.join(__dirname, 'fixtures', 'images');
+
+/**
+ * Encode an RGB PNG filled with rectangles (CRCs are left zero; the decoder ignores them)
+ */
+function createPng(width: number, height: number, fills: Fill[]): Buffer {
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (const [x0, y0, w, h, hex] of fills) {
+    const rgb = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        raw.set(rgb, y * (width * 3 + 1) + 1 + x * 3);
+      }
+    }
+  }
+
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 2;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+describe('Design tokens', () => {
+  let testDir: string;
+  let designPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-test-'));
+    designPath = path.join(testDir, 'home.png');
+    // White page, navy header, grey card, dark text, sky footer and one orange button
+    fs.writeFileSync(designPath, createPng(100, 100, [
+      [0, 0, 100, 100, '#ffffff'],
+      [0, 0, 100, 20, '#1e3a8a'],
+      [10, 30, 80, 30, '#e5e7eb'],
+      [10, 70, 60, 4, '#111827'],
+      [10, 80, 12, 6, '#f97316'],
+      [0, 92, 100, 8, '#0ea5e9']
+    ]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should decode PNGs and assign palette roles by chroma and coverage', () => {
+    const image = decodeImage(fs.readFileSync(designPath));
+    expect([image.width, image.height, Array.from(image.data.slice(0, 4))]).toEqual([100, 100, [0x1e, 0x3a, 0x8a, 255]]);
+
+    const palette = extractPalette([designPath]);
+    expect(palette.map(color => [color.hex, color.role, Math.round(color.coverage * 1000)])).toEqual([
+      ['#ffffff', 'neutral', 449],
+      ['#e5e7eb', 'neutral', 240],
+      ['#1e3a8a', 'primary', 200],
+      ['#0ea5e9', 'secondary', 80],
+      ['#111827', 'neutral', 24],
+      ['#f97316', 'accent', 7]
+    ]);
+    expect(toColorScheme(palette)).toEqual({
+      primary: ['#1e3a8a'],
+      secondary: ['#0ea5e9'],
+      accent: ['#f97316'],
+      neutral: ['#ffffff', '#e5e7eb', '#111827']
+    });
+  });
+
+  /**
+   * The fixtures are one 64x16 image of four 16x16 swatches, encoded by mozjpeg
+   * as baseline (4:2:0), progressive (4:4:4) and CMYK JPEGs
+   */
+  it('should decode baseline and progressive JPEGs at 1/8 scale from DC coefficients', () => {
+    const swatches = [[220, 40, 40], [40, 160, 80], [30, 60, 200], [240, 240, 240]];
+
+    for (const encoding of ['baseline', 'progressive']) {
+      const image = decodeImage(fs.readFileSync(path.join(JPEG_FIXTURES, `swatches-${encoding}.jpg`)));
+      expect([image.width, image.height, image.scale]).toEqual([8, 2, 1 / 8]);
+
+      for (let block = 0; block < image.width * image.height; block++) {
+        const expected = swatches[Math.floor((block % image.width) / 2)];
+        const actual = Array.from(image.data.subarray(block * 4, block * 4 + 4));
+        expect(actual[3]).toBe(255);
+        actual.slice(0, 3).forEach((channel, index) => {
+          expect(Math.abs(channel - expected[index])).toBeLessThanOrEqual(2);
+        });
+      }
+    }
+  });
+
+  it('should reject CMYK and arithmetic-coded JPEGs', () => {
+    expect(() => decodeImage(fs.readFileSync(path.join(JPEG_FIXTURES, 'swatches-cmyk.jpg'))))
+      .toThrow('Unsupported JPEG color space (CMYK)');
+
+    // Arithmetic coding is declared by the frame marker: SOF9 instead of SOF0
+    const arithmetic = Buffer.from(fs.readFileSync(path.join(JPEG_FIXTURES, 'swatches-baseline.jpg')));
+    arithmetic[arithmetic.indexOf(Buffer.from([0xff, 0xc0])) + 1] = 0xc9;
+    expect(() => decodeImage(arithmetic))
+      .toThrow('Unsupported JPEG encoding (only baseline and progressive Huffman JPEGs are supported)');
+  });
+
+  it('should read named and used tokens from stylesheets and Tailwind config', async () => {
+    fs.mkdirSync(path.join(testDir, 'src'));
+    fs.writeFileSync(path.join(testDir, 'src', 'theme.css'), [
+      ':root { --color-brand: #1E3A8A; --font-body: "Inter", sans-serif; }',
+      '/* color: #ff0000 */',
+      'body { font: 400 16px/1.5 Inter, sans-serif; color: rgb(17 24 39); }',
+      'h1, .title { font-size: 2rem; font-weight: bold; }',
+      '.card { border: 1px solid hsl(215, 16%, 47%); background: #fff; }'
+    ].join('\n'));
+    fs.writeFileSync(path.join(testDir, 'tailwind.config.js'), [
+      'module.exports = {',
+      "  content: ['./src/**/*.{js,ts}'],",
+      '  theme: {',
+      '    extend: {',
+      "      colors: { accent: { DEFAULT: '#f97316', 600: '#ea580c' } },",
+      "      fontFamily: { display: ['Poppins', 'sans-serif'] },",
+      "      fontSize: { '3xl': ['1.875rem', { lineHeight: '2.25rem' }] }",
+      '    }',
+      '  }',
+      '};'
+    ].join('\n'));
+    fs.mkdirSync(path.join(testDir, 'node_modules', 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'node_modules', 'lib', 'vendor.css'), 'a { color: #00ff00; }');
+
+    const tokens = await extractCodeTokens(testDir);
+
+    expect(tokens.colors.map(color => [color.hex, color.name])).toEqual([
+      ['#1e3a8a', '--color-brand'],
+      ['#111827', undefined],
+      ['#65758b', undefined],
+      ['#ffffff', undefined],
+      ['#f97316', 'accent'],
+      ['#ea580c', 'accent-600']
+    ]);
+    expect(tokens.typography).toEqual({
+      fontFamilies: ['Inter', 'Poppins'],
+      headingSizes: [30, 32],
+      bodySizes: [16],
+      lineHeights: [1.5],
+      fontWeights: ['400', '700']
+    });
+    expect(parseCssColor('rgba(255, 0, 0, 0.5)')).toBe('#ff0000');
+  });
+
+  it('should report matching, drifted and missing tokens', () => {
+    const design = paletteToTokens('home.png', extractPalette([designPath]), {
+      fontFamilies: ['Inter'],
+      headingSizes: [32],
+      bodySizes: [15],
+      lineHeights: [],
+      fontWeights: ['Bold', '300']
+    });
+    const implementation = {
+      source: 'src',
+      colors: [
+        { hex: '#1e3a8a', name: '--color-brand', weight: 3 },
+        { hex: '#f3f4f6', weight: 1 },
+        { hex: '#ffffff', weight: 5 },
+        { hex: '#111827', weight: 2 },
+        { hex: '#ea580c', name: 'accent-600', weight: 1 },
+        { hex: '#16a34a', name: 'success', weight: 1 }
+      ],
+      typography: { fontFamilies: ['"Inter", sans-serif'], headingSizes: [32], bodySizes: [16], lineHeights: [], fontWeights: ['700'] }
+    };
+
+    const report = compareDesignTokens(design, implementation);
+
+    expect(report.colors.map(color => [color.design.name, color.status, color.nearest?.hex])).toEqual([
+      ['neutral', 'match', '#ffffff'],
+      ['neutral', 'match', '#f3f4f6'],
+      ['primary', 'match', '#1e3a8a'],
+      ['secondary', 'missing', expect.any(String)],
+      ['neutral', 'match', '#111827'],
+      ['accent', 'drift', '#ea580c']
+    ]);
+    expect(report.colors[5].deltaE).toBe(10.5);
+    expect(report.typography.map(item => [item.kind, item.design, item.status])).toEqual([
+      ['font-family', 'inter', 'match'],
+      ['font-size', '15px', 'drift'],
+      ['font-size', '32px', 'match'],
+      ['font-weight', '700', 'match'],
+      ['font-weight', '300', 'missing']
+    ]);
+    expect(report.undocumented.map(color => color.name)).toEqual(['success']);
+    expect(report.summary).toEqual({ match: 7, drift: 2, missing: 2 });
+  });
+
+  it('should infer typography through the vision provider', async () => {
+    const fixturesDir = path.join(testDir, 'fixtures');
+    fs.mkdirSync(fixturesDir);
+    fs.writeFileSync(path.join(fixturesDir, 'home.png.typography.json'), JSON.stringify({
+      text: '```json\n{"fontFamilies": ["Inter"], "headingSizes": ["32px", 24], "bodySizes": [16], "lineHeights": [1.5], "fontWeights": ["400", "700"]}\n```'
+    }));
+
+    const tokens = await new DesignAnalyzer({
+      designFiles: [designPath, path.join(testDir, 'missing.png')],
+      extractTypography: true,
+      vision: { fixturesDir }
+    }).extractDesignTokens();
+
+    expect(tokens.palette).toHaveLength(6);
+    expect(tokens.typography).toEqual({
+      fontFamilies: ['Inter'],
+      headingSizes: [24, 32],
+      bodySizes: [16],
+      lineHeights: [1.5],
+      fontWeights: ['400', '700']
+    });
+    expect(tokens.warnings).toHaveLength(2);
+    expect(tokens.warnings.every(warning => warning.includes('missing.png'))).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the batched git index and the evidence checks built on it
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { GitIndex } from '../src/utils/gitIndex';
+import { checkGitEvidence, createGitEvidenceIndex, getGitFileInfo } from '../src/utils/gitIntegration';
+
+describe('GitIndex', () => {
+  let testDir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: testDir,
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com'
+    }
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-index-test-'));
+    git('init', '-q');
+
+    fs.mkdirSync(path.join(testDir, 'src'));
+    fs.writeFileSync(path.join(testDir, 'src', 'payment.ts'), 'export function processPayment() {}\n');
+    fs.writeFileSync(path.join(testDir, 'src', 'say "hi".ts'), '// TODO: handle refunds\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Add payment processing');
+
+    fs.appendFileSync(path.join(testDir, 'src', 'payment.ts'), 'export function refundPayment() {}\n');
+    git('commit', '-q', '-am', 'Support refunds');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should answer file, commit and mention queries from memory', () => {
+    const index = GitIndex.load(testDir, { keywords: ['payment', 'REFUND'] });
+
+    expect(index.isGitRepo).toBe(true);
+    expect(index.getFileInfo('src/payment.ts', true)).toMatchObject({ isTracked: true, commitCount: 2 });
+    expect(index.getFileInfo('src/say "hi".ts', true)).toMatchObject({ isTracked: true, commitCount: 1 });
+    expect(index.getFileInfo('src/missing.ts', true)).toMatchObject({ exists: true, isTracked: false });
+    expect(index.searchCommits('REFUND').map(commit => commit.message)).toEqual(['Support refunds']);
+    expect(index.findFiles('PAYMENT')).toEqual(['src/payment.ts']);
+    expect(index.countMentions('payment')).toBe(2);
+    expect(index.countMentions('refund')).toBe(2);
+    // Not loaded up front: grepped on first use
+    expect(index.countMentions('processpayment')).toBe(1);
+  });
+
+  it('should search commit bodies as well as subjects', () => {
+    fs.writeFileSync(path.join(testDir, 'src', 'invoice.ts'), 'export function archiveInvoices() {}\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Tidy up billing', '-m', 'Closes TODO: archive old invoices');
+
+    const index = GitIndex.load(testDir);
+    expect(index.searchCommits('Archive old invoices').map(commit => commit.message)).toEqual(['Tidy up billing']);
+    expect(index.searchCommits('refunds').map(commit => commit.message)).toEqual(['Support refunds']);
+  });
+
+  it('should pass TODO text to git verbatim instead of through a shell', () => {
+    const marker = path.join(testDir, 'injected');
+    const text = `TODO: escape "quotes" $(touch ${marker}) \`touch ${marker}\`; touch ${marker}`;
+
+    const index = createGitEvidenceIndex(testDir, [text]);
+    checkGitEvidence(testDir, text, 'src/say "hi".ts', index);
+    index.countMentions(`"; touch ${marker}; echo "`);
+
+    expect(fs.existsSync(marker)).toBe(false);
+    expect(getGitFileInfo(testDir, 'src/say "hi".ts', index).isTracked).toBe(true);
+  });
+
+  it('should collect evidence for a TODO from the shared index', () => {
+    const index = createGitEvidenceIndex(testDir, ['Implement refunds for payment']);
+    const evidence = checkGitEvidence(testDir, 'Implement refunds for payment', 'src/payment.ts', index);
+
+    expect(evidence.hasEvidence).toBe(true);
+    expect(evidence.evidence).toContain('Found 1 commits mentioning "refunds"');
+    expect(evidence.evidence).toContain('Files found: 1');
+  });
+
+  it('should report nothing outside a git repository', () => {
+    const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-index-plain-'));
+    try {
+      const index = GitIndex.load(plainDir, { keywords: ['payment'] });
+      expect(index.isGitRepo).toBe(false);
+      expect(index.countMentions('payment')).toBe(0);
+      expect(checkGitEvidence(plainDir, 'Implement payment', 'a.ts', index).hasEvidence).toBe(false);
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for stub and placeholder detection
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { findImplementationGaps } from '../src/core/implementationGaps';
+import { scanTodos } from '../src/core/scanner';
+
+describe('Implementation gaps', () => {
+  const summarize = (content: string, file: string = 'src/service.ts') =>
+    findImplementationGaps(content, file).map(gap => [gap.type, gap.line, gap.priority]);
+
+  it('should flag not-implemented throws, placeholder returns and empty bodies', () => {
+    const source = [
+      'export class Service {',                                  // 1
+      '  async analyze(image: string): Promise<Feature[]> {',    // 2
+      '    // For now, return a placeholder structure',          // 3
+      '    console.log(`Analyzing ${image} {`);',                // 4
+      '    const features: Feature[] = [];',                     // 5
+      '    return features.map(f => normalize(f));',             // 6
+      '  }',                                                     // 7
+      '',                                                        // 8
+      '  private colors(): { primary: string } | undefined {',   // 9
+      '    // TODO: Implement color extraction',                 // 10
+      '    return undefined;',                                   // 11
+      '  }',                                                     // 12
+      '',                                                        // 13
+      '  export(): string {',                                    // 14
+      "    throw new Error('Not implemented yet');",             // 15
+      '  }',                                                     // 16
+      '',                                                        // 17
+      '  reset(): void {}',                                      // 18
+      '}',                                                       // 19
+      '',                                                        // 20
+      'export const load = async (id: string): Promise<Item | null> => {',  // 21
+      '  throw new NotImplementedError();',                      // 22
+      '};',                                                      // 23
+      ''
+    ].join('\n');
+
+    expect(summarize(source)).toEqual([
+      ['Placeholder Return', 2, 'medium'],
+      ['Placeholder Return', 9, 'medium'],
+      ['Not Implemented', 14, 'high'],
+      ['Empty Function', 18, 'low'],
+      ['Not Implemented', 21, 'high']
+    ]);
+    expect(findImplementationGaps(source, 'src/service.ts')[1].content)
+      .toBe('colors() returns undefined: "TODO: Implement color extraction"');
+  });
+
+  it('should see stubs on lines with regex literals', () => {
+    const source = [
+      "export function unquote(text: string, quote = /\"/): string { throw new Error('not implemented'); }",
+      ''
+    ].join('\n');
+
+    expect(summarize(source)).toEqual([['Not Implemented', 1, 'high']]);
+  });
+
+  it('should leave real implementations and intentional no-ops alone', () => {
+    const source = [
+      'export function find(items: Item[], id: string): Item | null {',
+      '  // For now, a linear search is fast enough',
+      '  if (!items.length) {',
+      '    return null;',
+      '  }',
+      '  return items.find(item => item.id === id) || null;',
+      '}',
+      '',
+      'export function collect(): string[] {',
+      '  // Placeholder until the API is ready',
+      '  const names: string[] = [];',
+      "  names.push('a');",
+      '  return names;',
+      '}',
+      '',
+      'async function ensureLabels(_labels: string[]): Promise<void> {',
+      '  // Labels are free-form strings here',
+      '}',
+      '',
+      'const onClose = () => {};',
+      "const message = 'function broken() {}';",
+      '// export const example = 1; is how you would expose it',
+      ''
+    ].join('\n');
+
+    expect(summarize(source)).toEqual([['Commented-out Export', 22, 'low']]);
+  });
+
+  it('should find commented-out exports and Python stubs', () => {
+    expect(findImplementationGaps([
+      "export { CodeDiscovery } from './core/CodeDiscovery';",
+      "// export { WebDiscovery } from './core/WebDiscovery'; // TODO: Fix WebDiscovery",
+      ''
+    ].join('\n'), 'src/index.ts').map(gap => [gap.type, gap.line, gap.content])).toEqual([
+      ['Commented-out Export', 2, "Commented-out export: export { WebDiscovery } from './core/WebDiscovery'"]
+    ]);
+
+    const python = [
+      'class Store:',
+      '    def load(self, key):',
+      '        """Load a value."""',
+      '        raise NotImplementedError',
+      '',
+      '    def keys(self):',
+      '        # stub until the index exists',
+      '        return []',
+      '',
+      '    def close(self):',
+      '        pass',
+      '',
+      '    def size(self):',
+      '        return len(self.items)',
+      ''
+    ].join('\n');
+
+    expect(summarize(python, 'store.py')).toEqual([
+      ['Not Implemented', 2, 'high'],
+      ['Placeholder Return', 6, 'medium'],
+      ['Empty Function', 10, 'low']
+    ]);
+  });
+
+  it('should add gaps to scan results only when asked', async () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gaps-test-'));
+    try {
+      fs.writeFileSync(path.join(testDir, 'app.ts'), [
+        '// TODO: cache results',
+        'export function fetchAll(): string[] {',
+        "  throw new Error('not implemented');",
+        '}',
+        ''
+      ].join('\n'));
+
+      const plain = await scanTodos({ rootPath: testDir });
+      expect(plain.todos.map(todo => todo.type)).toEqual(['TODO']);
+
+      const withGaps = await scanTodos({ rootPath: testDir, detectGaps: true });
+      expect(withGaps.todos.map(todo => [todo.type, todo.line])).toEqual([['TODO', 1], ['Not Implemented', 2]]);
+      expect(withGaps.summary.byType['Not Implemented']).toBe(1);
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for blame parsing and CODEOWNERS ownership
+ */
+
+import { parseBlamePorcelain } from '../src/utils/gitIntegration';
+import { parseCodeOwners, findCodeOwners, resolveAuthorUsername } from '../src/utils/ownership';
+
+describe('Ownership', () => {
+  describe('parseBlamePorcelain', () => {
+    const now = Date.parse('2026-10-19T00:00:00Z');
+    const authorTime = Math.floor(Date.parse('2026-10-09T00:00:00Z') / 1000);
+
+    it('should parse committed and uncommitted lines', () => {
+      const output = [
+        `${'a'.repeat(40)} 1 1 1`,
+        'author Alice Smith',
+        'author-mail <alice@example.com>',
+        `author-time ${authorTime}`,
+        'summary Add uploader',
+        'filename src/upload.ts',
+        '\t// TODO: Add retry logic',
+        `${'0'.repeat(40)} 2 2 1`,
+        'author Not Committed Yet',
+        'author-mail <not.committed.yet>',
+        `author-time ${authorTime}`,
+        'filename src/upload.ts',
+        '\t// FIXME: Handle timeouts'
+      ].join('\n');
+
+      const blame = parseBlamePorcelain(output, now);
+
+      expect(blame.get(1)).toEqual({
+        author: 'Alice Smith',
+        email: 'alice@example.com',
+        commit: 'a'.repeat(40),
+        authoredAt: '2026-10-09T00:00:00.000Z',
+        ageDays: 10
+      });
+      expect(blame.get(2)?.uncommitted).toBe(true);
+      expect(blame.get(2)?.ageDays).toBe(0);
+    });
+  });
+
+  describe('CODEOWNERS', () => {
+    const rules = parseCodeOwners([
+      '# Default owners',
+      '*           @acme/core',
+      '*.md        @docs-team-lead',
+      '/src/api/   @alice @acme/backend',
+      'docs/**/guides @bob  # inline comment',
+      'build/      ops@example.com'
+    ].join('\n'));
+
+    it('should use the last matching rule', () => {
+      expect(findCodeOwners(rules, 'src/index.ts')).toEqual(['acme/core']);
+      expect(findCodeOwners(rules, 'src/api/users.ts')).toEqual(['alice', 'acme/backend']);
+      expect(findCodeOwners(rules, 'src/api/README.md')).toEqual(['alice', 'acme/backend']);
+      expect(findCodeOwners(rules, 'packages/web/README.md')).toEqual(['docs-team-lead']);
+    });
+
+    it('should match globstar directories', () => {
+      expect(findCodeOwners(rules, 'docs/guides/setup.ts')).toEqual(['bob']);
+      expect(findCodeOwners(rules, 'docs/v2/guides/setup.ts')).toEqual(['bob']);
+    });
+
+    it('should skip email owners', () => {
+      expect(findCodeOwners(rules, 'build/output.js')).toEqual([]);
+    });
+  });
+
+  describe('resolveAuthorUsername', () => {
+    const blame = {
+      author: 'Alice Smith',
+      email: 'alice@example.com',
+      commit: 'a'.repeat(40),
+      authoredAt: '2026-10-09T00:00:00.000Z',
+      ageDays: 10
+    };
+
+    it('should map authors by email or name', () => {
+      expect(resolveAuthorUsername(blame, { 'alice@example.com': '@alice' })).toBe('alice');
+      expect(resolveAuthorUsername(blame, { 'Alice Smith': 'asmith' })).toBe('asmith');
+      expect(resolveAuthorUsername(blame)).toBeUndefined();
+    });
+
+    it('should recognize GitHub noreply emails', () => {
+      expect(resolveAuthorUsername({ ...blame, email: '12345+alice-gh@users.noreply.github.com' })).toBe('alice-gh');
+    });
+  });
+});
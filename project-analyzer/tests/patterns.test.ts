@@ -2,7 +2,7 @@
  * Tests for TODO pattern definitions
  */
 
-import { CODE_PATTERNS, MARKDOWN_PATTERNS, getPatternsForFile, shouldScanFile } from '../src/core/patterns';
+import { CODE_PATTERNS, MARKDOWN_PATTERNS, getPatternsForFile, shouldScanFile, parseTodoAnnotation } from '../src/core/patterns';
 
 describe('Pattern Definitions', () => {
   describe('CODE_PATTERNS', () => {
@@ -137,4 +137,23 @@ describe('Pattern Definitions', () => {
       });
     });
   });
+
+  describe('parseTodoAnnotation', () => {
+    it('should split owner, due date and ticket by shape', () => {
+      expect(parseTodoAnnotation('(alice, 2026-Q3): Migrate uploads')).toEqual({
+        content: 'Migrate uploads',
+        owner: 'alice',
+        dueDate: '2026-Q3'
+      });
+      expect(parseTodoAnnotation('(PROJ-123, @bob) Drop legacy flag')).toEqual({
+        content: 'Drop legacy flag',
+        owner: 'bob',
+        ticket: 'PROJ-123'
+      });
+    });
+
+    it('should leave content without an annotation unchanged', () => {
+      expect(parseTodoAnnotation('Handle empty input')).toEqual({ content: 'Handle empty input' });
+    });
+  });
 });
\ No newline at end of file
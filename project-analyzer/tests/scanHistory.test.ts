@@ -0,0 +1,88 @@
+/**
+ * Tests for scan history and trends
+ */
+
+import { createHistoryEntry, computeTrends, getWeekStart, HistoryEntry } from '../src/core/scanHistory';
+import { ProcessedTodo } from '../src/core/scanner';
+
+function todo(hash: string, file: string, priority: 'high' | 'medium' | 'low' = 'medium'): ProcessedTodo {
+  return {
+    type: priority === 'high' ? 'FIXME' : 'TODO',
+    content: `Work item ${hash}`,
+    file,
+    line: 1,
+    priority,
+    category: 'code',
+    rawText: `// TODO: Work item ${hash}`,
+    id: `todo-${hash}`,
+    hash
+  };
+}
+
+describe('Scan history', () => {
+  describe('createHistoryEntry', () => {
+    it('should summarize by priority, type and top-level directory', () => {
+      const entry = createHistoryEntry([todo('a', 'src/a.ts', 'high'), todo('b', 'src/b.ts'), todo('c', 'README.md')], {
+        scanDate: '2026-10-05T10:00:00.000Z'
+      });
+
+      expect(entry.totalTodos).toBe(3);
+      expect(entry.byPriority).toEqual({ high: 1, medium: 2, low: 0 });
+      expect(entry.byType).toEqual({ FIXME: 1, TODO: 2 });
+      expect(entry.byDirectory).toEqual({ src: 2, '.': 1 });
+    });
+  });
+
+  describe('computeTrends', () => {
+    const history: HistoryEntry[] = [
+      createHistoryEntry([todo('a', 'src/a.ts'), todo('b', 'src/b.ts')], {
+        scanDate: '2026-10-01T09:00:00.000Z',
+        commitAuthor: 'Alice'
+      }),
+      createHistoryEntry([todo('a', 'src/a.ts'), todo('c', 'lib/c.ts', 'high')], {
+        scanDate: '2026-10-08T09:00:00.000Z',
+        commitAuthor: 'Bob'
+      }),
+      createHistoryEntry([todo('a', 'src/a.ts'), todo('c', 'lib/c.ts', 'high'), todo('d', 'lib/d.ts')], {
+        scanDate: '2026-10-08T17:00:00.000Z',
+        commitAuthor: 'Alice'
+      })
+    ];
+
+    it('should report introductions and resolutions per day and week', () => {
+      const report = computeTrends(history, { weeks: 4 });
+
+      expect(report.timeline.map(point => [point.date, point.total, point.introduced, point.resolved])).toEqual([
+        ['2026-10-01', 2, 0, 0],
+        ['2026-10-08', 3, 2, 1]
+      ]);
+      expect(report.weekly).toEqual([
+        { week: '2026-09-28', introduced: 0, resolved: 0, net: 0 },
+        { week: '2026-10-05', introduced: 2, resolved: 1, net: 1 }
+      ]);
+    });
+
+    it('should age open TODOs from their first appearance', () => {
+      const report = computeTrends(history);
+
+      expect(report.oldest.map(t => [t.hash, t.ageDays])).toEqual([['a', 7], ['c', 0], ['d', 0]]);
+      expect(report.meanAgeDays).toBe(2.3);
+    });
+
+    it('should attribute additions and removals', () => {
+      const report = computeTrends(history);
+
+      expect(report.contributors).toEqual([
+        { name: 'Bob', added: 1, removed: 1 },
+        { name: 'Alice', added: 1, removed: 0 }
+      ]);
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it('should return the Monday of the week', () => {
+      expect(getWeekStart('2026-10-18T23:00:00.000Z')).toBe('2026-10-12');
+      expect(getWeekStart('2026-10-19T00:00:00.000Z')).toBe('2026-10-19');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the breadth-first site crawler
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  SiteCrawler,
+  PageVisitor,
+  compileUrlPattern,
+  isAllowedByRobots,
+  normalizeUrl,
+  parseRobotsTxt,
+  parseSitemap
+} from '../src/core/siteCrawler';
+
+const SITE = path.join(__dirname, 'fixtures', 'site');
+
+/**
+ * Visit pages with fetch instead of a browser: status, title and hrefs
+ */
+const fetchVisitor: PageVisitor = async (url) => {
+  const response = await fetch(url);
+  const html = await response.text();
+  return {
+    status: response.status,
+    finalUrl: response.url,
+    title: html.match(/<title>(.*?)<\/title>/)?.[1],
+    links: [...html.matchAll(/href="([^"]+)"/g)].map(match => new URL(match[1], response.url).toString())
+  };
+};
+
+describe('SiteCrawler', () => {
+  let server: http.Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    // Serve the fixture site; {{origin}} in files becomes the server's origin
+    server = http.createServer((request, response) => {
+      const pathname = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname);
+      const filePath = path.join(SITE, pathname.endsWith('/') ? `${pathname}index.html` : pathname);
+      if (!filePath.startsWith(SITE) || !fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+        response.writeHead(404, { 'Content-Type': 'text/html' });
+        response.end('<title>Not found</title>');
+        return;
+      }
+      const type = filePath.endsWith('.html') ? 'text/html' : filePath.endsWith('.xml') ? 'application/xml' : 'text/plain';
+      response.writeHead(200, { 'Content-Type': type });
+      response.end(fs.readFileSync(filePath, 'utf-8').replace(/\{\{origin\}\}/g, origin));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should normalize URLs and apply robots rules, sitemaps and patterns', () => {
+    expect(normalizeUrl('HTTPS://Example.com:443//a//b?z=1&utm_source=x&a=2#top')).toBe('https://example.com/a/b?a=2&z=1');
+    expect(normalizeUrl('../c', 'https://example.com/a/b')).toBe('https://example.com/c');
+    expect(normalizeUrl('mailto:hi@example.com')).toBeUndefined();
+
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: project-analyzer',
+      'Disallow: /private/',
+      'Allow: /private/press$',
+      'Disallow: /*.pdf$',
+      'Crawl-delay: 2',
+      'Sitemap: https://example.com/sitemap-pages.xml'
+    ].join('\n'));
+    expect(robots.crawlDelay).toBe(2);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap-pages.xml']);
+    expect(isAllowedByRobots(robots, 'https://example.com/docs')).toBe(true);
+    expect(isAllowedByRobots(robots, 'https://example.com/private/keys')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/private/press')).toBe(true);
+    expect(isAllowedByRobots(robots, 'https://example.com/files/a.pdf')).toBe(false);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow: /'), 'https://example.com/')).toBe(false);
+
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://example.com/s1.xml</loc></sitemap></sitemapindex>'))
+      .toEqual({ urls: [], sitemaps: ['https://example.com/s1.xml'] });
+
+    expect(compileUrlPattern('/docs/**')('https://example.com/docs/a/b')).toBe(true);
+    expect(compileUrlPattern('/docs/*')('https://example.com/docs/a/b')).toBe(false);
+    expect(compileUrlPattern('https://shop.example.com/**')('https://example.com/cart')).toBe(false);
+  });
+
+  it('should crawl breadth-first with robots.txt, sitemap seeding and exclude patterns', async () => {
+    const siteMap = await new SiteCrawler({ maxDepth: 2, exclude: ['/blog/**'] }).crawl([`${origin}/`], fetchVisitor);
+
+    expect(siteMap.pages.map(page => [page.url.replace(origin, ''), page.depth, page.via, page.status])).toEqual([
+      ['/', 0, 'seed', 200],
+      ['/about.html', 1, 'link', 200],
+      ['/products/', 1, 'link', 200],
+      ['/docs/guide.html', 1, 'link', 200],
+      ['/missing.html', 1, 'link', 404],
+      ['/changelog.html', 1, 'sitemap', 200],
+      ['/products/widget.html', 2, 'link', 200],
+      ['/products/gadget.html', 2, 'link', 200]
+    ]);
+    expect(siteMap.pages[0]).toMatchObject({ title: 'Acme', linkCount: 7 });
+    expect(siteMap.pages[6].parent).toBe(`${origin}/products/`);
+    expect(siteMap.skipped).toEqual([
+      { url: `${origin}/blog/post-1.html`, reason: 'excluded' },
+      { url: `${origin}/private/admin.html`, reason: 'robots' }
+    ]);
+    expect(siteMap.sitemaps).toEqual([`${origin}/sitemap.xml`]);
+  });
+
+  it('should stop at the page limit and keep visits within the concurrency bound', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slowVisitor: PageVisitor = async (url, depth) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      try {
+        return await fetchVisitor(url, depth);
+      } finally {
+        inFlight--;
+      }
+    };
+
+    const siteMap = await new SiteCrawler({ maxDepth: 5, maxPages: 4, concurrency: 2, respectRobots: false, useSitemap: false })
+      .crawl([`${origin}/`], slowVisitor);
+
+    expect(siteMap.pages.map(page => page.url.replace(origin, ''))).toEqual(['/', '/about.html', '/products/', '/docs/guide.html']);
+    expect(siteMap.skipped.filter(skipped => skipped.reason === 'max-pages').map(skipped => skipped.url.replace(origin, '')))
+      .toEqual(['/blog/post-1.html', '/private/admin.html', '/missing.html', '/products/widget.html', '/products/gadget.html']);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should only visit the seeds at depth 0 without reading robots.txt or sitemaps', async () => {
+    const fetched: string[] = [];
+    const crawler = new SiteCrawler({
+      fetchText: async (url) => { fetched.push(url); return undefined; }
+    });
+
+    const siteMap = await crawler.crawl([`${origin}/#top`, `${origin}/`, `${origin}/about.html`], fetchVisitor);
+
+    expect(siteMap.seeds).toEqual([`${origin}/`, `${origin}/about.html`]);
+    expect(siteMap.pages.map(page => page.via)).toEqual(['seed', 'seed']);
+    expect(fetched).toEqual([]);
+    await expect(crawler.crawl(['ftp://example.com/'], fetchVisitor)).rejects.toThrow('Not an http(s) URL');
+  });
+});
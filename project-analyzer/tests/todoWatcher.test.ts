@@ -0,0 +1,55 @@
+/**
+ * Tests for watch mode diffs
+ */
+
+import { diffTodos } from '../src/core/todoWatcher';
+import { ProcessedTodo } from '../src/core/scanner';
+
+function todo(content: string, line: number, hash: string): ProcessedTodo {
+  return {
+    type: 'TODO',
+    content,
+    file: 'src/app.ts',
+    line,
+    priority: 'medium',
+    category: 'code',
+    rawText: `// TODO: ${content}`,
+    id: `todo-${line}`,
+    hash
+  };
+}
+
+describe('TodoWatcher', () => {
+  describe('diffTodos', () => {
+    it('should report added, removed and edited TODOs', () => {
+      const previous = [
+        todo('Validate the request payload', 3, 'hash-validate'),
+        todo('Remove the legacy fallback', 10, 'hash-legacy')
+      ];
+      const rescanned = [
+        todo('Validate the request payload and headers', 3, 'fresh-1'),
+        todo('Add request tracing', 20, 'fresh-2')
+      ];
+
+      const diff = diffTodos(previous, rescanned);
+
+      expect(diff.added.map(t => t.content)).toEqual(['Add request tracing']);
+      expect(diff.removed.map(t => t.content)).toEqual(['Remove the legacy fallback']);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0].previous.content).toBe('Validate the request payload');
+      expect(diff.changed[0].current.hash).toBe('hash-validate');
+    });
+
+    it('should not report TODOs that only moved', () => {
+      const previous = [todo('Cache the parsed config', 5, 'hash-cache')];
+      const rescanned = [todo('Cache the parsed config', 9, 'fresh')];
+
+      const diff = diffTodos(previous, rescanned);
+
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+      expect(diff.changed).toEqual([]);
+      expect(diff.current[0].hash).toBe('hash-cache');
+    });
+  });
+});
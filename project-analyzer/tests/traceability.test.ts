@@ -0,0 +1,127 @@
+/**
+ * Tests for requirement traceability from @implements annotations
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  extractTraceAnnotations,
+  buildTraceabilityMatrix,
+  analyzeTraceability,
+  isTestFile
+} from '../src/core/traceability';
+import { formatTraceabilityAsCSV } from '../src/formatters/traceabilityFormatter';
+
+describe('Traceability', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trace-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should find annotations in comments and test titles only', () => {
+    const source = [
+      '/**',
+      ' * Login form',
+      ' * @implements PM-12, PM-13',
+      ' */',
+      'const label = "@implements PM-99";',
+      '// @feature AUTH-3',
+      ''
+    ].join('\n');
+
+    expect(extractTraceAnnotations(source, 'src/login.ts').map(a => [a.id, a.line, a.kind])).toEqual([
+      ['PM-12', 3, 'implementation'],
+      ['PM-13', 3, 'implementation'],
+      ['AUTH-3', 6, 'implementation']
+    ]);
+
+    const test = [
+      "describe('[PM-12] login', () => {",
+      "  it.skip('rejects bad passwords [PM-13]', () => {});",
+      "  it('logs [debug] output', () => {});",
+      '});',
+      ''
+    ].join('\n');
+
+    expect(extractTraceAnnotations(test, 'tests/login.test.ts').map(a => [a.id, a.line, a.kind])).toEqual([
+      ['PM-12', 1, 'test'],
+      ['PM-13', 2, 'test']
+    ]);
+    expect(extractTraceAnnotations('# @implements PM-1', 'README.md')).toEqual([]);
+    expect(isTestFile('src/__tests__/login.tsx')).toBe(true);
+    expect(isTestFile('src/login_spec.rb')).toBe(true);
+    expect(isTestFile('src/latest.ts')).toBe(false);
+  });
+
+  it('should classify requirements and merge rows that share an id', () => {
+    const matrix = buildTraceabilityMatrix(
+      [
+        { id: 'PM-1', title: 'Login', sources: [{ kind: 'registry', path: 'features.csv' }] },
+        { id: 'PM-1', title: 'PM-1 Login form', sources: [{ kind: 'plan', path: 'AUTH_PLAN.md', line: 4 }] },
+        { id: 'PM-2', title: 'Logout', sources: [{ kind: 'registry', path: 'features.csv' }] },
+        { id: 'PM-3', title: 'Reset password', sources: [{ kind: 'registry', path: 'features.csv' }] },
+        { title: 'Polish styles', sources: [{ kind: 'plan', path: 'AUTH_PLAN.md', line: 5 }] }
+      ],
+      [
+        { id: 'PM-1', file: 'src/login.ts', line: 1, kind: 'implementation', text: '@implements PM-1' },
+        { id: 'PM-1', file: 'tests/login.test.ts', line: 1, kind: 'test', text: "describe('[PM-1]'" },
+        { id: 'PM-2', file: 'src/logout.ts', line: 1, kind: 'implementation', text: '@implements PM-2' },
+        { id: 'PM-9', file: 'src/old.ts', line: 2, kind: 'implementation', text: '@implements PM-9' }
+      ]
+    );
+
+    expect(matrix.requirements.map(row => [row.id, row.status])).toEqual([
+      ['PM-1', 'tested'],
+      ['PM-2', 'traced'],
+      ['PM-3', 'untraced'],
+      [undefined, 'untraced']
+    ]);
+    expect(matrix.requirements[0].sources).toHaveLength(2);
+    expect(matrix.unmatched.map(a => a.id)).toEqual(['PM-9']);
+    expect(matrix.summary).toMatchObject({ total: 4, tested: 1, traced: 1, untraced: 2, withoutId: 1, annotatedFiles: 4 });
+  });
+
+  it('should trace plan items and registry features across a project', async () => {
+    fs.mkdirSync(path.join(testDir, 'docs'));
+    fs.mkdirSync(path.join(testDir, 'src'));
+    fs.mkdirSync(path.join(testDir, 'tests'));
+    fs.writeFileSync(path.join(testDir, 'docs', 'AUTH_PLAN.md'), [
+      '# Auth',
+      '- [x] PM-1 Login form with validation',
+      '- [ ] PM-2 Logout button in the header',
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(testDir, 'features.csv'), [
+      'id,number,name,status',
+      'PROJECT_META,,Demo,',
+      'PM-1,1,"Login, with validation",completed',
+      'PM-4,4,Audit log,planned',
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(testDir, 'src', 'login.ts'), '// @implements PM-1\nexport const login = () => true;\n');
+    fs.writeFileSync(path.join(testDir, 'tests', 'login.test.ts'), "describe('[PM-1] login', () => {});\n");
+
+    const matrix = await analyzeTraceability({
+      rootPath: testDir,
+      planningPaths: ['docs'],
+      registryPath: path.join(testDir, 'features.csv')
+    });
+
+    expect(matrix.requirements.map(row => [row.id, row.status])).toEqual([
+      ['PM-1', 'tested'],
+      ['PM-4', 'untraced'],
+      ['PM-2', 'untraced']
+    ]);
+    expect(matrix.requirements[0].title).toBe('Login, with validation');
+
+    const csv = formatTraceabilityAsCSV(matrix).split('\n');
+    expect(csv[0]).toBe('id,title,status,planned_status,sources,files,tests');
+    expect(csv[1]).toBe('PM-1,"Login, with validation",tested,completed,features.csv; docs/AUTH_PLAN.md:2,src/login.ts:1,tests/login.test.ts:1');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for scheduled monitoring: schedules, history, stats, flakiness and
+ * status-change hooks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  MonitorRun,
+  StatusChange,
+  VerificationMonitor,
+  appendMonitorRun,
+  computeMonitorStatus,
+  detectStatusChanges,
+  loadMonitorHistory,
+  pruneMonitorHistory
+} from '../src/core/verificationMonitor';
+import { TierResult, VerificationResult } from '../src/core/ProductionVerifier';
+import { cronSchedule, intervalSchedule, parseInterval } from '../src/utils/schedule';
+
+function tier(checks: Array<[string, boolean]>): TierResult {
+  const passed = checks.filter(([, ok]) => ok).length;
+  return {
+    passed,
+    failed: checks.length - passed,
+    total: checks.length,
+    checks: checks.map(([name, ok]) => ({ name, passed: ok, message: ok ? 'ok' : `${name} failed` })),
+    status: passed === checks.length ? 'pass' : passed === 0 ? 'fail' : 'partial'
+  };
+}
+
+/**
+ * A result for the checkout feature: the page loads, and the cart and
+ * payment checks pass or fail as given
+ */
+function result(cart: boolean, payment = true): VerificationResult {
+  return {
+    featureId: 'checkout',
+    featureName: 'Checkout',
+    environment: 'production',
+    tier1: tier([['URL: /checkout', true]]),
+    tier2: tier([['Cart', cart], ['Payment', payment]]),
+    tier3: tier([]),
+    overall: cart && payment ? 'pass' : 'partial',
+    timestamp: '2026-03-01T10:00:00.000Z',
+    duration: 1000
+  };
+}
+
+function run(minute: number, ...results: VerificationResult[]): MonitorRun {
+  return { timestamp: `2026-03-01T10:${String(minute).padStart(2, '0')}:00.000Z`, environment: 'production', results };
+}
+
+describe('Verification monitor', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-monitor-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse intervals and cron schedules', () => {
+    expect(parseInterval('30s')).toBe(30_000);
+    expect(parseInterval('5m')).toBe(300_000);
+    expect(parseInterval('1.5h')).toBe(5_400_000);
+    expect(() => parseInterval('5 minutes')).toThrow('Invalid interval "5 minutes" (use e.g. 30s, 5m, 1h)');
+    expect(() => parseInterval('400d')).toThrow('Interval "400d" is too long (at most 365d)');
+    expect(intervalSchedule(60_000).next(new Date(2026, 2, 1, 10, 0, 30))).toEqual(new Date(2026, 2, 1, 10, 1, 30));
+
+    const after = new Date(2026, 2, 1, 10, 7, 30); // Sunday
+    expect(cronSchedule('*/15 * * * *').next(after)).toEqual(new Date(2026, 2, 1, 10, 15));
+    expect(cronSchedule('0 9-17/4 * * mon-fri').next(after)).toEqual(new Date(2026, 2, 2, 9, 0));
+    expect(cronSchedule('30 2 1 * *').next(after)).toEqual(new Date(2026, 3, 1, 2, 30));
+    expect(cronSchedule('0 0 13 * 5').next(after)).toEqual(new Date(2026, 2, 6, 0, 0)); // 13th or a Friday
+    expect(cronSchedule('@hourly').next(after)).toEqual(new Date(2026, 2, 1, 11, 0));
+    expect(cronSchedule('0 12 * * 7').next(after)).toEqual(new Date(2026, 2, 1, 12, 0));
+
+    expect(() => cronSchedule('*/5 * * *')).toThrow('Invalid cron expression "*/5 * * *" (expected 5 fields: minute hour day month weekday)');
+    expect(() => cronSchedule('0 25 * * *')).toThrow('Invalid cron hour "25" (expected 0-23)');
+    expect(() => cronSchedule('0 0 30 feb *').next(after)).toThrow('Cron expression "0 0 30 feb *" never runs');
+  });
+
+  it('should append, load and prune the history', () => {
+    const historyPath = path.join(dir, 'monitor', 'history.jsonl');
+    appendMonitorRun(historyPath, run(5, result(true)));
+    appendMonitorRun(historyPath, run(0, result(false)));
+    fs.appendFileSync(historyPath, '{"timestamp": "2026-03-01T10:');
+
+    expect(loadMonitorHistory(historyPath).map(r => r.timestamp)).toEqual(['2026-03-01T10:00:00.000Z', '2026-03-01T10:05:00.000Z']);
+    expect(pruneMonitorHistory(historyPath, new Date('2026-03-01T10:01:00.000Z')).map(r => r.timestamp)).toEqual(['2026-03-01T10:05:00.000Z']);
+    expect(loadMonitorHistory(historyPath)).toHaveLength(1);
+    expect(loadMonitorHistory(path.join(dir, 'missing.jsonl'))).toEqual([]);
+  });
+
+  it('should compute uptime, pass rates and flaky checks', () => {
+    const down: VerificationResult = { ...result(false, false), tier1: tier([['URL: /checkout', false]]), overall: 'fail' };
+    const runs = [
+      run(0, result(true)),
+      run(1, result(false)),
+      run(2, result(true)),
+      run(3, result(false)),
+      run(4, down)
+    ];
+
+    const status = computeMonitorStatus(runs);
+    const [feature] = status.features;
+    expect(feature).toMatchObject({ featureId: 'checkout', runs: 5, uptime: 80, passRate: 40, status: 'fail', flaky: ['Cart'] });
+    expect(feature.since).toBe('2026-03-01T10:04:00.000Z');
+    expect(feature.checks.map(check => [check.id, check.passRate, check.flips, check.flaky])).toEqual([
+      ['tier1:URL: /checkout', 80, 1, false],
+      ['tier2:Cart', 40, 3, true],
+      ['tier2:Payment', 80, 1, false]
+    ]);
+    expect(status.recent[4]).toEqual({ timestamp: '2026-03-01T10:04:00.000Z', passed: 0, failed: 1, partial: 0, duration: 1000 });
+
+    // Flips outside the window don't count
+    expect(computeMonitorStatus(runs, { flakyWindow: 2 }).features[0].flaky).toEqual([]);
+  });
+
+  it('should report real status changes but not flaky flips', () => {
+    const previous = [run(0, result(true)), run(1, result(false)), run(2, result(true))];
+
+    // The third flip makes Cart flaky, so its failure doesn't change the status
+    expect(detectStatusChanges(previous, run(3, result(false)))).toEqual([]);
+
+    const changes = detectStatusChanges(previous, run(3, result(false, false)));
+    expect(changes).toEqual([expect.objectContaining({
+      featureId: 'checkout',
+      previous: 'pass',
+      current: 'fail',
+      failingChecks: [{ name: 'Payment', message: 'Payment failed' }],
+      flakyChecks: ['Cart']
+    })]);
+
+    expect(detectStatusChanges([], run(0, result(false)))).toEqual([]);
+  });
+
+  it('should record runs, write status.json and run the change command', async () => {
+    const outcomes = [result(true), result(true, false), result(true, false)];
+    const monitor = new VerificationMonitor({
+      verify: async () => [outcomes.shift() as VerificationResult],
+      environment: 'production',
+      schedule: intervalSchedule(300_000, 'every 5m'),
+      directory: dir,
+      onChangeCommand: 'cat > change.json',
+      cwd: dir
+    });
+    const changes: StatusChange[] = [];
+    monitor.on('statusChange', change => changes.push(change));
+
+    await monitor.runOnce();
+    await monitor.runOnce();
+    await monitor.runOnce();
+
+    expect(changes.map(change => [change.previous, change.current])).toEqual([['pass', 'fail']]);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'change.json'), 'utf-8'))).toMatchObject({
+      type: 'status_change',
+      environment: 'production',
+      featureName: 'Checkout',
+      failingChecks: [{ name: 'Payment', message: 'Payment failed' }]
+    });
+
+    expect(loadMonitorHistory(monitor.historyPath)).toHaveLength(3);
+    const status = JSON.parse(fs.readFileSync(monitor.statusPath, 'utf-8'));
+    expect(status).toMatchObject({ environment: 'production', schedule: 'every 5m', runs: 3, passRate: 33.3, uptime: 100 });
+    expect(status.features[0]).toMatchObject({ status: 'fail', flaky: [] });
+
+    // A new monitor picks up where the last one left off
+    const restarted = new VerificationMonitor({
+      verify: async () => [result(true, false)],
+      environment: 'production',
+      schedule: intervalSchedule(300_000),
+      directory: dir
+    });
+    const restartedChanges: StatusChange[] = [];
+    restarted.on('statusChange', change => restartedChanges.push(change));
+    await restarted.runOnce();
+    expect(restarted.getStatus().runs).toBe(4);
+    expect(restartedChanges).toEqual([]);
+  });
+
+  it('should only compare runs of its own environment in a shared directory', async () => {
+    const changes: StatusChange[] = [];
+    const runOnce = async (environment: string, outcome: VerificationResult) => {
+      const monitor = new VerificationMonitor({
+        verify: async () => [outcome],
+        environment,
+        schedule: intervalSchedule(300_000),
+        directory: dir
+      });
+      monitor.on('statusChange', change => changes.push(change));
+      await monitor.runOnce();
+      return monitor;
+    };
+
+    await runOnce('staging', result(false));
+    await runOnce('production', result(true));
+    const staging = await runOnce('staging', result(false));
+
+    expect(changes).toEqual([]);
+    expect(loadMonitorHistory(staging.historyPath)).toHaveLength(3);
+    expect(staging.getStatus()).toMatchObject({ environment: 'staging', runs: 2, passRate: 0 });
+  });
+
+  it('should wait out schedules longer than the timer limit', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00.000Z') });
+    const monitor = new VerificationMonitor({
+      verify: async () => [result(true)],
+      environment: 'production',
+      schedule: intervalSchedule(parseInterval('30d'), 'every 30d'),
+      directory: dir
+    });
+
+    try {
+      await monitor.start();
+      expect(monitor.getStatus().nextRun).toBe('2026-03-31T10:00:00.000Z');
+
+      // 2^31 ms is about 24.8 days; nothing runs before the 30 days are up
+      await jest.advanceTimersByTimeAsync(25 * 24 * 60 * 60 * 1000);
+      expect(monitor.getStatus().runs).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(5 * 24 * 60 * 60 * 1000);
+      expect(monitor.getStatus().runs).toBe(2);
+      expect(monitor.getStatus().nextRun).toBe('2026-04-30T10:00:00.000Z');
+    } finally {
+      await monitor.stop();
+      jest.useRealTimers();
+    }
+  });
+});
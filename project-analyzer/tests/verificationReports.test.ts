@@ -0,0 +1,125 @@
+/**
+ * Tests for verification reports: JUnit XML, JSON and the .test-status feed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VerificationResult, TierResult } from '../src/core/ProductionVerifier';
+import { createVerificationReport, formatVerificationJUnit } from '../src/formatters/verificationFormatter';
+import { recordTestRun, verificationTestRun } from '../src/core/testStatus';
+
+const skipped: TierResult = { passed: 0, failed: 0, total: 0, checks: [], status: 'skipped' };
+
+const cart: VerificationResult = {
+  featureId: 'cart',
+  featureName: 'Shopping cart',
+  environment: 'production',
+  tier1: {
+    passed: 1, failed: 1, total: 2, status: 'partial', duration: 1800,
+    checks: [
+      { name: 'URL: https://shop.example.com/cart', passed: true, message: 'URL loads successfully', duration: 1200 },
+      {
+        name: 'URL: https://shop.example.com/cart?step=2&x=1',
+        passed: false,
+        message: 'Expected element "<ul id=items>" not found',
+        duration: 600,
+        screenshotPath: 'screenshots/cart-tier1-2-failure.png'
+      }
+    ]
+  },
+  tier2: skipped,
+  tier3: {
+    passed: 0, failed: 1, total: 1, status: 'fail', duration: 95,
+    checks: [{
+      name: 'API: https://shop.example.com/api/cart',
+      passed: false,
+      message: 'Response data does not match expected data',
+      details: { received: { items: [] }, expected: { items: [1] } },
+      duration: 95
+    }]
+  },
+  overall: 'partial',
+  timestamp: '2026-03-01T10:00:00.000Z',
+  duration: 2500,
+  network: { totalRequests: 14, apiCalls: [{ method: 'GET', url: 'https://shop.example.com/api/cart', status: 200, duration: 80 }], failedResponses: [] }
+};
+
+const search: VerificationResult = {
+  featureId: 'search',
+  featureName: 'Search',
+  environment: 'production',
+  tier1: skipped,
+  tier2: skipped,
+  tier3: skipped,
+  overall: 'fail',
+  timestamp: '2026-03-01T10:00:03.000Z',
+  error: 'Auth profile "prod" not found'
+};
+
+describe('Verification reports', () => {
+  it('should write a JUnit testsuite per feature and tier with a testcase per check', () => {
+    const xml = formatVerificationJUnit([cart, search]);
+
+    expect(xml).toContain('<testsuites name="Production verification" tests="4" failures="2" errors="1" time="2.500">');
+    expect(xml).toContain('<testsuite name="Shopping cart (production) › Tier 1 (URL)" tests="2" failures="1" errors="0" skipped="0" time="1.800" timestamp="2026-03-01T10:00:00.000Z">');
+    expect(xml).not.toContain('Tier 2 (Functionality)');
+    expect(xml).toContain('<testcase classname="production.cart.tier1" name="URL: https://shop.example.com/cart?step=2&amp;x=1" time="0.600">');
+    expect(xml).toContain('<failure message="Expected element &quot;&lt;ul id=items&gt;&quot; not found"></failure>');
+    expect(xml).toContain('<system-out>[[ATTACHMENT|screenshots/cart-tier1-2-failure.png]]</system-out>');
+    expect(xml).toContain('&quot;expected&quot;: {');
+    expect(xml).toContain('<error message="Auth profile &quot;prod&quot; not found"/>');
+    expect(xml.match(/<testcase /g)).toHaveLength(4);
+  });
+
+  it('should summarize checks and keep evidence in the JSON report', () => {
+    const report = createVerificationReport([cart, search]);
+
+    expect(report.summary).toEqual({
+      features: 2,
+      passed: 0,
+      failed: 1,
+      partial: 1,
+      checks: { total: 3, passed: 1, failed: 2 },
+      duration: 2500
+    });
+    expect(report.results[0].network?.totalRequests).toBe(14);
+    expect(report.results[0].tier1.checks[1].screenshotPath).toBe('screenshots/cart-tier1-2-failure.png');
+    expect(report.deployment).toBeUndefined();
+  });
+
+  it('should record runs in .test-status next to existing Jest results', () => {
+    const statusDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-status-test-'));
+    try {
+      const jestRun = { timestamp: '2026-03-01T09:00:00.000Z', package: 'analyzer', totalTests: 10, passed: 9, failed: 1, skipped: 0, duration: 5000, tests: [] };
+      fs.writeFileSync(path.join(statusDir, 'latest.json'), JSON.stringify([jestRun]));
+      fs.writeFileSync(path.join(statusDir, 'summary.json'), JSON.stringify({
+        lastUpdated: jestRun.timestamp,
+        packages: { analyzer: { lastRun: jestRun.timestamp, totalTests: 10, passed: 9, failed: 1, skipped: 0, duration: 5000, status: 'failing' } }
+      }));
+
+      const run = verificationTestRun([cart, search], 'verification-production', 'verify.yaml');
+      expect(run.tests.map(test => [test.suite, test.name, test.status])).toEqual([
+        ['Shopping cart (production)', 'Tier 1 (URL): URL: https://shop.example.com/cart', 'passed'],
+        ['Shopping cart (production)', 'Tier 1 (URL): URL: https://shop.example.com/cart?step=2&x=1', 'failed'],
+        ['Shopping cart (production)', 'Tier 3 (API): API: https://shop.example.com/api/cart', 'failed'],
+        ['Search (production)', 'verification', 'failed']
+      ]);
+      expect(run.tests[0].testId).toBe('verification-production:verify_yaml:production_cart_tier1_URL:_https://shop_example_com/cart');
+      expect(run.tests[3].error).toEqual({ message: 'Auth profile "prod" not found' });
+
+      recordTestRun(statusDir, run);
+      recordTestRun(statusDir, run);
+
+      const latest = JSON.parse(fs.readFileSync(path.join(statusDir, 'latest.json'), 'utf-8'));
+      expect(latest.map((entry: any) => entry.package)).toEqual(['analyzer', 'verification-production']);
+      const summary = JSON.parse(fs.readFileSync(path.join(statusDir, 'summary.json'), 'utf-8'));
+      expect(summary.packages['verification-production']).toMatchObject({ totalTests: 4, passed: 1, failed: 3, status: 'failing' });
+      expect(summary.overall).toEqual({ totalTests: 14, passed: 10, failed: 4, skipped: 0, packagesTotal: 2, packagesFailing: 2 });
+      const history = JSON.parse(fs.readFileSync(path.join(statusDir, 'history', `${run.timestamp.split('T')[0]}-verification-production.json`), 'utf-8'));
+      expect(history).toHaveLength(2);
+    } finally {
+      fs.rmSync(statusDir, { recursive: true, force: true });
+    }
+  });
+});
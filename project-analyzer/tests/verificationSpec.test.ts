@@ -0,0 +1,81 @@
+/**
+ * Tests for verification spec files
+ */
+
+import * as path from 'path';
+import {
+  buildVerificationTargets,
+  defaultEnvironment,
+  loadVerificationSpec,
+  parseVerificationSpec
+} from '../src/core/verificationSpec';
+import { toStagingTarget } from '../src/core/ProductionVerifier';
+
+const SPEC = path.join(__dirname, 'fixtures', 'verification', 'checkout.yaml');
+const env = { PRODUCTION_URL: 'https://shop.example.com/', API_TOKEN: 'secret-token' };
+
+describe('Verification spec', () => {
+  it('should load a YAML spec and resolve URLs and secrets for an environment', () => {
+    const spec = loadVerificationSpec(SPEC, env);
+    expect(spec.options).toEqual({ timeout: 15000 });
+    expect(defaultEnvironment(spec)).toBe('production');
+
+    const [cart, status] = buildVerificationTargets(spec, 'production', undefined, env);
+    expect(cart).toMatchObject({
+      featureId: 'cart',
+      featureName: 'Shopping cart',
+      productionUrl: 'https://shop.example.com/cart',
+      stagingUrl: undefined,
+      auth: 'prod-shopper',
+      tier1: [{ url: 'https://shop.example.com/cart', expectedTitle: 'Cart', expectedElement: '#cart-items' }],
+      tier2: [{ type: 'button', selector: 'button.checkout', action: 'click' }],
+      tier3: [{ endpoint: 'https://shop.example.com/api/cart', headers: { Authorization: 'Bearer secret-token' } }]
+    });
+    expect(status).toMatchObject({ productionUrl: 'https://status.example.com/', auth: 'status-viewer' });
+  });
+
+  it('should build comparison targets whose staging variant checks the staging origin', () => {
+    const spec = loadVerificationSpec(SPEC, env);
+    const [cart, status] = buildVerificationTargets(spec, 'production', 'staging', env);
+    expect(cart.stagingUrl).toBe('https://staging.shop.example.com/cart');
+    expect(cart.stagingAuth).toBe('staging-shopper');
+
+    const staging = toStagingTarget(cart);
+    expect(staging.productionUrl).toBe('https://staging.shop.example.com/cart');
+    expect(staging.auth).toBe('staging-shopper');
+    expect(staging.tier1?.[0].url).toBe('https://staging.shop.example.com/cart');
+    expect(staging.tier3?.[0].endpoint).toBe('https://staging.shop.example.com/api/cart');
+
+    // Absolute URLs on other origins stay put
+    expect(toStagingTarget(status).tier1?.[0].url).toBe('https://status.example.com/');
+    expect(() => buildVerificationTargets(spec, 'qa', undefined, env)).toThrow('Unknown environment "qa" (spec defines production, staging)');
+    expect(() => buildVerificationTargets(spec, 'production', undefined, {}))
+      .toThrow('environments.production.baseUrl: environment variable PRODUCTION_URL is not set');
+  });
+
+  it('should report every validation error at once', () => {
+    expect(() => parseVerificationSpec({
+      environments: { production: { url: 'https://example.com' } },
+      defaults: { retries: -1 },
+      features: [
+        { id: 'a', tier1: [{ expectedStatus: 'ok' }], tier2: [{ type: 'slider', selector: '#s' }] },
+        { id: 'a', tier3: [{ endpoint: '/api/${MISSING_TOKEN}', method: 'PATCH' }] }
+      ]
+    }, {}, 'spec.yaml')).toThrow([
+      'Invalid verification spec spec.yaml:',
+      '  - environments.production: unknown option "url" (expected one of baseUrl, auth)',
+      '  - environments.production.baseUrl must be a URL',
+      '  - defaults.retries must be a non-negative integer',
+      '  - features[0].tier1[0].url must be a non-empty string',
+      '  - features[0].tier1[0].expectedStatus must be an HTTP status code',
+      '  - features[0].tier2[0].type must be one of button, form, link, interaction',
+      '  - features[1].tier3[0].method must be one of GET, POST, PUT, DELETE',
+      '  - features[1].id "a" is used by another feature',
+      '  - features[1].tier3[0].endpoint: environment variable MISSING_TOKEN is not set'
+    ].join('\n'));
+
+    const spec = parseVerificationSpec({ features: [{ id: 'home', url: '/' }] }, {});
+    expect(defaultEnvironment(spec)).toBeUndefined();
+    expect(() => buildVerificationTargets(spec)).toThrow('features[0].url "/" is relative but no environment was selected');
+  });
+});
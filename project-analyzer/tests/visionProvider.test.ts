@@ -0,0 +1,187 @@
+/**
+ * Tests for vision providers and design analysis with replayed responses
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { DesignAnalyzer } from '../src/core/DesignAnalyzer';
+import {
+  AnthropicVisionProvider,
+  CachedVisionProvider,
+  VisionProvider,
+  VisionRequest,
+  createVisionProvider,
+  parseFeatureResponse
+} from '../src/vision';
+
+describe('Vision providers', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vision-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should repair and validate malformed model output', () => {
+    const fenced = parseFeatureResponse([
+      'Here are the features I found:',
+      '```json',
+      '[',
+      '  {“name”: “Search bar”, “description”: “Global search”, “category”: “UI Component”, “confidence”: “90%”},',
+      '  {"description": "No name"},',
+      '  {"name": "Checkout", "category": "Page", "priority": "urgent", "confidence": 0.75},',
+      ']',
+      '```'
+    ].join('\n'));
+
+    expect(fenced.repaired).toBe(true);
+    expect(fenced.features).toEqual([
+      { name: 'Search bar', description: 'Global search', category: 'UI Component', priority: undefined, confidence: 90, notes: undefined },
+      { name: 'Checkout', description: '', category: 'Page', priority: undefined, confidence: 75, notes: undefined }
+    ]);
+    expect(fenced.warnings).toEqual([
+      'Feature 2 has no name; skipped',
+      'Feature "Checkout" has unknown priority "urgent"; using medium'
+    ]);
+
+    // Cut off at the token limit: keep the complete entries
+    const truncated = parseFeatureResponse('[{"name": "Login form", "category": "Form"}, {"name": "Sid');
+    expect(truncated.features.map(f => f.name)).toEqual(['Login form']);
+
+    expect(parseFeatureResponse('{"features": [{"name": "Nav"}]}').features.map(f => f.name)).toEqual(['Nav']);
+    expect(parseFeatureResponse('I cannot see any features.').warnings[0]).toMatch(/not JSON/);
+  });
+
+  it('should serve repeated requests from the cache until the image or prompt changes', async () => {
+    const calls: string[] = [];
+    const inner: VisionProvider = {
+      name: 'counting',
+      model: 'test-model',
+      analyze: async (request: VisionRequest) => {
+        calls.push(request.prompt);
+        return { text: `[{"name": "${request.prompt}"}]` };
+      }
+    };
+    const cached = new CachedVisionProvider(inner, path.join(testDir, 'cache'));
+    const request: VisionRequest = { image: 'aW1hZ2U=', mediaType: 'image/png', prompt: 'first' };
+
+    expect((await cached.analyze(request)).cached).toBeUndefined();
+    expect(await cached.analyze(request)).toEqual({ text: '[{"name": "first"}]', model: 'test-model', cached: true });
+    await cached.analyze({ ...request, prompt: 'second' });
+    await cached.analyze({ ...request, image: 'b3RoZXI=' });
+
+    expect(calls).toEqual(['first', 'second', 'first']);
+  });
+
+  it('should neither cache nor replay responses that do not parse', async () => {
+    const replies = ['Sorry, I cannot read this image.', '[{"name": "Nav"}]'];
+    const inner: VisionProvider = {
+      name: 'flaky',
+      analyze: async () => ({ text: replies.shift() ?? 'unexpected call' })
+    };
+    const cacheDir = path.join(testDir, 'cache');
+    const cached = new CachedVisionProvider(inner, cacheDir);
+    const request: VisionRequest = { image: 'aW1hZ2U=', mediaType: 'image/png', prompt: 'List features' };
+
+    expect((await cached.analyze(request)).text).toBe('Sorry, I cannot read this image.');
+    expect(await cached.analyze(request)).toEqual({ text: '[{"name": "Nav"}]' });
+    expect(await cached.analyze(request)).toMatchObject({ text: '[{"name": "Nav"}]', cached: true });
+
+    // An entry cached before malformed replies were skipped is fetched again
+    const [entryFile] = fs.readdirSync(cacheDir);
+    fs.writeFileSync(path.join(cacheDir, entryFile), JSON.stringify({ provider: 'flaky', createdAt: '', text: 'No JSON here' }));
+    replies.push('[{"name": "Footer"}]');
+    expect(await cached.analyze(request)).toEqual({ text: '[{"name": "Footer"}]' });
+  });
+
+  it('should retry network errors with backoff', async () => {
+    jest.useFakeTimers();
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ content: [{ type: 'text', text: '[]' }] }), { status: 200 }))
+      .mockRejectedValue(new TypeError('fetch failed'));
+
+    try {
+      const provider = new AnthropicVisionProvider({ apiKey: 'test-key', model: 'test-model', maxRetries: 1 });
+      const request: VisionRequest = { image: 'aW1hZ2U=', mediaType: 'image/png', prompt: 'List features' };
+
+      const retried = provider.analyze(request);
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(retried).resolves.toEqual({ text: '[]', model: 'test-model' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      const failed = expect(provider.analyze(request)).rejects.toThrow('Anthropic API request failed: fetch failed');
+      await jest.advanceTimersByTimeAsync(1000);
+      await failed;
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    } finally {
+      fetchMock.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should send the image and prompt to the Messages API', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      model: 'test-model',
+      content: [{ type: 'text', text: '[{"name": "Hero"}]' }]
+    }), { status: 200 }));
+
+    try {
+      const provider = new AnthropicVisionProvider({ apiKey: 'test-key', model: 'test-model' });
+      const response = await provider.analyze({ image: 'aW1hZ2U=', mediaType: 'image/jpeg', prompt: 'List features' });
+
+      expect(response).toEqual({ text: '[{"name": "Hero"}]', model: 'test-model' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect((init!.headers as Record<string, string>)['x-api-key']).toBe('test-key');
+      expect(JSON.parse(init!.body as string).messages[0].content).toEqual([
+        { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'aW1hZ2U=' } },
+        { type: 'text', text: 'List features' }
+      ]);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('should pick the fixtures provider when a fixtures directory is given', () => {
+    expect(createVisionProvider({ fixturesDir: testDir }).name).toBe('fixtures');
+    expect(() => createVisionProvider({ provider: 'openai' as any })).toThrow('Unknown vision provider: openai');
+  });
+
+  it('should extract features from designs with replayed fixtures', async () => {
+    const wireframe = path.join(testDir, 'checkout.png');
+    const screenshot = path.join(testDir, 'dashboard.jpg');
+    fs.writeFileSync(wireframe, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    fs.writeFileSync(screenshot, Buffer.from([0xff, 0xd8, 0xff]));
+
+    const fixturesDir = path.join(testDir, 'fixtures');
+    fs.mkdirSync(fixturesDir);
+    fs.writeFileSync(path.join(fixturesDir, 'checkout.png.json'), JSON.stringify({
+      response: [
+        { name: 'Payment form', description: 'Card entry form with a submit button', category: 'form', priority: 'high', confidence: 92 },
+        { name: 'Order summary', description: 'Line items and totals', category: 'Data Display', confidence: 40 }
+      ]
+    }));
+    fs.writeFileSync(path.join(fixturesDir, 'dashboard.txt'), '```json\n[{"name": "Sidebar menu", "category": "Navigation", "confidence": 88},]\n```');
+
+    const analyzer = new DesignAnalyzer({
+      wireframes: [wireframe],
+      screenshots: [screenshot, path.join(testDir, 'missing.gif')],
+      vision: { fixturesDir }
+    });
+    const result = await analyzer.analyze();
+
+    expect(result.features.map(f => [f.name, f.category, f.source, f.priority, f.confidence])).toEqual([
+      ['Payment form', 'Form', 'wireframe', 'high', 92],
+      ['Sidebar menu', 'Navigation', 'screenshot', 'medium', 88]
+    ]);
+    expect(result.features[0].tags).toEqual(['button', 'form']);
+    expect(result.metadata.analyzedSources).toEqual([wireframe, screenshot]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0]).toContain('missing.gif');
+  });
+});
@@ -8,14 +8,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ProjectManager, loadConfig } from './index';
 import { getStateStats } from './core/stateTracker';
+import { parseAnalyzerOutput } from './core/analyzerOutput';
 import { formatDateForFilename } from './formatters/reportGenerator';
-import { TodoItem } from './types';
 
 const program = new Command();
 
 program
   .name('project-manager')
-  .description('Create GitHub issues from TODOs and generate reports')
+  .description('Create tracker issues from TODOs and generate reports')
   .version('1.0.0');
 
 /**
@@ -23,7 +23,7 @@ program
  */
 program
   .command('create-issues')
-  .description('Create GitHub issues from analyzer output')
+  .description('Create tracker issues from analyzer output')
   .requiredOption('-i, --input <path>', 'Path to analyzer output JSON file')
   .option('-c, --config <path>', 'Path to configuration file', 'project-manager.config.json')
   .option('--dry-run', 'Run without creating actual issues', false)
@@ -41,10 +41,9 @@ program
       }
 
       const inputContent = fs.readFileSync(options.input, 'utf-8');
-      const analyzerOutput = JSON.parse(inputContent);
 
       // Extract TODOs
-      const todos: TodoItem[] = analyzerOutput.todos || [];
+      const { todos } = parseAnalyzerOutput(inputContent);
 
       if (todos.length === 0) {
         console.log('No TODOs found in input file.');
@@ -86,6 +85,69 @@ program
     }
   });
 
+/**
+ * Sync issues command
+ */
+program
+  .command('sync-issues')
+  .description('Close, reopen and update issues to match the current analyzer output')
+  .requiredOption('-i, --input <path>', 'Path to analyzer output JSON file')
+  .option('-c, --config <path>', 'Path to configuration file', 'project-manager.config.json')
+  .option('--dry-run', 'Show what would change without updating issues', false)
+  .option('--comment-only', 'Comment on issues whose TODO was removed instead of closing them', false)
+  .option('--keep-removed', 'Leave issues whose TODO is missing open (required for --since and --only-new scans)', false)
+  .option('--no-update', 'Don\'t update issue body/labels when a TODO changed')
+  .action(async (options) => {
+    try {
+      // Load configuration
+      const config = loadConfig(options.config);
+      const manager = new ProjectManager(config);
+
+      // Load analyzer output
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}`);
+        process.exit(1);
+      }
+
+      const inputContent = fs.readFileSync(options.input, 'utf-8');
+      const { todos, partial } = parseAnalyzerOutput(inputContent);
+
+      console.log(`Found ${todos.length} TODOs in analyzer output${partial ? ` (partial scan: ${partial})` : ''}.`);
+
+      const result = await manager.syncIssues(todos, {
+        removedAction: options.keepRemoved ? 'none' : options.commentOnly ? 'comment' : 'close',
+        partialScan: partial,
+        updateChanged: options.update,
+        dryRun: options.dryRun
+      });
+
+      // Display results
+      console.log('\n--- Sync Results ---');
+      console.log(`Issues closed: ${result.closed.length}`);
+      console.log(`Issues commented: ${result.commented.length}`);
+      console.log(`Issues reopened: ${result.reopened.length}`);
+      console.log(`Issues updated: ${result.updated.length}`);
+      console.log(`Issues unchanged: ${result.unchanged}`);
+      console.log(`Issues failed: ${result.failed.length}`);
+
+      if (result.failed.length > 0) {
+        console.log('\nFailed issues:');
+        result.failed.forEach(todo => {
+          console.log(`  - #${todo.issueNumber} ${todo.content} (${todo.error})`);
+        });
+      }
+
+      if (!options.dryRun) {
+        console.log(`\nState saved to: ${config.stateFile}`);
+      }
+
+      process.exit(result.success ? 0 : 1);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
 /**
  * Generate report command
  */
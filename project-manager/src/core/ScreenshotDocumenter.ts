@@ -11,8 +11,14 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { PlaywrightDriver, ScreenshotCapture, VisualAnalyzer } from '@project-suite/shared';
-import type { ViewportPreset, Viewport } from '@project-suite/shared';
+import {
+  PlaywrightDriver,
+  ScreenshotCapture,
+  VisualAnalyzer,
+  AuthProfileStore,
+  launchAuthenticatedDriver
+} from '@project-suite/shared';
+import type { ViewportPreset, Viewport, AuthProfile } from '@project-suite/shared';
 import type { TodoItem } from '../types';
 
 export interface ScreenshotOptions {
@@ -40,6 +46,10 @@ export interface ScreenshotOptions {
   captureMultiViewport?: boolean;
   /** PM-13: Which viewports to capture */
   viewports?: (ViewportPreset | Viewport)[];
+  /** Auth profile (or its name) to sign in with before UI screenshots */
+  authProfile?: AuthProfile | string;
+  /** Directory to load a named auth profile from */
+  authDir?: string;
 }
 
 export interface ScreenshotResult {
@@ -70,7 +80,9 @@ export interface Screenshot {
 }
 
 export class ScreenshotDocumenter {
-  private options: Required<ScreenshotOptions>;
+  private options: Required<Omit<ScreenshotOptions, 'authProfile' | 'authDir'>>;
+  private authProfile?: AuthProfile | string;
+  private authDir?: string;
   private driver: PlaywrightDriver | null = null;
   private screenshotCapture: ScreenshotCapture | null = null;
 
@@ -87,6 +99,18 @@ export class ScreenshotDocumenter {
       captureMultiViewport: options.captureMultiViewport ?? false,
       viewports: options.viewports || ['mobile', 'tablet', 'desktop']
     };
+    this.authProfile = options.authProfile;
+    this.authDir = options.authDir;
+  }
+
+  /**
+   * Launch the browser, signed in when an auth profile is configured
+   */
+  private async launchDriver(): Promise<PlaywrightDriver> {
+    const profile = typeof this.authProfile === 'string'
+      ? new AuthProfileStore(this.authDir).load(this.authProfile)
+      : this.authProfile;
+    return launchAuthenticatedDriver(profile, { headless: true, browser: 'chromium' });
   }
 
   /**
@@ -178,8 +202,7 @@ export class ScreenshotDocumenter {
     try {
       // Initialize Playwright if needed
       if (!this.driver) {
-        this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-        await this.driver.launch();
+        this.driver = await this.launchDriver();
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
 
@@ -245,8 +268,7 @@ export class ScreenshotDocumenter {
     try {
       // Initialize Playwright if needed
       if (!this.driver) {
-        this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-        await this.driver.launch();
+        this.driver = await this.launchDriver();
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
 
@@ -330,8 +352,7 @@ export class ScreenshotDocumenter {
       // Initialize screenshot capture if needed
       if (!this.screenshotCapture) {
         if (!this.driver) {
-          this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-          await this.driver.launch();
+          this.driver = await this.launchDriver();
         }
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
@@ -393,8 +414,7 @@ export class ScreenshotDocumenter {
     try {
       // Initialize Playwright if needed
       if (!this.driver) {
-        this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-        await this.driver.launch();
+        this.driver = await this.launchDriver();
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
 
@@ -677,8 +697,7 @@ export class ScreenshotDocumenter {
 
       // Initialize Playwright if needed
       if (!this.driver) {
-        this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-        await this.driver.launch();
+        this.driver = await this.launchDriver();
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
 
@@ -822,8 +841,7 @@ export class ScreenshotDocumenter {
     try {
       // Initialize Playwright if needed
       if (!this.driver) {
-        this.driver = new PlaywrightDriver({ headless: true, browser: 'chromium' });
-        await this.driver.launch();
+        this.driver = await this.launchDriver();
         this.screenshotCapture = new ScreenshotCapture(this.driver);
       }
 
@@ -0,0 +1,35 @@
+/**
+ * Analyzer output - the JSON written by `project-analyzer scan`
+ *
+ * `--since` and `--only-new` scans list a subset of the codebase's TODOs; such
+ * output is marked partial so sync does not treat the missing TODOs as removed.
+ */
+
+import { TodoItem } from '../types';
+
+export interface AnalyzerOutput {
+  todos: TodoItem[];
+  /** Why the TODOs are not all of the codebase's TODOs */
+  partial?: string;
+}
+
+/**
+ * Parse analyzer output JSON
+ * @throws Error when it is not JSON or has no `todos` array
+ */
+export function parseAnalyzerOutput(content: string): AnalyzerOutput {
+  const output: unknown = JSON.parse(content);
+  const record = typeof output === 'object' && output !== null ? output as Record<string, unknown> : {};
+  if (!Array.isArray(record.todos)) {
+    throw new Error('Analyzer output has no "todos" array (use the JSON output of project-analyzer scan)');
+  }
+
+  const summary = typeof record.summary === 'object' && record.summary !== null
+    ? record.summary as Record<string, unknown>
+    : {};
+  const partial = typeof summary.since === 'string'
+    ? `files changed since ${summary.since}`
+    : summary.onlyNew === true ? 'new TODOs only' : undefined;
+
+  return { todos: record.todos as TodoItem[], ...(partial ? { partial } : {}) };
+}
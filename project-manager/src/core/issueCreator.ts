@@ -1,17 +1,25 @@
 /**
- * Issue creator - orchestrates the creation of GitHub issues from TODOs
+ * Issue creator - orchestrates the creation of tracker issues from TODOs
  */
 
-import { TodoItem, ProcessedTodo, GithubConfig, LabelMapping, StateFile } from '../types';
-import { GitHubClient, formatIssueTitle, formatIssueBody } from '../utils/githubClient';
+import { TodoItem, ProcessedTodo, GithubConfig, LabelMapping, StateFile, AssignmentConfig } from '../types';
+import { formatIssueTitle, formatIssueBody } from '../utils/githubClient';
 import { determineLabels } from '../utils/labelManager';
-import { generateTodoHash, addProcessedTodo } from './stateTracker';
+import { determineAssignment, formatOwnershipSection } from '../utils/ownerAssignment';
+import { generateTodoHash, addProcessedTodo, createProcessedTodo } from './stateTracker';
 import { ScreenshotDocumenter, ScreenshotOptions } from './ScreenshotDocumenter';
+import { IssueTracker, GitHubTracker } from '../trackers';
 
 export interface IssueCreationOptions {
+  /** Title prefix and default labels (and the repository when no tracker is given) */
   githubConfig: GithubConfig;
+  /** Issue tracker to create issues in (default: GitHub) */
+  tracker?: IssueTracker;
   labelMapping?: LabelMapping;
+  /** Assign and mention TODO owners (default: assign and mention) */
+  assignment?: AssignmentConfig;
   checkDuplicates?: boolean;
+  /** Log the issues that would be created; state is left untouched */
   dryRun?: boolean;
   /** Optional screenshot documenter for visual evidence */
   screenshotOptions?: ScreenshotOptions;
@@ -26,7 +34,7 @@ export interface IssueCreationResult {
 }
 
 /**
- * Create GitHub issues from TODOs
+ * Create tracker issues from TODOs
  */
 export async function createIssuesFromTodos(
   todos: TodoItem[],
@@ -35,7 +43,9 @@ export async function createIssuesFromTodos(
 ): Promise<IssueCreationResult> {
   const {
     githubConfig,
+    tracker: configuredTracker,
     labelMapping,
+    assignment,
     checkDuplicates = true,
     dryRun = false,
     screenshotOptions
@@ -51,13 +61,13 @@ export async function createIssuesFromTodos(
     screenshotDocumenter = new ScreenshotDocumenter(screenshotOptions);
   }
 
-  // Initialize GitHub client (unless dry run)
-  let client: GitHubClient | null = null;
+  // Initialize issue tracker (unless dry run)
+  let client: IssueTracker | null = null;
   if (!dryRun) {
     try {
-      client = new GitHubClient(githubConfig);
+      client = configuredTracker || new GitHubTracker(githubConfig);
     } catch (error: any) {
-      console.error('Failed to initialize GitHub client:', error.message);
+      console.error('Failed to initialize issue tracker:', error.message);
       throw error;
     }
   }
@@ -85,7 +95,8 @@ export async function createIssuesFromTodos(
       const hash = todo.hash || generateTodoHash(todo);
 
       // Determine labels
-      const { labels } = determineLabels(todo, labelMapping, githubConfig.defaultLabels);
+      const { labels, priority } = determineLabels(todo, labelMapping, githubConfig.defaultLabels);
+      const { assignees, mentions } = determineAssignment(todo, assignment);
 
       // Format issue title and body
       const title = formatIssueTitle(
@@ -100,7 +111,7 @@ export async function createIssuesFromTodos(
         todo.type,
         todo.priority,
         todo.rawText
-      );
+      ) + formatOwnershipSection(todo, mentions);
 
       // Capture screenshots if enabled
       if (screenshotDocumenter) {
@@ -123,8 +134,7 @@ export async function createIssuesFromTodos(
         const existing = await client.issueExists(title);
         if (existing.exists) {
           console.log(`Skipping duplicate issue: ${title}`);
-          addProcessedTodo(state, todo, existing.url, existing.issueNumber, 'skipped');
-          skipped.push(state.processedTodos[state.processedTodos.length - 1]);
+          skipped.push(addProcessedTodo(state, todo, existing.url, existing.issueNumber, 'skipped'));
           continue;
         }
       }
@@ -133,46 +143,42 @@ export async function createIssuesFromTodos(
       if (dryRun) {
         console.log(`[DRY RUN] Would create issue: ${title}`);
         console.log(`  Labels: ${labels.join(', ')}`);
+        if (assignees.length > 0) {
+          console.log(`  Assignees: ${assignees.join(', ')}`);
+        }
         console.log(`  File: ${todo.file}:${todo.line}`);
 
-        addProcessedTodo(
-          state,
-          todo,
-          'https://github.com/dry-run/issue/1',
-          1,
-          'created'
-        );
-        created.push(state.processedTodos[state.processedTodos.length - 1]);
+        // Nothing was created, so there is no issue to record in state
+        created.push(createProcessedTodo(todo));
       } else if (client) {
         const response = await client.createIssue({
           title,
           body,
-          labels
+          labels,
+          priority,
+          assignees: assignees.length > 0 ? assignees : undefined
         });
 
         console.log(`Created issue #${response.number}: ${title}`);
 
-        addProcessedTodo(
+        const entry = addProcessedTodo(
           state,
           todo,
           response.html_url,
           response.number,
           'created'
         );
-        created.push(state.processedTodos[state.processedTodos.length - 1]);
+        if (assignees.length > 0) {
+          entry.assignees = assignees;
+        }
+        created.push(entry);
       }
     } catch (error: any) {
       console.error(`Failed to create issue for TODO: ${todo.content}`, error.message);
 
-      addProcessedTodo(
-        state,
-        todo,
-        undefined,
-        undefined,
-        'failed',
-        error.message
-      );
-      failed.push(state.processedTodos[state.processedTodos.length - 1]);
+      failed.push(dryRun
+        ? createProcessedTodo(todo, undefined, undefined, 'failed', error.message)
+        : addProcessedTodo(state, todo, undefined, undefined, 'failed', error.message));
     }
   }
 
@@ -200,19 +206,22 @@ export async function createIssuesFromTodos(
 export async function createSingleIssue(
   todo: TodoItem,
   githubConfig: GithubConfig,
-  labelMapping?: LabelMapping
+  labelMapping?: LabelMapping,
+  tracker?: IssueTracker,
+  assignment?: AssignmentConfig
 ): Promise<{ success: boolean; issueUrl?: string; issueNumber?: number; error?: string }> {
   try {
-    const client = new GitHubClient(githubConfig);
+    const client = tracker || new GitHubTracker(githubConfig);
 
     // Determine labels
-    const { labels } = determineLabels(todo, labelMapping, githubConfig.defaultLabels);
+    const { labels, priority } = determineLabels(todo, labelMapping, githubConfig.defaultLabels);
 
     // Ensure labels exist
     await client.ensureLabels(labels);
 
     // Format issue
     const title = formatIssueTitle(todo.content, githubConfig.issueTitlePrefix);
+    const { assignees, mentions } = determineAssignment(todo, assignment);
     const body = formatIssueBody(
       todo.content,
       todo.file,
@@ -220,10 +229,16 @@ export async function createSingleIssue(
       todo.type,
       todo.priority,
       todo.rawText
-    );
+    ) + formatOwnershipSection(todo, mentions);
 
     // Create issue
-    const response = await client.createIssue({ title, body, labels });
+    const response = await client.createIssue({
+      title,
+      body,
+      labels,
+      priority,
+      assignees: assignees.length > 0 ? assignees : undefined
+    });
 
     return {
       success: true,
@@ -0,0 +1,293 @@
+/**
+ * Issue sync - reconciles created tracker issues with the current TODOs
+ *
+ * Closes (or comments on) issues whose TODO was removed, reopens issues whose
+ * TODO came back, and refreshes issue body and labels when a TODO's text or
+ * priority changed.
+ */
+
+import { matchTodoIdentities } from '@project-suite/shared';
+import { TodoItem, ProcessedTodo, GithubConfig, LabelMapping, StateFile, IssueTransition } from '../types';
+import { formatIssueBody } from '../utils/githubClient';
+import { determineLabels } from '../utils/labelManager';
+import { IssueTracker, GitHubTracker } from '../trackers';
+import { hasTrackedIssue } from './stateTracker';
+
+export interface IssueSyncOptions {
+  githubConfig: GithubConfig;
+  /** Issue tracker the issues live in (default: GitHub) */
+  tracker?: IssueTracker;
+  labelMapping?: LabelMapping;
+  /** What to do with issues whose TODO was removed (default: close); none leaves them open */
+  removedAction?: 'close' | 'comment' | 'none';
+  /** Why `todos` is a subset of the codebase's TODOs; requires removedAction none */
+  partialScan?: string;
+  /** Update issue body and labels when a TODO changed (default: true) */
+  updateChanged?: boolean;
+  dryRun?: boolean;
+}
+
+export interface IssueSyncResult {
+  success: boolean;
+  closed: ProcessedTodo[];
+  commented: ProcessedTodo[];
+  reopened: ProcessedTodo[];
+  updated: ProcessedTodo[];
+  failed: ProcessedTodo[];
+  unchanged: number;
+}
+
+/**
+ * Statuses whose issue is open and managed by Project Manager
+ *
+ * Skipped entries point at pre-existing issues found by title, which
+ * Project Manager did not create and therefore never closes.
+ */
+const OPEN_STATUSES: ProcessedTodo['status'][] = ['created', 'reopened'];
+const REMOVED_STATUSES: ProcessedTodo['status'][] = ['closed', 'orphaned'];
+
+/**
+ * Reconcile issues in the state file against the current TODOs
+ */
+export async function syncIssuesWithTodos(
+  todos: TodoItem[],
+  state: StateFile,
+  options: IssueSyncOptions
+): Promise<IssueSyncResult> {
+  const {
+    githubConfig,
+    tracker,
+    labelMapping,
+    removedAction = 'close',
+    updateChanged = true,
+    dryRun = false
+  } = options;
+
+  // TODOs missing from a partial scan were not removed, just not scanned
+  if (options.partialScan && removedAction !== 'none') {
+    throw new Error(`Analyzer output is a partial scan (${options.partialScan}); sync needs a full scan, or removedAction none (--keep-removed)`);
+  }
+
+  const result: IssueSyncResult = {
+    success: true,
+    closed: [],
+    commented: [],
+    reopened: [],
+    updated: [],
+    failed: [],
+    unchanged: 0
+  };
+
+  // Initialize issue tracker (unless dry run)
+  let client: IssueTracker | null = null;
+  if (!dryRun) {
+    client = tracker || new GitHubTracker(githubConfig);
+  }
+
+  // Resolve which processed TODO each current TODO corresponds to
+  const tracked = state.processedTodos.filter(hasTrackedIssue);
+  const matches = matchTodoIdentities(todos, tracked);
+  const currentByHash = new Map<string, TodoItem>();
+  matches.forEach((match, index) => {
+    if (match.previous) {
+      currentByHash.set(match.previous.hash, todos[index]);
+    }
+  });
+
+  for (const processed of tracked) {
+    const issueNumber = processed.issueNumber as number;
+    const current = currentByHash.get(processed.hash);
+
+    try {
+      if (!current && OPEN_STATUSES.includes(processed.status) && removedAction !== 'none') {
+        // TODO was removed from the codebase
+        const comment = formatRemovedComment(processed);
+
+        if (dryRun) {
+          console.log(`[DRY RUN] Would ${removedAction} issue #${issueNumber}: ${processed.content}`);
+        } else if (client) {
+          await client.addComment(issueNumber, comment);
+          if (removedAction === 'close') {
+            await client.closeIssue(issueNumber);
+          }
+          console.log(`${removedAction === 'close' ? 'Closed' : 'Commented on'} issue #${issueNumber}: ${processed.content}`);
+        }
+
+        if (removedAction === 'close') {
+          recordTransition(processed, 'closed', 'TODO removed', dryRun);
+          result.closed.push(processed);
+        } else {
+          recordTransition(processed, 'orphaned', 'TODO removed', dryRun);
+          result.commented.push(processed);
+        }
+      } else if (current && REMOVED_STATUSES.includes(processed.status)) {
+        // TODO came back after its issue was closed
+        if (dryRun) {
+          console.log(`[DRY RUN] Would reopen issue #${issueNumber}: ${current.content}`);
+        } else if (client) {
+          if (processed.status === 'closed') {
+            await client.reopenIssue(issueNumber);
+          }
+          await client.addComment(issueNumber, formatReopenedComment(current));
+          console.log(`Reopened issue #${issueNumber}: ${current.content}`);
+        }
+
+        recordTransition(processed, 'reopened', `TODO found again in ${current.file}:${current.line}`, dryRun);
+        applyCurrentTodo(processed, current, dryRun);
+        result.reopened.push(processed);
+      } else if (current && OPEN_STATUSES.includes(processed.status) && updateChanged && hasChanged(processed, current)) {
+        // TODO text, priority or location changed
+        const body = formatIssueBody(
+          current.content,
+          current.file,
+          current.line,
+          current.type,
+          current.priority,
+          current.rawText
+        );
+
+        if (dryRun) {
+          console.log(`[DRY RUN] Would update issue #${issueNumber}: ${current.content}`);
+        } else if (client) {
+          const issue = await client.getIssue(issueNumber);
+          const labels = mergeLabels(issue.labels, processed, current, labelMapping, githubConfig.defaultLabels);
+          await client.ensureLabels(labels);
+          await client.updateIssue(issueNumber, { body, labels, priority: current.priority });
+          console.log(`Updated issue #${issueNumber}: ${current.content}`);
+        }
+
+        recordTransition(processed, processed.status, describeChanges(processed, current), dryRun, 'updated');
+        applyCurrentTodo(processed, current, dryRun);
+        result.updated.push(processed);
+      } else {
+        result.unchanged++;
+      }
+    } catch (error: any) {
+      console.error(`Failed to sync issue #${issueNumber}: ${processed.content}`, error.message);
+      if (!dryRun) {
+        processed.error = error.message;
+      }
+      result.failed.push(processed);
+      result.success = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check if a TODO changed in a way that should be reflected on its issue
+ */
+function hasChanged(processed: ProcessedTodo, current: TodoItem): boolean {
+  return processed.content !== current.content ||
+    processed.priority !== current.priority ||
+    processed.type !== current.type ||
+    processed.file !== current.file;
+}
+
+/**
+ * Describe what changed between the recorded and current TODO
+ */
+function describeChanges(processed: ProcessedTodo, current: TodoItem): string {
+  const changes: string[] = [];
+  if (processed.content !== current.content) changes.push('text');
+  if (processed.priority !== current.priority) changes.push(`priority ${processed.priority} -> ${current.priority}`);
+  if (processed.type !== current.type) changes.push(`type ${processed.type} -> ${current.type}`);
+  if (processed.file !== current.file) changes.push(`file ${processed.file} -> ${current.file}`);
+  return `Changed: ${changes.join(', ')}`;
+}
+
+/**
+ * Replace the labels Project Manager derived from the old TODO with the ones
+ * for the current TODO, keeping any labels added by hand
+ */
+function mergeLabels(
+  issueLabels: string[],
+  processed: ProcessedTodo,
+  current: TodoItem,
+  labelMapping?: LabelMapping,
+  defaultLabels?: string[]
+): string[] {
+  const previousTodo: TodoItem = {
+    type: processed.type,
+    content: processed.content,
+    file: processed.file,
+    line: processed.line,
+    priority: processed.priority as TodoItem['priority'],
+    category: current.category,
+    rawText: ''
+  };
+
+  const oldLabels = new Set(determineLabels(previousTodo, labelMapping, defaultLabels).labels);
+  const newLabels = determineLabels(current, labelMapping, defaultLabels).labels;
+
+  const kept = issueLabels.filter(label => !oldLabels.has(label));
+  return Array.from(new Set([...kept, ...newLabels]));
+}
+
+/**
+ * Record a lifecycle transition on a processed TODO
+ */
+function recordTransition(
+  processed: ProcessedTodo,
+  status: ProcessedTodo['status'],
+  details: string,
+  dryRun: boolean,
+  action?: IssueTransition['action']
+): void {
+  if (dryRun) {
+    return;
+  }
+
+  const transitionAction: IssueTransition['action'] = action ||
+    (status === 'orphaned' ? 'commented' : status === 'reopened' ? 'reopened' : 'closed');
+
+  processed.transitions = [
+    ...(processed.transitions || []),
+    { action: transitionAction, at: new Date().toISOString(), details }
+  ];
+  processed.status = status;
+  processed.error = undefined;
+}
+
+/**
+ * Copy the current TODO's details onto its processed entry
+ */
+function applyCurrentTodo(processed: ProcessedTodo, current: TodoItem, dryRun: boolean): void {
+  if (dryRun) {
+    return;
+  }
+
+  processed.content = current.content;
+  processed.file = current.file;
+  processed.line = current.line;
+  processed.type = current.type;
+  processed.priority = current.priority;
+  processed.context = current.context;
+}
+
+/**
+ * Format the comment posted when a TODO disappears
+ */
+function formatRemovedComment(processed: ProcessedTodo): string {
+  return [
+    `The ${processed.type} this issue was created from is no longer in the codebase.`,
+    '',
+    `- Last seen: \`${processed.file}:${processed.line}\``,
+    '',
+    '_This comment was automatically added by Project Manager._'
+  ].join('\n');
+}
+
+/**
+ * Format the comment posted when a TODO reappears
+ */
+function formatReopenedComment(current: TodoItem): string {
+  return [
+    `The ${current.type} this issue was created from is back in the codebase.`,
+    '',
+    `- Found at: \`${current.file}:${current.line}\``,
+    '',
+    '_This comment was automatically added by Project Manager._'
+  ].join('\n');
+}
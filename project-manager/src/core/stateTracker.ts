@@ -4,15 +4,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
+import {
+  TODO_IDENTITY_VERSION,
+  generateStableTodoHash,
+  matchTodoIdentities,
+  migrateTodoRecords
+} from '@project-suite/shared';
 import { StateFile, ProcessedTodo, TodoItem } from '../types';
 
+/** URL older dry runs recorded in place of a real issue */
+const DRY_RUN_ISSUE_URL_PREFIX = 'https://github.com/dry-run/';
+
 /**
  * Generate SHA256 hash for a TODO item
+ *
+ * Uses the content-anchored identity shared with project-analyzer, so the
+ * hash survives line moves.
  */
 export function generateTodoHash(todo: TodoItem | ProcessedTodo): string {
-  const content = `${todo.file}:${todo.line}:${todo.type}:${todo.content}`;
-  return crypto.createHash('sha256').update(content).digest('hex');
+  return generateStableTodoHash(todo);
 }
 
 /**
@@ -21,6 +31,7 @@ export function generateTodoHash(todo: TodoItem | ProcessedTodo): string {
 export function loadState(statePath: string): StateFile {
   const defaultState: StateFile = {
     lastUpdated: new Date().toISOString(),
+    identityVersion: TODO_IDENTITY_VERSION,
     processedTodos: [],
     metadata: {
       totalProcessed: 0,
@@ -42,6 +53,16 @@ export function loadState(statePath: string): StateFile {
       return defaultState;
     }
 
+    // Migrate line-based hashes from older state files
+    if (state.identityVersion !== TODO_IDENTITY_VERSION) {
+      const migration = migrateTodoRecords(state.processedTodos);
+      if (migration.migrated > 0) {
+        console.log(`Migrated ${migration.migrated} TODO identities in ${statePath}`);
+      }
+      state.processedTodos = migration.records;
+      state.identityVersion = TODO_IDENTITY_VERSION;
+    }
+
     return state;
   } catch (error) {
     console.error('Error loading state:', error);
@@ -62,6 +83,7 @@ export function saveState(statePath: string, state: StateFile): void {
 
     // Update timestamp
     state.lastUpdated = new Date().toISOString();
+    state.identityVersion = TODO_IDENTITY_VERSION;
 
     // Write state file
     fs.writeFileSync(statePath, JSON.stringify(state, null, 2), 'utf-8');
@@ -75,45 +97,65 @@ export function saveState(statePath: string, state: StateFile): void {
  * Check if a TODO has been processed
  */
 export function isProcessed(state: StateFile, todoHash: string): boolean {
-  return state.processedTodos.some(todo => todo.hash === todoHash);
+  return state.processedTodos.some(todo => matchesHash(todo, todoHash));
 }
 
 /**
  * Get processed TODO by hash
  */
 export function getProcessedTodo(state: StateFile, todoHash: string): ProcessedTodo | undefined {
-  return state.processedTodos.find(todo => todo.hash === todoHash);
+  return state.processedTodos.find(todo => matchesHash(todo, todoHash));
 }
 
 /**
- * Add processed TODO to state
+ * Check a processed TODO's current and legacy hashes
  */
-export function addProcessedTodo(
-  state: StateFile,
+function matchesHash(todo: ProcessedTodo, todoHash: string): boolean {
+  return todo.hash === todoHash || (todo.legacyHashes || []).includes(todoHash);
+}
+
+/**
+ * Build a processed TODO entry without adding it to state
+ */
+export function createProcessedTodo(
   todo: TodoItem,
   issueUrl?: string,
   issueNumber?: number,
   status: 'created' | 'failed' | 'skipped' = 'created',
   error?: string
-): void {
-  const hash = todo.hash || generateTodoHash(todo);
-
-  const processedTodo: ProcessedTodo = {
-    hash,
+): ProcessedTodo {
+  return {
+    hash: todo.hash || generateTodoHash(todo),
     content: todo.content,
     file: todo.file,
     line: todo.line,
     type: todo.type,
     priority: todo.priority,
     processedAt: new Date().toISOString(),
+    context: todo.context,
     issueUrl,
     issueNumber,
     status,
     error
   };
+}
+
+/**
+ * Add processed TODO to state
+ * @returns The added entry
+ */
+export function addProcessedTodo(
+  state: StateFile,
+  todo: TodoItem,
+  issueUrl?: string,
+  issueNumber?: number,
+  status: 'created' | 'failed' | 'skipped' = 'created',
+  error?: string
+): ProcessedTodo {
+  const processedTodo = createProcessedTodo(todo, issueUrl, issueNumber, status, error);
 
   // Remove existing entry if present (update scenario)
-  state.processedTodos = state.processedTodos.filter(t => t.hash !== hash);
+  state.processedTodos = state.processedTodos.filter(t => t.hash !== processedTodo.hash);
 
   // Add new entry
   state.processedTodos.push(processedTodo);
@@ -125,15 +167,32 @@ export function addProcessedTodo(
       t => t.status === 'created'
     ).length;
   }
+
+  return processedTodo;
+}
+
+/**
+ * Whether an entry points at a real issue
+ *
+ * Dry runs used to record every TODO as issue #1 at a placeholder URL; those
+ * entries are left alone so sync never touches the real issue #1.
+ */
+export function hasTrackedIssue(todo: ProcessedTodo): boolean {
+  return todo.issueNumber !== undefined && !todo.issueUrl?.startsWith(DRY_RUN_ISSUE_URL_PREFIX);
 }
 
 /**
  * Filter out already processed TODOs
+ *
+ * A TODO counts as processed if its hash is known, or if it matches a
+ * processed TODO that has since moved or been lightly edited.
  */
 export function filterNewTodos(state: StateFile, todos: TodoItem[]): TodoItem[] {
-  return todos.filter(todo => {
+  const matches = matchTodoIdentities(todos, state.processedTodos);
+
+  return todos.filter((todo, index) => {
     const hash = todo.hash || generateTodoHash(todo);
-    return !isProcessed(state, hash);
+    return !isProcessed(state, hash) && matches[index].kind === 'new';
   });
 }
 
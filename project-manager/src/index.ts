@@ -1,20 +1,27 @@
 /**
  * Project Manager - Main entry point
- * A write-operations skill that creates GitHub issues, organizes documentation, and generates reports
+ * A write-operations skill that creates tracker issues (GitHub, GitLab, Jira or local files),
+ * organizes documentation, and generates reports
  */
 
 export * from './types';
 export * from './core/stateTracker';
 export * from './core/issueCreator';
+export * from './core/issueSync';
+export * from './core/analyzerOutput';
 export * from './core/DashboardSync';
 export * from './core/ScreenshotDocumenter';
+export * from './trackers';
 export * from './utils/githubClient';
 export * from './utils/labelManager';
+export * from './utils/ownerAssignment';
 export * from './formatters/reportGenerator';
 
 import { TodoItem, ProjectManagerConfig, StateFile } from './types';
 import { loadState, saveState, filterNewTodos } from './core/stateTracker';
 import { createIssuesFromTodos, IssueCreationOptions } from './core/issueCreator';
+import { syncIssuesWithTodos, IssueSyncOptions } from './core/issueSync';
+import { createIssueTracker, IssueTracker } from './trackers';
 import {
   generateDailyReport,
   saveReport,
@@ -28,6 +35,7 @@ import {
 export class ProjectManager {
   private config: ProjectManagerConfig;
   private state: StateFile;
+  private tracker?: IssueTracker;
 
   constructor(config: ProjectManagerConfig) {
     this.config = config;
@@ -35,7 +43,18 @@ export class ProjectManager {
   }
 
   /**
-   * Process TODOs and create GitHub issues
+   * Get the configured issue tracker, created on first use so dry runs
+   * never need tracker credentials
+   */
+  getTracker(): IssueTracker {
+    if (!this.tracker) {
+      this.tracker = createIssueTracker(this.config.github, this.config.tracker);
+    }
+    return this.tracker;
+  }
+
+  /**
+   * Process TODOs and create tracker issues
    */
   async processTodos(
     todos: TodoItem[],
@@ -61,17 +80,55 @@ export class ProjectManager {
     console.log(`Processing ${newTodos.length} new TODOs...`);
 
     // Create issues
+    const dryRun = options?.dryRun ?? false;
     const issueOptions: IssueCreationOptions = {
       githubConfig: this.config.github,
+      tracker: dryRun ? undefined : this.getTracker(),
       labelMapping: this.config.labels,
+      assignment: this.config.assignment,
       checkDuplicates: options?.checkDuplicates ?? true,
-      dryRun: options?.dryRun ?? false
+      dryRun
     };
 
     const result = await createIssuesFromTodos(newTodos, this.state, issueOptions);
 
-    // Save state
-    saveState(this.config.stateFile, this.state);
+    // Save state (dry runs create no issues, so there is nothing to record)
+    if (!dryRun) {
+      saveState(this.config.stateFile, this.state);
+    }
+
+    return result;
+  }
+
+  /**
+   * Close, reopen and update issues to match the current TODOs
+   */
+  async syncIssues(
+    todos: TodoItem[],
+    options?: {
+      removedAction?: 'close' | 'comment' | 'none';
+      partialScan?: string;
+      updateChanged?: boolean;
+      dryRun?: boolean;
+    }
+  ) {
+    const dryRun = options?.dryRun ?? false;
+    const syncOptions: IssueSyncOptions = {
+      githubConfig: this.config.github,
+      tracker: dryRun ? undefined : this.getTracker(),
+      labelMapping: this.config.labels,
+      removedAction: options?.removedAction ?? 'close',
+      partialScan: options?.partialScan,
+      updateChanged: options?.updateChanged ?? true,
+      dryRun
+    };
+
+    const result = await syncIssuesWithTodos(todos, this.state, syncOptions);
+
+    // Save state (transitions are only recorded outside dry runs)
+    if (!syncOptions.dryRun) {
+      saveState(this.config.stateFile, this.state);
+    }
 
     return result;
   }
@@ -170,16 +227,24 @@ export function loadConfig(configPath: string): ProjectManagerConfig {
   const config = JSON.parse(content);
 
   // Validate required fields
-  if (!config.github || !config.github.owner || !config.github.repo) {
+  const provider = config.tracker?.provider || 'github';
+  if (provider === 'github' && (!config.github || !config.github.owner || !config.github.repo)) {
     throw new Error('Configuration must include github.owner and github.repo');
   }
+  if (provider !== 'github' && provider !== 'local' && !config.tracker[provider]) {
+    throw new Error(`Configuration must include tracker.${provider} for the ${provider} provider`);
+  }
 
   // Set defaults
   return {
     github: {
+      owner: '',
+      repo: '',
       defaultLabels: ['auto-created'],
       ...config.github
     },
+    tracker: config.tracker,
+    assignment: config.assignment,
     stateFile: config.stateFile || '.project-state.json',
     reporting: {
       outputPath: 'docs/reports',
@@ -0,0 +1,54 @@
+/**
+ * GitHub issue tracker provider
+ */
+
+import { GithubConfig, IssueCreateRequest, IssueCreateResponse, IssueDetails, IssueUpdateRequest } from '../types';
+import { GitHubClient } from '../utils/githubClient';
+import { IssueTracker, DuplicateCheckResult } from './IssueTracker';
+
+export class GitHubTracker implements IssueTracker {
+  readonly provider = 'github' as const;
+  private client: GitHubClient;
+
+  constructor(config: GithubConfig) {
+    this.client = new GitHubClient(config);
+  }
+
+  async createIssue(request: IssueCreateRequest): Promise<IssueCreateResponse> {
+    // GitHub has no priority field - priority is already carried as a label
+    return this.client.createIssue(request);
+  }
+
+  async issueExists(title: string): Promise<DuplicateCheckResult> {
+    return this.client.issueExists(title);
+  }
+
+  async listLabels(): Promise<string[]> {
+    return this.client.listLabels();
+  }
+
+  async ensureLabels(labels: string[]): Promise<void> {
+    return this.client.ensureLabels(labels);
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    return this.client.getIssue(issueNumber);
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdateRequest): Promise<void> {
+    const { title, body, labels } = updates;
+    return this.client.updateIssue(issueNumber, { title, body, labels });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    return this.client.updateIssue(issueNumber, { state: 'closed' });
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    return this.client.updateIssue(issueNumber, { state: 'open' });
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    return this.client.addComment(issueNumber, body);
+  }
+}
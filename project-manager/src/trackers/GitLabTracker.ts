@@ -0,0 +1,224 @@
+/**
+ * GitLab issue tracker provider (REST API v4)
+ *
+ * Priority labels become scoped labels (`priority-high` -> `priority::high`),
+ * so an issue can only carry one priority at a time.
+ */
+
+import { GitLabConfig, IssueCreateRequest, IssueCreateResponse, IssueDetails, IssueUpdateRequest } from '../types';
+import { PRIORITY_LABELS } from '../utils/labelManager';
+import { IssueTracker, DuplicateCheckResult } from './IssueTracker';
+import { requestJson, JsonRequestOptions } from './http';
+
+/** Fields of GitLab's issue resource that are used */
+interface GitLabIssue {
+  iid: number;
+  web_url: string;
+  title: string;
+  state: string;
+  labels: string[];
+}
+
+export class GitLabTracker implements IssueTracker {
+  readonly provider = 'gitlab' as const;
+  private apiUrl: string;
+  private baseUrl: string;
+  private token: string;
+  private scopedPrefixes: string[];
+
+  constructor(config: GitLabConfig) {
+    const token = config.token || process.env.GITLAB_TOKEN;
+
+    if (!token) {
+      throw new Error(
+        'GitLab token not found. Please set GITLAB_TOKEN environment variable or provide token in config.'
+      );
+    }
+
+    if (!config.projectId) {
+      throw new Error('GitLab configuration must include projectId');
+    }
+
+    const host = (config.baseUrl || 'https://gitlab.com').replace(/\/+$/, '');
+    this.apiUrl = `${host}/api/v4`;
+    this.baseUrl = `${this.apiUrl}/projects/${encodeURIComponent(config.projectId)}`;
+    this.token = token;
+    this.scopedPrefixes = config.scopedLabelPrefixes || ['priority'];
+  }
+
+  async createIssue(request: IssueCreateRequest): Promise<IssueCreateResponse> {
+    try {
+      const issue = await this.request<GitLabIssue>('/issues', {
+        method: 'POST',
+        body: {
+          title: request.title,
+          description: request.body,
+          labels: this.toGitLabLabels(request.labels, request.priority).join(','),
+          assignee_ids: await this.resolveUserIds(request.assignees || [])
+        }
+      });
+
+      return {
+        number: issue.iid,
+        html_url: issue.web_url,
+        title: issue.title,
+        state: normalizeState(issue.state)
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to create issue: ${error.message}`);
+    }
+  }
+
+  async issueExists(title: string): Promise<DuplicateCheckResult> {
+    try {
+      const issues = await this.request<GitLabIssue[]>(
+        `/issues?search=${encodeURIComponent(title)}&in=title&scope=all&per_page=100`
+      );
+      const existing = issues.find(issue => issue.title === title);
+
+      return existing
+        ? { exists: true, issueNumber: existing.iid, url: existing.web_url }
+        : { exists: false };
+    } catch (error: any) {
+      console.warn(`Could not check for existing issues: ${error.message}`);
+      return { exists: false };
+    }
+  }
+
+  async listLabels(): Promise<string[]> {
+    try {
+      const labels = await this.request<Array<{ name: string }>>('/labels?per_page=100');
+      return labels.map(label => label.name);
+    } catch (error: any) {
+      console.warn(`Could not list labels: ${error.message}`);
+      return [];
+    }
+  }
+
+  async ensureLabels(labels: string[]): Promise<void> {
+    const existing = new Set((await this.listLabels()).map(l => l.toLowerCase()));
+
+    for (const label of this.toGitLabLabels(labels)) {
+      if (existing.has(label.toLowerCase())) continue;
+
+      try {
+        await this.request('/labels', {
+          method: 'POST',
+          body: { name: label, color: '#ededed' }
+        });
+      } catch (error: any) {
+        console.warn(`Could not create label "${label}": ${error.message}`);
+      }
+    }
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    try {
+      const issue = await this.request<GitLabIssue>(`/issues/${issueNumber}`);
+
+      return {
+        number: issue.iid,
+        html_url: issue.web_url,
+        title: issue.title,
+        state: normalizeState(issue.state),
+        labels: issue.labels.map(label => this.fromGitLabLabel(label))
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdateRequest): Promise<void> {
+    const body: Record<string, unknown> = {};
+    if (updates.title !== undefined) body.title = updates.title;
+    if (updates.body !== undefined) body.description = updates.body;
+    if (updates.labels !== undefined) {
+      body.labels = this.toGitLabLabels(updates.labels, updates.priority).join(',');
+    }
+
+    await this.editIssue(issueNumber, body, 'update');
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.editIssue(issueNumber, { state_event: 'close' }, 'close');
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    await this.editIssue(issueNumber, { state_event: 'reopen' }, 'reopen');
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    try {
+      await this.request(`/issues/${issueNumber}/notes`, { method: 'POST', body: { body } });
+    } catch (error: any) {
+      throw new Error(`Failed to comment on issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Translate Project Manager labels into GitLab (scoped) labels
+   */
+  toGitLabLabels(labels: string[], priority?: 'high' | 'medium' | 'low'): string[] {
+    const all = [...labels];
+    if (priority && !all.some(label => label.startsWith('priority-'))) {
+      all.push(PRIORITY_LABELS[priority]);
+    }
+
+    return Array.from(new Set(all.map(label => {
+      const prefix = this.scopedPrefixes.find(p => label.startsWith(`${p}-`));
+      return prefix ? `${prefix}::${label.slice(prefix.length + 1)}` : label;
+    })));
+  }
+
+  /**
+   * Translate a GitLab scoped label back into Project Manager's vocabulary
+   */
+  fromGitLabLabel(label: string): string {
+    const prefix = this.scopedPrefixes.find(p => label.startsWith(`${p}::`));
+    return prefix ? `${prefix}-${label.slice(prefix.length + 2)}` : label;
+  }
+
+  /**
+   * Look up GitLab user ids by username, skipping unknown users
+   */
+  private async resolveUserIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+
+    for (const username of usernames) {
+      try {
+        const users = await requestJson<Array<{ id: number }>>(`${this.apiUrl}/users?username=${encodeURIComponent(username)}`, {
+          headers: { 'PRIVATE-TOKEN': this.token }
+        });
+        if (users.length > 0) {
+          ids.push(users[0].id);
+        }
+      } catch (error: any) {
+        console.warn(`Could not look up GitLab user "${username}": ${error.message}`);
+      }
+    }
+
+    return ids;
+  }
+
+  private async editIssue(issueNumber: number, body: Record<string, unknown>, action: string): Promise<void> {
+    try {
+      await this.request(`/issues/${issueNumber}`, { method: 'PUT', body });
+    } catch (error: any) {
+      throw new Error(`Failed to ${action} issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  private request<T>(endpoint: string, options: JsonRequestOptions = {}): Promise<T> {
+    return requestJson<T>(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: { 'PRIVATE-TOKEN': this.token }
+    });
+  }
+}
+
+/**
+ * GitLab reports open issues as "opened"
+ */
+function normalizeState(state: string): string {
+  return state === 'opened' ? 'open' : state;
+}
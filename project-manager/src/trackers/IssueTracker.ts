@@ -0,0 +1,54 @@
+/**
+ * Issue tracker provider interface
+ *
+ * Every backend (GitHub, GitLab, Jira, local files) implements this
+ * interface. Requests use Project Manager's label vocabulary (e.g.
+ * `priority-high`); each provider translates labels and priority into its
+ * tracker's own concepts.
+ */
+
+import {
+  IssueCreateRequest,
+  IssueCreateResponse,
+  IssueDetails,
+  IssueUpdateRequest,
+  TrackerProvider
+} from '../types';
+
+export interface DuplicateCheckResult {
+  exists: boolean;
+  issueNumber?: number;
+  url?: string;
+}
+
+export interface IssueTracker {
+  /** Provider name */
+  readonly provider: TrackerProvider;
+
+  /** Create an issue */
+  createIssue(request: IssueCreateRequest): Promise<IssueCreateResponse>;
+
+  /** Find an existing issue with the same title */
+  issueExists(title: string): Promise<DuplicateCheckResult>;
+
+  /** List label names known to the tracker */
+  listLabels(): Promise<string[]>;
+
+  /** Make sure labels exist before they are used */
+  ensureLabels(labels: string[]): Promise<void>;
+
+  /** Get an issue's state and labels */
+  getIssue(issueNumber: number): Promise<IssueDetails>;
+
+  /** Update title, body, labels or priority */
+  updateIssue(issueNumber: number, updates: IssueUpdateRequest): Promise<void>;
+
+  /** Close an issue */
+  closeIssue(issueNumber: number): Promise<void>;
+
+  /** Reopen a closed issue */
+  reopenIssue(issueNumber: number): Promise<void>;
+
+  /** Add a comment to an issue */
+  addComment(issueNumber: number, body: string): Promise<void>;
+}
@@ -0,0 +1,246 @@
+/**
+ * Jira issue tracker provider (REST API v2)
+ *
+ * Priority is written to Jira's native priority field instead of a label.
+ * Issues are addressed by their numeric Jira id so they fit the
+ * issue-number based state file.
+ */
+
+import { JiraConfig, IssueCreateRequest, IssueCreateResponse, IssueDetails, IssueUpdateRequest } from '../types';
+import { PRIORITY_LABELS, splitPriorityLabel } from '../utils/labelManager';
+import { IssueTracker, DuplicateCheckResult } from './IssueTracker';
+import { requestJson, JsonRequestOptions } from './http';
+
+/** Fields of Jira's issue resource that are used */
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary: string;
+    labels: string[];
+    status?: { statusCategory?: { key: string } };
+    priority?: { name: string };
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  to?: { statusCategory?: { key: string } };
+}
+
+const DEFAULT_PRIORITY_MAP: Record<'high' | 'medium' | 'low', string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+export class JiraTracker implements IssueTracker {
+  readonly provider = 'jira' as const;
+  private baseUrl: string;
+  private authHeader: string;
+  private projectKey: string;
+  private issueType: string;
+  private priorityMap: Record<'high' | 'medium' | 'low', string>;
+
+  constructor(config: JiraConfig) {
+    const token = config.token || process.env.JIRA_API_TOKEN;
+
+    if (!token) {
+      throw new Error(
+        'Jira token not found. Please set JIRA_API_TOKEN environment variable or provide token in config.'
+      );
+    }
+
+    if (!config.baseUrl || !config.projectKey) {
+      throw new Error('Jira configuration must include baseUrl and projectKey');
+    }
+
+    const email = config.email || process.env.JIRA_EMAIL;
+    this.authHeader = email
+      ? `Basic ${Buffer.from(`${email}:${token}`).toString('base64')}`
+      : `Bearer ${token}`;
+    this.baseUrl = `${config.baseUrl.replace(/\/+$/, '')}/rest/api/2`;
+    this.projectKey = config.projectKey;
+    this.issueType = config.issueType || 'Task';
+    this.priorityMap = { ...DEFAULT_PRIORITY_MAP, ...config.priorityMap };
+  }
+
+  async createIssue(request: IssueCreateRequest): Promise<IssueCreateResponse> {
+    const { labels, priority } = splitPriorityLabel(request.labels, request.priority);
+
+    try {
+      const created = await this.request<{ id: string; key: string }>('/issue', {
+        method: 'POST',
+        body: {
+          fields: {
+            project: { key: this.projectKey },
+            issuetype: { name: this.issueType },
+            summary: request.title,
+            description: request.body,
+            labels: labels.map(toJiraLabel),
+            ...(priority ? { priority: { name: this.priorityMap[priority] } } : {})
+          }
+        }
+      });
+
+      return {
+        number: Number(created.id),
+        html_url: this.browseUrl(created.key),
+        title: request.title,
+        state: 'open'
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to create issue: ${error.message}`);
+    }
+  }
+
+  async issueExists(title: string): Promise<DuplicateCheckResult> {
+    try {
+      const jql = `project = "${escapeJql(this.projectKey)}" AND summary ~ "${escapeJql(escapeTextSearch(title))}"`;
+      const result = await this.request<{ issues: JiraIssue[] }>(
+        `/search?jql=${encodeURIComponent(jql)}&fields=summary&maxResults=50`
+      );
+      const existing = result.issues.find(issue => issue.fields.summary === title);
+
+      return existing
+        ? { exists: true, issueNumber: Number(existing.id), url: this.browseUrl(existing.key) }
+        : { exists: false };
+    } catch (error: any) {
+      // Reporting "not found" here would create a duplicate
+      throw new Error(`Failed to check for existing issues: ${error.message}`);
+    }
+  }
+
+  async listLabels(): Promise<string[]> {
+    try {
+      const result = await this.request<{ values: string[] }>('/label?maxResults=1000');
+      return result.values;
+    } catch (error: any) {
+      console.warn(`Could not list labels: ${error.message}`);
+      return [];
+    }
+  }
+
+  async ensureLabels(_labels: string[]): Promise<void> {
+    // Jira creates labels implicitly when an issue uses them
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    try {
+      const issue = await this.request<JiraIssue>(`/issue/${issueNumber}?fields=summary,status,labels,priority`);
+      const labels: string[] = [...issue.fields.labels];
+      const priority = this.fromJiraPriority(issue.fields.priority?.name);
+      if (priority) labels.push(PRIORITY_LABELS[priority]);
+
+      return {
+        number: Number(issue.id),
+        html_url: this.browseUrl(issue.key),
+        title: issue.fields.summary,
+        state: issue.fields.status?.statusCategory?.key === 'done' ? 'closed' : 'open',
+        labels
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdateRequest): Promise<void> {
+    const fields: Record<string, unknown> = {};
+    if (updates.title !== undefined) fields.summary = updates.title;
+    if (updates.body !== undefined) fields.description = updates.body;
+
+    let priority = updates.priority;
+    if (updates.labels !== undefined) {
+      const split = splitPriorityLabel(updates.labels, updates.priority);
+      fields.labels = split.labels.map(toJiraLabel);
+      priority = split.priority;
+    }
+    if (priority) fields.priority = { name: this.priorityMap[priority] };
+
+    try {
+      await this.request(`/issue/${issueNumber}`, { method: 'PUT', body: { fields } });
+    } catch (error: any) {
+      throw new Error(`Failed to update issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.transition(issueNumber, ['done'], 'close');
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    await this.transition(issueNumber, ['new', 'indeterminate'], 'reopen');
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    try {
+      await this.request(`/issue/${issueNumber}/comment`, { method: 'POST', body: { body } });
+    } catch (error: any) {
+      throw new Error(`Failed to comment on issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move an issue through the first workflow transition that lands in one of
+   * the given status categories
+   */
+  private async transition(issueNumber: number, categories: string[], action: string): Promise<void> {
+    try {
+      const result = await this.request<{ transitions: JiraTransition[] }>(`/issue/${issueNumber}/transitions`);
+      const target = result.transitions.find(t =>
+        categories.includes(t.to?.statusCategory?.key ?? '')
+      );
+
+      if (!target) {
+        throw new Error(`no transition to a ${categories.join('/')} status is available`);
+      }
+
+      await this.request(`/issue/${issueNumber}/transitions`, {
+        method: 'POST',
+        body: { transition: { id: target.id } }
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to ${action} issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  private fromJiraPriority(name?: string): 'high' | 'medium' | 'low' | undefined {
+    if (!name) return undefined;
+    const match = (Object.keys(this.priorityMap) as Array<'high' | 'medium' | 'low'>)
+      .find(key => this.priorityMap[key].toLowerCase() === name.toLowerCase());
+    return match;
+  }
+
+  private browseUrl(key: string): string {
+    return `${this.baseUrl.replace(/\/rest\/api\/2$/, '')}/browse/${key}`;
+  }
+
+  private request<T>(endpoint: string, options: JsonRequestOptions = {}): Promise<T> {
+    return requestJson<T>(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: { 'Authorization': this.authHeader }
+    });
+  }
+}
+
+/**
+ * Jira labels cannot contain spaces
+ */
+function toJiraLabel(label: string): string {
+  return label.replace(/\s+/g, '-');
+}
+
+/**
+ * Escape a value for use inside a quoted JQL string
+ */
+function escapeJql(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Escape characters Jira's text search (Lucene) reserves, such as the
+ * brackets of a `[PM]` title prefix
+ */
+function escapeTextSearch(value: string): string {
+  return value.replace(/[+\-&|!(){}[\]^~*?:\\/"]/g, '\\$&');
+}
@@ -0,0 +1,189 @@
+/**
+ * Local file-based issue tracker
+ *
+ * Keeps issues as markdown files next to a JSON index, for projects without a
+ * hosted tracker or for trying out the workflow offline.
+ *
+ * Layout:
+ *   <directory>/issues.json   - index of all issues and their comments
+ *   <directory>/issue-<n>.md  - rendered issue, regenerated on every change
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalTrackerConfig, IssueCreateRequest, IssueCreateResponse, IssueDetails, IssueUpdateRequest } from '../types';
+import { PRIORITY_LABELS } from '../utils/labelManager';
+import { IssueTracker, DuplicateCheckResult } from './IssueTracker';
+
+export const DEFAULT_LOCAL_ISSUES_DIR = '.project-issues';
+
+interface LocalIssue {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  assignees?: string[];
+  state: 'open' | 'closed';
+  createdAt: string;
+  updatedAt: string;
+  comments: Array<{ body: string; createdAt: string }>;
+}
+
+interface LocalIssueIndex {
+  nextNumber: number;
+  issues: LocalIssue[];
+}
+
+export class LocalTracker implements IssueTracker {
+  readonly provider = 'local' as const;
+  private directory: string;
+
+  constructor(config: LocalTrackerConfig = {}) {
+    this.directory = path.resolve(config.directory || DEFAULT_LOCAL_ISSUES_DIR);
+  }
+
+  async createIssue(request: IssueCreateRequest): Promise<IssueCreateResponse> {
+    const index = this.loadIndex();
+    const now = new Date().toISOString();
+    const labels = [...request.labels];
+    if (request.priority && !labels.some(label => label.startsWith('priority-'))) {
+      labels.push(PRIORITY_LABELS[request.priority]);
+    }
+
+    const issue: LocalIssue = {
+      number: index.nextNumber++,
+      title: request.title,
+      body: request.body,
+      labels,
+      ...(request.assignees?.length ? { assignees: [...request.assignees] } : {}),
+      state: 'open',
+      createdAt: now,
+      updatedAt: now,
+      comments: []
+    };
+
+    index.issues.push(issue);
+    this.saveIndex(index, issue);
+
+    return this.toResponse(issue);
+  }
+
+  async issueExists(title: string): Promise<DuplicateCheckResult> {
+    const existing = this.loadIndex().issues.find(issue => issue.title === title);
+
+    return existing
+      ? { exists: true, issueNumber: existing.number, url: this.issueUrl(existing.number) }
+      : { exists: false };
+  }
+
+  async listLabels(): Promise<string[]> {
+    const labels = new Set<string>();
+    this.loadIndex().issues.forEach(issue => issue.labels.forEach(label => labels.add(label)));
+    return Array.from(labels).sort();
+  }
+
+  async ensureLabels(_labels: string[]): Promise<void> {
+    // Labels are free-form strings in the local tracker
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    const issue = this.findIssue(this.loadIndex(), issueNumber);
+    return { ...this.toResponse(issue), labels: [...issue.labels] };
+  }
+
+  async updateIssue(issueNumber: number, updates: IssueUpdateRequest): Promise<void> {
+    this.modifyIssue(issueNumber, issue => {
+      if (updates.title !== undefined) issue.title = updates.title;
+      if (updates.body !== undefined) issue.body = updates.body;
+      if (updates.labels !== undefined) issue.labels = [...updates.labels];
+    });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    this.modifyIssue(issueNumber, issue => { issue.state = 'closed'; });
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    this.modifyIssue(issueNumber, issue => { issue.state = 'open'; });
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    this.modifyIssue(issueNumber, issue => {
+      issue.comments.push({ body, createdAt: new Date().toISOString() });
+    });
+  }
+
+  private modifyIssue(issueNumber: number, change: (issue: LocalIssue) => void): void {
+    const index = this.loadIndex();
+    const issue = this.findIssue(index, issueNumber);
+    change(issue);
+    issue.updatedAt = new Date().toISOString();
+    this.saveIndex(index, issue);
+  }
+
+  private findIssue(index: LocalIssueIndex, issueNumber: number): LocalIssue {
+    const issue = index.issues.find(i => i.number === issueNumber);
+    if (!issue) {
+      throw new Error(`Issue #${issueNumber} not found in ${this.directory}`);
+    }
+    return issue;
+  }
+
+  private loadIndex(): LocalIssueIndex {
+    const indexPath = path.join(this.directory, 'issues.json');
+
+    if (!fs.existsSync(indexPath)) {
+      return { nextNumber: 1, issues: [] };
+    }
+
+    return JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as LocalIssueIndex;
+  }
+
+  private saveIndex(index: LocalIssueIndex, changed: LocalIssue): void {
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    fs.writeFileSync(path.join(this.directory, 'issues.json'), JSON.stringify(index, null, 2), 'utf-8');
+    fs.writeFileSync(this.issueUrl(changed.number), renderIssue(changed), 'utf-8');
+  }
+
+  private issueUrl(issueNumber: number): string {
+    return path.join(this.directory, `issue-${issueNumber}.md`);
+  }
+
+  private toResponse(issue: LocalIssue): IssueCreateResponse {
+    return {
+      number: issue.number,
+      html_url: this.issueUrl(issue.number),
+      title: issue.title,
+      state: issue.state
+    };
+  }
+}
+
+/**
+ * Render an issue as markdown
+ */
+function renderIssue(issue: LocalIssue): string {
+  const lines = [
+    `# #${issue.number} ${issue.title}`,
+    '',
+    `**State:** ${issue.state}`,
+    `**Labels:** ${issue.labels.join(', ') || 'none'}`,
+    ...(issue.assignees?.length ? [`**Assignees:** ${issue.assignees.map(a => `@${a}`).join(', ')}`] : []),
+    `**Created:** ${issue.createdAt}`,
+    `**Updated:** ${issue.updatedAt}`,
+    '',
+    issue.body
+  ];
+
+  if (issue.comments.length > 0) {
+    lines.push('', '## Comments');
+    for (const comment of issue.comments) {
+      lines.push('', `**${comment.createdAt}**`, '', comment.body);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,35 @@
+/**
+ * Minimal JSON-over-HTTP helper for REST tracker providers
+ */
+
+export interface JsonRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Send a JSON request and parse the JSON response as `T`
+ * Throws with the status code and response text on non-2xx responses.
+ */
+export async function requestJson<T>(url: string, options: JsonRequestOptions = {}): Promise<T> {
+  const { method = 'GET', headers = {}, body } = options;
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Accept': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  const text = await response.text();
+
+  if (!response.ok) {
+    throw new Error(`${method} ${url} failed with status ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  return (text ? JSON.parse(text) : undefined) as T;
+}
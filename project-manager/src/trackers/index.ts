@@ -0,0 +1,42 @@
+/**
+ * Issue tracker providers
+ */
+
+import { GithubConfig, TrackerConfig } from '../types';
+import { IssueTracker } from './IssueTracker';
+import { GitHubTracker } from './GitHubTracker';
+import { GitLabTracker } from './GitLabTracker';
+import { JiraTracker } from './JiraTracker';
+import { LocalTracker } from './LocalTracker';
+
+export * from './IssueTracker';
+export { GitHubTracker } from './GitHubTracker';
+export { GitLabTracker } from './GitLabTracker';
+export { JiraTracker } from './JiraTracker';
+export { LocalTracker, DEFAULT_LOCAL_ISSUES_DIR } from './LocalTracker';
+
+/**
+ * Create the issue tracker selected in config (default: GitHub)
+ */
+export function createIssueTracker(githubConfig: GithubConfig, tracker?: TrackerConfig): IssueTracker {
+  const provider = tracker?.provider || 'github';
+
+  switch (provider) {
+    case 'github':
+      return new GitHubTracker(githubConfig);
+    case 'gitlab':
+      if (!tracker?.gitlab) {
+        throw new Error('tracker.gitlab configuration is required for the gitlab provider');
+      }
+      return new GitLabTracker(tracker.gitlab);
+    case 'jira':
+      if (!tracker?.jira) {
+        throw new Error('tracker.jira configuration is required for the jira provider');
+      }
+      return new JiraTracker(tracker.jira);
+    case 'local':
+      return new LocalTracker(tracker?.local);
+    default:
+      throw new Error(`Unknown issue tracker provider: ${provider}`);
+  }
+}
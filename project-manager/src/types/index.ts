@@ -6,7 +6,15 @@
  * Configuration for Project Manager
  */
 export interface ProjectManagerConfig {
+  /**
+   * GitHub settings. `defaultLabels` and `issueTitlePrefix` apply to every
+   * tracker; `owner` and `repo` are only required for the github provider.
+   */
   github: GithubConfig;
+  /** Issue tracker backend (default: github) */
+  tracker?: TrackerConfig;
+  /** Auto-assignment of issues to TODO owners */
+  assignment?: AssignmentConfig;
   stateFile: string;
   reporting: ReportingConfig;
   labels: LabelMapping;
@@ -20,6 +28,62 @@ export interface GithubConfig {
   issueTitlePrefix?: string;
 }
 
+/**
+ * Supported issue tracker backends
+ */
+export type TrackerProvider = 'github' | 'gitlab' | 'jira' | 'local';
+
+export interface TrackerConfig {
+  provider: TrackerProvider;
+  gitlab?: GitLabConfig;
+  jira?: JiraConfig;
+  local?: LocalTrackerConfig;
+}
+
+export interface GitLabConfig {
+  /** Instance URL (default: https://gitlab.com) */
+  baseUrl?: string;
+  /** Numeric project ID or full path (group/project) */
+  projectId: string;
+  /** Personal access token (default: GITLAB_TOKEN env var) */
+  token?: string;
+  /** Label prefixes turned into scoped labels, e.g. priority-high -> priority::high (default: ['priority']) */
+  scopedLabelPrefixes?: string[];
+}
+
+export interface JiraConfig {
+  /** Site URL, e.g. https://your-team.atlassian.net */
+  baseUrl: string;
+  projectKey: string;
+  /** Account email for Jira Cloud basic auth (omit to use a bearer token) */
+  email?: string;
+  /** API token or personal access token (default: JIRA_API_TOKEN env var) */
+  token?: string;
+  /** Issue type for new issues (default: Task) */
+  issueType?: string;
+  /** TODO priority -> Jira priority name (default: High/Medium/Low) */
+  priorityMap?: Record<string, string>;
+}
+
+export interface LocalTrackerConfig {
+  /** Directory issues are written to (default: .project-issues) */
+  directory?: string;
+}
+
+/**
+ * How TODO owners (from git blame or CODEOWNERS) become issue assignees
+ */
+export interface AssignmentConfig {
+  /** Assign issues to the TODO's owners (default: true) */
+  autoAssign?: boolean;
+  /** @-mention owners in the issue body (default: true) */
+  mentionOwners?: boolean;
+  /** Blame author email or name -> username, for TODOs the analyzer did not resolve */
+  authorMap?: Record<string, string>;
+  /** Maximum assignees per issue (default: 10, GitHub's limit) */
+  maxAssignees?: number;
+}
+
 export interface ReportingConfig {
   outputPath: string;
   schedule: 'daily' | 'weekly';
@@ -42,6 +106,23 @@ export interface TodoItem {
   rawText: string;
   id?: string;
   hash?: string;
+  context?: string;
+  /** Last change to the TODO's line (git blame) */
+  blame?: TodoBlame;
+  /** Usernames or teams (org/team) who own the TODO */
+  owners?: string[];
+}
+
+/**
+ * Blame information attached to a TODO by Project Analyzer
+ */
+export interface TodoBlame {
+  author: string;
+  email: string;
+  commit: string;
+  authoredAt: string;
+  ageDays: number;
+  uncommitted?: boolean;
 }
 
 /**
@@ -49,16 +130,47 @@ export interface TodoItem {
  */
 export interface ProcessedTodo {
   hash: string;
+  /** Hashes this TODO was known by before the stable identity migration */
+  legacyHashes?: string[];
   content: string;
   file: string;
   line: number;
   type: string;
   priority: string;
   processedAt: string;
+  context?: string;
   issueUrl?: string;
   issueNumber?: number;
-  status: 'pending' | 'created' | 'failed' | 'skipped';
+  /** Users the issue was assigned to */
+  assignees?: string[];
+  status: ProcessedTodoStatus;
   error?: string;
+  /** Issue lifecycle changes applied by the sync pass */
+  transitions?: IssueTransition[];
+}
+
+/**
+ * Lifecycle status of a processed TODO
+ * - closed: the TODO was removed and its issue closed
+ * - orphaned: the TODO was removed and its issue commented on, but left open
+ * - reopened: the TODO came back after its issue was closed
+ */
+export type ProcessedTodoStatus =
+  | 'pending'
+  | 'created'
+  | 'failed'
+  | 'skipped'
+  | 'closed'
+  | 'orphaned'
+  | 'reopened';
+
+/**
+ * A change applied to an issue after it was created
+ */
+export interface IssueTransition {
+  action: 'closed' | 'commented' | 'reopened' | 'updated';
+  at: string;
+  details?: string;
 }
 
 /**
@@ -66,6 +178,7 @@ export interface ProcessedTodo {
  */
 export interface StateFile {
   lastUpdated: string;
+  identityVersion?: number;
   processedTodos: ProcessedTodo[];
   metadata: {
     totalProcessed: number;
@@ -81,10 +194,22 @@ export interface IssueCreateRequest {
   title: string;
   body: string;
   labels: string[];
+  /** TODO priority, mapped to the tracker's own priority concept where it has one */
+  priority?: 'high' | 'medium' | 'low';
   assignees?: string[];
   milestone?: number;
 }
 
+/**
+ * Fields that can be changed on an existing issue
+ */
+export interface IssueUpdateRequest {
+  title?: string;
+  body?: string;
+  labels?: string[];
+  priority?: 'high' | 'medium' | 'low';
+}
+
 /**
  * GitHub issue response
  */
@@ -95,6 +220,17 @@ export interface IssueCreateResponse {
   state: string;
 }
 
+/**
+ * Current state of an existing GitHub issue
+ */
+export interface IssueDetails {
+  number: number;
+  html_url: string;
+  title: string;
+  state: string;
+  labels: string[];
+}
+
 /**
  * Report data structure
  */
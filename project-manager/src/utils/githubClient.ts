@@ -3,7 +3,7 @@
  */
 
 import { Octokit } from '@octokit/rest';
-import { IssueCreateRequest, IssueCreateResponse, GithubConfig } from '../types';
+import { IssueCreateRequest, IssueCreateResponse, IssueDetails, GithubConfig } from '../types';
 
 export class GitHubClient {
   private octokit: Octokit;
@@ -206,6 +206,45 @@ export class GitHubClient {
       throw new Error(`Failed to update issue #${issueNumber}: ${error.message}`);
     }
   }
+
+  /**
+   * Get the current state and labels of an issue
+   */
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    try {
+      const response = await this.octokit.issues.get({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber
+      });
+
+      return {
+        number: response.data.number,
+        html_url: response.data.html_url,
+        title: response.data.title,
+        state: response.data.state,
+        labels: response.data.labels.map(label => typeof label === 'string' ? label : label.name || '')
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get issue #${issueNumber}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Add a comment to an issue
+   */
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    try {
+      await this.octokit.issues.createComment({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber,
+        body
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to comment on issue #${issueNumber}: ${error.message}`);
+    }
+  }
 }
 
 /**
@@ -77,6 +77,29 @@ export function determineLabels(
   };
 }
 
+/**
+ * Split the priority label out of a label list
+ * Used by trackers with a native priority field (Jira)
+ */
+export function splitPriorityLabel(
+  labels: string[],
+  fallback?: 'high' | 'medium' | 'low'
+): { labels: string[]; priority?: 'high' | 'medium' | 'low' } {
+  let priority = fallback;
+  const rest: string[] = [];
+
+  for (const label of labels) {
+    const match = Object.entries(PRIORITY_LABELS).find(([, name]) => name === label);
+    if (match) {
+      priority = priority || (match[0] as 'high' | 'medium' | 'low');
+    } else {
+      rest.push(label);
+    }
+  }
+
+  return { labels: rest, priority };
+}
+
 /**
  * Extract issue type from labels
  */
@@ -0,0 +1,80 @@
+/**
+ * Owner assignment - turns TODO ownership from Project Analyzer into issue
+ * assignees and @-mentions
+ */
+
+import { TodoItem, AssignmentConfig } from '../types';
+
+/** GitHub allows at most 10 assignees per issue */
+const DEFAULT_MAX_ASSIGNEES = 10;
+
+export interface OwnerAssignment {
+  /** Users to assign (teams cannot be assigned) */
+  assignees: string[];
+  /** Users and teams to mention in the issue body */
+  mentions: string[];
+}
+
+/**
+ * Resolve the owners of a TODO
+ * Uses the owners attached by the analyzer, falling back to the configured
+ * author map for the blame author.
+ */
+export function resolveTodoOwners(todo: TodoItem, authorMap: Record<string, string> = {}): string[] {
+  if (todo.owners && todo.owners.length > 0) {
+    return todo.owners.map(owner => owner.replace(/^@/, ''));
+  }
+
+  if (todo.blame && !todo.blame.uncommitted) {
+    const mapped = authorMap[todo.blame.email] || authorMap[todo.blame.author];
+    if (mapped) {
+      return [mapped.replace(/^@/, '')];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Determine assignees and mentions for a TODO's issue
+ */
+export function determineAssignment(todo: TodoItem, config: AssignmentConfig = {}): OwnerAssignment {
+  const {
+    autoAssign = true,
+    mentionOwners = true,
+    authorMap,
+    maxAssignees = DEFAULT_MAX_ASSIGNEES
+  } = config;
+
+  const owners = resolveTodoOwners(todo, authorMap);
+
+  return {
+    assignees: autoAssign
+      ? owners.filter(owner => !owner.includes('/')).slice(0, maxAssignees)
+      : [],
+    mentions: mentionOwners ? owners : []
+  };
+}
+
+/**
+ * Format the ownership section appended to an issue body
+ * Returns an empty string when there is nothing to show.
+ */
+export function formatOwnershipSection(todo: TodoItem, mentions: string[]): string {
+  const lines: string[] = [];
+
+  if (mentions.length > 0) {
+    lines.push(`- Owners: ${mentions.map(owner => `@${owner}`).join(', ')}`);
+  }
+
+  if (todo.blame && !todo.blame.uncommitted) {
+    lines.push(`- Last changed by: ${todo.blame.author} (${todo.blame.commit.slice(0, 7)})`);
+    lines.push(`- Age: ${todo.blame.ageDays} days (since ${todo.blame.authoredAt.split('T')[0]})`);
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+
+  return ['', '**Ownership:**', ...lines].join('\n');
+}
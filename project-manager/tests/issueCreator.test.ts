@@ -114,12 +114,39 @@ describe('IssueCreator', () => {
       const state = createMockState();
 
       await createIssuesFromTodos(todos, state, {
-        githubConfig: mockGithubConfig,
-        dryRun: true
+        githubConfig: mockGithubConfig
       });
 
       expect(state.processedTodos.length).toBe(1);
       expect(state.processedTodos[0].content).toBe('Test todo');
+      expect(state.processedTodos[0].issueNumber).toBe(1);
+    });
+
+    it('should leave state untouched in dry run mode', async () => {
+      const todos: TodoItem[] = [
+        {
+          type: 'TODO',
+          content: 'Test todo',
+          file: 'test.ts',
+          line: 10,
+          priority: 'medium',
+          category: 'code',
+          rawText: '// TODO: Test todo'
+        }
+      ];
+
+      const state = createMockState();
+
+      const result = await createIssuesFromTodos(todos, state, {
+        githubConfig: mockGithubConfig,
+        dryRun: true
+      });
+
+      expect(result.created[0].content).toBe('Test todo');
+      expect(result.created[0].issueNumber).toBeUndefined();
+      expect(result.created[0].issueUrl).toBeUndefined();
+      expect(state.processedTodos).toEqual([]);
+      expect(state.metadata.totalIssuesCreated).toBe(0);
     });
   });
 
@@ -0,0 +1,209 @@
+/**
+ * Tests for issue sync
+ */
+
+import { createIssuesFromTodos } from '../src/core/issueCreator';
+import { syncIssuesWithTodos } from '../src/core/issueSync';
+import { parseAnalyzerOutput } from '../src/core/analyzerOutput';
+import { IssueTracker } from '../src/trackers';
+import { generateTodoHash } from '../src/core/stateTracker';
+import { TodoItem, StateFile, GithubConfig, ProcessedTodo } from '../src/types';
+
+const mockClient = {
+  ensureLabels: jest.fn().mockResolvedValue(undefined),
+  updateIssue: jest.fn().mockResolvedValue(undefined),
+  addComment: jest.fn().mockResolvedValue(undefined),
+  getIssue: jest.fn().mockResolvedValue({
+    number: 1,
+    html_url: 'https://github.com/test/repo/issues/1',
+    title: 'Test issue',
+    state: 'open',
+    labels: ['auto-created', 'feature', 'priority-medium', 'from-todo', 'from-code', 'needs-design']
+  })
+};
+
+jest.mock('../src/utils/githubClient', () => {
+  return {
+    GitHubClient: jest.fn().mockImplementation(() => mockClient),
+    formatIssueTitle: jest.fn((content) => content),
+    formatIssueBody: jest.fn(() => 'Updated body')
+  };
+});
+
+describe('IssueSync', () => {
+  const mockGithubConfig: GithubConfig = {
+    owner: 'test-owner',
+    repo: 'test-repo',
+    token: 'test-token',
+    defaultLabels: ['auto-created']
+  };
+
+  const todo: TodoItem = {
+    type: 'TODO',
+    content: 'Add pagination to the search results',
+    file: 'src/search.ts',
+    line: 10,
+    priority: 'medium',
+    category: 'code',
+    rawText: '// TODO: Add pagination to the search results'
+  };
+
+  const createState = (status: ProcessedTodo['status']): StateFile => ({
+    lastUpdated: new Date().toISOString(),
+    processedTodos: [
+      {
+        hash: generateTodoHash(todo),
+        content: todo.content,
+        file: todo.file,
+        line: todo.line,
+        type: todo.type,
+        priority: todo.priority,
+        processedAt: new Date().toISOString(),
+        issueUrl: 'https://github.com/test/repo/issues/1',
+        issueNumber: 1,
+        status
+      }
+    ],
+    metadata: {
+      totalProcessed: 1,
+      totalIssuesCreated: 1
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should close issues whose TODO was removed', async () => {
+    const state = createState('created');
+
+    const result = await syncIssuesWithTodos([], state, { githubConfig: mockGithubConfig });
+
+    expect(result.closed).toHaveLength(1);
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(1, { state: 'closed' });
+    expect(state.processedTodos[0].status).toBe('closed');
+    expect(state.processedTodos[0].transitions?.[0].action).toBe('closed');
+  });
+
+  it('should only comment when removedAction is comment', async () => {
+    const state = createState('created');
+
+    const result = await syncIssuesWithTodos([], state, {
+      githubConfig: mockGithubConfig,
+      removedAction: 'comment'
+    });
+
+    expect(result.commented).toHaveLength(1);
+    expect(mockClient.addComment).toHaveBeenCalled();
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    expect(state.processedTodos[0].status).toBe('orphaned');
+  });
+
+  it('should not close issues missing from a partial scan', async () => {
+    const state = createState('created');
+    const output = parseAnalyzerOutput(JSON.stringify({ todos: [], summary: { totalTodos: 0, onlyNew: true } }));
+    expect(output.partial).toBe('new TODOs only');
+    expect(parseAnalyzerOutput('{"todos": [], "summary": {"since": "main"}}').partial).toBe('files changed since main');
+    expect(() => parseAnalyzerOutput('{"features": []}')).toThrow('Analyzer output has no "todos" array');
+
+    await expect(syncIssuesWithTodos(output.todos, state, {
+      githubConfig: mockGithubConfig,
+      partialScan: output.partial
+    })).rejects.toThrow('Analyzer output is a partial scan (new TODOs only)');
+
+    const result = await syncIssuesWithTodos(output.todos, state, {
+      githubConfig: mockGithubConfig,
+      removedAction: 'none',
+      partialScan: output.partial
+    });
+
+    expect(result.closed).toHaveLength(0);
+    expect(result.unchanged).toBe(1);
+    expect(mockClient.addComment).not.toHaveBeenCalled();
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    expect(state.processedTodos[0].status).toBe('created');
+  });
+
+  it('should reopen issues whose TODO came back', async () => {
+    const state = createState('closed');
+
+    const result = await syncIssuesWithTodos([{ ...todo, line: 25 }], state, {
+      githubConfig: mockGithubConfig
+    });
+
+    expect(result.reopened).toHaveLength(1);
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(1, { state: 'open' });
+    expect(state.processedTodos[0].status).toBe('reopened');
+    expect(state.processedTodos[0].line).toBe(25);
+  });
+
+  it('should update body and labels when the TODO text changed, keeping manual labels', async () => {
+    const state = createState('created');
+    const edited = { ...todo, content: 'Add cursor pagination to the search results' };
+
+    const result = await syncIssuesWithTodos([edited], state, { githubConfig: mockGithubConfig });
+
+    expect(result.updated).toHaveLength(1);
+    const [issueNumber, updates] = mockClient.updateIssue.mock.calls[0];
+    expect(issueNumber).toBe(1);
+    expect(updates.body).toBe('Updated body');
+    expect(updates.labels).toContain('needs-design');
+    expect(updates.labels).toContain('priority-medium');
+    expect(state.processedTodos[0].content).toBe(edited.content);
+    expect(state.processedTodos[0].transitions?.[0].action).toBe('updated');
+  });
+
+  it('should not touch issues or state in dry run mode', async () => {
+    const state = createState('created');
+
+    const result = await syncIssuesWithTodos([], state, {
+      githubConfig: mockGithubConfig,
+      dryRun: true
+    });
+
+    expect(result.closed).toHaveLength(1);
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    expect(state.processedTodos[0].status).toBe('created');
+  });
+
+  it('should not touch any issue after a create-issues dry run', async () => {
+    const tracker = {
+      provider: 'github',
+      createIssue: jest.fn(),
+      issueExists: jest.fn(),
+      listLabels: jest.fn(),
+      ensureLabels: jest.fn(),
+      getIssue: jest.fn(),
+      updateIssue: jest.fn(),
+      closeIssue: jest.fn(),
+      reopenIssue: jest.fn(),
+      addComment: jest.fn()
+    } satisfies IssueTracker;
+    const state = createState('created');
+    state.processedTodos = [];
+
+    const dryRun = await createIssuesFromTodos([todo], state, { githubConfig: mockGithubConfig, tracker, dryRun: true });
+    expect(dryRun.created).toHaveLength(1);
+    expect(state.processedTodos).toEqual([]);
+
+    // Entries older dry runs recorded as placeholder issue #1
+    state.processedTodos.push({
+      ...createState('created').processedTodos[0],
+      hash: 'placeholder',
+      content: 'Removed TODO from an old dry run',
+      issueUrl: 'https://github.com/dry-run/issue/1'
+    });
+
+    const result = await syncIssuesWithTodos([], state, { githubConfig: mockGithubConfig, tracker });
+    const edited = { ...todo, content: `${todo.content} and filters` };
+    await syncIssuesWithTodos([edited], state, { githubConfig: mockGithubConfig, tracker });
+
+    expect(result.closed).toEqual([]);
+    expect(result.unchanged).toBe(0);
+    for (const method of Object.values(tracker)) {
+      if (typeof method === 'function') {
+        expect(method).not.toHaveBeenCalled();
+      }
+    }
+  });
+});
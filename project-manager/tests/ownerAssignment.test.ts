@@ -0,0 +1,59 @@
+/**
+ * Tests for owner assignment
+ */
+
+import { determineAssignment, formatOwnershipSection, resolveTodoOwners } from '../src/utils/ownerAssignment';
+import { TodoItem } from '../src/types';
+
+describe('OwnerAssignment', () => {
+  const todo: TodoItem = {
+    type: 'TODO',
+    content: 'Add retry logic to the uploader',
+    file: 'src/upload.ts',
+    line: 12,
+    priority: 'medium',
+    category: 'code',
+    rawText: '// TODO: Add retry logic to the uploader',
+    blame: {
+      author: 'Alice Smith',
+      email: 'alice@example.com',
+      commit: 'abcdef1234567890abcdef1234567890abcdef12',
+      authoredAt: '2026-01-15T10:00:00.000Z',
+      ageDays: 277
+    }
+  };
+
+  it('should prefer owners resolved by the analyzer', () => {
+    expect(resolveTodoOwners({ ...todo, owners: ['@bob'] }, { 'alice@example.com': 'alice' })).toEqual(['bob']);
+  });
+
+  it('should fall back to the author map', () => {
+    expect(resolveTodoOwners(todo, { 'alice@example.com': 'alice' })).toEqual(['alice']);
+    expect(resolveTodoOwners(todo)).toEqual([]);
+  });
+
+  it('should assign users but only mention teams', () => {
+    const assignment = determineAssignment({ ...todo, owners: ['alice', 'acme/platform'] });
+
+    expect(assignment.assignees).toEqual(['alice']);
+    expect(assignment.mentions).toEqual(['alice', 'acme/platform']);
+  });
+
+  it('should respect autoAssign and mentionOwners', () => {
+    const assignment = determineAssignment(
+      { ...todo, owners: ['alice'] },
+      { autoAssign: false, mentionOwners: false }
+    );
+
+    expect(assignment).toEqual({ assignees: [], mentions: [] });
+  });
+
+  it('should format owners, author and age', () => {
+    const section = formatOwnershipSection(todo, ['alice']);
+
+    expect(section).toContain('- Owners: @alice');
+    expect(section).toContain('Alice Smith (abcdef1)');
+    expect(section).toContain('277 days (since 2026-01-15)');
+    expect(formatOwnershipSection({ ...todo, blame: undefined }, [])).toBe('');
+  });
+});
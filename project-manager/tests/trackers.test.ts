@@ -0,0 +1,129 @@
+/**
+ * Tests for issue tracker providers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalTracker, GitLabTracker, JiraTracker, createIssueTracker } from '../src/trackers';
+import { splitPriorityLabel } from '../src/utils/labelManager';
+import { GithubConfig } from '../src/types';
+
+describe('Issue Trackers', () => {
+  const githubConfig: GithubConfig = {
+    owner: 'test-owner',
+    repo: 'test-repo',
+    token: 'test-token',
+    defaultLabels: ['auto-created']
+  };
+
+  describe('LocalTracker', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-issues-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should create, find and close issues on disk', async () => {
+      const tracker = new LocalTracker({ directory });
+
+      const created = await tracker.createIssue({
+        title: 'Add caching',
+        body: 'Cache the results',
+        labels: ['feature'],
+        priority: 'high'
+      });
+
+      expect(created.number).toBe(1);
+      expect(fs.existsSync(path.join(directory, 'issue-1.md'))).toBe(true);
+      expect(await tracker.issueExists('Add caching')).toEqual({
+        exists: true,
+        issueNumber: 1,
+        url: created.html_url
+      });
+
+      await tracker.addComment(1, 'TODO removed');
+      await tracker.closeIssue(1);
+
+      const issue = await tracker.getIssue(1);
+      expect(issue.state).toBe('closed');
+      expect(issue.labels).toEqual(['feature', 'priority-high']);
+      expect(fs.readFileSync(path.join(directory, 'issue-1.md'), 'utf-8')).toContain('TODO removed');
+    });
+
+    it('should throw for unknown issues', async () => {
+      const tracker = new LocalTracker({ directory });
+      await expect(tracker.closeIssue(42)).rejects.toThrow('Issue #42 not found');
+    });
+  });
+
+  describe('GitLabTracker', () => {
+    it('should translate priority labels to scoped labels and back', () => {
+      const tracker = new GitLabTracker({ projectId: 'group/project', token: 'test-token' });
+
+      expect(tracker.toGitLabLabels(['bug', 'priority-high'])).toEqual(['bug', 'priority::high']);
+      expect(tracker.toGitLabLabels(['bug'], 'low')).toEqual(['bug', 'priority::low']);
+      expect(tracker.fromGitLabLabel('priority::high')).toBe('priority-high');
+      expect(tracker.fromGitLabLabel('bug')).toBe('bug');
+    });
+  });
+
+  describe('JiraTracker', () => {
+    const tracker = () => new JiraTracker({ baseUrl: 'https://example.atlassian.net', projectKey: 'PM', token: 'test-token' });
+
+    it('should escape reserved characters when searching for duplicates', async () => {
+      const title = '[PM] Parse config: (x) - "quoted"...';
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+        issues: [{ id: '10001', key: 'PM-1', fields: { summary: title, labels: [] } }]
+      }), { status: 200 }));
+
+      try {
+        expect(await tracker().issueExists(title)).toEqual({
+          exists: true,
+          issueNumber: 10001,
+          url: 'https://example.atlassian.net/browse/PM-1'
+        });
+        const jql = new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('jql');
+        expect(jql).toBe('project = "PM" AND summary ~ "\\\\[PM\\\\] Parse config\\\\: \\\\(x\\\\) \\\\- \\\\\\"quoted\\\\\\"..."');
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it('should fail instead of reporting no duplicate when the search fails', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('Error in the JQL Query', { status: 400 }));
+
+      try {
+        await expect(tracker().issueExists('[PM] Add caching')).rejects.toThrow('Failed to check for existing issues');
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+  });
+
+  describe('splitPriorityLabel', () => {
+    it('should move the priority label into the priority field', () => {
+      expect(splitPriorityLabel(['bug', 'priority-low'])).toEqual({ labels: ['bug'], priority: 'low' });
+      expect(splitPriorityLabel(['bug', 'priority-low'], 'high')).toEqual({ labels: ['bug'], priority: 'high' });
+    });
+  });
+
+  describe('createIssueTracker', () => {
+    it('should default to GitHub', () => {
+      expect(createIssueTracker(githubConfig).provider).toBe('github');
+    });
+
+    it('should require provider settings', () => {
+      expect(() => createIssueTracker(githubConfig, { provider: 'jira' }))
+        .toThrow('tracker.jira configuration is required');
+    });
+
+    it('should create a local tracker without settings', () => {
+      expect(createIssueTracker(githubConfig, { provider: 'local' }).provider).toBe('local');
+    });
+  });
+});
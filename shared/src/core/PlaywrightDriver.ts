@@ -15,10 +15,20 @@ import {
   ScreenshotOptions,
   WaitForOptions,
   PageContent,
+  StorageState,
   NetworkRequest,
   NetworkResponse
 } from '../types/playwright';
 
+/**
+ * Login form fields used when authenticate() is not given selectors
+ */
+export const DEFAULT_LOGIN_SELECTORS = {
+  username: 'input[name="username"], input[type="email"], input[name="email"]',
+  password: 'input[name="password"], input[type="password"]',
+  submit: 'button[type="submit"], input[type="submit"]'
+};
+
 export class PlaywrightDriver {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
@@ -59,7 +69,8 @@ export class PlaywrightDriver {
     // Create context
     this.context = await this.browser.newContext({
       viewport: this.options.viewport,
-      userAgent: this.options.userAgent
+      userAgent: this.options.userAgent,
+      storageState: this.options.storageState
     });
 
     // Create page
@@ -208,11 +219,7 @@ export class PlaywrightDriver {
       username,
       password,
       loginUrl,
-      selectors = {
-        username: 'input[name="username"], input[type="email"], input[name="email"]',
-        password: 'input[name="password"], input[type="password"]',
-        submit: 'button[type="submit"], input[type="submit"]'
-      }
+      selectors = DEFAULT_LOGIN_SELECTORS
     } = options;
 
     // Navigate to login page if provided
@@ -231,6 +238,20 @@ export class PlaywrightDriver {
       this.page.waitForNavigation({ waitUntil: 'networkidle' }),
       this.page.click(selectors.submit)
     ]);
+
+    // Enter the one-time code once its field appears
+    if (options.mfa) {
+      await this.page.waitForSelector(options.mfa.selector);
+      await this.page.fill(options.mfa.selector, options.mfa.code());
+      await Promise.all([
+        this.page.waitForNavigation({ waitUntil: 'networkidle' }),
+        this.page.click(options.mfa.submit || selectors.submit)
+      ]);
+    }
+
+    if (options.successSelector) {
+      await this.page.waitForSelector(options.successSelector);
+    }
   }
 
   /**
@@ -331,6 +352,17 @@ export class PlaywrightDriver {
     return await this.context.cookies();
   }
 
+  /**
+   * Get the session (cookies and localStorage) to reuse in a later launch
+   */
+  async getStorageState(): Promise<StorageState> {
+    if (!this.context) {
+      throw new Error('Browser not launched. Call launch() first.');
+    }
+
+    return await this.context.storageState();
+  }
+
   /**
    * Close browser
    */
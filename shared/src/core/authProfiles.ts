@@ -0,0 +1,337 @@
+/**
+ * AuthProfiles - Reusable logins for browser sessions
+ *
+ * A profile is created once (form login, imported cookies or a saved
+ * Playwright storageState) and referenced by name from the CLIs and
+ * verification targets. Profiles are stored in a directory that ignores
+ * itself in git, and are encrypted with AES-256-GCM when a key is set.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Cookie } from 'playwright';
+import { AuthProfile } from '../types/auth';
+import { PlaywrightOptions, StorageState } from '../types/playwright';
+import { PlaywrightDriver } from './PlaywrightDriver';
+import { generateTotp } from './totp';
+
+/**
+ * Environment variable overriding the profile directory
+ */
+export const AUTH_DIR_ENV = 'PROJECT_SUITE_AUTH_DIR';
+
+/**
+ * Environment variable holding the encryption passphrase
+ */
+export const AUTH_KEY_ENV = 'PROJECT_SUITE_AUTH_KEY';
+
+const ENCRYPTION_VERSION = 1;
+
+interface EncryptedProfile {
+  encrypted: typeof ENCRYPTION_VERSION;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Resolve `env:NAME` references so secrets can stay out of profile files
+ */
+export function resolveSecret(value: string): string {
+  if (!value.startsWith('env:')) {
+    return value;
+  }
+  const name = value.slice(4);
+  const resolved = process.env[name];
+  if (resolved === undefined) {
+    throw new Error(`Environment variable ${name} is not set`);
+  }
+  return resolved;
+}
+
+/**
+ * Parse exported cookies: a Playwright cookie array, a browser extension
+ * JSON export (EditThisCookie, Cookie-Editor) or a Netscape cookies.txt
+ */
+export function parseCookieFile(content: string): Cookie[] {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const entries: any[] = Array.isArray(parsed) ? parsed : parsed.cookies;
+    if (!Array.isArray(entries)) {
+      throw new Error('Cookie JSON must be an array or an object with a "cookies" array');
+    }
+    return entries.map(entry => {
+      const expires = entry.expires ?? entry.expirationDate;
+      return {
+        name: String(entry.name),
+        value: String(entry.value),
+        domain: String(entry.domain),
+        path: entry.path || '/',
+        expires: typeof expires === 'number' && !entry.session ? expires : -1,
+        httpOnly: Boolean(entry.httpOnly),
+        secure: Boolean(entry.secure),
+        sameSite: normalizeSameSite(entry.sameSite)
+      };
+    });
+  }
+
+  const cookies: Cookie[] = [];
+  for (const rawLine of trimmed.split(/\r?\n/)) {
+    // curl marks HttpOnly cookies with a #HttpOnly_ prefix
+    const httpOnly = rawLine.startsWith('#HttpOnly_');
+    const line = httpOnly ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      throw new Error(`Invalid cookies.txt line: ${rawLine}`);
+    }
+    const [domain, includeSubdomains, cookiePath, secure, expires, name, ...value] = fields;
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      // A leading dot marks a cookie that is also sent to subdomains
+      domain: includeSubdomains.toUpperCase() === 'TRUE' && !domain.startsWith('.') ? `.${domain}` : domain,
+      path: cookiePath,
+      expires: Number(expires) > 0 ? Number(expires) : -1,
+      httpOnly,
+      secure: secure.toUpperCase() === 'TRUE',
+      sameSite: 'Lax'
+    });
+  }
+  return cookies;
+}
+
+function normalizeSameSite(value: unknown): Cookie['sameSite'] {
+  const normalized = String(value ?? '').toLowerCase();
+  if (normalized === 'strict') return 'Strict';
+  if (normalized === 'none' || normalized === 'no_restriction') return 'None';
+  return 'Lax';
+}
+
+/**
+ * All cookies a profile carries, whichever way it was created
+ */
+export function profileCookies(profile: AuthProfile): Cookie[] {
+  return profile.storageState?.cookies ?? profile.cookies ?? [];
+}
+
+/**
+ * Build a Cookie header for plain HTTP requests to a URL
+ */
+export function cookieHeader(url: string, cookies: Cookie[], now: number = Date.now()): string | undefined {
+  const target = new URL(url);
+  const header = cookies
+    .filter(cookie => {
+      const domain = cookie.domain.replace(/^\./, '');
+      const domainMatches = target.hostname === domain ||
+        (cookie.domain.startsWith('.') && target.hostname.endsWith(cookie.domain));
+      const pathMatches = target.pathname === cookie.path || target.pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`);
+      const expired = cookie.expires > 0 && cookie.expires * 1000 < now;
+      return domainMatches && pathMatches && !expired && (!cookie.secure || target.protocol === 'https:');
+    })
+    .map(cookie => `${cookie.name}=${cookie.value}`)
+    .join('; ');
+  return header || undefined;
+}
+
+/**
+ * Driver options that start the browser context already signed in
+ */
+export function authDriverOptions(profile: AuthProfile | undefined, options: PlaywrightOptions = {}): PlaywrightOptions {
+  return profile?.storageState ? { ...options, storageState: profile.storageState } : options;
+}
+
+/**
+ * Sign in once and return the session, so several browsers can start from it
+ */
+export async function createAuthSession(profile: AuthProfile, options: PlaywrightOptions = {}): Promise<StorageState> {
+  if (profile.storageState) {
+    return profile.storageState;
+  }
+  if (profile.type === 'cookies') {
+    return { cookies: profileCookies(profile), origins: [] };
+  }
+
+  const driver = await launchAuthenticatedDriver(profile, options);
+  try {
+    return await driver.getStorageState();
+  } finally {
+    await driver.close();
+  }
+}
+
+/**
+ * Sign a launched driver in with a profile: add its cookies, or fill in the
+ * login form (and the one-time code step when the profile has TOTP)
+ */
+export async function applyAuthProfile(driver: PlaywrightDriver, profile: AuthProfile): Promise<void> {
+  if (profile.type === 'cookies') {
+    await driver.setCookies(profileCookies(profile));
+    return;
+  }
+
+  if (profile.type === 'form') {
+    const form = profile.form;
+    if (!form) {
+      throw new Error(`Auth profile "${profile.name}" has no login form`);
+    }
+    const totp = form.totp;
+    await driver.authenticate({
+      loginUrl: form.loginUrl,
+      username: resolveSecret(form.username),
+      password: resolveSecret(form.password),
+      selectors: form.selectors,
+      mfa: totp && {
+        selector: totp.selector,
+        submit: totp.submit,
+        code: () => generateTotp({ ...totp, secret: resolveSecret(totp.secret) })
+      },
+      successSelector: form.successSelector
+    });
+  }
+
+  // storage-state profiles are applied when the context is created
+}
+
+/**
+ * Launch a driver signed in with an optional profile
+ */
+export async function launchAuthenticatedDriver(
+  profile: AuthProfile | undefined,
+  options: PlaywrightOptions = {}
+): Promise<PlaywrightDriver> {
+  const driver = new PlaywrightDriver(authDriverOptions(profile, options));
+  await driver.launch();
+  if (profile) {
+    try {
+      await applyAuthProfile(driver, profile);
+    } catch (error) {
+      await driver.close();
+      throw new Error(`Login with auth profile "${profile.name}" failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return driver;
+}
+
+/**
+ * Saves, lists and loads auth profiles
+ */
+export class AuthProfileStore {
+  readonly directory: string;
+  private key?: string;
+
+  constructor(directory?: string, key?: string) {
+    this.directory = directory || process.env[AUTH_DIR_ENV] || path.join(process.cwd(), '.project-suite', 'auth');
+    this.key = key ?? process.env[AUTH_KEY_ENV];
+  }
+
+  /**
+   * Whether new profiles are written encrypted
+   */
+  get encrypts(): boolean {
+    return Boolean(this.key);
+  }
+
+  /**
+   * Save a profile, replacing one with the same name
+   */
+  save(profile: AuthProfile): string {
+    const filePath = this.profilePath(profile.name);
+    fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+    // Keep profiles out of git even when the directory is inside a repo
+    const gitignore = path.join(this.directory, '.gitignore');
+    if (!fs.existsSync(gitignore)) {
+      fs.writeFileSync(gitignore, '*\n');
+    }
+
+    const json = JSON.stringify(profile, null, 2);
+    const content = this.key ? JSON.stringify(encrypt(json, this.key), null, 2) : json;
+    fs.writeFileSync(filePath, content, { mode: 0o600 });
+    return filePath;
+  }
+
+  /**
+   * Load a profile by name
+   */
+  load(name: string): AuthProfile {
+    const filePath = this.profilePath(name);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Auth profile "${name}" not found in ${this.directory}`);
+    }
+
+    const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (stored.encrypted) {
+      if (!this.key) {
+        throw new Error(`Auth profile "${name}" is encrypted; set ${AUTH_KEY_ENV} to use it`);
+      }
+      return JSON.parse(decrypt(stored, this.key));
+    }
+    return stored;
+  }
+
+  /**
+   * Names of the saved profiles
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  /**
+   * Delete a profile; returns false when it did not exist
+   */
+  remove(name: string): boolean {
+    const filePath = this.profilePath(name);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  private profilePath(name: string): string {
+    if (!/^[A-Za-z0-9_.-]+$/.test(name) || name.startsWith('.')) {
+      throw new Error(`Invalid auth profile name "${name}"; use letters, digits, ".", "_" and "-"`);
+    }
+    return path.join(this.directory, `${name}.json`);
+  }
+}
+
+function encrypt(plaintext: string, passphrase: string): EncryptedProfile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return {
+    encrypted: ENCRYPTION_VERSION,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decrypt(stored: EncryptedProfile, passphrase: string): string {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    crypto.scryptSync(passphrase, Buffer.from(stored.salt, 'base64'), 32),
+    Buffer.from(stored.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(stored.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Could not decrypt auth profile; check ${AUTH_KEY_ENV}`);
+  }
+}
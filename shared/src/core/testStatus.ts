@@ -0,0 +1,74 @@
+/**
+ * TestStatus - Writer for the .test-status feed
+ *
+ * Each package's last run is kept in latest.json, every run is appended to a
+ * daily history file, and summary.json aggregates the packages' last runs.
+ * The project-manager Jest reporter and the analyzer's verification runs
+ * both record through here, so the dashboard lists them side by side.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestRunSummary, TestStatusSummary } from '../types/testStatus';
+
+/**
+ * Unique test ID from package, file and test name
+ */
+export function testStatusId(packageName: string, file: string, name: string): string {
+  return `${packageName}:${file}:${name}`.replace(/[^a-zA-Z0-9:/-]/g, '_');
+}
+
+function readJson<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Record a test run: replace the package's entry in latest.json, append it
+ * to today's history file and recompute summary.json
+ */
+export function recordTestRun(statusDir: string, run: TestRunSummary): void {
+  fs.mkdirSync(path.join(statusDir, 'history'), { recursive: true });
+
+  const latestPath = path.join(statusDir, 'latest.json');
+  const existing = readJson<TestRunSummary[] | TestRunSummary>(latestPath, []);
+  const latest = (Array.isArray(existing) ? existing : [existing]).filter(entry => entry.package !== run.package);
+  latest.push(run);
+  fs.writeFileSync(latestPath, JSON.stringify(latest, null, 2));
+
+  const historyPath = path.join(statusDir, 'history', `${run.timestamp.split('T')[0]}-${run.package}.json`);
+  const history = readJson<TestRunSummary[]>(historyPath, []);
+  history.push(run);
+  fs.writeFileSync(historyPath, JSON.stringify(history, null, 2));
+
+  const summaryPath = path.join(statusDir, 'summary.json');
+  const summary = readJson<TestStatusSummary>(summaryPath, { lastUpdated: '', packages: {} });
+  summary.packages = summary.packages || {};
+  summary.packages[run.package] = {
+    lastRun: run.timestamp,
+    totalTests: run.totalTests,
+    passed: run.passed,
+    failed: run.failed,
+    skipped: run.skipped,
+    duration: run.duration,
+    status: run.failed > 0 ? 'failing' : 'passing'
+  };
+
+  const packages = Object.values(summary.packages);
+  summary.overall = {
+    totalTests: packages.reduce((sum, p) => sum + p.totalTests, 0),
+    passed: packages.reduce((sum, p) => sum + p.passed, 0),
+    failed: packages.reduce((sum, p) => sum + p.failed, 0),
+    skipped: packages.reduce((sum, p) => sum + p.skipped, 0),
+    packagesTotal: packages.length,
+    packagesFailing: packages.filter(p => p.status === 'failing').length
+  };
+  summary.lastUpdated = new Date().toISOString();
+  fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+}
@@ -0,0 +1,265 @@
+/**
+ * TodoIdentity - Content-anchored TODO identity
+ *
+ * Identifies a TODO by its file, type and normalized text rather than its
+ * line number, so that inserting code above a TODO does not make it "new".
+ * Edited TODOs and renamed files are matched across scans by text similarity,
+ * surrounding context and git rename detection.
+ */
+
+import * as crypto from 'crypto';
+import {
+  TodoIdentityInput,
+  TodoIdentityRecord,
+  IdentityMatch,
+  IdentityMatchOptions,
+  IdentityMigrationResult
+} from '../types/identity';
+
+/**
+ * Version of the identity scheme stored in state files
+ */
+export const TODO_IDENTITY_VERSION = 2;
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Normalize TODO text so whitespace, punctuation and casing edits
+ * don't change its identity
+ */
+export function normalizeTodoText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\*\/|-->)\s*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Generate the stable identity hash for a TODO
+ *
+ * `occurrence` disambiguates identical TODOs in the same file
+ * (0 for the first, 1 for the second...).
+ */
+export function generateStableTodoHash(todo: TodoIdentityInput, occurrence: number = 0): string {
+  const key = `${todo.file}:${todo.type}:${normalizeTodoText(todo.content)}`;
+  const content = occurrence > 0 ? `${key}#${occurrence}` : key;
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Generate the pre-identity hash (file:line:type:content)
+ *
+ * Only used to recognise entries in state files written before
+ * stable identities were introduced.
+ */
+export function generateLegacyTodoHash(
+  todo: TodoIdentityInput,
+  algorithm: 'md5' | 'sha256' = 'sha256'
+): string {
+  const content = `${todo.file}:${todo.line}:${todo.type}:${todo.content}`;
+  return crypto.createHash(algorithm).update(content).digest('hex');
+}
+
+/**
+ * Assign stable hashes to a list of TODOs, numbering duplicates in line order
+ */
+export function assignStableHashes(todos: TodoIdentityInput[]): string[] {
+  const order = todos
+    .map((todo, index) => ({ todo, index }))
+    .sort((a, b) => a.todo.file.localeCompare(b.todo.file) || a.todo.line - b.todo.line);
+
+  const seen = new Map<string, number>();
+  const hashes: string[] = new Array(todos.length);
+
+  for (const { todo, index } of order) {
+    const key = `${todo.file}:${todo.type}:${normalizeTodoText(todo.content)}`;
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    hashes[index] = generateStableTodoHash(todo, occurrence);
+  }
+
+  return hashes;
+}
+
+/**
+ * Extract normalized context (nearby non-blank lines) for a TODO
+ */
+export function extractTodoContext(lines: string[], line: number, radius: number = 2): string {
+  const before: string[] = [];
+  const after: string[] = [];
+
+  for (let i = line - 2; i >= 0 && before.length < radius; i--) {
+    const normalized = normalizeTodoText(lines[i]);
+    if (normalized) before.unshift(normalized);
+  }
+
+  for (let i = line; i < lines.length && after.length < radius; i++) {
+    const normalized = normalizeTodoText(lines[i]);
+    if (normalized) after.push(normalized);
+  }
+
+  return [...before, ...after].join('\n');
+}
+
+/**
+ * Token-based similarity (Dice coefficient) between two texts
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = normalizeTodoText(a).split(' ').filter(Boolean);
+  const tokensB = normalizeTodoText(b).split(' ').filter(Boolean);
+
+  if (tokensA.length === 0 && tokensB.length === 0) return 1;
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const token of tokensA) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (const token of tokensB) {
+    const count = counts.get(token) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(token, count - 1);
+    }
+  }
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Match current TODOs against previously recorded ones
+ *
+ * Returns one match per current TODO (same order). Matched TODOs keep the
+ * identity of the record they matched, so issue links survive moves,
+ * renames and small edits.
+ */
+export function matchTodoIdentities(
+  current: TodoIdentityInput[],
+  previous: TodoIdentityRecord[],
+  options: IdentityMatchOptions = {}
+): IdentityMatch[] {
+  const { renames = {}, similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD } = options;
+
+  const currentHashes = assignStableHashes(current);
+
+  // Re-derive previous identities at their (possibly renamed) paths
+  const relocated = previous.map(record => ({
+    ...record,
+    file: renames[record.file] || record.file
+  }));
+  const relocatedHashes = assignStableHashes(relocated);
+
+  const byHash = new Map<string, number>();
+  previous.forEach((record, index) => {
+    byHash.set(record.hash, index);
+    byHash.set(relocatedHashes[index], index);
+    for (const legacy of record.legacyHashes || []) {
+      byHash.set(legacy, index);
+    }
+  });
+
+  const matches: Array<IdentityMatch | undefined> = new Array(current.length);
+  const used = new Set<number>();
+
+  // Pass 1: exact identity (same file/type/text, any line)
+  current.forEach((todo, i) => {
+    const index = byHash.get(currentHashes[i]);
+    if (index === undefined || used.has(index)) return;
+
+    const record = previous[index];
+    used.add(index);
+    matches[i] = {
+      hash: record.hash,
+      previous: record,
+      kind: record.file !== todo.file ? 'renamed' : record.line !== todo.line ? 'moved' : 'unchanged',
+      score: 1
+    };
+  });
+
+  // Pass 2: fuzzy match edited TODOs within the same file, best scores first
+  const candidates: Array<{ i: number; index: number; score: number }> = [];
+  current.forEach((todo, i) => {
+    if (matches[i]) return;
+
+    relocated.forEach((record, index) => {
+      if (used.has(index) || record.file !== todo.file || record.type !== todo.type) return;
+
+      const textScore = textSimilarity(todo.content, record.content);
+      const score = todo.context && record.context
+        ? 0.75 * textScore + 0.25 * textSimilarity(todo.context, record.context)
+        : textScore;
+
+      if (score >= similarityThreshold) {
+        candidates.push({ i, index, score });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+  for (const { i, index, score } of candidates) {
+    if (matches[i] || used.has(index)) continue;
+
+    used.add(index);
+    matches[i] = {
+      hash: previous[index].hash,
+      previous: previous[index],
+      kind: 'edited',
+      score
+    };
+  }
+
+  return current.map((_, i) => matches[i] || {
+    hash: currentHashes[i],
+    kind: 'new',
+    score: 0
+  });
+}
+
+/**
+ * Apply previous identities to current TODOs, returning copies with `hash` set
+ */
+export function resolveTodoIdentities<T extends TodoIdentityInput & { hash?: string }>(
+  current: T[],
+  previous: TodoIdentityRecord[],
+  options: IdentityMatchOptions = {}
+): T[] {
+  const matches = matchTodoIdentities(current, previous, options);
+  return current.map((todo, i) => ({ ...todo, hash: matches[i].hash }));
+}
+
+/**
+ * Re-key records from a legacy state file with stable identities
+ *
+ * The old hash is kept in `legacyHashes` so that anything still referring
+ * to it (older analyzer output, issue bodies) continues to resolve.
+ */
+export function migrateTodoRecords<T extends TodoIdentityInput & { hash: string; legacyHashes?: string[] }>(
+  records: T[]
+): IdentityMigrationResult<T & { legacyHashes?: string[] }> {
+  const hashes = assignStableHashes(records);
+  const hashMap: Record<string, string> = {};
+  let migrated = 0;
+
+  const migratedRecords = records.map((record, i) => {
+    if (record.hash === hashes[i]) {
+      return record;
+    }
+
+    migrated++;
+    hashMap[record.hash] = hashes[i];
+    return {
+      ...record,
+      hash: hashes[i],
+      legacyHashes: Array.from(new Set([...(record.legacyHashes || []), record.hash]))
+    };
+  });
+
+  return {
+    records: migratedRecords,
+    hashMap,
+    migrated
+  };
+}
@@ -1,16 +1,23 @@
 /**
  * Shared library for Project Management Suite
- * Provides web viewing capabilities for all skills
+ * Provides web viewing capabilities, TODO identity and the test status feed for all skills
  */
 
 export { WebFetcher, webFetcher } from './core/WebFetcher';
-export { PlaywrightDriver } from './core/PlaywrightDriver';
+export { PlaywrightDriver, DEFAULT_LOGIN_SELECTORS } from './core/PlaywrightDriver';
 export { ScreenshotCapture } from './core/ScreenshotCapture';
 export { NetworkMonitor } from './core/NetworkMonitor';
 export { FeatureExtractor, FunctionalityChecker, VisualAnalyzer } from './core/FeatureExtractor';
+export * from './core/todoIdentity';
+export * from './core/totp';
+export * from './core/authProfiles';
+export * from './core/testStatus';
 // export { IntegrationWorkflow } from './workflows/IntegrationWorkflow'; // Commented out - has cross-package dependencies
 export * from './types';
 export * from './types/playwright';
 export * from './types/screenshot';
 export * from './types/network';
 export * from './types/extractors';
+export * from './types/identity';
+export * from './types/auth';
+export * from './types/testStatus';
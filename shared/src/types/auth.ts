@@ -0,0 +1,63 @@
+/**
+ * Types for reusable authentication profiles
+ */
+
+import type { Cookie } from 'playwright';
+import { StorageState } from './playwright';
+
+export type AuthProfileType = 'form' | 'cookies' | 'storage-state';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpOptions {
+  /** Base32 secret (or an otpauth:// URI) */
+  secret: string;
+  /** Code length (default: 6) */
+  digits?: number;
+  /** Time step in seconds (default: 30) */
+  period?: number;
+  /** HMAC algorithm (default: SHA1) */
+  algorithm?: TotpAlgorithm;
+}
+
+export interface FormLoginConfig {
+  /** Page with the login form */
+  loginUrl: string;
+  /** Username, or `env:NAME` to read it from the environment */
+  username: string;
+  /** Password, or `env:NAME` to read it from the environment */
+  password: string;
+  /** Form field selectors (default: common username/email/password fields) */
+  selectors?: {
+    username: string;
+    password: string;
+    submit: string;
+  };
+  /** One-time code step for MFA */
+  totp?: TotpOptions & {
+    /** Field for the code */
+    selector: string;
+    /** Button that submits the code (default: the form's submit selector) */
+    submit?: string;
+  };
+  /** Element that only exists once logged in; login fails without it */
+  successSelector?: string;
+}
+
+/**
+ * A saved way of logging in to a site
+ */
+export interface AuthProfile {
+  /** Profile name ([A-Za-z0-9_.-]) */
+  name: string;
+  type: AuthProfileType;
+  /** Site the profile logs in to */
+  baseUrl?: string;
+  /** For `form` profiles */
+  form?: FormLoginConfig;
+  /** For `cookies` profiles */
+  cookies?: Cookie[];
+  /** For `storage-state` profiles: a Playwright storageState object */
+  storageState?: StorageState;
+  createdAt: string;
+}
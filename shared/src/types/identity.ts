@@ -0,0 +1,69 @@
+/**
+ * Types for content-anchored TODO identity
+ */
+
+/**
+ * Minimal shape needed to derive a TODO's identity
+ */
+export interface TodoIdentityInput {
+  /** TODO type (TODO, FIXME, Unchecked Task...) */
+  type: string;
+  /** TODO text */
+  content: string;
+  /** Path relative to the repository root */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** Normalized text of the surrounding lines */
+  context?: string;
+}
+
+/**
+ * A TODO as persisted in an analyzer or manager state file
+ */
+export interface TodoIdentityRecord extends TodoIdentityInput {
+  /** Stable identity hash */
+  hash: string;
+  /** Hashes this TODO was known by before an identity migration */
+  legacyHashes?: string[];
+}
+
+/**
+ * How a current TODO relates to the previously recorded ones
+ */
+export type IdentityMatchKind =
+  | 'unchanged'  // Same file, same line, same text
+  | 'moved'      // Same file and text, different line
+  | 'renamed'    // File was renamed (git rename detection)
+  | 'edited'     // Text changed, matched by similarity and context
+  | 'new';       // No previous counterpart
+
+export interface IdentityMatch {
+  /** Identity the current TODO should carry */
+  hash: string;
+  /** Previous record this TODO was matched to */
+  previous?: TodoIdentityRecord;
+  /** Match classification */
+  kind: IdentityMatchKind;
+  /** Similarity score (0-1), 1 for exact matches */
+  score: number;
+}
+
+export interface IdentityMatchOptions {
+  /** Map of old path -> new path from git rename detection */
+  renames?: Record<string, string>;
+  /** Minimum similarity for fuzzy matches (default: 0.6) */
+  similarityThreshold?: number;
+}
+
+/**
+ * Result of migrating legacy (line-based) hashes to stable identities
+ */
+export interface IdentityMigrationResult<T> {
+  /** Records re-keyed with stable hashes */
+  records: T[];
+  /** Map of legacy hash -> stable hash */
+  hashMap: Record<string, string>;
+  /** Number of records whose hash changed */
+  migrated: number;
+}
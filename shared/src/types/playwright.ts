@@ -2,6 +2,8 @@
  * Types for PlaywrightDriver
  */
 
+import type { Cookie } from 'playwright';
+
 export type BrowserType = 'chromium' | 'firefox' | 'webkit';
 
 export interface PlaywrightOptions {
@@ -18,6 +20,16 @@ export interface PlaywrightOptions {
   userAgent?: string;
   /** Default timeout in milliseconds */
   timeout?: number;
+  /** Saved session (cookies and localStorage) to start the context with */
+  storageState?: StorageState;
+}
+
+export interface StorageState {
+  cookies: Cookie[];
+  origins: Array<{
+    origin: string;
+    localStorage: Array<{ name: string; value: string }>;
+  }>;
 }
 
 export interface NavigationOptions {
@@ -42,6 +54,17 @@ export interface AuthenticationOptions {
     password: string;
     submit: string;
   };
+  /** One-time code step shown after the password (MFA) */
+  mfa?: {
+    /** Field for the code */
+    selector: string;
+    /** Produces the code when the field appears */
+    code: () => string;
+    /** Button that submits the code (default: the form's submit selector) */
+    submit?: string;
+  };
+  /** Element that only exists once logged in */
+  successSelector?: string;
 }
 
 export interface ScreenshotOptions {
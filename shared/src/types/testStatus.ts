@@ -0,0 +1,60 @@
+/**
+ * Types for the .test-status feed read by the dashboard's tests view
+ */
+
+export interface TestStatusResult {
+  /** Unique ID from package, file and test name */
+  testId: string;
+  name: string;
+  suite: string;
+  package: string;
+  file: string;
+  status: 'passed' | 'failed' | 'skipped';
+  /** Run time in ms */
+  duration: number;
+  error?: {
+    message: string;
+    stack?: string;
+  };
+}
+
+/**
+ * One package's test run, as stored in latest.json and the history files
+ */
+export interface TestRunSummary {
+  timestamp: string;
+  package: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Run time in ms */
+  duration: number;
+  tests: TestStatusResult[];
+}
+
+/**
+ * A package's last run in summary.json
+ */
+export interface TestPackageStatus {
+  lastRun: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  status: 'passing' | 'failing';
+}
+
+export interface TestStatusSummary {
+  lastUpdated: string;
+  packages: Record<string, TestPackageStatus>;
+  overall?: {
+    totalTests: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    packagesTotal: number;
+    packagesFailing: number;
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for auth profiles and TOTP generation
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuthProfileStore,
+  cookieHeader,
+  parseCookieFile,
+  resolveSecret
+} from '../src/core/authProfiles';
+import { decodeBase32, generateTotp } from '../src/core/totp';
+import { AuthProfile } from '../src/types/auth';
+
+describe('AuthProfiles', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-profiles-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should generate RFC 6238 codes from base32 secrets and otpauth URIs', () => {
+    // "12345678901234567890" in base32, the RFC 6238 test secret
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    expect(decodeBase32('gezd gnbv gy3t qojq').toString()).toBe('1234567890');
+
+    expect(generateTotp({ secret, digits: 8 }, 59 * 1000)).toBe('94287082');
+    expect(generateTotp({ secret, digits: 8 }, 1111111109 * 1000)).toBe('07081804');
+    expect(generateTotp({ secret, digits: 8 }, 20000000000 * 1000)).toBe('65353130');
+    expect(generateTotp({ secret }, 59 * 1000)).toBe('287082');
+
+    const uri = `otpauth://totp/Acme:ops@example.com?secret=${secret}&issuer=Acme&digits=8&period=30`;
+    expect(generateTotp({ secret: uri }, 1234567890 * 1000)).toBe('89005924');
+    expect(() => generateTotp({ secret: 'not base32!' })).toThrow('Invalid base32 character');
+  });
+
+  it('should import Playwright, browser extension and Netscape cookie exports', () => {
+    const extension = parseCookieFile(JSON.stringify([
+      { name: 'sid', value: 'abc', domain: '.example.com', path: '/', expirationDate: 1900000000, httpOnly: true, secure: true, sameSite: 'no_restriction' },
+      { name: 'theme', value: 'dark', domain: 'app.example.com', session: true, sameSite: 'unspecified' }
+    ]));
+    expect(extension).toEqual([
+      { name: 'sid', value: 'abc', domain: '.example.com', path: '/', expires: 1900000000, httpOnly: true, secure: true, sameSite: 'None' },
+      { name: 'theme', value: 'dark', domain: 'app.example.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }
+    ]);
+
+    const netscape = parseCookieFile([
+      '# Netscape HTTP Cookie File',
+      '#HttpOnly_.example.com\tTRUE\t/\tTRUE\t0\tsid\tabc',
+      'example.com\tFALSE\t/admin\tFALSE\t1900000000\tcsrf\tx=y'
+    ].join('\n'));
+    expect(netscape.map(cookie => [cookie.name, cookie.value, cookie.path, cookie.expires, cookie.httpOnly, cookie.secure]))
+      .toEqual([['sid', 'abc', '/', -1, true, true], ['csrf', 'x=y', '/admin', 1900000000, false, false]]);
+
+    // Only cookies matching the host, path, scheme and expiry are sent
+    const now = 1800000000 * 1000;
+    expect(netscape[0].domain).toBe('.example.com');
+    expect(cookieHeader('https://app.example.com/admin/users', extension, now)).toBe('sid=abc; theme=dark');
+    expect(cookieHeader('https://example.com/admin/users', netscape, now)).toBe('sid=abc; csrf=x=y');
+    expect(cookieHeader('https://app.example.com/admin/users', netscape, now)).toBe('sid=abc');
+    expect(cookieHeader('http://example.com/administrator', netscape, now)).toBeUndefined();
+    expect(cookieHeader('https://example.com/', extension, 2000000000 * 1000)).toBeUndefined();
+  });
+
+  it('should save encrypted profiles that only load with the key', () => {
+    const profile: AuthProfile = {
+      name: 'staging-admin',
+      type: 'form',
+      baseUrl: 'https://staging.example.com',
+      form: {
+        loginUrl: 'https://staging.example.com/login',
+        username: 'ops@example.com',
+        password: 'env:STAGING_PASSWORD',
+        totp: { secret: 'JBSWY3DPEHPK3PXP', selector: '#otp' }
+      },
+      createdAt: '2026-01-01T00:00:00.000Z'
+    };
+    const store = new AuthProfileStore(testDir, 'correct horse');
+
+    const filePath = store.save(profile);
+    const stored = fs.readFileSync(filePath, 'utf-8');
+    expect(stored).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    expect(fs.readFileSync(path.join(testDir, '.gitignore'), 'utf-8')).toBe('*\n');
+
+    expect(store.load('staging-admin')).toEqual(profile);
+    expect(store.list()).toEqual(['staging-admin']);
+    expect(() => new AuthProfileStore(testDir, '').load('staging-admin')).toThrow('is encrypted');
+    expect(() => new AuthProfileStore(testDir, 'wrong').load('staging-admin')).toThrow('Could not decrypt');
+    expect(() => store.load('../etc/passwd')).toThrow('Invalid auth profile name');
+
+    expect(store.remove('staging-admin')).toBe(true);
+    expect(store.remove('staging-admin')).toBe(false);
+    expect(() => store.load('staging-admin')).toThrow('not found');
+  });
+
+  it('should resolve secrets from the environment', () => {
+    process.env.AUTH_PROFILES_TEST_SECRET = 'hunter2';
+    try {
+      expect(resolveSecret('env:AUTH_PROFILES_TEST_SECRET')).toBe('hunter2');
+      expect(resolveSecret('plain')).toBe('plain');
+      expect(() => resolveSecret('env:AUTH_PROFILES_TEST_MISSING')).toThrow('AUTH_PROFILES_TEST_MISSING is not set');
+    } finally {
+      delete process.env.AUTH_PROFILES_TEST_SECRET;
+    }
+  });
+});
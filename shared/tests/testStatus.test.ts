@@ -0,0 +1,59 @@
+/**
+ * Tests for the .test-status writer
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { recordTestRun, testStatusId } from '../src/core/testStatus';
+import { TestRunSummary } from '../src/types/testStatus';
+
+function run(packageName: string, passed: number, failed: number): TestRunSummary {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    package: packageName,
+    totalTests: passed + failed,
+    passed,
+    failed,
+    skipped: 0,
+    duration: 1000,
+    tests: []
+  };
+}
+
+describe('TestStatus', () => {
+  let statusDir: string;
+
+  beforeEach(() => {
+    statusDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-status-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(statusDir, { recursive: true, force: true });
+  });
+
+  it('should build test IDs from package, file and name', () => {
+    expect(testStatusId('manager', 'tests/sync.test.ts', 'Sync should work')).toBe('manager:tests/sync_test_ts:Sync_should_work');
+  });
+
+  it('should merge runs into latest, history and summary', () => {
+    // Older reporters wrote a single run, and a broken summary starts over
+    fs.writeFileSync(path.join(statusDir, 'latest.json'), JSON.stringify(run('shared', 3, 0)));
+    fs.writeFileSync(path.join(statusDir, 'summary.json'), '{"packages": ');
+
+    recordTestRun(statusDir, run('manager', 8, 2));
+    recordTestRun(statusDir, run('analyzer', 5, 0));
+    recordTestRun(statusDir, run('manager', 10, 0));
+
+    const latest = JSON.parse(fs.readFileSync(path.join(statusDir, 'latest.json'), 'utf-8'));
+    expect(latest.map((entry: TestRunSummary) => [entry.package, entry.passed])).toEqual([['shared', 3], ['analyzer', 5], ['manager', 10]]);
+
+    const history = JSON.parse(fs.readFileSync(path.join(statusDir, 'history', '2026-03-01-manager.json'), 'utf-8'));
+    expect(history.map((entry: TestRunSummary) => entry.failed)).toEqual([2, 0]);
+
+    const summary = JSON.parse(fs.readFileSync(path.join(statusDir, 'summary.json'), 'utf-8'));
+    expect(Object.keys(summary.packages)).toEqual(['manager', 'analyzer']);
+    expect(summary.packages.manager).toMatchObject({ lastRun: '2026-03-01T10:00:00.000Z', passed: 10, failed: 0, status: 'passing' });
+    expect(summary.overall).toEqual({ totalTests: 15, passed: 15, failed: 0, skipped: 0, packagesTotal: 2, packagesFailing: 0 });
+  });
+});
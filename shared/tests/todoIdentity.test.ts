@@ -0,0 +1,106 @@
+/**
+ * Tests for content-anchored TODO identity
+ */
+
+import {
+  normalizeTodoText,
+  generateStableTodoHash,
+  generateLegacyTodoHash,
+  assignStableHashes,
+  extractTodoContext,
+  matchTodoIdentities,
+  migrateTodoRecords
+} from '../src/core/todoIdentity';
+import { TodoIdentityRecord } from '../src/types/identity';
+
+describe('TodoIdentity', () => {
+  const todo = {
+    type: 'TODO',
+    content: 'Add retry logic to the upload client',
+    file: 'src/upload.ts',
+    line: 10
+  };
+
+  describe('generateStableTodoHash', () => {
+    it('should not depend on the line number', () => {
+      expect(generateStableTodoHash(todo)).toBe(generateStableTodoHash({ ...todo, line: 42 }));
+      expect(generateStableTodoHash(todo)).toHaveLength(64);
+    });
+
+    it('should ignore whitespace, punctuation and casing', () => {
+      const edited = { ...todo, content: 'add  retry logic to the Upload client.' };
+      expect(generateStableTodoHash(edited)).toBe(generateStableTodoHash(todo));
+    });
+
+    it('should distinguish identical TODOs by occurrence', () => {
+      const hashes = assignStableHashes([todo, { ...todo, line: 20 }]);
+      expect(hashes[0]).not.toBe(hashes[1]);
+      expect(hashes[0]).toBe(generateStableTodoHash(todo));
+    });
+  });
+
+  describe('normalizeTodoText', () => {
+    it('should strip comment terminators and punctuation', () => {
+      expect(normalizeTodoText('Update docs -->')).toBe('update docs');
+      expect(normalizeTodoText('Refactor (soon)! */')).toBe('refactor soon');
+    });
+  });
+
+  describe('extractTodoContext', () => {
+    it('should collect nearby non-blank lines', () => {
+      const lines = ['function upload() {', '', '  // TODO: retry', '  send();', '}'];
+      expect(extractTodoContext(lines, 3)).toBe('function upload\nsend');
+    });
+  });
+
+  describe('matchTodoIdentities', () => {
+    const previous: TodoIdentityRecord[] = [
+      { ...todo, hash: generateStableTodoHash(todo), context: 'async function upload\nawait send file' }
+    ];
+
+    it('should treat a TODO moved to another line as the same TODO', () => {
+      const [match] = matchTodoIdentities([{ ...todo, line: 15 }], previous);
+      expect(match.kind).toBe('moved');
+      expect(match.hash).toBe(previous[0].hash);
+    });
+
+    it('should match an edited TODO by similarity and context', () => {
+      const edited = {
+        ...todo,
+        content: 'Add retry logic with backoff to the upload client',
+        context: 'async function upload\nawait send file'
+      };
+      const [match] = matchTodoIdentities([edited], previous);
+      expect(match.kind).toBe('edited');
+      expect(match.hash).toBe(previous[0].hash);
+    });
+
+    it('should follow git renames', () => {
+      const moved = { ...todo, file: 'src/client/upload.ts' };
+      const [match] = matchTodoIdentities([moved], previous, {
+        renames: { 'src/upload.ts': 'src/client/upload.ts' }
+      });
+      expect(match.kind).toBe('renamed');
+      expect(match.hash).toBe(previous[0].hash);
+    });
+
+    it('should report unrelated TODOs as new', () => {
+      const other = { ...todo, content: 'Remove the deprecated export helpers' };
+      const [match] = matchTodoIdentities([other], previous);
+      expect(match.kind).toBe('new');
+      expect(match.hash).toBe(generateStableTodoHash(other));
+    });
+  });
+
+  describe('migrateTodoRecords', () => {
+    it('should re-key legacy hashes and remember them', () => {
+      const legacyHash = generateLegacyTodoHash(todo);
+      const { records, hashMap, migrated } = migrateTodoRecords([{ ...todo, hash: legacyHash }]);
+
+      expect(migrated).toBe(1);
+      expect(records[0].hash).toBe(generateStableTodoHash(todo));
+      expect(records[0].legacyHashes).toEqual([legacyHash]);
+      expect(hashMap[legacyHash]).toBe(records[0].hash);
+    });
+  });
+});